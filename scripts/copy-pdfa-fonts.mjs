@@ -0,0 +1,44 @@
+// scripts/copy-pdfa-fonts.mjs
+/**
+ * Copy the fonts PDF/A conversion embeds in place of unembedded standard
+ * fonts into public/fonts/pdfa. Arimo, Tinos and Cousine share their metrics
+ * with Helvetica, Times and Courier, so text keeps its layout.
+ */
+
+import { copyFileSync, existsSync, mkdirSync } from 'fs';
+import { dirname, join } from 'path';
+import { fileURLToPath } from 'url';
+
+const rootDir = join(dirname(fileURLToPath(import.meta.url)), '..');
+const nodeModules = join(rootDir, 'node_modules');
+const targetDir = join(rootDir, 'public', 'fonts', 'pdfa');
+
+const fonts = [
+  ['arimo', 'Arimo', 'sans'],
+  ['tinos', 'Tinos', 'serif'],
+  ['cousine', 'Cousine', 'mono']
+];
+
+// Bold and italic text keeps its weight and slant
+const styles = [
+  ['400Regular', 'regular'],
+  ['700Bold', 'bold'],
+  ['400Regular_Italic', 'italic'],
+  ['700Bold_Italic', 'boldItalic']
+];
+
+let copied = 0;
+for (const [packageName, fontName, family] of fonts) {
+  for (const [weight, style] of styles) {
+    const source = join(nodeModules, '@expo-google-fonts', packageName, weight, `${fontName}_${weight}.ttf`);
+    if (!existsSync(source)) {
+      console.warn(`[pdfa-fonts] Missing ${source}, skipping`);
+      continue;
+    }
+    mkdirSync(targetDir, { recursive: true });
+    copyFileSync(source, join(targetDir, `${family}-${style}.ttf`));
+    copied++;
+  }
+}
+
+console.log(`[pdfa-fonts] Copied ${copied} font(s) to public/fonts/pdfa`);
@@ -0,0 +1,54 @@
+// scripts/copy-tesseract-assets.mjs
+/**
+ * Copy the tesseract.js worker, WASM core and installed language data into
+ * public/tesseract so OCR runs fully offline instead of loading from a CDN.
+ *
+ * Languages are picked up from every installed @tesseract.js-data/<lang>
+ * package; add another package to make its language available.
+ */
+
+import { copyFileSync, existsSync, mkdirSync, readdirSync } from 'fs';
+import { dirname, join } from 'path';
+import { fileURLToPath } from 'url';
+
+const rootDir = join(dirname(fileURLToPath(import.meta.url)), '..');
+const nodeModules = join(rootDir, 'node_modules');
+const targetDir = join(rootDir, 'public', 'tesseract');
+
+const copyInto = (source, destination) => {
+  if (!existsSync(source)) {
+    console.warn(`[tesseract-assets] Missing ${source}, skipping`);
+    return;
+  }
+  mkdirSync(dirname(destination), { recursive: true });
+  copyFileSync(source, destination);
+};
+
+// Worker script
+copyInto(
+  join(nodeModules, 'tesseract.js', 'dist', 'worker.min.js'),
+  join(targetDir, 'worker.min.js')
+);
+
+// WASM core builds with the binary inlined (the worker picks the SIMD/LSTM
+// variant the browser supports)
+const coreDir = join(nodeModules, 'tesseract.js-core');
+if (existsSync(coreDir)) {
+  for (const file of readdirSync(coreDir)) {
+    if (file.startsWith('tesseract-core') && file.endsWith('.wasm.js')) {
+      copyInto(join(coreDir, file), join(targetDir, 'core', file));
+    }
+  }
+}
+
+// Trained language data (LSTM "best_int" models, gzipped)
+const langPackagesDir = join(nodeModules, '@tesseract.js-data');
+const languages = existsSync(langPackagesDir) ? readdirSync(langPackagesDir) : [];
+for (const lang of languages) {
+  copyInto(
+    join(langPackagesDir, lang, '4.0.0_best_int', `${lang}.traineddata.gz`),
+    join(targetDir, 'lang', `${lang}.traineddata.gz`)
+  );
+}
+
+console.log(`[tesseract-assets] Copied worker, core and ${languages.length} language(s) to public/tesseract`);
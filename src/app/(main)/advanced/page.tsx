@@ -5,6 +5,7 @@ import { useFileContext } from "@/context/FileContext";
 import { useAuth } from "@/context/AuthContext";
 import { FileObject } from "@/utils/authUtils";
 import { useRouter } from "next/navigation";
+import { comparePDFs, PDFComparisonResult } from "@/utils/conversionUtils";
 
 const AdvancedTools: React.FC = () => {
   const { files, updateFile } = useFileContext();
@@ -13,16 +14,43 @@ const AdvancedTools: React.FC = () => {
   const [toolType, setToolType] = useState<'compare' | 'bulk-compress' | 'format-detect' | 'export'>('compare');
   const [isProcessing, setIsProcessing] = useState(false);
   const [progress, setProgress] = useState(0);
+  const [pdfComparison, setPdfComparison] = useState<PDFComparisonResult | null>(null);
+  const [comparedNames, setComparedNames] = useState<[string, string]>(['', '']);
+  const [expandedComparisonPage, setExpandedComparisonPage] = useState<number | null>(null);
   const router = useRouter();
 
   // File comparison functionality
-  const handleFileComparison = () => {
+  const handleFileComparison = async () => {
     if (selectedFiles.length !== 2) {
       alert("Please select exactly 2 files to compare");
       return;
     }
 
     const [file1, file2] = selectedFiles;
+
+    // Two PDFs get a page-by-page visual and text diff
+    if (file1.type === 'application/pdf' && file2.type === 'application/pdf') {
+      setIsProcessing(true);
+      setProgress(0);
+      setPdfComparison(null);
+      setExpandedComparisonPage(null);
+
+      try {
+        const result = await comparePDFs(file1.base64, file2.base64, {
+          nameA: file1.name,
+          nameB: file2.name,
+          onProgress: setProgress
+        });
+        setPdfComparison(result);
+        setComparedNames([file1.name, file2.name]);
+      } catch (error) {
+        console.error('PDF comparison error:', error);
+        alert('Failed to compare the PDFs. Please check that both files open correctly.');
+      } finally {
+        setIsProcessing(false);
+      }
+      return;
+    }
     const comparison = {
       nameMatch: file1.name === file2.name,
       sizeMatch: file1.size === file2.size,
@@ -149,6 +177,15 @@ Date Difference: ${Math.round(comparison.dateDifference / (1000 * 60 * 60 * 24))
     return Math.round((base64Data.length * 3) / 4);
   };
 
+  const handleDownloadComparisonReport = () => {
+    if (!pdfComparison) return;
+
+    const a = document.createElement('a');
+    a.href = pdfComparison.report;
+    a.download = `comparison_${comparedNames[0].replace(/\.pdf$/i, '')}_vs_${comparedNames[1].replace(/\.pdf$/i, '')}.pdf`;
+    a.click();
+  };
+
   const handleFileSelection = (file: FileObject, checked: boolean) => {
     if (checked) {
       setSelectedFiles(prev => [...prev, file]);
@@ -265,15 +302,103 @@ Date Difference: ${Math.round(comparison.dateDifference / (1000 * 60 * 60 * 24))
           {toolType === 'compare' && (
             <div className="space-y-4">
               <p className="text-sm text-gray-600">
-                Compare two files to see differences in size, type, and metadata.
+                Compare two files to see differences in size, type, and metadata. Two PDFs are
+                compared page by page, with changed areas highlighted and inserted and deleted words
+                listed.
               </p>
+              {selectedFiles.length === 2 && (
+                <div className="text-sm text-gray-700 bg-gray-50 rounded p-3 space-y-1">
+                  <p><span className="font-medium">Original:</span> {selectedFiles[0].name}</p>
+                  <p><span className="font-medium">Revised:</span> {selectedFiles[1].name}</p>
+                  <button
+                    onClick={() => setSelectedFiles([selectedFiles[1], selectedFiles[0]])}
+                    className="text-xs text-indigo-600 hover:underline"
+                  >
+                    Swap original and revised
+                  </button>
+                </div>
+              )}
+              {isProcessing && (
+                <div className="w-full bg-gray-200 rounded-full h-2.5">
+                  <div
+                    className="bg-indigo-600 h-2.5 rounded-full transition-all duration-300"
+                    style={{ width: `${progress}%` }}
+                  ></div>
+                </div>
+              )}
               <button
                 onClick={handleFileComparison}
                 disabled={selectedFiles.length !== 2 || isProcessing}
                 className="w-full py-3 px-4 bg-indigo-600 text-white rounded hover:bg-indigo-700 disabled:bg-gray-300"
               >
-                Compare Selected Files
+                {isProcessing ? 'Comparing...' : 'Compare Selected Files'}
               </button>
+
+              {pdfComparison && (
+                <div className="space-y-3">
+                  <div className="flex items-center justify-between">
+                    <p className="text-sm font-medium text-gray-800">
+                      {pdfComparison.pages.filter(page => page.status !== 'unchanged').length === 0
+                        ? 'No differences found'
+                        : `${pdfComparison.pages.filter(page => page.status === 'changed').length} changed, ${pdfComparison.pages.filter(page => page.status === 'inserted').length} inserted, ${pdfComparison.pages.filter(page => page.status === 'deleted').length} deleted`}
+                    </p>
+                    <button
+                      onClick={handleDownloadComparisonReport}
+                      className="px-3 py-1 text-sm bg-indigo-600 text-white rounded hover:bg-indigo-700"
+                    >
+                      Download Report (PDF)
+                    </button>
+                  </div>
+                  <div className="max-h-[32rem] overflow-y-auto space-y-2">
+                    {pdfComparison.pages.map((page, index) => (
+                      <div key={index} className="border border-gray-200 rounded">
+                        <button
+                          onClick={() => setExpandedComparisonPage(expandedComparisonPage === index ? null : index)}
+                          disabled={page.status === 'unchanged'}
+                          className="w-full flex justify-between px-3 py-2 text-sm text-left text-gray-800 disabled:text-gray-400"
+                        >
+                          <span>
+                            Page {page.pageA === null ? '-' : page.pageA + 1} → {page.pageB === null ? '-' : page.pageB + 1}
+                          </span>
+                          <span className={{
+                            unchanged: 'text-gray-400',
+                            changed: 'text-amber-600',
+                            inserted: 'text-green-600',
+                            deleted: 'text-red-600'
+                          }[page.status]}>
+                            {page.status}
+                            {page.status === 'changed' && ` · ${page.regions.length} region(s)`}
+                          </span>
+                        </button>
+                        {expandedComparisonPage === index && (
+                          <div className="px-3 pb-3 space-y-2">
+                            {page.overlay && (
+                              // eslint-disable-next-line @next/next/no-img-element
+                              <img src={page.overlay} alt="Page differences" className="w-full border border-gray-200" />
+                            )}
+                            <p className="text-sm text-gray-700 leading-relaxed">
+                              {page.textChanges.some(change => change.type !== 'equal')
+                                ? page.textChanges.map((change, changeIndex) => (
+                                  <span
+                                    key={changeIndex}
+                                    className={
+                                      change.type === 'insert' ? 'bg-green-100 text-green-800 underline'
+                                        : change.type === 'delete' ? 'bg-red-100 text-red-800 line-through'
+                                        : ''
+                                    }
+                                  >
+                                    {change.text}{' '}
+                                  </span>
+                                ))
+                                : 'No text changes; the differences are visual only.'}
+                            </p>
+                          </div>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
             </div>
           )}
 
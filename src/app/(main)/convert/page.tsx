@@ -13,6 +13,7 @@ import {
   generatePDFFromImage,
   isConversionSupported,
   getBase64FileSize,
+  safeBtoa,
   // PDF → Other Formats
   convertPDFToImages,
   convertPDFToText,
@@ -38,12 +39,18 @@ import {
   // OCR & Scanned
   convertScannedPDFToSearchable,
   convertImageToSearchablePDF,
+  convertScannedPDFToText,
+  performOCR,
+  OCR_LANGUAGES,
   // Specialized
   convertPDFToFillableForm,
   convertLaTeXToPDF,
   convertSVGToPDF,
   // AI Smart
-  summarizePDFToShortPDF
+  summarizePDFToShortPDF,
+  // Split
+  splitPDF,
+  PDFSplitMode
 } from "@/utils/conversionUtils";
 
 // Comprehensive format options for all conversion types
@@ -104,6 +111,11 @@ const FileConverter: React.FC = () => {
   const [watermarkOpacity, setWatermarkOpacity] = useState(0.7);
   const [mergeFormat, setMergeFormat] = useState<'pdf' | 'zip'>('pdf');
   const [splitPages, setSplitPages] = useState<number>(1);
+  const [splitMode, setSplitMode] = useState<PDFSplitMode>('everyN');
+  const [splitRanges, setSplitRanges] = useState('');
+  const [splitMaxSizeMB, setSplitMaxSizeMB] = useState(5);
+  const [splitNameTemplate, setSplitNameTemplate] = useState('{name}_part{part}');
+  const [ocrLanguage, setOcrLanguage] = useState('eng');
   const [showPreview, setShowPreview] = useState(false);
   const [previewFile, setPreviewFile] = useState<FileObject | null>(null);
   const [dragOver, setDragOver] = useState(false);
@@ -219,11 +231,58 @@ const FileConverter: React.FC = () => {
       return;
     }
 
+    if (operationType === 'split' && selectedFile.type !== 'application/pdf') {
+      setConversionError("Only PDF files can be split");
+      return;
+    }
+
     setIsConverting(true);
     setConversionError("");
     setConversionProgress(0);
 
     try {
+      if (operationType === 'split') {
+        // Splitting adds the parts as new files and leaves the original untouched
+        setConversionProgress(25);
+        const parts = await splitPDF(selectedFile.base64, splitRanges, {
+          mode: splitMode,
+          pagesPerFile: splitPages,
+          maxFileSize: splitMaxSizeMB * 1024 * 1024,
+          nameTemplate: splitNameTemplate,
+          fileName: selectedFile.name
+        });
+        setConversionProgress(75);
+
+        parts.forEach((part, index) => {
+          addFile({
+            id: `split_${Date.now()}_${index}`,
+            name: part.name,
+            type: "application/pdf",
+            size: getBase64FileSize(part.pdf),
+            base64: part.pdf,
+            dateAdded: new Date().toISOString(),
+            processed: true,
+            isSignature: false,
+          });
+        });
+
+        setConversionHistory(prev => [{
+          fileName: selectedFile.name,
+          operation: operationType,
+          targetFormat: `${parts.length} PDFs`,
+          timestamp: new Date().toISOString(),
+          originalSize: selectedFile.size,
+          newSize: parts.reduce((sum, part) => sum + getBase64FileSize(part.pdf), 0),
+        }, ...prev.slice(0, 9)]);
+
+        setSelectedFile(null);
+        setConversionProgress(100);
+        setTimeout(() => {
+          alert(`PDF split into ${parts.length} files! Check your dashboard to see them.`);
+        }, 500);
+        return;
+      }
+
       let convertedBase64 = selectedFile.base64;
       let newFileName = selectedFile.name;
 
@@ -237,11 +296,28 @@ const FileConverter: React.FC = () => {
         switch (targetFormat) {
           case 'jpg':
           case 'png':
-          case 'tiff':
-            convertedBase64 = (await convertPDFToImages(selectedFile.base64, targetFormat))[0] || selectedFile.base64;
+          case 'tiff': {
+            const pageImages = await convertPDFToImages(selectedFile.base64, targetFormat);
+            convertedBase64 = pageImages[0] || selectedFile.base64;
+
+            // The first page replaces the PDF, every following page becomes its own file
+            const pdfBaseName = selectedFile.name.replace(/\.pdf$/i, '');
+            pageImages.slice(1).forEach((pageImage, index) => {
+              addFile({
+                id: `pdf_page_${Date.now()}_${index + 2}`,
+                name: `${pdfBaseName}_page${index + 2}.${targetFormat}`,
+                type: pageImage.split(';')[0].split(':')[1],
+                size: getBase64FileSize(pageImage),
+                base64: pageImage,
+                dateAdded: new Date().toISOString(),
+                processed: true,
+                isSignature: false,
+              });
+            });
             break;
+          }
           case 'txt':
-            convertedBase64 = await convertPDFToText(selectedFile.base64);
+            convertedBase64 = `data:text/plain;base64,${safeBtoa(await convertPDFToText(selectedFile.base64))}`;
             break;
           case 'docx':
             convertedBase64 = await convertPDFToWord(selectedFile.base64);
@@ -317,19 +393,25 @@ const FileConverter: React.FC = () => {
         newFileName = selectedFile.name.replace(/\.[^.]+$/, '.pdf');
 
       } else if (operationType === 'ocr') {
-        // OCR processing
-        setConversionProgress(50);
-        if (targetFormat === 'pdf') {
-          convertedBase64 = await convertScannedPDFToSearchable(selectedFile.base64);
-        } else if (targetFormat === 'txt') {
-          convertedBase64 = await convertPDFToText(selectedFile.base64);
+        // OCR processing, reporting recognition progress between 25% and 90%
+        const onOCRProgress = (progress: number) => setConversionProgress(Math.round(25 + progress * 65));
+
+        if (targetFormat === 'txt') {
+          const ocrText = selectedFile.type === 'application/pdf'
+            ? await convertScannedPDFToText(selectedFile.base64, { language: ocrLanguage, onProgress: onOCRProgress })
+            : await performOCR(selectedFile.base64, { language: ocrLanguage, onProgress: onOCRProgress });
+          convertedBase64 = `data:text/plain;base64,${safeBtoa(ocrText)}`;
+          newFileName = selectedFile.name.replace(/\.[^.]+$/, '.txt');
         } else if (targetFormat === 'docx') {
           convertedBase64 = await convertPDFToWord(selectedFile.base64);
-        } else if (selectedFile.type.startsWith("image/")) {
-          convertedBase64 = await convertImageToSearchablePDF(selectedFile.base64);
+          newFileName = selectedFile.name.replace(/\.[^.]+$/, '.docx');
+        } else {
+          // Every other OCR option produces a searchable PDF
+          convertedBase64 = selectedFile.type.startsWith("image/")
+            ? await convertImageToSearchablePDF(selectedFile.base64, { language: ocrLanguage, onProgress: onOCRProgress })
+            : await convertScannedPDFToSearchable(selectedFile.base64, { language: ocrLanguage, onProgress: onOCRProgress });
+          newFileName = selectedFile.name.replace(/\.[^.]+$/, '_searchable.pdf');
         }
-        setConversionProgress(75);
-        newFileName = selectedFile.name.replace(/\.[^.]+$/, `.${targetFormat}`);
 
       } else if (operationType === 'specialized') {
         // Specialized conversions
@@ -372,10 +454,10 @@ const FileConverter: React.FC = () => {
           setConversionProgress(75);
           newFileName = selectedFile.name.replace(/\.txt$/i, ".pdf");
         } else if (selectedFile.type === "application/pdf" && ["jpg", "jpeg", "png"].includes(targetFormat)) {
-          // PDF to image (simplified - would need pdf-lib in real implementation)
+          // PDF to image (first page)
           setConversionProgress(50);
-          // For now, we'll simulate this
-          convertedBase64 = selectedFile.base64; // Placeholder
+          const imageFormat = targetFormat === 'png' ? 'png' : 'jpg';
+          convertedBase64 = (await convertPDFToImages(selectedFile.base64, imageFormat, { pages: [1] }))[0];
           setConversionProgress(75);
           newFileName = selectedFile.name.replace(/\.pdf$/i, `.${targetFormat}`);
         } else {
@@ -1328,15 +1410,66 @@ const FileConverter: React.FC = () => {
                         Split Options:
                       </label>
                       <div className="space-y-2">
+                        <select
+                          value={splitMode}
+                          onChange={(e) => setSplitMode(e.target.value as PDFSplitMode)}
+                          className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500 text-black"
+                        >
+                          <option value="everyN">Every N pages</option>
+                          <option value="ranges">By page ranges</option>
+                          <option value="maxSize">Under a maximum file size</option>
+                          <option value="bookmarks">At each top-level bookmark</option>
+                          <option value="blankPages">At blank separator pages</option>
+                          <option value="oddEven">Odd and even pages</option>
+                        </select>
+                        {splitMode === 'everyN' && (
+                          <div>
+                            <label className="text-sm text-gray-600">Pages per file:</label>
+                            <input
+                              type="number"
+                              min="1"
+                              value={splitPages}
+                              onChange={(e) => setSplitPages(parseInt(e.target.value) || 1)}
+                              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500 text-black"
+                            />
+                          </div>
+                        )}
+                        {splitMode === 'ranges' && (
+                          <div>
+                            <label className="text-sm text-gray-600">Page ranges:</label>
+                            <input
+                              type="text"
+                              value={splitRanges}
+                              onChange={(e) => setSplitRanges(e.target.value)}
+                              placeholder="e.g., 1-5,8,10-15"
+                              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500 text-black"
+                            />
+                          </div>
+                        )}
+                        {splitMode === 'maxSize' && (
+                          <div>
+                            <label className="text-sm text-gray-600">Maximum file size (MB):</label>
+                            <input
+                              type="number"
+                              min="0.1"
+                              step="0.1"
+                              value={splitMaxSizeMB}
+                              onChange={(e) => setSplitMaxSizeMB(Math.max(0.1, parseFloat(e.target.value) || 0.1))}
+                              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500 text-black"
+                            />
+                          </div>
+                        )}
                         <div>
-                          <label className="text-sm text-gray-600">Pages per file:</label>
+                          <label className="text-sm text-gray-600">File names:</label>
                           <input
-                            type="number"
-                            min="1"
-                            value={splitPages}
-                            onChange={(e) => setSplitPages(parseInt(e.target.value) || 1)}
+                            type="text"
+                            value={splitNameTemplate}
+                            onChange={(e) => setSplitNameTemplate(e.target.value)}
                             className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500 text-black"
                           />
+                          <p className="text-xs text-gray-500 mt-1">
+                            Use {'{name}'}, {'{part}'}, {'{start}'}, {'{end}'} and {'{title}'}.
+                          </p>
                         </div>
                       </div>
                     </div>
@@ -1557,6 +1690,21 @@ const FileConverter: React.FC = () => {
                       </select>
                     </div>
 
+                    <div>
+                      <label className="block text-sm font-medium text-black mb-1">
+                        Document Language:
+                      </label>
+                      <select
+                        value={ocrLanguage}
+                        onChange={(e) => setOcrLanguage(e.target.value)}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-indigo-500 text-black"
+                      >
+                        {OCR_LANGUAGES.map(language => (
+                          <option key={language.code} value={language.code}>{language.name}</option>
+                        ))}
+                      </select>
+                    </div>
+
                     {targetFormat && (
                       <div className="bg-orange-50 p-4 rounded-lg">
                         <h4 className="font-medium text-orange-800 mb-2">OCR Processing Details:</h4>
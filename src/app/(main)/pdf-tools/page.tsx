@@ -1,10 +1,12 @@
 "use client";
 
-import React, { useState } from "react";
+import React, { useEffect, useRef, useState } from "react";
 import { useFileContext } from "@/context/FileContext";
 import { useAuth } from "@/context/AuthContext";
 import { FileObject } from "@/utils/authUtils";
+import { fileToBase64, formatBytes } from "@/utils/fileUtils";
 import { useRouter } from "next/navigation";
+import { useSelectedPdfLoader } from "@/hooks/useSelectedPdfLoader";
 import {
   addWatermarkToPDF,
   mergePDFs,
@@ -14,20 +16,62 @@ import {
   rotatePDF,
   reorderPDF,
   deletePDFPages,
+  layoutPDF,
   addPageNumbersToPDF,
+  addHeaderFooterToPDF,
+  formatBatesNumber,
   editPDFMetadata,
+  getPDFMetadata,
+  stripPDFMetadata,
+  inspectPDF,
+  repairPDF,
   addAnnotationToPDF,
+  getPDFAnnotations,
+  exportPDFAnnotations,
+  importPDFAnnotations,
   fillPDFForm,
   processBatchPDFOperations,
   convertPDFToImagesAdvanced,
   performOCR,
+  convertScannedPDFToText,
+  convertScannedPDFToSearchable,
+  convertImageToSearchablePDF,
+  OCR_LANGUAGES,
   addDigitalSignature,
+  verifyDigitalSignatures,
   convertVideoToPDFAdvanced,
   convertPDFToEBookAdvanced,
   extractTextFromPDFAdvanced,
   addPasswordProtection,
-  safeBtoa
+  removePasswordProtection,
+  isPDFEncrypted,
+  safeBtoa,
+  getPDFFormFields,
+  FormFieldValue,
+  FormFillReport,
+  PDFFormFieldInfo,
+  PDFAnnotationType,
+  PDFAnnotationInfo,
+  PDFCompressionReport,
+  convertToPDFA,
+  validatePDFA,
+  redactPDF,
+  getPDFBookmarks,
+  setPDFBookmarks,
+  PDFSplitMode,
+  PDFLayoutMode,
+  PDFLayoutOrder,
+  PDFPageSize,
+  PDFHeaderFooterOptions,
+  PDFHeaderFooterSlots,
+  PDFWatermarkOptions
 } from "@/utils/conversionUtils";
+import type { PDFSignatureVerification } from "@/utils/pdfSignatureUtils";
+import type { PDFAFontFace, PDFAFontFamily, PDFAValidationResult } from "@/utils/pdfArchiveUtils";
+import type { PDFRedactionLogEntry, PDFRedactionRegion } from "@/utils/pdfRedactionUtils";
+import { applyBookmarkEdit, PDFBookmark, PDFBookmarkEdit } from "@/utils/pdfOutlineUtils";
+import type { PDFMetadataFields, PDFMetadataInfo, PDFXMPProperty } from "@/utils/pdfMetadataUtils";
+import type { PDFRepairReport, PDFStructureReport } from "@/utils/pdfRepairUtils";
 
 const PDFTools: React.FC = () => {
   const { files, updateFile, addFile } = useFileContext();
@@ -59,26 +103,120 @@ const PDFTools: React.FC = () => {
 
   // PDF-related state
   const [compressionLevel, setCompressionLevel] = useState(0.8);
+  const [compressionDpi, setCompressionDpi] = useState(150);
+  const [compressImages, setCompressImages] = useState(true);
+  const [removeUnusedObjects, setRemoveUnusedObjects] = useState(true);
+  const [removeDuplicateStreams, setRemoveDuplicateStreams] = useState(true);
+  const [removeMetadata, setRemoveMetadata] = useState(false);
+  const [compressionResults, setCompressionResults] = useState<{ name: string; report: PDFCompressionReport }[]>([]);
   const [watermarkText, setWatermarkText] = useState('Convortex');
+  const [watermarkType, setWatermarkType] = useState<'text' | 'image'>('text');
+  const [watermarkImage, setWatermarkImage] = useState<{ name: string; data: string } | null>(null);
+  const [watermarkSettings, setWatermarkSettings] = useState<PDFWatermarkOptions>({
+    fontSize: 50,
+    opacity: 0.3,
+    position: 'center',
+    rotation: 45,
+    imageScale: 0.3,
+    tile: false,
+    tileSpacing: 60,
+    pageRange: '',
+    layer: 'over'
+  });
   const [password, setPassword] = useState('');
+  const [ownerPassword, setOwnerPassword] = useState('');
+  const [lockedFile, setLockedFile] = useState<FileObject | null>(null);
+  const [unlockPassword, setUnlockPassword] = useState('');
+  const [isUnlocking, setIsUnlocking] = useState(false);
+  const [passwordEncryption, setPasswordEncryption] = useState<'aes-128' | 'aes-256'>('aes-256');
+  const [passwordPermissions, setPasswordPermissions] = useState({
+    printing: true,
+    copying: false,
+    modifying: false,
+    annotating: false,
+    fillingForms: true,
+  });
   const [pageRange, setPageRange] = useState('');
+  const [splitMode, setSplitMode] = useState<PDFSplitMode>('ranges');
+  const [splitPagesPerFile, setSplitPagesPerFile] = useState(1);
+  const [splitMaxSizeMB, setSplitMaxSizeMB] = useState(5);
+  const [splitBlankThreshold, setSplitBlankThreshold] = useState(0.001);
+  const [splitNameTemplate, setSplitNameTemplate] = useState('{name}_part{part}');
+  const [bookmarkMergedFiles, setBookmarkMergedFiles] = useState(true);
+  const [mergeTableOfContents, setMergeTableOfContents] = useState(false);
+  const [pdfBookmarks, setPdfBookmarks] = useState<PDFBookmark[]>([]);
+  const [newBookmark, setNewBookmark] = useState({ title: '', page: 1 });
   const [rotationAngle, setRotationAngle] = useState<'90' | '180' | '270'>('90');
   const [pagesToDelete, setPagesToDelete] = useState('');
   const [pageOrder, setPageOrder] = useState('');
+  const [layoutMode, setLayoutMode] = useState<PDFLayoutMode>('nUp');
+  const [layoutGrid, setLayoutGrid] = useState({ columns: 2, rows: 1 });
+  const [layoutSheetSize, setLayoutSheetSize] = useState<PDFPageSize | 'auto'>('auto');
+  const [layoutOrientation, setLayoutOrientation] = useState<'portrait' | 'landscape' | 'auto'>('auto');
+  const [layoutMargins, setLayoutMargins] = useState(18);
+  const [layoutGutter, setLayoutGutter] = useState(12);
+  const [layoutOrder, setLayoutOrder] = useState<PDFLayoutOrder>('rows');
+  const [layoutBorders, setLayoutBorders] = useState(false);
   const [extractedText, setExtractedText] = useState('');
+  const [ocrLanguage, setOcrLanguage] = useState('eng');
+  const [ocrStatus, setOcrStatus] = useState('');
+  const [ocrOutput, setOcrOutput] = useState<'pdf' | 'txt'>('pdf');
   const [pageNumberFormat, setPageNumberFormat] = useState<'1,2,3' | 'Page 1' | '1/10'>('Page 1');
   const [pageNumberPosition, setPageNumberPosition] = useState<'bottom-center' | 'bottom-left' | 'bottom-right' | 'top-center'>('bottom-center');
-  const [metadata, setMetadata] = useState({
+  const [stampHeader, setStampHeader] = useState<PDFHeaderFooterSlots>({ left: '{filename}', center: '', right: '{date}' });
+  const [stampFooter, setStampFooter] = useState<PDFHeaderFooterSlots>({ left: '', center: 'Page {page} of {total}', right: '' });
+  const [stampPageRange, setStampPageRange] = useState('');
+  const [stampPageParity, setStampPageParity] = useState<'all' | 'odd' | 'even'>('all');
+  const [batesEnabled, setBatesEnabled] = useState(false);
+  const [batesOptions, setBatesOptions] = useState({ prefix: '', suffix: '', digits: 6, start: 1 });
+  const [metadata, setMetadata] = useState<PDFMetadataFields>({
     title: '',
     author: '',
     subject: '',
     keywords: '',
-    creator: ''
+    creator: '',
+    producer: '',
+    language: ''
   });
+  const [loadedMetadata, setLoadedMetadata] = useState<PDFMetadataInfo | null>(null);
+  const [customInfoRows, setCustomInfoRows] = useState<{ key: string; value: string }[]>([]);
+  const [xmpProperties, setXmpProperties] = useState<PDFXMPProperty[]>([]);
+  const [newXmpProperty, setNewXmpProperty] = useState({ namespace: '', prefix: '', name: '', value: '' });
   const [annotationText, setAnnotationText] = useState('');
   const [annotationPosition, setAnnotationPosition] = useState({ x: 100, y: 100 });
-  const [signatureText, setSignatureText] = useState('');
-  const [formData, setFormData] = useState<Record<string, string>>({});
+  const [annotationType, setAnnotationType] = useState<PDFAnnotationType>('text');
+  const [annotationSize, setAnnotationSize] = useState({ width: 200, height: 50 });
+  const [annotationPage, setAnnotationPage] = useState(1);
+  const [annotationColor, setAnnotationColor] = useState('#ffd100');
+  const [inkStrokes, setInkStrokes] = useState<Array<Array<{ x: number; y: number }>>>([]);
+  const inkCanvasRef = useRef<HTMLCanvasElement>(null);
+  const [pdfAnnotations, setPdfAnnotations] = useState<PDFAnnotationInfo[]>([]);
+  const isDrawingInkRef = useRef(false);
+  const [signatureCertificate, setSignatureCertificate] = useState<{ name: string; data: string } | null>(null);
+  const [certificatePassword, setCertificatePassword] = useState('');
+  const [signatureReason, setSignatureReason] = useState('');
+  const [signatureLocation, setSignatureLocation] = useState('');
+  const [visibleSignature, setVisibleSignature] = useState(true);
+  const [signatureImageId, setSignatureImageId] = useState('');
+  const [signaturePage, setSignaturePage] = useState(1);
+  const [signaturePosition, setSignaturePosition] = useState({ x: 350, y: 50 });
+  const [signatureReport, setSignatureReport] = useState<PDFSignatureVerification[] | null>(null);
+  const [pdfaPassword, setPdfaPassword] = useState('');
+  const [pdfaFonts, setPdfaFonts] = useState<Partial<Record<PDFAFontFamily, { name: string; data: Uint8Array }>>>({});
+  const [pdfaReport, setPdfaReport] = useState<PDFAValidationResult | null>(null);
+  const [pdfaFixes, setPdfaFixes] = useState<string[]>([]);
+  const [structureReport, setStructureReport] = useState<PDFStructureReport | null>(null);
+  const [repairReport, setRepairReport] = useState<PDFRepairReport | null>(null);
+  const [redactionRegion, setRedactionRegion] = useState({ page: 1, x: 50, y: 50, width: 200, height: 20 });
+  const [redactionRegions, setRedactionRegions] = useState<PDFRedactionRegion[]>([]);
+  const [redactionTerms, setRedactionTerms] = useState('');
+  const [redactionUseRegex, setRedactionUseRegex] = useState(false);
+  const [redactionCaseSensitive, setRedactionCaseSensitive] = useState(false);
+  const [redactionLog, setRedactionLog] = useState<PDFRedactionLogEntry[] | null>(null);
+  const [formFields, setFormFields] = useState<PDFFormFieldInfo[]>([]);
+  const [formData, setFormData] = useState<Record<string, FormFieldValue>>({});
+  const [flattenForm, setFlattenForm] = useState(false);
+  const [formFillReport, setFormFillReport] = useState<FormFillReport | null>(null);
   const [ebookFormat, setEbookFormat] = useState<'epub' | 'mobi'>('epub');
   const [batchOperations, setBatchOperations] = useState<string[]>([]);
   const [processingHistory] = useState<{ fileName: string; operation: string; timestamp: string }[]>([]);
@@ -112,6 +250,11 @@ const PDFTools: React.FC = () => {
       return 'To split a PDF, select one PDF file and use the PDF Split tool. You can specify page ranges like "1-5,8,10-15" to create multiple smaller files.';
     }
 
+    // Repairing damaged files
+    if (lowerPrompt.includes('repair') || lowerPrompt.includes('broken') || lowerPrompt.includes('corrupt') || lowerPrompt.includes('damaged')) {
+      return 'Use the PDF Doctor in the Advanced category. It shows what is wrong with the file and rebuilds damaged cross-reference tables, truncated files and page trees into a clean copy the other tools can open.';
+    }
+
     // Compression operations
     if (lowerPrompt.includes('compress') || lowerPrompt.includes('reduce') || lowerPrompt.includes('shrink') || lowerPrompt.includes('size')) {
       return 'Use the PDF Compression tool to reduce file size. Adjust the quality slider - lower quality means smaller files but potentially reduced image quality.';
@@ -130,7 +273,7 @@ const PDFTools: React.FC = () => {
 
     // OCR operations
     if (lowerPrompt.includes('ocr') || lowerPrompt.includes('searchable') || lowerPrompt.includes('text') || lowerPrompt.includes('scan')) {
-      return 'OCR functionality converts scanned PDFs to searchable text. This feature requires the Tesseract.js library and is currently in development.';
+      return 'Use the OCR tool in the Intermediate category to recognize text in scanned PDFs and images. Pick the document language first; recognition runs entirely in your browser.';
     }
 
     // Watermark operations
@@ -140,7 +283,7 @@ const PDFTools: React.FC = () => {
 
     // Password operations
     if (lowerPrompt.includes('password') || lowerPrompt.includes('protect') || lowerPrompt.includes('secure') || lowerPrompt.includes('lock')) {
-      return 'Password protection is not available in the current client-side implementation. This feature requires server-side processing for security reasons.';
+      return 'I can encrypt your PDFs with AES-256 or AES-128. Use the Password Protect tool to set an open password, an optional owner password and what readers may do with the document.';
     }
 
     // Help and general queries
@@ -174,7 +317,11 @@ const PDFTools: React.FC = () => {
       setProgress(25);
 
       // Merge PDFs using pdf-lib
-      const mergedPdfBase64 = await mergePDFs(pdfBase64Array);
+      const mergedPdfBase64 = await mergePDFs(pdfBase64Array, {
+        fileNames: selectedFiles.map(file => file.name),
+        bookmarkFiles: bookmarkMergedFiles,
+        tableOfContents: mergeTableOfContents
+      });
 
       setProgress(75);
 
@@ -209,7 +356,7 @@ const PDFTools: React.FC = () => {
       return;
     }
 
-    if (!pageRange.trim()) {
+    if (splitMode === 'ranges' && !pageRange.trim()) {
       showError('Please specify page ranges to split (e.g., 1-5,8,10-15)');
       return;
     }
@@ -219,18 +366,22 @@ const PDFTools: React.FC = () => {
 
     try {
       // Split PDF using pdf-lib
-      const splitPdfBase64Array = await splitPDF(selectedFiles[0].base64, pageRange);
+      const splitParts = await splitPDF(selectedFiles[0].base64, pageRange, {
+        mode: splitMode,
+        pagesPerFile: splitPagesPerFile,
+        maxFileSize: splitMaxSizeMB * 1024 * 1024,
+        blankThreshold: splitBlankThreshold,
+        nameTemplate: splitNameTemplate,
+        fileName: selectedFiles[0].name
+      });
 
       setProgress(75);
 
       // Create split file objects
-      const baseName = selectedFiles[0].name.replace(/\.pdf$/i, '');
-      const timestamp = new Date().toISOString().slice(0, 19).replace(/:/g, '-');
-
-      splitPdfBase64Array.forEach((splitPdfBase64, index) => {
+      splitParts.forEach(({ name, pdf: splitPdfBase64 }, index) => {
         const splitFile: FileObject = {
           id: `split_${Date.now()}_${index}`,
-          name: `${baseName}_split_${pageRange.replace(/[^a-zA-Z0-9]/g, '_')}_part${index + 1}_${timestamp}.pdf`,
+          name,
           type: 'application/pdf',
           size: splitPdfBase64.length,
           base64: splitPdfBase64,
@@ -244,11 +395,15 @@ const PDFTools: React.FC = () => {
 
       setProgress(100);
       setIsProcessing(false);
-      showSuccess(`PDF split successfully into ${splitPdfBase64Array.length} parts!`);
+      showSuccess(`PDF split successfully into ${splitParts.length} parts!`);
     } catch (error) {
       console.error('Split error:', error);
       setIsProcessing(false);
-      showError('Failed to split PDF. Please check your page ranges and try again.');
+      showError(
+        error instanceof Error && error.message !== 'Failed to split PDF'
+          ? error.message
+          : 'Failed to split PDF. Please check your settings and try again.'
+      );
     }
   };
 
@@ -358,34 +513,39 @@ const PDFTools: React.FC = () => {
 
     setIsProcessing(true);
     setProgress(25);
+    setCompressionResults([]);
 
     try {
+      const results: { name: string; report: PDFCompressionReport }[] = [];
       for (let i = 0; i < selectedFiles.length; i++) {
         const file = selectedFiles[i];
         setProgress(Math.round(((i + 0.5) / selectedFiles.length) * 100));
 
         // Compress PDF using pdf-lib
-        const compressedPdfBase64 = await compressPDF(file.base64, {
+        const { pdf: compressedPdfBase64, report } = await compressPDF(file.base64, {
           quality: compressionLevel,
-          removeUnusedObjects: true,
-          optimizeFonts: true,
-          compressImages: true
+          targetDpi: compressionDpi,
+          compressImages,
+          removeUnusedObjects,
+          removeDuplicateStreams,
+          removeMetadata
         });
 
-        // Calculate new size
-        const newSize = compressedPdfBase64.length;
-
         updateFile(file.id, {
           base64: compressedPdfBase64,
-          size: newSize,
+          size: report.compressedSize,
           processed: true,
           dateProcessed: new Date().toISOString(),
         });
+        results.push({ name: file.name, report });
       }
 
+      setCompressionResults(results);
       setProgress(100);
       setIsProcessing(false);
-      showSuccess(`PDFs compressed successfully with ${Math.round(compressionLevel * 100)}% quality!`);
+      const originalTotal = results.reduce((sum, { report }) => sum + report.originalSize, 0);
+      const compressedTotal = results.reduce((sum, { report }) => sum + report.compressedSize, 0);
+      showSuccess(`PDFs compressed from ${formatBytes(originalTotal)} to ${formatBytes(compressedTotal)}!`);
     } catch (error) {
       console.error('Compression error:', error);
       setIsProcessing(false);
@@ -393,14 +553,167 @@ const PDFTools: React.FC = () => {
     }
   };
 
-  const handleFileSelection = (file: FileObject, checked: boolean) => {
+  // Read the form schema of the selected PDF whenever the forms tool is open
+  const formSourceFile = activeTool === 'forms' && selectedFiles.length === 1 && selectedFiles[0].type === 'application/pdf'
+    ? selectedFiles[0]
+    : null;
+
+  const isLoadingFormFields = useSelectedPdfLoader(formSourceFile, {
+    load: getPDFFormFields,
+    onReset: () => {
+      setFormFields([]);
+      setFormData({});
+      setFormFillReport(null);
+    },
+    onLoad: fields => {
+      setFormFields(fields);
+      // Start from the values already stored in the document
+      setFormData(Object.fromEntries(
+        fields
+          .filter(field => !field.readOnly && field.type !== 'button' && field.type !== 'signature')
+          .map(field => [field.name, field.value])
+      ));
+    },
+    onError: error => {
+      console.error('Form field detection error:', error);
+      showError('Failed to read form fields from this PDF');
+    }
+  });
+
+  // List the comments of the selected PDF whenever the annotations tool is open
+  const annotationSourceFile = activeTool === 'annotations' && selectedFiles.length === 1 && selectedFiles[0].type === 'application/pdf'
+    ? selectedFiles[0]
+    : null;
+
+  const isLoadingAnnotations = useSelectedPdfLoader(annotationSourceFile, {
+    load: getPDFAnnotations,
+    onReset: () => setPdfAnnotations([]),
+    onLoad: setPdfAnnotations,
+    onError: error => {
+      console.error('Annotation reading error:', error);
+      showError('Failed to read the annotations of this PDF');
+    }
+  });
+
+  // Load the bookmark tree of the selected PDF whenever the bookmarks tool is open
+  const bookmarkSourceFile = activeTool === 'bookmarks' && selectedFiles.length === 1 && selectedFiles[0].type === 'application/pdf'
+    ? selectedFiles[0]
+    : null;
+
+  const isLoadingBookmarks = useSelectedPdfLoader(bookmarkSourceFile, {
+    load: getPDFBookmarks,
+    onReset: () => setPdfBookmarks([]),
+    onLoad: setPdfBookmarks,
+    onError: error => {
+      console.error('Bookmark reading error:', error);
+      showError('Failed to read the bookmarks of this PDF');
+    }
+  });
+
+  // Load the current metadata of the selected PDF whenever the metadata tool is open
+  const metadataSourceFile = activeTool === 'metadata' && selectedFiles.length === 1 && selectedFiles[0].type === 'application/pdf'
+    ? selectedFiles[0]
+    : null;
+
+  const isLoadingMetadata = useSelectedPdfLoader(metadataSourceFile, {
+    load: getPDFMetadata,
+    onReset: () => setLoadedMetadata(null),
+    onLoad: info => {
+      setLoadedMetadata(info);
+      setMetadata({
+        title: info.title,
+        author: info.author,
+        subject: info.subject,
+        keywords: info.keywords,
+        creator: info.creator,
+        producer: info.producer,
+        language: info.language
+      });
+      setCustomInfoRows(Object.entries(info.customInfo).map(([key, value]) => ({ key, value })));
+      setXmpProperties(info.xmp);
+    },
+    onError: error => {
+      console.error('Metadata reading error:', error);
+      showError('Failed to read the metadata of this PDF');
+    }
+  });
+
+  // Verify the signatures of the selected PDF whenever the verify tool is open
+  const verifySourceFile = activeTool === 'verify' && selectedFiles.length === 1 && selectedFiles[0].type === 'application/pdf'
+    ? selectedFiles[0]
+    : null;
+
+  const isVerifyingSignatures = useSelectedPdfLoader(verifySourceFile, {
+    load: verifyDigitalSignatures,
+    onReset: () => setSignatureReport(null),
+    onLoad: setSignatureReport,
+    onError: error => {
+      console.error('Signature verification error:', error);
+      showError('Failed to verify the signatures of this PDF');
+    }
+  });
+
+  // Inspect the structure of the selected PDF whenever the doctor tool is open
+  const doctorSourceFile = activeTool === 'doctor' && selectedFiles.length === 1 && selectedFiles[0].type === 'application/pdf'
+    ? selectedFiles[0]
+    : null;
+
+  const isInspectingPDF = useSelectedPdfLoader(doctorSourceFile, {
+    load: inspectPDF,
+    onReset: () => {
+      setStructureReport(null);
+      setRepairReport(null);
+    },
+    onLoad: setStructureReport,
+    onError: error => {
+      console.error('PDF inspection error:', error);
+      showError('Failed to inspect this PDF. It may be too damaged to read.');
+    }
+  });
+
+  const handleFileSelection = async (file: FileObject, checked: boolean) => {
     if (checked) {
+      // Encrypted PDFs must be unlocked before any tool can read them
+      if (file.type === 'application/pdf' && await isPDFEncrypted(file.base64)) {
+        setLockedFile(file);
+        setUnlockPassword('');
+        return;
+      }
       setSelectedFiles(prev => [...prev, file]);
     } else {
       setSelectedFiles(prev => prev.filter(f => f.id !== file.id));
     }
   };
 
+  // Replace a password protected PDF with its decrypted copy and select it
+  const handleUnlockPDF = async () => {
+    if (!lockedFile) return;
+
+    setIsUnlocking(true);
+
+    try {
+      const unlockedPdfBase64 = await removePasswordProtection(lockedFile.base64, unlockPassword);
+      const unlockedFile: FileObject = {
+        ...lockedFile,
+        base64: unlockedPdfBase64,
+        size: unlockedPdfBase64.length,
+      };
+
+      updateFile(lockedFile.id, { base64: unlockedFile.base64, size: unlockedFile.size });
+      setSelectedFiles(prev => [...prev, unlockedFile]);
+      setLockedFile(null);
+      setUnlockPassword('');
+      showSuccess(`${lockedFile.name} unlocked`);
+    } catch (error) {
+      console.error('PDF unlock error:', error);
+      showError(error instanceof Error && error.message === 'Incorrect password'
+        ? 'Incorrect password, please try again'
+        : 'Failed to unlock PDF');
+    } finally {
+      setIsUnlocking(false);
+    }
+  };
+
   // Rotate PDF pages
   const handleRotatePages = async () => {
     if (selectedFiles.length !== 1) {
@@ -521,6 +834,55 @@ const PDFTools: React.FC = () => {
     }
   };
 
+  // Lay out several pages per sheet or as a booklet
+  const handleLayoutPages = async () => {
+    if (selectedFiles.length !== 1) {
+      showError('Please select 1 PDF file to lay out');
+      return;
+    }
+
+    setIsProcessing(true);
+    setProgress(25);
+
+    try {
+      const layoutPdfBase64 = await layoutPDF(selectedFiles[0].base64, {
+        mode: layoutMode,
+        columns: layoutGrid.columns,
+        rows: layoutGrid.rows,
+        sheetSize: layoutSheetSize,
+        orientation: layoutOrientation,
+        margins: layoutMargins,
+        gutter: layoutGutter,
+        order: layoutOrder,
+        borders: layoutBorders
+      });
+
+      setProgress(75);
+
+      const baseName = selectedFiles[0].name.replace(/\.pdf$/i, '');
+      const suffix = layoutMode === 'booklet' ? 'booklet' : `${layoutGrid.columns * layoutGrid.rows}up`;
+
+      const layoutFile: FileObject = {
+        ...selectedFiles[0],
+        id: `layout_${Date.now()}`,
+        name: `${baseName}_${suffix}.pdf`,
+        base64: layoutPdfBase64,
+        size: layoutPdfBase64.length,
+        processed: true,
+        dateProcessed: new Date().toISOString(),
+      };
+
+      addFile(layoutFile);
+      setProgress(100);
+      setIsProcessing(false);
+      showSuccess(layoutMode === 'booklet' ? 'Booklet created successfully!' : 'Pages laid out successfully!');
+    } catch (error) {
+      console.error('Layout error:', error);
+      setIsProcessing(false);
+      showError(error instanceof Error && error.message !== 'Failed to lay out PDF pages' ? error.message : 'Failed to lay out PDF pages');
+    }
+  };
+
   // Extract text from PDF
   const handleExtractText = async () => {
     if (selectedFiles.length !== 1) {
@@ -544,6 +906,12 @@ const PDFTools: React.FC = () => {
 
       setExtractedText(result.text);
 
+      if (!result.text.trim()) {
+        setIsProcessing(false);
+        showError('No text layer found in this PDF. Use the OCR tool for scanned documents.');
+        return;
+      }
+
       // Create text file
       const baseName = selectedFiles[0].name.replace(/\.pdf$/i, '');
       const timestamp = new Date().toISOString().slice(0, 19).replace(/:/g, '-');
@@ -580,7 +948,7 @@ const PDFTools: React.FC = () => {
 
       setProgress(100);
       setIsProcessing(false);
-      showSuccess(`Text extracted successfully! ${result.images ? `Also extracted ${result.images.length} images.` : ''}`);
+      showSuccess(`Text extracted from ${result.metadata?.pages} page${result.metadata?.pages === 1 ? '' : 's'} successfully! ${result.images ? `Also extracted ${result.images.length} images.` : ''}`);
     } catch (error) {
       console.error('Text extraction error:', error);
       setIsProcessing(false);
@@ -589,17 +957,28 @@ const PDFTools: React.FC = () => {
   };
 
   // Add watermark to PDF
+  const getWatermarkOptions = (): PDFWatermarkOptions => ({
+    ...watermarkSettings,
+    color: { r: 0.5, g: 0.5, b: 0.5 },
+    image: watermarkType === 'image' ? watermarkImage?.data : undefined
+  });
+
   const handleAddWatermark = async () => {
     if (selectedFiles.length === 0) {
       showError('Please select PDF files to watermark');
       return;
     }
 
-    if (!watermarkText.trim()) {
+    if (watermarkType === 'text' && !watermarkText.trim()) {
       showError('Please enter watermark text');
       return;
     }
 
+    if (watermarkType === 'image' && !watermarkImage) {
+      showError('Please choose a PNG or JPEG watermark image');
+      return;
+    }
+
     setIsProcessing(true);
     setProgress(0);
 
@@ -611,12 +990,7 @@ const PDFTools: React.FC = () => {
         const watermarkedBase64 = await addWatermarkToPDF(
           selectedFiles[i].base64,
           watermarkText,
-          {
-            fontSize: 50,
-            color: { r: 0.5, g: 0.5, b: 0.5 },
-            opacity: 0.3,
-            position: 'center'
-          }
+          getWatermarkOptions()
         );
 
         // Create watermarked file
@@ -642,7 +1016,9 @@ const PDFTools: React.FC = () => {
     } catch (error) {
       console.error('Watermark error:', error);
       setIsProcessing(false);
-      showError('Failed to add watermark to PDFs. Please try again.');
+      showError(error instanceof Error && error.message.startsWith('The watermark')
+        ? error.message
+        : 'Failed to add watermark to PDFs. Please try again.');
     }
   };
 
@@ -692,6 +1068,69 @@ const PDFTools: React.FC = () => {
     }
   };
 
+  const getHeaderFooterOptions = (): PDFHeaderFooterOptions => ({
+    header: stampHeader,
+    footer: stampFooter,
+    bates: batesEnabled ? batesOptions : undefined,
+    pageRange: stampPageRange,
+    pageParity: stampPageParity
+  });
+
+  // Stamp headers, footers and Bates numbers, numbering the selected files as one production
+  const handleAddHeaderFooter = async () => {
+    if (selectedFiles.length === 0) {
+      showError('Please select at least 1 PDF file');
+      return;
+    }
+
+    setIsProcessing(true);
+    setProgress(10);
+
+    try {
+      let batesNumber = batesOptions.start;
+
+      for (const [index, file] of selectedFiles.entries()) {
+        const options = getHeaderFooterOptions();
+        const { pdf, nextBatesNumber } = await addHeaderFooterToPDF(file.base64, {
+          ...options,
+          fileName: file.name,
+          bates: options.bates && { ...options.bates, start: batesNumber }
+        });
+
+        const baseName = file.name.replace(/\.pdf$/i, '');
+        const batesRange = batesEnabled
+          ? `_${formatBatesNumber(batesNumber, batesOptions)}-${formatBatesNumber(nextBatesNumber - 1, batesOptions)}`
+          : '_stamped';
+        batesNumber = nextBatesNumber;
+
+        const stampedFile: FileObject = {
+          ...file,
+          id: `stamped_${Date.now()}_${index}`,
+          name: `${baseName}${batesRange}.pdf`.replace(/[\\/:*?"<>|]/g, '_'),
+          base64: pdf,
+          size: pdf.length,
+          processed: true,
+          dateProcessed: new Date().toISOString(),
+        };
+
+        addFile(stampedFile);
+        setProgress(10 + Math.round(((index + 1) / selectedFiles.length) * 90));
+      }
+
+      setIsProcessing(false);
+      showSuccess(batesEnabled
+        ? `Stamped ${selectedFiles.length} file(s). The next Bates number is ${formatBatesNumber(batesNumber, batesOptions)}.`
+        : `Stamped ${selectedFiles.length} file(s) successfully!`);
+      if (batesEnabled) {
+        setBatesOptions(prev => ({ ...prev, start: batesNumber }));
+      }
+    } catch (error) {
+      console.error('Header and footer error:', error);
+      setIsProcessing(false);
+      showError(error instanceof Error && error.message.startsWith('No pages match') ? error.message : 'Failed to add header and footer');
+    }
+  };
+
   // Edit PDF metadata
   const handleEditMetadata = async () => {
     if (selectedFiles.length !== 1) {
@@ -703,8 +1142,26 @@ const PDFTools: React.FC = () => {
     setProgress(25);
 
     try {
+      // Only changed properties are written back, so untouched ones keep
+      // their exact form; properties removed from the list are cleared
+      const keyOf = (property: PDFXMPProperty) => `${property.namespace}${property.name}`;
+      const loadedProperties = new Map((loadedMetadata?.xmp ?? []).map(property => [keyOf(property), property]));
+      const changedProperties = xmpProperties.filter(property =>
+        JSON.stringify(property.value) !== JSON.stringify(loadedProperties.get(keyOf(property))?.value)
+      );
+      const keptProperties = new Set(xmpProperties.map(keyOf));
+      const removedProperties = (loadedMetadata?.xmp ?? [])
+        .filter(property => !keptProperties.has(keyOf(property)))
+        .map(property => ({ ...property, value: '' }));
+
       // Edit PDF metadata using pdf-lib
-      const updatedPdfBase64 = await editPDFMetadata(selectedFiles[0].base64, metadata);
+      const updatedPdfBase64 = await editPDFMetadata(selectedFiles[0].base64, {
+        ...metadata,
+        customInfo: Object.fromEntries(
+          customInfoRows.filter(row => row.key.trim()).map(row => [row.key.trim(), row.value])
+        ),
+        xmp: [...changedProperties, ...removedProperties]
+      });
 
       setProgress(75);
 
@@ -732,6 +1189,60 @@ const PDFTools: React.FC = () => {
     }
   };
 
+  // Remove every trace of document metadata
+  const handleStripMetadata = async () => {
+    if (selectedFiles.length !== 1) {
+      showError('Please select exactly 1 PDF file');
+      return;
+    }
+
+    setIsProcessing(true);
+    setProgress(25);
+
+    try {
+      const strippedPdfBase64 = await stripPDFMetadata(selectedFiles[0].base64);
+
+      setProgress(75);
+
+      const baseName = selectedFiles[0].name.replace(/\.pdf$/i, '');
+      const timestamp = new Date().toISOString().slice(0, 19).replace(/:/g, '-');
+
+      const strippedFile: FileObject = {
+        ...selectedFiles[0],
+        id: `stripped_${Date.now()}`,
+        name: `${baseName}_stripped_${timestamp}.pdf`,
+        base64: strippedPdfBase64,
+        size: strippedPdfBase64.length,
+        processed: true,
+        dateProcessed: new Date().toISOString(),
+      };
+
+      addFile(strippedFile);
+      setProgress(100);
+      setIsProcessing(false);
+      showSuccess('All metadata removed from the PDF');
+    } catch (error) {
+      console.error('Metadata stripping error:', error);
+      setIsProcessing(false);
+      showError('Failed to strip PDF metadata');
+    }
+  };
+
+  // Add a property typed into the XMP form, replacing one with the same name
+  const handleAddXmpProperty = () => {
+    const namespace = newXmpProperty.namespace.trim();
+    const name = newXmpProperty.name.trim();
+    if (!namespace || !/^[A-Za-z_][\w.-]*$/.test(name)) {
+      showError('Enter a namespace URI and a property name without spaces');
+      return;
+    }
+    setXmpProperties(prev => [
+      ...prev.filter(property => property.namespace !== namespace || property.name !== name),
+      { namespace, prefix: newXmpProperty.prefix.trim(), name, value: newXmpProperty.value }
+    ]);
+    setNewXmpProperty({ namespace: '', prefix: '', name: '', value: '' });
+  };
+
   // Convert video to PDF (advanced implementation)
   const handleVideoToPDF = async () => {
     if (selectedFiles.length === 0) {
@@ -781,23 +1292,86 @@ const PDFTools: React.FC = () => {
     }
   };
 
+  // Ink strokes are stored in canvas-relative coordinates (0-1)
+  useEffect(() => {
+    const canvas = inkCanvasRef.current;
+    const context = canvas?.getContext('2d');
+    if (!canvas || !context) return;
+
+    context.clearRect(0, 0, canvas.width, canvas.height);
+    context.strokeStyle = annotationColor;
+    context.lineWidth = 2;
+    context.lineCap = 'round';
+    context.lineJoin = 'round';
+    inkStrokes.forEach(stroke => {
+      context.beginPath();
+      stroke.forEach((point, index) => {
+        const method = index === 0 ? 'moveTo' : 'lineTo';
+        context[method](point.x * canvas.width, point.y * canvas.height);
+      });
+      context.stroke();
+    });
+  }, [inkStrokes, annotationColor, annotationType, annotationSize]);
+
+  const getInkPoint = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return {
+      x: Math.min(1, Math.max(0, (e.clientX - rect.left) / rect.width)),
+      y: Math.min(1, Math.max(0, (e.clientY - rect.top) / rect.height))
+    };
+  };
+
+  const handleInkPointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    isDrawingInkRef.current = true;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setInkStrokes(prev => [...prev, [getInkPoint(e)]]);
+  };
+
+  const handleInkPointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!isDrawingInkRef.current) return;
+    const point = getInkPoint(e);
+    setInkStrokes(prev => [...prev.slice(0, -1), [...prev[prev.length - 1], point]]);
+  };
+
+  const handleInkPointerUp = () => {
+    isDrawingInkRef.current = false;
+  };
+
   // Add PDF annotations
+  const annotationNeedsText = annotationType === 'text' || annotationType === 'freeText';
+
   const handleAddAnnotation = async () => {
-    if (selectedFiles.length !== 1 || !annotationText.trim()) {
+    if (selectedFiles.length !== 1 || (annotationNeedsText && !annotationText.trim())) {
       showError('Please select 1 PDF file and enter annotation text');
       return;
     }
+    if (annotationType === 'ink' && inkStrokes.length === 0) {
+      showError('Please draw on the ink canvas first');
+      return;
+    }
 
     setIsProcessing(true);
     setProgress(25);
 
     try {
-      // Add annotation using pdf-lib
+      const { x, y } = annotationPosition;
+      const { width, height } = annotationSize;
+      const hex = parseInt(annotationColor.slice(1), 16);
+
+      // Add annotation using pdf-lib; ink strokes are scaled from the canvas into the annotation box
       const annotatedPdfBase64 = await addAnnotationToPDF(selectedFiles[0].base64, {
+        type: annotationType,
         text: annotationText,
-        x: annotationPosition.x,
-        y: annotationPosition.y,
-        pageIndex: 0
+        x,
+        y,
+        width: annotationType === 'text' ? undefined : width,
+        height: annotationType === 'text' ? undefined : height,
+        pageIndex: annotationPage - 1,
+        author: currentUser?.displayName || currentUser?.email || undefined,
+        color: { r: ((hex >> 16) & 255) / 255, g: ((hex >> 8) & 255) / 255, b: (hex & 255) / 255 },
+        inkList: annotationType === 'ink'
+          ? inkStrokes.map(stroke => stroke.map(point => ({ x: x + point.x * width, y: y + (1 - point.y) * height })))
+          : undefined
       });
 
       setProgress(75);
@@ -818,6 +1392,7 @@ const PDFTools: React.FC = () => {
       addFile(annotatedFile);
       setProgress(100);
       setIsProcessing(false);
+      setInkStrokes([]);
       showSuccess('Annotation added successfully!');
     } catch (error) {
       console.error('Annotation error:', error);
@@ -826,10 +1401,80 @@ const PDFTools: React.FC = () => {
     }
   };
 
+  // Export annotations as XFDF or JSON
+  const handleExportAnnotations = async (format: 'xfdf' | 'json') => {
+    if (selectedFiles.length !== 1) {
+      showError('Please select 1 PDF file');
+      return;
+    }
+
+    try {
+      const exported = await exportPDFAnnotations(selectedFiles[0].base64, format);
+      const baseName = selectedFiles[0].name.replace(/\.pdf$/i, '');
+      const type = format === 'xfdf' ? 'application/vnd.adobe.xfdf' : 'application/json';
+
+      const exportFile: FileObject = {
+        id: `annotations_${Date.now()}`,
+        name: `${baseName}_annotations.${format}`,
+        type,
+        size: exported.length,
+        base64: `data:${type};base64,${safeBtoa(exported)}`,
+        dateAdded: new Date().toISOString(),
+        processed: true,
+        isSignature: false,
+      };
+
+      addFile(exportFile);
+      showSuccess(`Exported ${pdfAnnotations.length} annotation thread(s) as ${format.toUpperCase()}`);
+    } catch (error) {
+      console.error('Annotation export error:', error);
+      showError('Failed to export annotations');
+    }
+  };
+
+  // Import annotations from an XFDF or JSON file
+  const handleImportAnnotations = async (file: File) => {
+    if (selectedFiles.length !== 1) {
+      showError('Please select 1 PDF file');
+      return;
+    }
+
+    setIsProcessing(true);
+    setProgress(25);
+
+    try {
+      const { pdf, imported, skipped } = await importPDFAnnotations(selectedFiles[0].base64, await file.text());
+
+      setProgress(75);
+
+      const baseName = selectedFiles[0].name.replace(/\.pdf$/i, '');
+      const timestamp = new Date().toISOString().slice(0, 19).replace(/:/g, '-');
+
+      const annotatedFile: FileObject = {
+        ...selectedFiles[0],
+        id: `annotated_${Date.now()}`,
+        name: `${baseName}_annotated_${timestamp}.pdf`,
+        base64: pdf,
+        size: pdf.length,
+        processed: true,
+        dateProcessed: new Date().toISOString(),
+      };
+
+      addFile(annotatedFile);
+      setProgress(100);
+      setIsProcessing(false);
+      showSuccess(`Imported ${imported} annotation(s)${skipped > 0 ? `, skipped ${skipped} duplicate or unsupported` : ''}`);
+    } catch (error) {
+      console.error('Annotation import error:', error);
+      setIsProcessing(false);
+      showError('Failed to import annotations. Check that the file is valid XFDF or JSON.');
+    }
+  };
+
   // Sign PDF
   const handleSignPDF = async () => {
-    if (selectedFiles.length !== 1 || !signatureText.trim()) {
-      showError('Please select 1 PDF file and enter signature text');
+    if (selectedFiles.length !== 1 || !signatureCertificate) {
+      showError('Please select 1 PDF file and a PKCS#12 certificate');
       return;
     }
 
@@ -837,13 +1482,23 @@ const PDFTools: React.FC = () => {
     setProgress(25);
 
     try {
-      // Add digital signature using advanced implementation
+      const signatureImage = files.find(file => file.id === signatureImageId);
+
+      // Sign with the certificate's key; the visible appearance is optional
       const signedPdfBase64 = await addDigitalSignature(selectedFiles[0].base64, {
-        signerName: currentUser?.displayName || 'Anonymous',
-        signerEmail: currentUser?.email || 'anonymous@example.com',
-        signatureText: signatureText,
-        position: { x: 100, y: 100, page: 0 },
-        certificate: 'self-signed'
+        pkcs12: signatureCertificate.data,
+        pkcs12Password: certificatePassword,
+        signerEmail: currentUser?.email || undefined,
+        reason: signatureReason.trim() || undefined,
+        location: signatureLocation.trim() || undefined,
+        appearance: visibleSignature
+          ? {
+              page: signaturePage - 1,
+              x: signaturePosition.x,
+              y: signaturePosition.y,
+              signatureImage: signatureImage?.base64
+            }
+          : undefined
       });
 
       setProgress(75);
@@ -869,54 +1524,109 @@ const PDFTools: React.FC = () => {
     } catch (error) {
       console.error('Digital signature error:', error);
       setIsProcessing(false);
-      showError('Failed to sign PDF');
+      showError(
+        error instanceof Error && error.message === 'Incorrect certificate password'
+          ? 'Incorrect certificate password'
+          : 'Failed to sign PDF'
+      );
     }
   };
 
-  // Fill PDF forms
-  const handleFillForms = async () => {
+  // Check the selected PDF against PDF/A-2b
+  const handleValidatePDFA = async () => {
     if (selectedFiles.length !== 1) {
-      showError('Please select exactly 1 PDF file with forms');
+      showError('Please select exactly 1 PDF file to check');
       return;
     }
 
     setIsProcessing(true);
-    setProgress(25);
+    setPdfaFixes([]);
 
     try {
-      // Fill PDF forms using pdf-lib
-      const filledPdfBase64 = await fillPDFForm(selectedFiles[0].base64, formData);
+      const result = await validatePDFA(selectedFiles[0].base64);
+      setPdfaReport(result);
+      setIsProcessing(false);
+      if (result.conformant) {
+        showSuccess('No PDF/A-2b violations found!');
+      }
+    } catch (error) {
+      console.error('PDF/A validation error:', error);
+      setIsProcessing(false);
+      showError('Failed to check PDF/A conformance');
+    }
+  };
+
+  const handlePdfaFontUpload = async (family: PDFAFontFamily, file: File | undefined) => {
+    if (!file) return;
+    const data = new Uint8Array(await file.arrayBuffer());
+    setPdfaFonts(prev => ({ ...prev, [family]: { name: file.name, data } }));
+  };
+
+  // Convert PDF to PDF/A-2b for archiving
+  const handleConvertToPDFA = async () => {
+    if (selectedFiles.length !== 1) {
+      showError('Please select exactly 1 PDF file to convert');
+      return;
+    }
+
+    setIsProcessing(true);
+    setProgress(25);
 
+    try {
+      // Uploaded fonts replace the regular faces, bold and italic text keeps the bundled faces
+      const fonts = Object.fromEntries(
+        Object.entries(pdfaFonts).map(([family, font]) => [`${family}-regular`, font.data])
+      ) as Partial<Record<PDFAFontFace, Uint8Array>>;
+      const { pdf: archivedPdfBase64, report } = await convertToPDFA(selectedFiles[0].base64, {
+        password: pdfaPassword,
+        fonts
+      });
       setProgress(75);
 
+      setPdfaFixes(report.fixes);
+      setPdfaReport({
+        conformant: report.conformant,
+        claimedConformance: report.conformant ? '2B' : undefined,
+        violations: report.violations
+      });
+      setProgress(100);
+      setIsProcessing(false);
+
+      // A file that still has violations is not PDF/A, so don't save it as one
+      if (!report.conformant) {
+        showError(`${report.violations.length} issue(s) need manual fixes before the file can be saved as PDF/A-2b`);
+        return;
+      }
+
       const baseName = selectedFiles[0].name.replace(/\.pdf$/i, '');
-      const timestamp = new Date().toISOString().slice(0, 19).replace(/:/g, '-');
 
-      const filledFile: FileObject = {
+      const archivedFile: FileObject = {
         ...selectedFiles[0],
-        id: `filled_${Date.now()}`,
-        name: `${baseName}_filled_${timestamp}.pdf`,
-        base64: filledPdfBase64,
-        size: filledPdfBase64.length,
+        id: `pdfa_${Date.now()}`,
+        name: `${baseName}_PDFA.pdf`,
+        base64: archivedPdfBase64,
+        size: archivedPdfBase64.length,
         processed: true,
         dateProcessed: new Date().toISOString(),
       };
 
-      addFile(filledFile);
-      setProgress(100);
-      setIsProcessing(false);
-      showSuccess('PDF forms filled successfully!');
+      addFile(archivedFile);
+      showSuccess('PDF converted to PDF/A-2b!');
     } catch (error) {
-      console.error('Form filling error:', error);
+      console.error('PDF/A conversion error:', error);
       setIsProcessing(false);
-      showError('Failed to fill PDF forms');
+      showError(
+        error instanceof Error && (error.message === 'Incorrect password' || /TrueType/.test(error.message))
+          ? error.message
+          : 'Failed to convert PDF to PDF/A'
+      );
     }
   };
 
-  // Convert to eBook
-  const handleConvertToEbook = async () => {
+  // Repair a damaged PDF and keep the clean copy
+  const handleRepairPDF = async () => {
     if (selectedFiles.length !== 1) {
-      showError('Please select exactly 1 PDF file to convert');
+      showError('Please select exactly 1 PDF file to repair');
       return;
     }
 
@@ -924,34 +1634,260 @@ const PDFTools: React.FC = () => {
     setProgress(25);
 
     try {
-      // Convert PDF to eBook using advanced implementation
-      const ebookBase64 = await convertPDFToEBookAdvanced(selectedFiles[0].base64, ebookFormat, {
-        title: selectedFiles[0].name.replace(/\.pdf$/i, ''),
-        author: currentUser?.displayName || 'Unknown Author',
-        preserveImages: true,
-        includeTOC: true
-      });
-
+      const { pdf: repairedPdfBase64, report } = await repairPDF(selectedFiles[0].base64);
       setProgress(75);
 
       const baseName = selectedFiles[0].name.replace(/\.pdf$/i, '');
-      const timestamp = new Date().toISOString().slice(0, 19).replace(/:/g, '-');
 
-      const ebookFile: FileObject = {
-        id: `ebook_${Date.now()}`,
-        name: `${baseName}_ebook_${timestamp}.${ebookFormat}`,
-        type: `application/${ebookFormat === 'epub' ? 'epub+zip' : 'x-mobipocket-ebook'}`,
-        size: ebookBase64.length,
-        base64: ebookBase64,
-        dateAdded: new Date().toISOString(),
+      const repairedFile: FileObject = {
+        ...selectedFiles[0],
+        id: `repaired_${Date.now()}`,
+        name: `${baseName}_repaired.pdf`,
+        base64: repairedPdfBase64,
+        size: repairedPdfBase64.length,
         processed: true,
-        isSignature: false,
+        dateProcessed: new Date().toISOString(),
       };
 
-      addFile(ebookFile);
+      addFile(repairedFile);
+      setRepairReport(report);
       setProgress(100);
       setIsProcessing(false);
-      showSuccess(`PDF converted to ${ebookFormat.toUpperCase()} successfully!`);
+      showSuccess(
+        report.method === 'rebuilt'
+          ? `PDF rebuilt with ${report.pageCount} page(s) recovered`
+          : 'PDF re-saved as a clean copy'
+      );
+    } catch (error) {
+      console.error('PDF repair error:', error);
+      setIsProcessing(false);
+      showError(
+        error instanceof Error && /^(Encrypted PDFs|No pages|No PDF objects)/.test(error.message)
+          ? error.message
+          : 'Failed to repair PDF'
+      );
+    }
+  };
+
+  const handleAddRedactionRegion = () => {
+    const { page, x, y, width, height } = redactionRegion;
+    if (width <= 0 || height <= 0) {
+      showError('Region width and height must be greater than 0');
+      return;
+    }
+    setRedactionRegions(prev => [...prev, { pageIndex: page - 1, x, y, width, height }]);
+  };
+
+  // Permanently remove the selected regions and search matches
+  const handleRedactPDF = async () => {
+    if (selectedFiles.length !== 1) {
+      showError('Please select exactly 1 PDF file to redact');
+      return;
+    }
+
+    const terms = redactionTerms.split('\n').map(term => term.trim()).filter(Boolean);
+    if (redactionRegions.length === 0 && terms.length === 0) {
+      showError('Add a region or a search term to redact');
+      return;
+    }
+
+    setIsProcessing(true);
+    setProgress(25);
+    setRedactionLog(null);
+
+    try {
+      const { pdf: redactedPdfBase64, log } = await redactPDF(selectedFiles[0].base64, {
+        regions: redactionRegions,
+        searchTerms: redactionUseRegex ? [] : terms,
+        patterns: redactionUseRegex ? terms : [],
+        caseSensitive: redactionCaseSensitive
+      });
+      setProgress(75);
+
+      const baseName = selectedFiles[0].name.replace(/\.pdf$/i, '');
+
+      const redactedFile: FileObject = {
+        ...selectedFiles[0],
+        id: `redacted_${Date.now()}`,
+        name: `${baseName}_redacted.pdf`,
+        base64: redactedPdfBase64,
+        size: redactedPdfBase64.length,
+        processed: true,
+        dateProcessed: new Date().toISOString(),
+      };
+
+      addFile(redactedFile);
+      setRedactionLog(log);
+      setProgress(100);
+      setIsProcessing(false);
+      if (log.length > 0) {
+        showSuccess('PDF redacted successfully!');
+      } else {
+        showError('Nothing matched the regions or search terms');
+      }
+    } catch (error) {
+      console.error('Redaction error:', error);
+      setIsProcessing(false);
+      showError(
+        error instanceof Error && /^Invalid redaction pattern|cannot be read for redaction/.test(error.message)
+          ? error.message
+          : 'Failed to redact PDF'
+      );
+    }
+  };
+
+  const handleBookmarkEdit = (edit: PDFBookmarkEdit) => {
+    try {
+      setPdfBookmarks(applyBookmarkEdit(pdfBookmarks, edit));
+    } catch (error) {
+      showError(error instanceof Error ? error.message : 'Failed to edit bookmark');
+    }
+  };
+
+  const handleAddBookmark = (parentPath: number[]) => {
+    if (!newBookmark.title.trim()) {
+      showError('Please enter a bookmark title');
+      return;
+    }
+    handleBookmarkEdit({ type: 'add', parentPath, title: newBookmark.title.trim(), pageIndex: newBookmark.page - 1 });
+    setNewBookmark(prev => ({ ...prev, title: '' }));
+  };
+
+  // Write the edited bookmark tree into a copy of the PDF
+  const handleSaveBookmarks = async () => {
+    if (selectedFiles.length !== 1) {
+      showError('Please select exactly 1 PDF file');
+      return;
+    }
+
+    setIsProcessing(true);
+    setProgress(25);
+
+    try {
+      const updatedPdfBase64 = await setPDFBookmarks(selectedFiles[0].base64, pdfBookmarks);
+      setProgress(75);
+
+      const baseName = selectedFiles[0].name.replace(/\.pdf$/i, '');
+
+      const updatedFile: FileObject = {
+        ...selectedFiles[0],
+        id: `bookmarks_${Date.now()}`,
+        name: `${baseName}_bookmarks.pdf`,
+        base64: updatedPdfBase64,
+        size: updatedPdfBase64.length,
+        processed: true,
+        dateProcessed: new Date().toISOString(),
+      };
+
+      addFile(updatedFile);
+      setProgress(100);
+      setIsProcessing(false);
+      showSuccess('Bookmarks saved successfully!');
+    } catch (error) {
+      console.error('Bookmark saving error:', error);
+      setIsProcessing(false);
+      showError('Failed to save bookmarks');
+    }
+  };
+
+  // Fill PDF forms
+  const handleFillForms = async () => {
+    if (selectedFiles.length !== 1) {
+      showError('Please select exactly 1 PDF file with forms');
+      return;
+    }
+
+    const missingRequired = formFields.filter(field => {
+      const value = formData[field.name];
+      return field.required && field.name in formData && (value === '' || (Array.isArray(value) && value.length === 0));
+    });
+    if (missingRequired.length > 0) {
+      showError(`Please fill the required fields: ${missingRequired.map(field => field.name).join(', ')}`);
+      return;
+    }
+
+    setIsProcessing(true);
+    setProgress(25);
+    setFormFillReport(null);
+
+    try {
+      // Fill PDF forms using pdf-lib
+      const { pdf: filledPdfBase64, report } = await fillPDFForm(selectedFiles[0].base64, formData, {
+        flatten: flattenForm
+      });
+      setFormFillReport(report);
+
+      setProgress(75);
+
+      const baseName = selectedFiles[0].name.replace(/\.pdf$/i, '');
+      const timestamp = new Date().toISOString().slice(0, 19).replace(/:/g, '-');
+
+      const filledFile: FileObject = {
+        ...selectedFiles[0],
+        id: `filled_${Date.now()}`,
+        name: `${baseName}_filled_${timestamp}.pdf`,
+        base64: filledPdfBase64,
+        size: filledPdfBase64.length,
+        processed: true,
+        dateProcessed: new Date().toISOString(),
+      };
+
+      addFile(filledFile);
+      setProgress(100);
+      setIsProcessing(false);
+
+      const skipped = report.unknownFields.length + report.invalidFields.length;
+      if (skipped > 0) {
+        showError(`Filled ${report.filledFields.length} field${report.filledFields.length !== 1 ? 's' : ''}, ${skipped} could not be filled`);
+      } else {
+        showSuccess(`Filled ${report.filledFields.length} field${report.filledFields.length !== 1 ? 's' : ''}${report.flattened ? ' and flattened the form' : ''}!`);
+      }
+    } catch (error) {
+      console.error('Form filling error:', error);
+      setIsProcessing(false);
+      showError('Failed to fill PDF forms');
+    }
+  };
+
+  // Convert to eBook
+  const handleConvertToEbook = async () => {
+    if (selectedFiles.length !== 1) {
+      showError('Please select exactly 1 PDF file to convert');
+      return;
+    }
+
+    setIsProcessing(true);
+    setProgress(25);
+
+    try {
+      // Convert PDF to eBook using advanced implementation
+      const ebookBase64 = await convertPDFToEBookAdvanced(selectedFiles[0].base64, ebookFormat, {
+        title: selectedFiles[0].name.replace(/\.pdf$/i, ''),
+        author: currentUser?.displayName || 'Unknown Author',
+        preserveImages: true,
+        includeTOC: true
+      });
+
+      setProgress(75);
+
+      const baseName = selectedFiles[0].name.replace(/\.pdf$/i, '');
+      const timestamp = new Date().toISOString().slice(0, 19).replace(/:/g, '-');
+
+      const ebookFile: FileObject = {
+        id: `ebook_${Date.now()}`,
+        name: `${baseName}_ebook_${timestamp}.${ebookFormat}`,
+        type: `application/${ebookFormat === 'epub' ? 'epub+zip' : 'x-mobipocket-ebook'}`,
+        size: ebookBase64.length,
+        base64: ebookBase64,
+        dateAdded: new Date().toISOString(),
+        processed: true,
+        isSignature: false,
+      };
+
+      addFile(ebookFile);
+      setProgress(100);
+      setIsProcessing(false);
+      showSuccess(`PDF converted to ${ebookFormat.toUpperCase()} successfully!`);
     } catch (error) {
       console.error('eBook conversion error:', error);
       setIsProcessing(false);
@@ -972,10 +1908,11 @@ const PDFTools: React.FC = () => {
     try {
       // Prepare operations for batch processing
       const operations = batchOperations.map(op => ({
-        type: op as 'compress' | 'watermark' | 'rotate' | 'page-numbers' | 'password',
-        options: op === 'watermark' ? { text: watermarkText } :
+        type: op as 'compress' | 'watermark' | 'rotate' | 'page-numbers' | 'header-footer' | 'password',
+        options: op === 'watermark' ? { text: watermarkText, ...getWatermarkOptions() } :
                  op === 'rotate' ? { rotation: 90 } :
                  op === 'page-numbers' ? { format: pageNumberFormat, position: pageNumberPosition } :
+                 op === 'header-footer' ? { ...getHeaderFooterOptions() } :
                  op === 'password' ? { password: 'batch_password' } :
                  {}
       }));
@@ -983,7 +1920,8 @@ const PDFTools: React.FC = () => {
       // Process batch operations
       const processedFiles = await processBatchPDFOperations(
         selectedFiles.map(f => f.base64),
-        operations
+        operations,
+        selectedFiles.map(f => f.name)
       );
 
       setProgress(75);
@@ -1056,12 +1994,19 @@ const PDFTools: React.FC = () => {
       { id: 'watermark', name: 'Add Watermark', icon: '💧', description: 'Add text/image watermark' },
       { id: 'password', name: 'Password Protect', icon: '🔒', description: 'Add password protection' },
       { id: 'page-numbers', name: 'Page Numbers', icon: '🔢', description: 'Add page numbering' },
-      { id: 'metadata', name: 'Edit Metadata', icon: '📋', description: 'Edit PDF metadata' },
+      { id: 'header-footer', name: 'Header, Footer & Bates', icon: '⚖️', description: 'Stamp templates and Bates numbers' },
+      { id: 'metadata', name: 'Edit Metadata', icon: '📋', description: 'Edit document, custom and XMP metadata or strip it' },
+      { id: 'bookmarks', name: 'Bookmarks', icon: '🔖', description: 'Edit the bookmark tree' },
+      { id: 'layout', name: 'N-up & Booklet', icon: '📰', description: 'Print several pages per sheet or as a booklet' },
     ],
     advanced: [
       { id: 'video-to-pdf', name: 'Video → PDF', icon: '🎥', description: 'Convert video frames to PDF' },
       { id: 'annotations', name: 'PDF Annotations', icon: '✏️', description: 'Add highlights and comments' },
       { id: 'sign', name: 'Sign PDF', icon: '✍️', description: 'Add digital signatures' },
+      { id: 'verify', name: 'Verify Signatures', icon: '🛡️', description: 'Check digital signatures' },
+      { id: 'pdfa', name: 'PDF/A Archive', icon: '🏛️', description: 'Convert to PDF/A-2b and check conformance' },
+      { id: 'doctor', name: 'PDF Doctor', icon: '🩺', description: 'Repair damaged PDFs and inspect their structure' },
+      { id: 'redact', name: 'Redact PDF', icon: '⬛', description: 'Permanently remove sensitive content' },
       { id: 'forms', name: 'Fill Forms', icon: '📄', description: 'Fill PDF forms' },
       { id: 'ebook', name: 'Convert to eBook', icon: '📚', description: 'Convert to EPUB/MOBI' },
     ],
@@ -1218,6 +2163,38 @@ const PDFTools: React.FC = () => {
               ))}
             </div>
           )}
+
+          {lockedFile && (
+            <div className="mt-4 bg-yellow-50 border border-yellow-200 rounded p-3 space-y-2">
+              <p className="text-sm text-yellow-800">
+                <strong>🔒 {lockedFile.name}</strong> is password protected. Enter its password to unlock it.
+              </p>
+              <input
+                type="password"
+                value={unlockPassword}
+                onChange={(e) => setUnlockPassword(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && handleUnlockPDF()}
+                placeholder="Leave empty if it opens without a password"
+                className="w-full px-3 py-2 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-yellow-500 text-black"
+              />
+              <div className="flex gap-2">
+                <button
+                  onClick={handleUnlockPDF}
+                  disabled={isUnlocking}
+                  className="flex-1 py-2 px-4 bg-yellow-600 text-white rounded hover:bg-yellow-700 disabled:bg-gray-300"
+                >
+                  {isUnlocking ? 'Unlocking...' : 'Unlock'}
+                </button>
+                <button
+                  onClick={() => setLockedFile(null)}
+                  disabled={isUnlocking}
+                  className="py-2 px-4 bg-gray-200 text-gray-700 rounded hover:bg-gray-300"
+                >
+                  Cancel
+                </button>
+              </div>
+            </div>
+          )}
         </div>
 
         {/* Tool Interface */}
@@ -1232,6 +2209,28 @@ const PDFTools: React.FC = () => {
               <p className="text-sm text-gray-600">
                 Combine multiple PDF files into a single document.
               </p>
+              <label className="flex items-center text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={bookmarkMergedFiles}
+                  onChange={(e) => setBookmarkMergedFiles(e.target.checked)}
+                  className="mr-2"
+                />
+                Add a bookmark for each file
+              </label>
+              <label className="flex items-center text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={mergeTableOfContents}
+                  onChange={(e) => setMergeTableOfContents(e.target.checked)}
+                  className="mr-2"
+                />
+                Start with a table of contents page
+              </label>
+              <p className="text-xs text-gray-500">
+                Form fields, links, bookmarks and page labels are kept. Form fields with the same
+                name in different files are renamed so they stay separate.
+              </p>
               <button
                 onClick={handlePDFMerge}
                 disabled={selectedFiles.length < 2 || isProcessing}
@@ -1245,15 +2244,95 @@ const PDFTools: React.FC = () => {
           {activeTool === 'split' && (
             <div className="space-y-4">
               <p className="text-sm text-gray-600">
-                Split a PDF into multiple files by page ranges.
+                Split a PDF into multiple files.
               </p>
-              <input
-                type="text"
-                value={pageRange}
-                onChange={(e) => setPageRange(e.target.value)}
-                placeholder="e.g., 1-5,8,10-15"
+              <select
+                value={splitMode}
+                onChange={(e) => setSplitMode(e.target.value as PDFSplitMode)}
                 className="w-full px-3 py-2 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500 text-black"
-              />
+              >
+                <option value="ranges">By page ranges</option>
+                <option value="everyN">Every N pages</option>
+                <option value="maxSize">Under a maximum file size</option>
+                <option value="bookmarks">At each top-level bookmark</option>
+                <option value="blankPages">At blank separator pages</option>
+                <option value="oddEven">Odd and even pages</option>
+              </select>
+              {splitMode === 'ranges' && (
+                <input
+                  type="text"
+                  value={pageRange}
+                  onChange={(e) => setPageRange(e.target.value)}
+                  placeholder="e.g., 1-5,8,10-15"
+                  className="w-full px-3 py-2 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500 text-black"
+                />
+              )}
+              {splitMode === 'everyN' && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Pages per file:
+                  </label>
+                  <input
+                    type="number"
+                    min={1}
+                    value={splitPagesPerFile}
+                    onChange={(e) => setSplitPagesPerFile(Math.max(1, parseInt(e.target.value) || 1))}
+                    className="w-full px-3 py-2 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500 text-black"
+                  />
+                </div>
+              )}
+              {splitMode === 'maxSize' && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Maximum file size (MB):
+                  </label>
+                  <input
+                    type="number"
+                    min={0.1}
+                    step={0.1}
+                    value={splitMaxSizeMB}
+                    onChange={(e) => setSplitMaxSizeMB(Math.max(0.1, parseFloat(e.target.value) || 0.1))}
+                    className="w-full px-3 py-2 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500 text-black"
+                  />
+                  <p className="text-xs text-gray-500 mt-1">
+                    A single page larger than this still becomes its own file.
+                  </p>
+                </div>
+              )}
+              {splitMode === 'blankPages' && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Blank page detection:
+                  </label>
+                  <select
+                    value={splitBlankThreshold}
+                    onChange={(e) => setSplitBlankThreshold(parseFloat(e.target.value))}
+                    className="w-full px-3 py-2 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500 text-black"
+                  >
+                    <option value={0.0002}>Strict (clean digital pages)</option>
+                    <option value={0.001}>Normal</option>
+                    <option value={0.005}>Tolerant (noisy scans)</option>
+                  </select>
+                  <p className="text-xs text-gray-500 mt-1">
+                    Blank pages are removed and start a new file.
+                  </p>
+                </div>
+              )}
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  File names:
+                </label>
+                <input
+                  type="text"
+                  value={splitNameTemplate}
+                  onChange={(e) => setSplitNameTemplate(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500 text-black"
+                />
+                <p className="text-xs text-gray-500 mt-1">
+                  {'{name}'} original name, {'{part}'} part number, {'{start}'}/{'{end}'} first and last page,
+                  {' {title}'} bookmark title or range.
+                </p>
+              </div>
               <button
                 onClick={handlePDFSplit}
                 disabled={selectedFiles.length !== 1 || isProcessing}
@@ -1313,6 +2392,40 @@ const PDFTools: React.FC = () => {
                   className="w-full h-2 bg-gray-200 rounded-lg appearance-none cursor-pointer"
                 />
               </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Image Resolution
+                </label>
+                <select
+                  value={compressionDpi}
+                  onChange={(e) => setCompressionDpi(parseInt(e.target.value))}
+                  disabled={!compressImages}
+                  className="w-full p-2 border border-gray-300 rounded text-gray-900 disabled:bg-gray-100"
+                >
+                  <option value={72}>72 DPI (screen)</option>
+                  <option value={150}>150 DPI (ebook)</option>
+                  <option value={220}>220 DPI (print)</option>
+                  <option value={300}>300 DPI (high quality print)</option>
+                </select>
+              </div>
+              <div className="space-y-2">
+                {[
+                  { label: 'Recompress and downsample images', checked: compressImages, onChange: setCompressImages },
+                  { label: 'Remove unused objects', checked: removeUnusedObjects, onChange: setRemoveUnusedObjects },
+                  { label: 'Merge duplicate fonts and images', checked: removeDuplicateStreams, onChange: setRemoveDuplicateStreams },
+                  { label: 'Strip document metadata', checked: removeMetadata, onChange: setRemoveMetadata },
+                ].map(({ label, checked, onChange }) => (
+                  <label key={label} className="flex items-center text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={checked}
+                      onChange={(e) => onChange(e.target.checked)}
+                      className="mr-2 w-4 h-4 text-indigo-600 rounded"
+                    />
+                    {label}
+                  </label>
+                ))}
+              </div>
               {isProcessing && (
                 <div className="w-full bg-gray-200 rounded-full h-2.5">
                   <div
@@ -1328,6 +2441,27 @@ const PDFTools: React.FC = () => {
               >
                 {isProcessing ? 'Compressing...' : 'Compress PDFs'}
               </button>
+              {compressionResults.length > 0 && (
+                <div className="space-y-2">
+                  {compressionResults.map(({ name, report }) => (
+                    <div key={name} className="p-3 bg-gray-50 border border-gray-200 rounded text-sm">
+                      <p className="font-medium text-gray-900 truncate">{name}</p>
+                      <p className="text-gray-700">
+                        {formatBytes(report.originalSize)} → {formatBytes(report.compressedSize)}
+                        {report.compressedSize < report.originalSize &&
+                          ` (${Math.round((1 - report.compressedSize / report.originalSize) * 100)}% smaller)`}
+                      </p>
+                      <p className="text-xs text-gray-600">
+                        {report.imagesRecompressed} image{report.imagesRecompressed !== 1 ? 's' : ''} recompressed
+                        {report.imagesSkipped > 0 && `, ${report.imagesSkipped} left as is`}
+                        {report.duplicateStreamsRemoved > 0 && `, ${report.duplicateStreamsRemoved} duplicate streams merged`}
+                        {report.unusedObjectsRemoved > 0 && `, ${report.unusedObjectsRemoved} unused objects removed`}
+                        {report.metadataRemoved && ', metadata stripped'}
+                      </p>
+                    </div>
+                  ))}
+                </div>
+              )}
             </div>
           )}
 
@@ -1336,37 +2470,112 @@ const PDFTools: React.FC = () => {
               <p className="text-sm text-gray-600">
                 Convert scanned PDFs to searchable PDFs using OCR.
               </p>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Document Language:
+                </label>
+                <select
+                  value={ocrLanguage}
+                  onChange={(e) => setOcrLanguage(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500 text-black"
+                >
+                  {OCR_LANGUAGES.map(language => (
+                    <option key={language.code} value={language.code}>{language.name}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Output:
+                </label>
+                <select
+                  value={ocrOutput}
+                  onChange={(e) => setOcrOutput(e.target.value as 'pdf' | 'txt')}
+                  className="w-full px-3 py-2 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500 text-black"
+                >
+                  <option value="pdf">Searchable PDF</option>
+                  <option value="txt">Plain Text</option>
+                </select>
+              </div>
               <div className="bg-blue-50 border border-blue-200 rounded p-3">
                 <p className="text-sm text-blue-800">
-                  <strong>OCR Processing:</strong> This will extract text from images and scanned PDFs using advanced OCR algorithms.
-                  Supports multiple languages and formats.
+                  <strong>OCR Processing:</strong> This will extract text from images and scanned PDFs on your device using Tesseract.
+                  No data leaves your browser.
                 </p>
               </div>
-              <button
-                onClick={async () => {
-                  if (selectedFiles.length === 0) {
-                    showError('Please select files to process with OCR');
+              {isProcessing && (
+                <div>
+                  <div className="w-full bg-gray-200 rounded-full h-2.5">
+                    <div
+                      className="bg-indigo-600 h-2.5 rounded-full transition-all duration-300"
+                      style={{ width: `${progress}%` }}
+                    ></div>
+                  </div>
+                  {ocrStatus && <p className="text-xs text-gray-500 mt-1">{ocrStatus}</p>}
+                </div>
+              )}
+              <button
+                onClick={async () => {
+                  if (selectedFiles.length === 0) {
+                    showError('Please select files to process with OCR');
                     return;
                   }
 
                   setIsProcessing(true);
-                  setProgress(25);
+                  setProgress(0);
 
                   try {
                     for (let i = 0; i < selectedFiles.length; i++) {
                       const file = selectedFiles[i];
-                      setProgress(Math.round(((i + 0.5) / selectedFiles.length) * 100));
 
-                      // Perform OCR on the file
-                      const ocrText = await performOCR(file.base64, {
-                        language: 'eng',
-                        mode: 'text'
-                      });
+                      // Spread each file's OCR progress over its share of the bar
+                      const onProgress = (fileProgress: number, status: string) => {
+                        setProgress(Math.round(((i + fileProgress) / selectedFiles.length) * 100));
+                        setOcrStatus(status);
+                      };
 
-                      // Create text file with OCR results
                       const baseName = file.name.replace(/\.[^.]+$/, '');
                       const timestamp = new Date().toISOString().slice(0, 19).replace(/:/g, '-');
 
+                      if (ocrOutput === 'pdf') {
+                        // Keep the page images and lay the recognized text invisibly on top
+                        const searchablePdfBase64 = file.type === 'application/pdf'
+                          ? await convertScannedPDFToSearchable(file.base64, {
+                              language: ocrLanguage,
+                              onProgress
+                            })
+                          : await convertImageToSearchablePDF(file.base64, {
+                              language: ocrLanguage,
+                              onProgress
+                            });
+
+                        addFile({
+                          id: `ocr_${Date.now()}_${i}`,
+                          name: `${baseName}_searchable_${timestamp}.pdf`,
+                          type: 'application/pdf',
+                          size: searchablePdfBase64.length,
+                          base64: searchablePdfBase64,
+                          dateAdded: new Date().toISOString(),
+                          processed: true,
+                          isSignature: false,
+                        });
+                        continue;
+                      }
+
+                      // Scanned PDFs are rasterized page by page, images are recognized directly
+                      const ocrText = file.type === 'application/pdf'
+                        ? await convertScannedPDFToText(file.base64, {
+                            language: ocrLanguage,
+                            includePageNumbers: true,
+                            onProgress
+                          })
+                        : await performOCR(file.base64, {
+                            language: ocrLanguage,
+                            mode: 'text',
+                            onProgress
+                          });
+
+                      // Create text file with OCR results
                       const ocrFile: FileObject = {
                         id: `ocr_${Date.now()}_${i}`,
                         name: `${baseName}_ocr_${timestamp}.txt`,
@@ -1383,10 +2592,12 @@ const PDFTools: React.FC = () => {
 
                     setProgress(100);
                     setIsProcessing(false);
+                    setOcrStatus('');
                     showSuccess(`OCR processing completed for ${selectedFiles.length} file${selectedFiles.length > 1 ? 's' : ''}!`);
                   } catch (error) {
                     console.error('OCR processing error:', error);
                     setIsProcessing(false);
+                    setOcrStatus('');
                     showError('Failed to process files with OCR');
                   }
                 }}
@@ -1401,26 +2612,174 @@ const PDFTools: React.FC = () => {
           {activeTool === 'watermark' && (
             <div className="space-y-4">
               <p className="text-sm text-gray-600">
-                Add text watermark to PDF pages.
+                Add a text or image watermark to PDF pages.
               </p>
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-1">
-                  Watermark Text:
+                  Watermark Type:
                 </label>
-                <input
-                  type="text"
-                  value={watermarkText}
-                  onChange={(e) => setWatermarkText(e.target.value)}
-                  placeholder="Enter watermark text"
+                <select
+                  value={watermarkType}
+                  onChange={(e) => setWatermarkType(e.target.value as 'text' | 'image')}
                   className="w-full px-3 py-2 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500 text-black"
-                />
+                >
+                  <option value="text">Text</option>
+                  <option value="image">Image or logo</option>
+                </select>
               </div>
-              <div className="bg-blue-50 border border-blue-200 rounded p-3">
-                <p className="text-sm text-blue-800">
-                  <strong>Watermark Settings:</strong> Text will be added diagonally across all pages with 30% opacity.
-                  This uses PDF-lib for high-quality PDF processing.
-                </p>
+              {watermarkType === 'text' ? (
+                <div className="grid grid-cols-3 gap-2">
+                  <div className="col-span-2">
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      Watermark Text:
+                    </label>
+                    <input
+                      type="text"
+                      value={watermarkText}
+                      onChange={(e) => setWatermarkText(e.target.value)}
+                      placeholder="Enter watermark text"
+                      className="w-full px-3 py-2 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500 text-black"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      Font Size:
+                    </label>
+                    <input
+                      type="number"
+                      min={6}
+                      value={watermarkSettings.fontSize}
+                      onChange={(e) => setWatermarkSettings({ ...watermarkSettings, fontSize: Math.max(6, parseInt(e.target.value) || 6) })}
+                      className="w-full px-3 py-2 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500 text-black"
+                    />
+                  </div>
+                </div>
+              ) : (
+                <div className="grid grid-cols-3 gap-2">
+                  <div className="col-span-2">
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      Image (PNG or JPEG):
+                    </label>
+                    <input
+                      type="file"
+                      accept="image/png,image/jpeg"
+                      onChange={async (e) => {
+                        const file = e.target.files?.[0];
+                        setWatermarkImage(file ? { name: file.name, data: await fileToBase64(file) } : null);
+                      }}
+                      className="w-full px-3 py-2 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500 text-black"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      Width (% of page):
+                    </label>
+                    <input
+                      type="number"
+                      min={1}
+                      max={100}
+                      value={Math.round((watermarkSettings.imageScale ?? 0.3) * 100)}
+                      onChange={(e) => setWatermarkSettings({ ...watermarkSettings, imageScale: Math.min(100, Math.max(1, parseInt(e.target.value) || 1)) / 100 })}
+                      className="w-full px-3 py-2 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500 text-black"
+                    />
+                  </div>
+                  <p className="col-span-3 text-xs text-gray-500">
+                    Transparent areas of PNG images stay transparent.
+                  </p>
+                </div>
+              )}
+              <div className="grid grid-cols-2 gap-2">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Rotation (degrees):
+                  </label>
+                  <input
+                    type="number"
+                    min={-360}
+                    max={360}
+                    value={watermarkSettings.rotation}
+                    onChange={(e) => setWatermarkSettings({ ...watermarkSettings, rotation: parseFloat(e.target.value) || 0 })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500 text-black"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Opacity: {Math.round((watermarkSettings.opacity ?? 0.3) * 100)}%
+                  </label>
+                  <input
+                    type="range"
+                    min={0.05}
+                    max={1}
+                    step={0.05}
+                    value={watermarkSettings.opacity}
+                    onChange={(e) => setWatermarkSettings({ ...watermarkSettings, opacity: parseFloat(e.target.value) })}
+                    className="w-full"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Placement:
+                  </label>
+                  <select
+                    value={watermarkSettings.tile ? 'tile' : watermarkSettings.position}
+                    onChange={(e) => setWatermarkSettings(e.target.value === 'tile'
+                      ? { ...watermarkSettings, tile: true }
+                      : { ...watermarkSettings, tile: false, position: e.target.value as PDFWatermarkOptions['position'] })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500 text-black"
+                  >
+                    <option value="center">Center</option>
+                    <option value="top-left">Top Left</option>
+                    <option value="top-right">Top Right</option>
+                    <option value="bottom-left">Bottom Left</option>
+                    <option value="bottom-right">Bottom Right</option>
+                    <option value="tile">Tiled across the page</option>
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Layer:
+                  </label>
+                  <select
+                    value={watermarkSettings.layer}
+                    onChange={(e) => setWatermarkSettings({ ...watermarkSettings, layer: e.target.value as 'over' | 'under' })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500 text-black"
+                  >
+                    <option value="over">Over the content</option>
+                    <option value="under">Behind the content</option>
+                  </select>
+                </div>
+                {watermarkSettings.tile && (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      Tile Spacing (pt):
+                    </label>
+                    <input
+                      type="number"
+                      min={0}
+                      value={watermarkSettings.tileSpacing}
+                      onChange={(e) => setWatermarkSettings({ ...watermarkSettings, tileSpacing: Math.max(0, parseFloat(e.target.value) || 0) })}
+                      className="w-full px-3 py-2 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500 text-black"
+                    />
+                  </div>
+                )}
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Pages:
+                  </label>
+                  <input
+                    type="text"
+                    value={watermarkSettings.pageRange}
+                    onChange={(e) => setWatermarkSettings({ ...watermarkSettings, pageRange: e.target.value })}
+                    placeholder="All pages, or e.g. 1-3,5"
+                    className="w-full px-3 py-2 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500 text-black"
+                  />
+                </div>
               </div>
+              {watermarkSettings.layer === 'under' && (
+                <p className="text-xs text-gray-500">
+                  Pages with an opaque background, such as scans, will hide a watermark placed behind the content.
+                </p>
+              )}
               {isProcessing && (
                 <div className="w-full bg-gray-200 rounded-full h-2.5">
                   <div
@@ -1431,7 +2790,7 @@ const PDFTools: React.FC = () => {
               )}
               <button
                 onClick={handleAddWatermark}
-                disabled={selectedFiles.length === 0 || isProcessing || !watermarkText.trim()}
+                disabled={selectedFiles.length === 0 || isProcessing || (watermarkType === 'text' ? !watermarkText.trim() : !watermarkImage)}
                 className="w-full py-3 px-4 bg-teal-600 text-white rounded hover:bg-teal-700 disabled:bg-gray-300"
               >
                 {isProcessing ? 'Adding Watermark...' : 'Add Watermark'}
@@ -1456,10 +2815,59 @@ const PDFTools: React.FC = () => {
                   className="w-full px-3 py-2 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500 text-black"
                 />
               </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Owner Password (optional):
+                </label>
+                <input
+                  type="password"
+                  value={ownerPassword}
+                  onChange={(e) => setOwnerPassword(e.target.value)}
+                  placeholder="Required to change permissions later"
+                  className="w-full px-3 py-2 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500 text-black"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Encryption:
+                </label>
+                <select
+                  value={passwordEncryption}
+                  onChange={(e) => setPasswordEncryption(e.target.value as 'aes-128' | 'aes-256')}
+                  className="w-full px-3 py-2 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500 text-black"
+                >
+                  <option value="aes-256">AES-256 (PDF 2.0)</option>
+                  <option value="aes-128">AES-128 (Acrobat 7 and later)</option>
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Allow:
+                </label>
+                <div className="grid grid-cols-2 gap-2">
+                  {([
+                    { id: 'printing', label: 'Printing' },
+                    { id: 'copying', label: 'Copying text' },
+                    { id: 'modifying', label: 'Editing' },
+                    { id: 'annotating', label: 'Comments' },
+                    { id: 'fillingForms', label: 'Form filling' },
+                  ] as const).map(permission => (
+                    <label key={permission.id} className="flex items-center text-sm text-gray-700">
+                      <input
+                        type="checkbox"
+                        checked={passwordPermissions[permission.id]}
+                        onChange={(e) => setPasswordPermissions(prev => ({ ...prev, [permission.id]: e.target.checked }))}
+                        className="mr-2 w-4 h-4 text-red-600 rounded focus:ring-red-500"
+                      />
+                      {permission.label}
+                    </label>
+                  ))}
+                </div>
+              </div>
               <div className="bg-red-50 border border-red-200 rounded p-3">
                 <p className="text-sm text-red-800">
                   <strong>Password Protection:</strong> This will encrypt your PDF with the specified password.
-                  Users will need this password to open and view the document.
+                  Users will need this password to open and view the document, and the owner password to lift the restrictions above.
                 </p>
               </div>
               <button
@@ -1482,17 +2890,20 @@ const PDFTools: React.FC = () => {
                       const file = selectedFiles[i];
                       setProgress(Math.round(((i + 0.5) / selectedFiles.length) * 100));
 
-                      // Add password protection using pdf-lib
+                      // Encrypt with the standard security handler on the server
                       const protectedPdfBase64 = await addPasswordProtection(file.base64, {
                         password: password,
+                        ownerPassword: ownerPassword || undefined,
+                        encryption: passwordEncryption,
                         permissions: {
-                          printing: 'highResolution',
-                          modifying: false,
-                          copying: false,
-                          annotating: false,
-                          fillingForms: false,
-                          contentAccessibility: false,
-                          documentAssembly: false
+                          printing: passwordPermissions.printing ? 'highResolution' : false,
+                          modifying: passwordPermissions.modifying,
+                          copying: passwordPermissions.copying,
+                          annotating: passwordPermissions.annotating,
+                          fillingForms: passwordPermissions.fillingForms,
+                          // Screen readers keep working regardless of the copy restriction
+                          contentAccessibility: true,
+                          documentAssembly: passwordPermissions.modifying
                         }
                       });
 
@@ -1712,65 +3123,573 @@ const PDFTools: React.FC = () => {
             </div>
           )}
 
-          {/* Edit Metadata */}
-          {activeTool === 'metadata' && (
+          {/* Header, Footer and Bates Numbering */}
+          {activeTool === 'header-footer' && (
             <div className="space-y-4">
               <p className="text-sm text-gray-600">
-                Edit PDF metadata information (title, author, subject, etc.).
+                Stamp headers and footers on each page. Templates can use {'{page}'}, {'{total}'},
+                {' {filename}'}, {'{date}'} and {'{bates}'}.
               </p>
-              <div className="space-y-3">
+              {([['Header', stampHeader, setStampHeader], ['Footer', stampFooter, setStampFooter]] as const).map(([label, slots, setSlots]) => (
+                <div key={label}>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    {label} (left / center / right):
+                  </label>
+                  <div className="grid grid-cols-3 gap-2">
+                    {(['left', 'center', 'right'] as const).map(slot => (
+                      <input
+                        key={slot}
+                        type="text"
+                        value={slots[slot] ?? ''}
+                        onChange={(e) => setSlots({ ...slots, [slot]: e.target.value })}
+                        placeholder={slot}
+                        className="w-full px-3 py-2 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500 text-black"
+                      />
+                    ))}
+                  </div>
+                </div>
+              ))}
+              <div className="grid grid-cols-2 gap-2">
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-1">
-                    Title:
+                    Pages:
                   </label>
                   <input
                     type="text"
-                    value={metadata.title}
-                    onChange={(e) => setMetadata(prev => ({ ...prev, title: e.target.value }))}
+                    value={stampPageRange}
+                    onChange={(e) => setStampPageRange(e.target.value)}
+                    placeholder="All pages, or e.g. 2-10"
                     className="w-full px-3 py-2 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500 text-black"
                   />
                 </div>
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-1">
-                    Author:
+                    Odd / even:
                   </label>
-                  <input
-                    type="text"
-                    value={metadata.author}
-                    onChange={(e) => setMetadata(prev => ({ ...prev, author: e.target.value }))}
+                  <select
+                    value={stampPageParity}
+                    onChange={(e) => setStampPageParity(e.target.value as 'all' | 'odd' | 'even')}
                     className="w-full px-3 py-2 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500 text-black"
-                  />
+                  >
+                    <option value="all">All pages</option>
+                    <option value="odd">Odd pages</option>
+                    <option value="even">Even pages</option>
+                  </select>
+                </div>
+              </div>
+              <label className="flex items-center text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={batesEnabled}
+                  onChange={(e) => setBatesEnabled(e.target.checked)}
+                  className="mr-2"
+                />
+                Bates numbering
+              </label>
+              {batesEnabled && (
+                <div className="space-y-2">
+                  <div className="grid grid-cols-2 gap-2">
+                    <input
+                      type="text"
+                      value={batesOptions.prefix}
+                      onChange={(e) => setBatesOptions({ ...batesOptions, prefix: e.target.value })}
+                      placeholder="Prefix, e.g. ACME"
+                      className="w-full px-3 py-2 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500 text-black"
+                    />
+                    <input
+                      type="text"
+                      value={batesOptions.suffix}
+                      onChange={(e) => setBatesOptions({ ...batesOptions, suffix: e.target.value })}
+                      placeholder="Suffix"
+                      className="w-full px-3 py-2 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500 text-black"
+                    />
+                    <div>
+                      <label className="block text-xs text-gray-600 mb-1">Digits:</label>
+                      <input
+                        type="number"
+                        min={1}
+                        max={12}
+                        value={batesOptions.digits}
+                        onChange={(e) => setBatesOptions({ ...batesOptions, digits: Math.min(12, Math.max(1, parseInt(e.target.value) || 1)) })}
+                        className="w-full px-3 py-2 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500 text-black"
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-xs text-gray-600 mb-1">Start number:</label>
+                      <input
+                        type="number"
+                        min={0}
+                        value={batesOptions.start}
+                        onChange={(e) => setBatesOptions({ ...batesOptions, start: Math.max(0, parseInt(e.target.value) || 0) })}
+                        className="w-full px-3 py-2 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500 text-black"
+                      />
+                    </div>
+                  </div>
+                  <p className="text-xs text-gray-500">
+                    First number: {formatBatesNumber(batesOptions.start, batesOptions)}. Selected files are
+                    numbered in order as one production, and the start number moves on afterwards. Without
+                    a {'{bates}'} token the number goes in the bottom right corner.
+                  </p>
+                </div>
+              )}
+              <button
+                onClick={handleAddHeaderFooter}
+                disabled={selectedFiles.length === 0 || isProcessing}
+                className="w-full py-3 px-4 bg-indigo-600 text-white rounded hover:bg-indigo-700 disabled:bg-gray-300"
+              >
+                {isProcessing ? 'Stamping...' : 'Stamp Pages'}
+              </button>
+            </div>
+          )}
+
+          {/* Edit Metadata */}
+          {activeTool === 'metadata' && (
+            <div className="space-y-4">
+              <p className="text-sm text-gray-600">
+                Edit PDF metadata information (title, author, subject, etc.), custom document properties and
+                XMP metadata, or strip all of it before sharing.
+              </p>
+              {isLoadingMetadata ? (
+                <p className="text-sm text-gray-500">Reading metadata...</p>
+              ) : (
+                <>
+                  <div className="space-y-3">
+                    {([
+                      { field: 'title', label: 'Title' },
+                      { field: 'author', label: 'Author' },
+                      { field: 'subject', label: 'Subject' },
+                      { field: 'keywords', label: 'Keywords', placeholder: 'keyword1, keyword2, keyword3' },
+                      { field: 'creator', label: 'Creator (application)' },
+                      { field: 'producer', label: 'Producer' },
+                      { field: 'language', label: 'Language', placeholder: 'e.g. en-US' }
+                    ] as { field: keyof PDFMetadataFields; label: string; placeholder?: string }[]).map(({ field, label, placeholder }) => (
+                      <div key={field}>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">
+                          {label}:
+                        </label>
+                        <input
+                          type="text"
+                          value={metadata[field]}
+                          onChange={(e) => setMetadata(prev => ({ ...prev, [field]: e.target.value }))}
+                          placeholder={placeholder}
+                          className="w-full px-3 py-2 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500 text-black"
+                        />
+                      </div>
+                    ))}
+                    {(loadedMetadata?.creationDate || loadedMetadata?.modificationDate) && (
+                      <p className="text-xs text-gray-500">
+                        {loadedMetadata.creationDate && `Created ${loadedMetadata.creationDate.toLocaleString()}`}
+                        {loadedMetadata.creationDate && loadedMetadata.modificationDate && ' · '}
+                        {loadedMetadata.modificationDate && `Modified ${loadedMetadata.modificationDate.toLocaleString()}`}
+                      </p>
+                    )}
+                  </div>
+
+                  <div className="space-y-2">
+                    <div className="flex items-center justify-between">
+                      <h4 className="text-sm font-medium text-gray-700">Custom Properties</h4>
+                      <button
+                        onClick={() => setCustomInfoRows(prev => [...prev, { key: '', value: '' }])}
+                        className="text-sm text-teal-600 hover:text-teal-800"
+                      >
+                        + Add property
+                      </button>
+                    </div>
+                    {customInfoRows.length === 0 && (
+                      <p className="text-xs text-gray-500">No custom properties.</p>
+                    )}
+                    {customInfoRows.map((row, index) => (
+                      <div key={index} className="flex gap-2">
+                        <input
+                          type="text"
+                          value={row.key}
+                          onChange={(e) => setCustomInfoRows(prev => prev.map((r, i) => i === index ? { ...r, key: e.target.value } : r))}
+                          placeholder="Name"
+                          className="w-1/3 px-2 py-1 border border-gray-300 rounded text-sm text-black"
+                        />
+                        <input
+                          type="text"
+                          value={row.value}
+                          onChange={(e) => setCustomInfoRows(prev => prev.map((r, i) => i === index ? { ...r, value: e.target.value } : r))}
+                          placeholder="Value"
+                          className="flex-1 px-2 py-1 border border-gray-300 rounded text-sm text-black"
+                        />
+                        <button
+                          onClick={() => setCustomInfoRows(prev => prev.filter((_, i) => i !== index))}
+                          className="px-2 text-red-600 hover:text-red-800"
+                          title="Remove property"
+                        >
+                          ✕
+                        </button>
+                      </div>
+                    ))}
+                  </div>
+
+                  <div className="space-y-2">
+                    <h4 className="text-sm font-medium text-gray-700">XMP Properties</h4>
+                    {xmpProperties.length === 0 && (
+                      <p className="text-xs text-gray-500">
+                        {loadedMetadata?.hasXMP ? 'No additional XMP properties.' : 'This PDF has no XMP metadata yet.'}
+                      </p>
+                    )}
+                    {xmpProperties.map((property, index) => (
+                      <div key={`${property.namespace}${property.name}`} className="p-2 border border-gray-200 rounded space-y-1">
+                        <div className="flex items-center justify-between">
+                          <span className="text-sm font-mono text-gray-800" title={property.namespace}>
+                            {property.prefix ? `${property.prefix}:` : ''}{property.name}
+                            {Array.isArray(property.value) && <span className="ml-2 text-xs text-gray-500">(one item per line)</span>}
+                          </span>
+                          <button
+                            onClick={() => setXmpProperties(prev => prev.filter((_, i) => i !== index))}
+                            className="px-2 text-red-600 hover:text-red-800"
+                            title="Remove property"
+                          >
+                            ✕
+                          </button>
+                        </div>
+                        {Array.isArray(property.value) ? (
+                          <textarea
+                            value={property.value.join('\n')}
+                            onChange={(e) => setXmpProperties(prev => prev.map((p, i) => i === index ? { ...p, value: e.target.value.split('\n') } : p))}
+                            rows={Math.min(Math.max(property.value.length, 2), 6)}
+                            className="w-full px-2 py-1 border border-gray-300 rounded text-sm text-black"
+                          />
+                        ) : (
+                          <input
+                            type="text"
+                            value={property.value}
+                            onChange={(e) => setXmpProperties(prev => prev.map((p, i) => i === index ? { ...p, value: e.target.value } : p))}
+                            className="w-full px-2 py-1 border border-gray-300 rounded text-sm text-black"
+                          />
+                        )}
+                      </div>
+                    ))}
+                    <div className="p-2 bg-gray-50 rounded space-y-2">
+                      <input
+                        type="text"
+                        value={newXmpProperty.namespace}
+                        onChange={(e) => setNewXmpProperty(prev => ({ ...prev, namespace: e.target.value }))}
+                        placeholder="Namespace URI, e.g. http://purl.org/dc/elements/1.1/"
+                        className="w-full px-2 py-1 border border-gray-300 rounded text-sm text-black"
+                      />
+                      <div className="flex gap-2">
+                        <input
+                          type="text"
+                          value={newXmpProperty.prefix}
+                          onChange={(e) => setNewXmpProperty(prev => ({ ...prev, prefix: e.target.value }))}
+                          placeholder="Prefix, e.g. dc"
+                          className="w-1/4 px-2 py-1 border border-gray-300 rounded text-sm text-black"
+                        />
+                        <input
+                          type="text"
+                          value={newXmpProperty.name}
+                          onChange={(e) => setNewXmpProperty(prev => ({ ...prev, name: e.target.value }))}
+                          placeholder="Name, e.g. rights"
+                          className="w-1/4 px-2 py-1 border border-gray-300 rounded text-sm text-black"
+                        />
+                        <input
+                          type="text"
+                          value={newXmpProperty.value}
+                          onChange={(e) => setNewXmpProperty(prev => ({ ...prev, value: e.target.value }))}
+                          placeholder="Value"
+                          className="flex-1 px-2 py-1 border border-gray-300 rounded text-sm text-black"
+                        />
+                      </div>
+                      <button
+                        onClick={handleAddXmpProperty}
+                        className="text-sm text-teal-600 hover:text-teal-800"
+                      >
+                        + Add XMP property
+                      </button>
+                    </div>
+                  </div>
+                </>
+              )}
+              <button
+                onClick={handleEditMetadata}
+                disabled={selectedFiles.length !== 1 || isProcessing || isLoadingMetadata}
+                className="w-full py-3 px-4 bg-teal-600 text-white rounded hover:bg-teal-700 disabled:bg-gray-300"
+              >
+                {isProcessing ? 'Updating...' : 'Update Metadata'}
+              </button>
+              <button
+                onClick={handleStripMetadata}
+                disabled={selectedFiles.length !== 1 || isProcessing}
+                className="w-full py-2 px-4 border border-red-300 text-red-700 rounded hover:bg-red-50 disabled:text-gray-400 disabled:border-gray-200"
+              >
+                Strip All Metadata
+              </button>
+              <p className="text-xs text-gray-500">
+                Stripping removes the document properties, XMP metadata and application data but keeps the
+                language. PDF/A files lose their archive identification.
+              </p>
+            </div>
+          )}
+
+          {/* Bookmarks */}
+          {activeTool === 'bookmarks' && (
+            <div className="space-y-4">
+              <p className="text-sm text-gray-600">
+                Add, rename, reorder and delete the bookmarks shown in a PDF reader&apos;s sidebar.
+              </p>
+              {isLoadingBookmarks ? (
+                <div className="text-center py-4 text-gray-500">
+                  <p>Reading bookmarks...</p>
+                </div>
+              ) : pdfBookmarks.length === 0 ? (
+                <p className="text-sm text-gray-500">
+                  {selectedFiles.length === 1 ? 'This PDF has no bookmarks yet.' : 'Select 1 PDF file to edit its bookmarks.'}
+                </p>
+              ) : (
+                <div className="max-h-80 overflow-y-auto space-y-1">
+                  {(() => {
+                    const renderBookmark = (bookmark: PDFBookmark, path: number[], siblings: number): React.ReactNode => {
+                      const index = path[path.length - 1];
+                      const parentPath = path.slice(0, -1);
+                      return (
+                        <div key={path.join('.')} style={{ marginLeft: `${(path.length - 1) * 16}px` }}>
+                          <div className="flex items-center gap-1">
+                            <input
+                              type="text"
+                              value={bookmark.title}
+                              onChange={(e) => handleBookmarkEdit({ type: 'rename', path, title: e.target.value })}
+                              className="flex-1 px-2 py-1 border border-gray-300 rounded text-sm text-black"
+                            />
+                            <span className="text-xs text-gray-500 w-12 text-right">
+                              {bookmark.pageIndex !== null ? `p. ${bookmark.pageIndex + 1}` : '—'}
+                            </span>
+                            <button
+                              onClick={() => handleBookmarkEdit({ type: 'move', path, parentPath, index: index - 1 })}
+                              disabled={index === 0}
+                              className="px-1 text-gray-600 hover:text-gray-900 disabled:text-gray-300"
+                              title="Move up"
+                            >
+                              ↑
+                            </button>
+                            <button
+                              onClick={() => handleBookmarkEdit({ type: 'move', path, parentPath, index: index + 1 })}
+                              disabled={index === siblings - 1}
+                              className="px-1 text-gray-600 hover:text-gray-900 disabled:text-gray-300"
+                              title="Move down"
+                            >
+                              ↓
+                            </button>
+                            <button
+                              onClick={() => handleAddBookmark(path)}
+                              className="px-1 text-blue-600 hover:text-blue-800"
+                              title="Add the new bookmark as a child of this one"
+                            >
+                              +
+                            </button>
+                            <button
+                              onClick={() => handleBookmarkEdit({ type: 'delete', path })}
+                              className="px-1 text-red-600 hover:text-red-800"
+                              title="Delete"
+                            >
+                              ✕
+                            </button>
+                          </div>
+                          {bookmark.children.map((child, childIndex) =>
+                            renderBookmark(child, [...path, childIndex], bookmark.children.length)
+                          )}
+                        </div>
+                      );
+                    };
+                    return pdfBookmarks.map((bookmark, index) => renderBookmark(bookmark, [index], pdfBookmarks.length));
+                  })()}
+                </div>
+              )}
+              <div className="grid grid-cols-3 gap-2">
+                <input
+                  type="text"
+                  value={newBookmark.title}
+                  onChange={(e) => setNewBookmark(prev => ({ ...prev, title: e.target.value }))}
+                  placeholder="New bookmark title"
+                  className="col-span-2 px-3 py-2 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500 text-black"
+                />
+                <input
+                  type="number"
+                  min={1}
+                  value={newBookmark.page}
+                  onChange={(e) => setNewBookmark(prev => ({ ...prev, page: Math.max(1, parseInt(e.target.value) || 1) }))}
+                  title="Page"
+                  className="px-3 py-2 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500 text-black"
+                />
+              </div>
+              <button
+                onClick={() => handleAddBookmark([])}
+                disabled={selectedFiles.length !== 1}
+                className="w-full py-2 px-4 bg-gray-600 text-white rounded hover:bg-gray-700 disabled:bg-gray-300"
+              >
+                Add Top-Level Bookmark
+              </button>
+              <p className="text-xs text-gray-500">
+                Use + on a bookmark to add the new bookmark as its child.
+              </p>
+              <button
+                onClick={handleSaveBookmarks}
+                disabled={selectedFiles.length !== 1 || isProcessing}
+                className="w-full py-3 px-4 bg-teal-600 text-white rounded hover:bg-teal-700 disabled:bg-gray-300"
+              >
+                {isProcessing ? 'Saving...' : 'Save Bookmarks'}
+              </button>
+            </div>
+          )}
+
+          {/* N-up and Booklet Layout */}
+          {activeTool === 'layout' && (
+            <div className="space-y-4">
+              <p className="text-sm text-gray-600">
+                Print handouts with several pages on each sheet, or impose a booklet that folds
+                into reading order.
+              </p>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Layout:
+                </label>
+                <select
+                  value={layoutMode}
+                  onChange={(e) => {
+                    setLayoutMode(e.target.value as PDFLayoutMode);
+                    setLayoutOrder('rows');
+                  }}
+                  className="w-full px-3 py-2 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500 text-black"
+                >
+                  <option value="nUp">Several pages per sheet (N-up)</option>
+                  <option value="booklet">Saddle-stitched booklet</option>
+                </select>
+              </div>
+              {layoutMode === 'nUp' && (
+                <div className="grid grid-cols-2 gap-2">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      Columns:
+                    </label>
+                    <input
+                      type="number"
+                      min={1}
+                      max={10}
+                      value={layoutGrid.columns}
+                      onChange={(e) => setLayoutGrid({ ...layoutGrid, columns: Math.min(10, Math.max(1, parseInt(e.target.value) || 1)) })}
+                      className="w-full px-3 py-2 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500 text-black"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      Rows:
+                    </label>
+                    <input
+                      type="number"
+                      min={1}
+                      max={10}
+                      value={layoutGrid.rows}
+                      onChange={(e) => setLayoutGrid({ ...layoutGrid, rows: Math.min(10, Math.max(1, parseInt(e.target.value) || 1)) })}
+                      className="w-full px-3 py-2 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500 text-black"
+                    />
+                  </div>
+                </div>
+              )}
+              <div className="grid grid-cols-2 gap-2">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Sheet size:
+                  </label>
+                  <select
+                    value={layoutSheetSize}
+                    onChange={(e) => setLayoutSheetSize(e.target.value as PDFPageSize | 'auto')}
+                    className="w-full px-3 py-2 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500 text-black"
+                  >
+                    <option value="auto">Match the pages</option>
+                    <option value="a4">A4</option>
+                    <option value="letter">Letter</option>
+                    <option value="a3">A3</option>
+                    <option value="legal">Legal</option>
+                  </select>
                 </div>
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-1">
-                    Subject:
+                    Orientation:
+                  </label>
+                  <select
+                    value={layoutOrientation}
+                    onChange={(e) => setLayoutOrientation(e.target.value as 'portrait' | 'landscape' | 'auto')}
+                    className="w-full px-3 py-2 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500 text-black"
+                  >
+                    <option value="auto">Automatic</option>
+                    <option value="portrait">Portrait</option>
+                    <option value="landscape">Landscape</option>
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Margins (pt):
                   </label>
                   <input
-                    type="text"
-                    value={metadata.subject}
-                    onChange={(e) => setMetadata(prev => ({ ...prev, subject: e.target.value }))}
+                    type="number"
+                    min={0}
+                    value={layoutMargins}
+                    onChange={(e) => setLayoutMargins(Math.max(0, parseFloat(e.target.value) || 0))}
                     className="w-full px-3 py-2 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500 text-black"
                   />
                 </div>
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-1">
-                    Keywords:
+                    Gutter (pt):
                   </label>
                   <input
-                    type="text"
-                    value={metadata.keywords}
-                    onChange={(e) => setMetadata(prev => ({ ...prev, keywords: e.target.value }))}
-                    placeholder="keyword1, keyword2, keyword3"
+                    type="number"
+                    min={0}
+                    value={layoutGutter}
+                    onChange={(e) => setLayoutGutter(Math.max(0, parseFloat(e.target.value) || 0))}
                     className="w-full px-3 py-2 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500 text-black"
                   />
                 </div>
               </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  {layoutMode === 'booklet' ? 'Binding:' : 'Page order:'}
+                </label>
+                <select
+                  value={layoutOrder}
+                  onChange={(e) => setLayoutOrder(e.target.value as PDFLayoutOrder)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500 text-black"
+                >
+                  {layoutMode === 'booklet' ? (
+                    <>
+                      <option value="rows">Bound on the left</option>
+                      <option value="rowsRightToLeft">Bound on the right</option>
+                    </>
+                  ) : (
+                    <>
+                      <option value="rows">Across, then down</option>
+                      <option value="columns">Down, then across</option>
+                      <option value="rowsRightToLeft">Across right to left, then down</option>
+                      <option value="columnsRightToLeft">Down, then across right to left</option>
+                    </>
+                  )}
+                </select>
+              </div>
+              <label className="flex items-center text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={layoutBorders}
+                  onChange={(e) => setLayoutBorders(e.target.checked)}
+                  className="mr-2"
+                />
+                Draw a border around each page
+              </label>
+              {layoutMode === 'booklet' && (
+                <p className="text-xs text-gray-500">
+                  Blank pages are added to make a multiple of four. Print double-sided, flipping on
+                  the short edge, then fold the stack in half.
+                </p>
+              )}
               <button
-                onClick={handleEditMetadata}
+                onClick={handleLayoutPages}
                 disabled={selectedFiles.length !== 1 || isProcessing}
-                className="w-full py-3 px-4 bg-teal-600 text-white rounded hover:bg-teal-700 disabled:bg-gray-300"
+                className="w-full py-3 px-4 bg-blue-600 text-white rounded hover:bg-blue-700 disabled:bg-gray-300"
               >
-                {isProcessing ? 'Updating...' : 'Update Metadata'}
+                {isProcessing ? 'Laying out...' : layoutMode === 'booklet' ? 'Create Booklet' : 'Lay Out Pages'}
               </button>
             </div>
           )}
@@ -1801,11 +3720,43 @@ const PDFTools: React.FC = () => {
           {activeTool === 'annotations' && (
             <div className="space-y-4">
               <p className="text-sm text-gray-600">
-                Add text annotations, highlights, and comments to your PDF.
+                Add comments, highlights, drawings and shapes that PDF readers can move, edit and delete.
               </p>
+              <div className="grid grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Annotation Type:
+                  </label>
+                  <select
+                    value={annotationType}
+                    onChange={(e) => setAnnotationType(e.target.value as PDFAnnotationType)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500 text-black"
+                  >
+                    <option value="text">Sticky Note</option>
+                    <option value="freeText">Text Box</option>
+                    <option value="highlight">Highlight</option>
+                    <option value="underline">Underline</option>
+                    <option value="strikeOut">Strikeout</option>
+                    <option value="ink">Freehand Drawing</option>
+                    <option value="square">Rectangle</option>
+                    <option value="circle">Ellipse</option>
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Color:
+                  </label>
+                  <input
+                    type="color"
+                    value={annotationColor}
+                    onChange={(e) => setAnnotationColor(e.target.value)}
+                    className="w-full h-10 border border-gray-300 rounded"
+                  />
+                </div>
+              </div>
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-1">
-                  Annotation Text:
+                  {annotationNeedsText ? 'Annotation Text:' : 'Comment (optional):'}
                 </label>
                 <textarea
                   value={annotationText}
@@ -1815,7 +3766,19 @@ const PDFTools: React.FC = () => {
                   className="w-full px-3 py-2 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500 text-black"
                 />
               </div>
-              <div className="grid grid-cols-2 gap-4">
+              <div className="grid grid-cols-3 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Page:
+                  </label>
+                  <input
+                    type="number"
+                    min={1}
+                    value={annotationPage}
+                    onChange={(e) => setAnnotationPage(Math.max(1, parseInt(e.target.value) || 1))}
+                    className="w-full px-3 py-2 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500 text-black"
+                  />
+                </div>
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-1">
                     Position X:
@@ -1839,13 +3802,137 @@ const PDFTools: React.FC = () => {
                   />
                 </div>
               </div>
+              {annotationType !== 'text' && (
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      Width:
+                    </label>
+                    <input
+                      type="number"
+                      value={annotationSize.width}
+                      onChange={(e) => setAnnotationSize(prev => ({ ...prev, width: Math.max(1, parseInt(e.target.value) || 1) }))}
+                      className="w-full px-3 py-2 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500 text-black"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      Height:
+                    </label>
+                    <input
+                      type="number"
+                      value={annotationSize.height}
+                      onChange={(e) => setAnnotationSize(prev => ({ ...prev, height: Math.max(1, parseInt(e.target.value) || 1) }))}
+                      className="w-full px-3 py-2 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500 text-black"
+                    />
+                  </div>
+                </div>
+              )}
+              {annotationType === 'ink' && (
+                <div>
+                  <div className="flex justify-between items-center mb-1">
+                    <label className="block text-sm font-medium text-gray-700">
+                      Draw inside the annotation box:
+                    </label>
+                    <button
+                      type="button"
+                      onClick={() => setInkStrokes([])}
+                      className="text-sm text-blue-600 hover:underline"
+                    >
+                      Clear
+                    </button>
+                  </div>
+                  <canvas
+                    ref={inkCanvasRef}
+                    width={400}
+                    height={Math.round(400 * annotationSize.height / annotationSize.width)}
+                    onPointerDown={handleInkPointerDown}
+                    onPointerMove={handleInkPointerMove}
+                    onPointerUp={handleInkPointerUp}
+                    onPointerLeave={handleInkPointerUp}
+                    className="w-full bg-white border border-gray-300 rounded touch-none cursor-crosshair"
+                  />
+                </div>
+              )}
+              <p className="text-xs text-gray-500">
+                Positions are in PDF points from the bottom-left corner of the page (72 points per inch).
+              </p>
               <button
                 onClick={handleAddAnnotation}
-                disabled={selectedFiles.length !== 1 || isProcessing || !annotationText.trim()}
+                disabled={selectedFiles.length !== 1 || isProcessing || (annotationNeedsText && !annotationText.trim())}
                 className="w-full py-3 px-4 bg-yellow-600 text-white rounded hover:bg-yellow-700 disabled:bg-gray-300"
               >
                 {isProcessing ? 'Adding...' : 'Add Annotation'}
               </button>
+              <div className="border-t pt-4 space-y-3">
+                <h4 className="text-sm font-medium text-gray-700">Comments in this PDF</h4>
+                {isLoadingAnnotations ? (
+                  <p className="text-sm text-gray-500">Reading annotations...</p>
+                ) : !annotationSourceFile ? (
+                  <p className="text-sm text-gray-500">Select a single PDF to see its comments</p>
+                ) : pdfAnnotations.length === 0 ? (
+                  <p className="text-sm text-gray-500">This PDF has no annotations</p>
+                ) : (
+                  <div className="max-h-64 overflow-y-auto space-y-2">
+                    {pdfAnnotations.map(annotation => {
+                      const renderAnnotation = (item: PDFAnnotationInfo, depth: number): React.ReactNode => (
+                        <div key={item.id} className={depth > 0 ? 'ml-4 border-l-2 border-gray-200 pl-2' : ''}>
+                          <p className="text-xs text-gray-500">
+                            {depth === 0 && <>Page {item.pageIndex + 1} · {item.type} · </>}
+                            {item.author || 'Unknown author'}
+                            {item.modified && <> · {new Date(item.modified).toLocaleString()}</>}
+                          </p>
+                          {item.contents && <p className="text-sm text-gray-800 whitespace-pre-wrap">{item.contents}</p>}
+                          {depth === 0 && (
+                            <p className="text-xs text-gray-400">
+                              [{item.rect.map(value => Math.round(value)).join(', ')}]
+                            </p>
+                          )}
+                          {item.replies.map(reply => renderAnnotation(reply, depth + 1))}
+                        </div>
+                      );
+
+                      return (
+                        <div key={annotation.id} className="bg-gray-50 border border-gray-200 rounded p-2">
+                          {renderAnnotation(annotation, 0)}
+                        </div>
+                      );
+                    })}
+                  </div>
+                )}
+                <div className="grid grid-cols-2 gap-2">
+                  <button
+                    onClick={() => handleExportAnnotations('xfdf')}
+                    disabled={!annotationSourceFile || pdfAnnotations.length === 0}
+                    className="py-2 px-3 bg-gray-600 text-white rounded hover:bg-gray-700 disabled:bg-gray-300 text-sm"
+                  >
+                    Export XFDF
+                  </button>
+                  <button
+                    onClick={() => handleExportAnnotations('json')}
+                    disabled={!annotationSourceFile || pdfAnnotations.length === 0}
+                    className="py-2 px-3 bg-gray-600 text-white rounded hover:bg-gray-700 disabled:bg-gray-300 text-sm"
+                  >
+                    Export JSON
+                  </button>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Import comments (.xfdf or .json):
+                  </label>
+                  <input
+                    type="file"
+                    accept=".xfdf,.json,application/vnd.adobe.xfdf,application/json"
+                    disabled={!annotationSourceFile || isProcessing}
+                    onChange={(e) => {
+                      const file = e.target.files?.[0];
+                      if (file) handleImportAnnotations(file);
+                      e.target.value = '';
+                    }}
+                    className="w-full px-3 py-2 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500 text-black"
+                  />
+                </div>
+              </div>
             </div>
           )}
 
@@ -1853,29 +3940,140 @@ const PDFTools: React.FC = () => {
           {activeTool === 'sign' && (
             <div className="space-y-4">
               <p className="text-sm text-gray-600">
-                Add digital signature to your PDF document.
+                Sign your PDF with the certificate from a PKCS#12 (.p12/.pfx) file.
               </p>
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-1">
-                  Signature Text:
+                  Certificate (.p12/.pfx):
                 </label>
                 <input
-                  type="text"
-                  value={signatureText}
-                  onChange={(e) => setSignatureText(e.target.value)}
-                  placeholder="Enter your signature"
+                  type="file"
+                  accept=".p12,.pfx,application/x-pkcs12"
+                  onChange={async (e) => {
+                    const file = e.target.files?.[0];
+                    setSignatureCertificate(file ? { name: file.name, data: await fileToBase64(file) } : null);
+                  }}
                   className="w-full px-3 py-2 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500 text-black"
                 />
+                <p className="text-xs text-gray-500 mt-1">
+                  The certificate never leaves your browser.
+                </p>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Certificate Password:
+                </label>
+                <input
+                  type="password"
+                  value={certificatePassword}
+                  onChange={(e) => setCertificatePassword(e.target.value)}
+                  placeholder="Password of the .p12 file"
+                  className="w-full px-3 py-2 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500 text-black"
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-2">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Reason:
+                  </label>
+                  <input
+                    type="text"
+                    value={signatureReason}
+                    onChange={(e) => setSignatureReason(e.target.value)}
+                    placeholder="e.g. I approve this document"
+                    className="w-full px-3 py-2 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500 text-black"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Location:
+                  </label>
+                  <input
+                    type="text"
+                    value={signatureLocation}
+                    onChange={(e) => setSignatureLocation(e.target.value)}
+                    placeholder="e.g. Berlin"
+                    className="w-full px-3 py-2 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500 text-black"
+                  />
+                </div>
               </div>
+              <label className="flex items-center gap-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={visibleSignature}
+                  onChange={(e) => setVisibleSignature(e.target.checked)}
+                />
+                Show the signature on the page
+              </label>
+              {visibleSignature && (
+                <>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      Signature Image:
+                    </label>
+                    <select
+                      value={signatureImageId}
+                      onChange={(e) => setSignatureImageId(e.target.value)}
+                      className="w-full px-3 py-2 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500 text-black"
+                    >
+                      <option value="">None (text only)</option>
+                      {files
+                        .filter(file => file.isSignature && (file.type === 'image/png' || file.type === 'image/jpeg'))
+                        .map(file => (
+                          <option key={file.id} value={file.id}>{file.name}</option>
+                        ))}
+                    </select>
+                    <p className="text-xs text-gray-500 mt-1">
+                      Draw signatures on the Signature page to use them here.
+                    </p>
+                  </div>
+                  <div className="grid grid-cols-3 gap-2">
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">
+                        Page:
+                      </label>
+                      <input
+                        type="number"
+                        min={1}
+                        value={signaturePage}
+                        onChange={(e) => setSignaturePage(Math.max(1, parseInt(e.target.value) || 1))}
+                        className="w-full px-3 py-2 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500 text-black"
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">
+                        Position X:
+                      </label>
+                      <input
+                        type="number"
+                        value={signaturePosition.x}
+                        onChange={(e) => setSignaturePosition(prev => ({ ...prev, x: parseInt(e.target.value) || 0 }))}
+                        className="w-full px-3 py-2 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500 text-black"
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-1">
+                        Position Y:
+                      </label>
+                      <input
+                        type="number"
+                        value={signaturePosition.y}
+                        onChange={(e) => setSignaturePosition(prev => ({ ...prev, y: parseInt(e.target.value) || 0 }))}
+                        className="w-full px-3 py-2 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500 text-black"
+                      />
+                    </div>
+                  </div>
+                </>
+              )}
               <div className="bg-blue-50 border border-blue-200 rounded p-3">
                 <p className="text-sm text-blue-800">
-                  <strong>Digital Signature:</strong> This will add a text-based signature to your PDF.
-                  For legally binding signatures, consider using a digital certificate.
+                  <strong>Digital Signature:</strong> Adds a PAdES signature that PDF readers can validate.
+                  Any change made to the document after signing will be detected.
                 </p>
               </div>
               <button
                 onClick={handleSignPDF}
-                disabled={selectedFiles.length !== 1 || isProcessing || !signatureText.trim()}
+                disabled={selectedFiles.length !== 1 || isProcessing || !signatureCertificate}
                 className="w-full py-3 px-4 bg-green-600 text-white rounded hover:bg-green-700 disabled:bg-gray-300"
               >
                 {isProcessing ? 'Signing...' : 'Sign PDF'}
@@ -1883,6 +4081,459 @@ const PDFTools: React.FC = () => {
             </div>
           )}
 
+          {/* Verify Signatures */}
+          {activeTool === 'verify' && (
+            <div className="space-y-4">
+              <p className="text-sm text-gray-600">
+                Check who signed a PDF and whether it changed after signing.
+              </p>
+              {isVerifyingSignatures ? (
+                <div className="text-center py-4 text-gray-500">
+                  <p>Verifying signatures...</p>
+                </div>
+              ) : !signatureReport ? (
+                <div className="text-center py-4 text-gray-500">
+                  <p>Select a single PDF to verify its signatures</p>
+                </div>
+              ) : signatureReport.length === 0 ? (
+                <div className="text-center py-4 text-gray-500">
+                  <p>This PDF is not digitally signed</p>
+                </div>
+              ) : (
+                signatureReport.map(signature => {
+                  const statusStyles = {
+                    valid: { className: 'bg-green-50 border-green-200 text-green-800', label: 'Valid' },
+                    modified: { className: 'bg-yellow-50 border-yellow-200 text-yellow-800', label: 'Modified after signing' },
+                    invalid: { className: 'bg-red-50 border-red-200 text-red-800', label: 'Invalid' },
+                    unknown: { className: 'bg-gray-50 border-gray-200 text-gray-800', label: 'Could not be verified' }
+                  }[signature.status];
+
+                  return (
+                    <div key={signature.fieldName} className={`border rounded p-3 text-sm space-y-2 ${statusStyles.className}`}>
+                      <div className="flex justify-between">
+                        <strong>{signature.fieldName}</strong>
+                        <span>{statusStyles.label}</span>
+                      </div>
+                      {signature.signer && (
+                        <p><strong>Signer:</strong> {signature.signer.subject}</p>
+                      )}
+                      {signature.signingTime && (
+                        <p><strong>Signed:</strong> {new Date(signature.signingTime).toLocaleString()}</p>
+                      )}
+                      {(signature.reason || signature.location) && (
+                        <p>
+                          {signature.reason && <><strong>Reason:</strong> {signature.reason} </>}
+                          {signature.location && <><strong>Location:</strong> {signature.location}</>}
+                        </p>
+                      )}
+                      <ul className="space-y-1">
+                        <li>{signature.digestMatches ? '✅' : '❌'} Document digest matches the signed byte range</li>
+                        <li>
+                          {signature.signatureValid === null ? '❔' : signature.signatureValid ? '✅' : '❌'} Signature
+                          {signature.signatureValid === null ? ' could not be checked' : signature.signatureValid ? ' is cryptographically valid' : ' does not match the signer certificate'}
+                        </li>
+                        <li>
+                          {signature.coversWholeDocument ? '✅ Covers the whole document' : '⚠️ The document was updated after this signature'}
+                        </li>
+                      </ul>
+                      {signature.chain.length > 0 && (
+                        <div>
+                          <p>
+                            <strong>Certificate chain</strong>
+                            {signature.chainValid && signature.chainComplete ? ' (complete)' : signature.chainValid ? ' (incomplete)' : ' (broken)'}:
+                          </p>
+                          <ol className="list-decimal list-inside">
+                            {signature.chain.map(certificate => (
+                              <li key={`${certificate.issuer}-${certificate.serialNumber}`}>
+                                {certificate.subject}
+                                <span className="text-xs"> — valid {certificate.validFrom.slice(0, 10)} to {certificate.validTo.slice(0, 10)}</span>
+                              </li>
+                            ))}
+                          </ol>
+                        </div>
+                      )}
+                      {signature.modifications.length > 0 && (
+                        <div>
+                          <p><strong>Changes after signing:</strong></p>
+                          <ul className="list-disc list-inside">
+                            {signature.modifications.map(modification => (
+                              <li key={modification.description}>
+                                {modification.kind === 'content' || modification.kind === 'other' ? '⚠️ ' : ''}
+                                {modification.description}
+                              </li>
+                            ))}
+                          </ul>
+                        </div>
+                      )}
+                      {signature.errors.map(error => (
+                        <p key={error}>❌ {error}</p>
+                      ))}
+                    </div>
+                  );
+                })
+              )}
+              <div className="bg-blue-50 border border-blue-200 rounded p-3">
+                <p className="text-sm text-blue-800">
+                  <strong>Trust:</strong> Certificates are checked against each other, not against a list of
+                  trusted authorities. Confirm the signer identity before relying on a signature.
+                </p>
+              </div>
+            </div>
+          )}
+
+          {/* PDF Doctor */}
+          {activeTool === 'doctor' && (
+            <div className="space-y-4">
+              <p className="text-sm text-gray-600">
+                Inspect how a PDF is built and repair files other tools cannot open: broken cross-reference
+                tables, truncated downloads and damaged page trees.
+              </p>
+              {isInspectingPDF ? (
+                <div className="text-center py-4 text-gray-500">
+                  <p>Inspecting PDF...</p>
+                </div>
+              ) : !structureReport ? (
+                <div className="text-center py-4 text-gray-500">
+                  <p>Select a single PDF to inspect it</p>
+                </div>
+              ) : (
+                <div className="space-y-3 text-sm">
+                  <div className={`border rounded p-3 ${
+                    structureReport.problems.length === 0 ? 'bg-green-50 border-green-200 text-green-800' : 'bg-yellow-50 border-yellow-200 text-yellow-800'
+                  }`}>
+                    <strong>
+                      {structureReport.problems.length === 0
+                        ? 'No structural problems found'
+                        : `${structureReport.problems.length} problem(s) found${structureReport.loadable ? '' : ' — the file needs rebuilding'}`}
+                    </strong>
+                    {structureReport.problems.length > 0 && (
+                      <ul className="mt-2 list-disc list-inside space-y-1">
+                        {structureReport.problems.map(problem => (
+                          <li key={problem}>{problem}</li>
+                        ))}
+                      </ul>
+                    )}
+                  </div>
+                  <dl className="grid grid-cols-2 gap-x-4 gap-y-1 text-gray-700">
+                    <dt className="font-medium">PDF version</dt><dd>{structureReport.version}</dd>
+                    <dt className="font-medium">File size</dt><dd>{formatBytes(structureReport.fileSize)}</dd>
+                    <dt className="font-medium">Pages</dt><dd>{structureReport.pageCount}</dd>
+                    <dt className="font-medium">Objects</dt><dd>{structureReport.objectCount}</dd>
+                    <dt className="font-medium">Incremental updates</dt><dd>{structureReport.incrementalUpdates}</dd>
+                    <dt className="font-medium">Linearized</dt><dd>{structureReport.linearized ? 'Yes' : 'No'}</dd>
+                    <dt className="font-medium">Tagged</dt><dd>{structureReport.tagged ? 'Yes' : 'No'}</dd>
+                    <dt className="font-medium">Encryption</dt>
+                    <dd>
+                      {structureReport.encryption
+                        ? `${structureReport.encryption.filter} V${structureReport.encryption.version} R${structureReport.encryption.revision}, ${structureReport.encryption.keyLength}-bit`
+                        : 'None'}
+                    </dd>
+                    <dt className="font-medium">Forms</dt>
+                    <dd>
+                      {structureReport.forms
+                        ? `${structureReport.forms.fields} field(s)${structureReport.forms.signatureFields > 0 ? `, ${structureReport.forms.signatureFields} signature` : ''}${structureReport.forms.xfa ? ', XFA' : ''}`
+                        : 'None'}
+                    </dd>
+                    <dt className="font-medium">JavaScript</dt>
+                    <dd>
+                      {structureReport.javaScript.actions === 0 && structureReport.javaScript.documentScripts === 0
+                        ? 'None'
+                        : `⚠️ ${structureReport.javaScript.actions} action(s)${structureReport.javaScript.documentScripts > 0 ? `, ${structureReport.javaScript.documentScripts} document script(s)` : ''}${structureReport.javaScript.runsOnOpen ? ', runs on open' : ''}`}
+                    </dd>
+                  </dl>
+                  <div>
+                    <p className="font-medium text-gray-700">Fonts ({structureReport.fonts.length})</p>
+                    {structureReport.fonts.length === 0 ? (
+                      <p className="text-gray-500">No fonts</p>
+                    ) : (
+                      <ul className="max-h-40 overflow-y-auto text-gray-700">
+                        {structureReport.fonts.map((font, index) => (
+                          <li key={index}>
+                            {font.embedded ? '✅' : '⚠️'} {font.name}
+                            <span className="text-xs text-gray-500">
+                              {' '}— {font.type}, {font.embedded ? (font.subset ? 'embedded subset' : 'embedded') : 'not embedded'}
+                            </span>
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </div>
+                  <div>
+                    <p className="font-medium text-gray-700">
+                      Images ({structureReport.images.length}
+                      {structureReport.images.length > 0 && `, ${formatBytes(structureReport.images.reduce((sum, image) => sum + image.size, 0))}`})
+                    </p>
+                    {structureReport.images.length === 0 ? (
+                      <p className="text-gray-500">No images</p>
+                    ) : (
+                      <ul className="max-h-40 overflow-y-auto text-gray-700">
+                        {[...structureReport.images].sort((a, b) => b.size - a.size).map((image, index) => (
+                          <li key={index}>
+                            {image.width}×{image.height} {image.colorSpace}
+                            <span className="text-xs text-gray-500">
+                              {' '}— {image.bitsPerComponent}-bit, {image.filter}, {formatBytes(image.size)}
+                            </span>
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </div>
+                </div>
+              )}
+              <button
+                onClick={handleRepairPDF}
+                disabled={selectedFiles.length !== 1 || isProcessing || isInspectingPDF}
+                className="w-full py-3 px-4 bg-teal-600 text-white rounded hover:bg-teal-700 disabled:bg-gray-300"
+              >
+                {isProcessing ? 'Repairing...' : 'Repair & Save Clean Copy'}
+              </button>
+              {repairReport && (
+                <div className="bg-green-50 border border-green-200 rounded p-3 text-sm text-green-800">
+                  <p>
+                    <strong>{repairReport.method === 'rebuilt' ? 'Rebuilt from scanned objects' : 'Re-saved with a fresh cross-reference table'}</strong>
+                  </p>
+                  <p>
+                    {repairReport.pageCount} page(s), {repairReport.objectsRecovered} object(s) kept
+                    {repairReport.objectsLost > 0 && `, ${repairReport.objectsLost} damaged object(s) lost`}
+                    {repairReport.truncatedStreams > 0 && `, ${repairReport.truncatedStreams} incomplete stream(s)`}
+                    {repairReport.unusedObjectsRemoved > 0 && `, ${repairReport.unusedObjectsRemoved} unused object(s) removed`}
+                  </p>
+                </div>
+              )}
+            </div>
+          )}
+
+          {/* PDF/A Archive */}
+          {activeTool === 'pdfa' && (
+            <div className="space-y-4">
+              <p className="text-sm text-gray-600">
+                Convert a PDF to PDF/A-2b for long-term archiving, or list what keeps it from conforming.
+              </p>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Password (only for encrypted PDFs):
+                </label>
+                <input
+                  type="password"
+                  value={pdfaPassword}
+                  onChange={(e) => setPdfaPassword(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500 text-black"
+                />
+              </div>
+              <div className="space-y-2">
+                <p className="text-sm font-medium text-gray-700">
+                  Replacement fonts (TrueType) for regular text the PDF does not embed, instead of the bundled Arimo, Tinos and Cousine:
+                </p>
+                {([
+                  { family: 'sans', label: 'Sans-serif (Helvetica, Arial)' },
+                  { family: 'serif', label: 'Serif (Times)' },
+                  { family: 'mono', label: 'Monospace (Courier)' },
+                ] as { family: PDFAFontFamily; label: string }[]).map(({ family, label }) => (
+                  <div key={family}>
+                    <label className="block text-xs text-gray-600 mb-1">
+                      {label}{pdfaFonts[family] && `: ${pdfaFonts[family]?.name}`}
+                    </label>
+                    <input
+                      type="file"
+                      accept=".ttf,font/ttf"
+                      onChange={(e) => handlePdfaFontUpload(family, e.target.files?.[0])}
+                      className="w-full text-sm text-gray-700"
+                    />
+                  </div>
+                ))}
+              </div>
+              {isProcessing && (
+                <div className="w-full bg-gray-200 rounded-full h-2.5">
+                  <div
+                    className="bg-indigo-600 h-2.5 rounded-full transition-all duration-300"
+                    style={{ width: `${progress}%` }}
+                  ></div>
+                </div>
+              )}
+              <div className="flex gap-2">
+                <button
+                  onClick={handleValidatePDFA}
+                  disabled={selectedFiles.length !== 1 || isProcessing}
+                  className="flex-1 py-3 px-4 bg-gray-600 text-white rounded hover:bg-gray-700 disabled:bg-gray-300"
+                >
+                  Check Conformance
+                </button>
+                <button
+                  onClick={handleConvertToPDFA}
+                  disabled={selectedFiles.length !== 1 || isProcessing}
+                  className="flex-1 py-3 px-4 bg-purple-600 text-white rounded hover:bg-purple-700 disabled:bg-gray-300"
+                >
+                  {isProcessing ? 'Converting...' : 'Convert to PDF/A-2b'}
+                </button>
+              </div>
+              {pdfaFixes.length > 0 && (
+                <div className="bg-green-50 border border-green-200 rounded p-3 text-sm text-green-800">
+                  <p><strong>Changes made:</strong></p>
+                  <ul className="list-disc list-inside">
+                    {pdfaFixes.map(fix => (
+                      <li key={fix}>{fix}</li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+              {pdfaReport && (
+                <div className={`border rounded p-3 text-sm space-y-2 ${
+                  pdfaReport.conformant ? 'bg-green-50 border-green-200 text-green-800' : 'bg-yellow-50 border-yellow-200 text-yellow-800'
+                }`}>
+                  <p>
+                    <strong>{pdfaReport.conformant ? 'Conforms to PDF/A-2b' : `${pdfaReport.violations.length} violation(s)`}</strong>
+                    {pdfaReport.claimedConformance && ` — the file claims PDF/A-${pdfaReport.claimedConformance}`}
+                  </p>
+                  {pdfaReport.violations.length > 0 && (
+                    <ul className="space-y-1">
+                      {pdfaReport.violations.map(violation => (
+                        <li key={violation.description}>
+                          {violation.fixable ? '🔧' : '⚠️'} {violation.description}
+                          {violation.location && <span className="text-xs"> ({violation.location}{violation.occurrences > 1 ? ` and ${violation.occurrences - 1} more` : ''})</span>}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                  {pdfaReport.violations.some(violation => violation.fixable) && (
+                    <p className="text-xs">🔧 The conversion fixes these automatically. ⚠️ These need changes to the source document.</p>
+                  )}
+                </div>
+              )}
+              <div className="bg-blue-50 border border-blue-200 rounded p-3">
+                <p className="text-sm text-blue-800">
+                  <strong>Note:</strong> Editing metadata or compressing a PDF/A file keeps its archive metadata
+                  in sync. Stripping metadata during compression removes the PDF/A identification.
+                </p>
+              </div>
+            </div>
+          )}
+
+          {/* Redact PDF */}
+          {activeTool === 'redact' && (
+            <div className="space-y-4">
+              <p className="text-sm text-gray-600">
+                Permanently remove text, images and comments from a PDF. The content is deleted from the file,
+                not just covered, and black boxes mark where it was.
+              </p>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Search terms (one per line):
+                </label>
+                <textarea
+                  value={redactionTerms}
+                  onChange={(e) => setRedactionTerms(e.target.value)}
+                  placeholder={redactionUseRegex ? '\\d{3}-\\d{2}-\\d{4}' : 'John Smith'}
+                  rows={3}
+                  className="w-full px-3 py-2 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500 text-black"
+                />
+                <div className="flex gap-4 mt-2">
+                  <label className="flex items-center text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={redactionUseRegex}
+                      onChange={(e) => setRedactionUseRegex(e.target.checked)}
+                      className="mr-2"
+                    />
+                    Regular expressions
+                  </label>
+                  <label className="flex items-center text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={redactionCaseSensitive}
+                      onChange={(e) => setRedactionCaseSensitive(e.target.checked)}
+                      className="mr-2"
+                    />
+                    Match case
+                  </label>
+                </div>
+              </div>
+              <div className="space-y-2">
+                <p className="text-sm font-medium text-gray-700">
+                  Regions (in points from the bottom-left corner of the page):
+                </p>
+                <div className="grid grid-cols-5 gap-2">
+                  {([
+                    { key: 'page', label: 'Page' },
+                    { key: 'x', label: 'X' },
+                    { key: 'y', label: 'Y' },
+                    { key: 'width', label: 'Width' },
+                    { key: 'height', label: 'Height' },
+                  ] as { key: keyof typeof redactionRegion; label: string }[]).map(({ key, label }) => (
+                    <div key={key}>
+                      <label className="block text-xs text-gray-600 mb-1">{label}:</label>
+                      <input
+                        type="number"
+                        min={key === 'page' ? 1 : 0}
+                        value={redactionRegion[key]}
+                        onChange={(e) => setRedactionRegion(prev => ({
+                          ...prev,
+                          [key]: key === 'page' ? Math.max(1, parseInt(e.target.value) || 1) : parseInt(e.target.value) || 0
+                        }))}
+                        className="w-full px-2 py-1 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500 text-black"
+                      />
+                    </div>
+                  ))}
+                </div>
+                <button
+                  onClick={handleAddRedactionRegion}
+                  className="w-full py-2 px-4 bg-gray-600 text-white rounded hover:bg-gray-700"
+                >
+                  Add Region
+                </button>
+                {redactionRegions.length > 0 && (
+                  <ul className="text-sm text-gray-700 space-y-1">
+                    {redactionRegions.map((region, index) => (
+                      <li key={index} className="flex justify-between items-center bg-gray-50 rounded px-2 py-1">
+                        <span>
+                          Page {region.pageIndex + 1}: {region.width}×{region.height} at ({region.x}, {region.y})
+                        </span>
+                        <button
+                          onClick={() => setRedactionRegions(prev => prev.filter((_, i) => i !== index))}
+                          className="text-red-600 hover:text-red-800"
+                        >
+                          Remove
+                        </button>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+              {isProcessing && (
+                <div className="w-full bg-gray-200 rounded-full h-2.5">
+                  <div
+                    className="bg-indigo-600 h-2.5 rounded-full transition-all duration-300"
+                    style={{ width: `${progress}%` }}
+                  ></div>
+                </div>
+              )}
+              <button
+                onClick={handleRedactPDF}
+                disabled={selectedFiles.length !== 1 || isProcessing}
+                className="w-full py-3 px-4 bg-gray-900 text-white rounded hover:bg-black disabled:bg-gray-300"
+              >
+                {isProcessing ? 'Redacting...' : 'Redact PDF'}
+              </button>
+              {redactionLog && redactionLog.length > 0 && (
+                <div className="bg-gray-50 border border-gray-200 rounded p-3 text-sm text-gray-800">
+                  <p><strong>Removed:</strong></p>
+                  <ul className="list-disc list-inside">
+                    {redactionLog.map((entry, index) => (
+                      <li key={index}>
+                        {entry.pageIndex !== undefined && `Page ${entry.pageIndex + 1}: `}{entry.description}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+              <div className="bg-yellow-50 border border-yellow-200 rounded p-3">
+                <p className="text-sm text-yellow-800">
+                  <strong>Note:</strong> Redaction cannot be undone. Keep the original file and review the
+                  redacted copy before sharing it.
+                </p>
+              </div>
+            </div>
+          )}
+
           {/* Fill Forms */}
           {activeTool === 'forms' && (
             <div className="space-y-4">
@@ -1890,27 +4541,111 @@ const PDFTools: React.FC = () => {
                 Fill out PDF form fields automatically.
               </p>
               <div className="space-y-3">
-                {Object.keys(formData).length === 0 ? (
+                {isLoadingFormFields ? (
+                  <div className="text-center py-4 text-gray-500">
+                    <p>Reading form fields...</p>
+                  </div>
+                ) : formFields.length === 0 ? (
                   <div className="text-center py-4 text-gray-500">
                     <p>No form fields detected</p>
-                    <p className="text-sm">Upload a PDF with form fields to get started</p>
+                    <p className="text-sm">Select a single PDF with form fields to get started</p>
                   </div>
                 ) : (
-                  Object.entries(formData).map(([fieldName, value]) => (
-                    <div key={fieldName}>
-                      <label className="block text-sm font-medium text-gray-700 mb-1">
-                        {fieldName}:
-                      </label>
-                      <input
-                        type="text"
-                        value={value}
-                        onChange={(e) => setFormData(prev => ({ ...prev, [fieldName]: e.target.value }))}
-                        className="w-full px-3 py-2 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500 text-black"
-                      />
-                    </div>
-                  ))
+                  formFields.filter(field => field.name in formData).map(field => {
+                    const value = formData[field.name];
+                    const setValue = (next: FormFieldValue) => setFormData(prev => ({ ...prev, [field.name]: next }));
+                    const inputClassName = "w-full px-3 py-2 border border-gray-300 rounded focus:outline-none focus:ring-2 focus:ring-blue-500 text-black";
+
+                    return (
+                      <div key={field.name}>
+                        {field.type !== 'checkbox' && (
+                          <label className="block text-sm font-medium text-gray-700 mb-1">
+                            {field.name}{field.required && <span className="text-red-600"> *</span>}
+                            {field.page && <span className="text-xs text-gray-500 ml-2">(page {field.page})</span>}
+                          </label>
+                        )}
+                        {field.type === 'text' && (field.multiline ? (
+                          <textarea
+                            value={value as string}
+                            maxLength={field.maxLength}
+                            onChange={(e) => setValue(e.target.value)}
+                            rows={3}
+                            className={inputClassName}
+                          />
+                        ) : (
+                          <input
+                            type="text"
+                            value={value as string}
+                            maxLength={field.maxLength}
+                            onChange={(e) => setValue(e.target.value)}
+                            className={inputClassName}
+                          />
+                        ))}
+                        {field.type === 'checkbox' && (
+                          <label className="flex items-center text-sm font-medium text-gray-700">
+                            <input
+                              type="checkbox"
+                              checked={value as boolean}
+                              onChange={(e) => setValue(e.target.checked)}
+                              className="mr-2 w-4 h-4 text-cyan-600 rounded focus:ring-cyan-500"
+                            />
+                            {field.name}{field.required && <span className="text-red-600"> *</span>}
+                            {field.page && <span className="text-xs text-gray-500 ml-2">(page {field.page})</span>}
+                          </label>
+                        )}
+                        {field.type === 'radio' && (
+                          <div className="flex flex-wrap gap-4">
+                            {field.options.map(option => (
+                              <label key={option} className="flex items-center text-sm text-gray-700">
+                                <input
+                                  type="radio"
+                                  name={field.name}
+                                  checked={value === option}
+                                  onChange={() => setValue(option)}
+                                  className="mr-2"
+                                />
+                                {option}
+                              </label>
+                            ))}
+                          </div>
+                        )}
+                        {(field.type === 'dropdown' || field.type === 'optionList') && (field.multiselect ? (
+                          <select
+                            multiple
+                            value={value as string[]}
+                            onChange={(e) => setValue(Array.from(e.target.selectedOptions, option => option.value))}
+                            className={inputClassName}
+                          >
+                            {field.options.map(option => (
+                              <option key={option} value={option}>{option}</option>
+                            ))}
+                          </select>
+                        ) : (
+                          <select
+                            value={value as string}
+                            onChange={(e) => setValue(e.target.value)}
+                            className={inputClassName}
+                          >
+                            <option value="">Select an option</option>
+                            {field.options.map(option => (
+                              <option key={option} value={option}>{option}</option>
+                            ))}
+                          </select>
+                        ))}
+                      </div>
+                    );
+                  })
                 )}
               </div>
+              <label className="flex items-center text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={flattenForm}
+                  onChange={(e) => setFlattenForm(e.target.checked)}
+                  className="mr-2 w-4 h-4 text-cyan-600 rounded focus:ring-cyan-500"
+                />
+                Flatten form (values become part of the page and can no longer be edited)
+              </label>
               <button
                 onClick={handleFillForms}
                 disabled={selectedFiles.length !== 1 || isProcessing}
@@ -1918,6 +4653,16 @@ const PDFTools: React.FC = () => {
               >
                 {isProcessing ? 'Filling...' : 'Fill Forms'}
               </button>
+              {formFillReport && (formFillReport.unknownFields.length > 0 || formFillReport.invalidFields.length > 0) && (
+                <div className="bg-yellow-50 border border-yellow-200 rounded p-3 text-sm text-yellow-800 space-y-1">
+                  {formFillReport.unknownFields.length > 0 && (
+                    <p><strong>Unknown fields:</strong> {formFillReport.unknownFields.join(', ')}</p>
+                  )}
+                  {formFillReport.invalidFields.map(field => (
+                    <p key={field.name}><strong>{field.name}:</strong> {field.reason}</p>
+                  ))}
+                </div>
+              )}
             </div>
           )}
 
@@ -1972,6 +4717,7 @@ const PDFTools: React.FC = () => {
                     { id: 'watermark', label: 'Add Watermark', desc: 'Apply watermark' },
                     { id: 'rotate', label: 'Rotate Pages', desc: 'Rotate all pages' },
                     { id: 'page-numbers', label: 'Add Page Numbers', desc: 'Number pages' },
+                    { id: 'header-footer', label: 'Header, Footer & Bates', desc: 'Uses the Header, Footer & Bates settings' },
                   ].map(operation => (
                     <label key={operation.id} className="flex items-center">
                       <input
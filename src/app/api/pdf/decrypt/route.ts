@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { PDFDocument } from 'pdf-lib';
+import { decryptPDFBytes } from '@/utils/pdfSecurityUtils';
+
+export async function POST(request: NextRequest) {
+  try {
+    const { pdfBase64, password } = await request.json();
+
+    if (!pdfBase64 || typeof password !== 'string') {
+      return NextResponse.json(
+        { error: 'PDF data and password are required' },
+        { status: 400 }
+      );
+    }
+
+    // Convert base64 to Uint8Array
+    const pdfBytes = Uint8Array.from(atob(pdfBase64.split(',')[1] || pdfBase64), c => c.charCodeAt(0));
+
+    const encryptionCheck = await PDFDocument.load(pdfBytes, { ignoreEncryption: true, updateMetadata: false });
+    if (!encryptionCheck.isEncrypted) {
+      return NextResponse.json(
+        { error: 'PDF is not password protected' },
+        { status: 400 }
+      );
+    }
+
+    // Either the user or the owner password unlocks the document
+    const decryptedBytes = await decryptPDFBytes(pdfBytes, password);
+    if (!decryptedBytes) {
+      return NextResponse.json(
+        { error: 'Incorrect password' },
+        { status: 401 }
+      );
+    }
+
+    // Round-trip through pdf-lib to make sure the result is readable
+    const pdfDoc = await PDFDocument.load(decryptedBytes);
+    const unlockedPdfBytes = await pdfDoc.save();
+
+    // Convert back to base64
+    const unlockedPdfBase64 = `data:application/pdf;base64,${Buffer.from(unlockedPdfBytes).toString('base64')}`;
+
+    return NextResponse.json({
+      success: true,
+      pdf: unlockedPdfBase64,
+      message: 'PDF password protection removed successfully'
+    });
+
+  } catch (error) {
+    console.error('Password removal error:', error);
+    return NextResponse.json(
+      { error: 'Failed to remove password protection from PDF' },
+      { status: 500 }
+    );
+  }
+}
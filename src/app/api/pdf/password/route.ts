@@ -1,13 +1,21 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { PDFDocument } from 'pdf-lib';
+import { encryptPDFDocument, PDFEncryptionAlgorithm } from '@/utils/pdfSecurityUtils';
 
 export async function POST(request: NextRequest) {
   try {
-    const { pdfBase64, password, permissions } = await request.json();
+    const { pdfBase64, password, ownerPassword, permissions, encryption } = await request.json();
 
-    if (!pdfBase64 || !password) {
+    if (!pdfBase64 || (!password && !ownerPassword)) {
       return NextResponse.json(
-        { error: 'PDF data and password are required' },
+        { error: 'PDF data and a user or owner password are required' },
+        { status: 400 }
+      );
+    }
+
+    if (encryption && encryption !== 'aes-128' && encryption !== 'aes-256') {
+      return NextResponse.json(
+        { error: 'Encryption must be aes-128 or aes-256' },
         { status: 400 }
       );
     }
@@ -18,10 +26,12 @@ export async function POST(request: NextRequest) {
     // Load the PDF document
     const pdfDoc = await PDFDocument.load(pdfBytes);
 
-    // Set encryption options
-    const encryptionOptions = {
-      userPassword: password,
-      ownerPassword: password, // Same as user password for simplicity
+    // Encrypt with the standard security handler, an empty user password
+    // opens the document but still enforces the permissions
+    await encryptPDFDocument(pdfDoc, {
+      userPassword: password || '',
+      ownerPassword: ownerPassword || undefined,
+      algorithm: (encryption as PDFEncryptionAlgorithm) || 'aes-256',
       permissions: {
         printing: permissions?.printing === 'lowResolution' ? 'lowResolution' :
                  permissions?.printing === 'highResolution' ? 'highResolution' :
@@ -33,12 +43,12 @@ export async function POST(request: NextRequest) {
         contentAccessibility: permissions?.contentAccessibility || false,
         documentAssembly: permissions?.documentAssembly || false,
       },
-    };
+    });
 
-    // Encrypt the PDF
+    // Objects are encrypted one by one, so they must not be packed into object streams
     const encryptedPdfBytes = await pdfDoc.save({
-      ...encryptionOptions,
-      useObjectStreams: true,
+      useObjectStreams: false,
+      updateFieldAppearances: false,
     });
 
     // Convert back to base64
@@ -57,4 +67,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,56 @@
+import * as React from "react";
+import { FileObject } from "@/utils/authUtils";
+
+export interface SelectedPdfLoader<T> {
+  /** Read what the tool shows from the PDF */
+  load: (pdfBase64: string) => Promise<T>;
+  /** Clear what was shown for the previous file */
+  onReset: () => void;
+  onLoad: (result: T) => void;
+  onError: (error: unknown) => void;
+}
+
+/**
+ * Run a loader on the PDF a tool works on whenever that file changes, e.g. to
+ * list its bookmarks while the bookmarks tool is open. Results for a file
+ * that is no longer selected are dropped. Returns whether a load is running.
+ */
+export function useSelectedPdfLoader<T>(file: FileObject | null, loader: SelectedPdfLoader<T>): boolean {
+  const [isLoading, setIsLoading] = React.useState(false);
+
+  // Keep the latest callbacks without reloading the file on every render
+  const loaderRef = React.useRef(loader);
+  React.useEffect(() => {
+    loaderRef.current = loader;
+  });
+
+  const pdfBase64 = file?.base64;
+
+  React.useEffect(() => {
+    loaderRef.current.onReset();
+    if (!pdfBase64) {
+      setIsLoading(false);
+      return;
+    }
+
+    let cancelled = false;
+    setIsLoading(true);
+
+    loaderRef.current.load(pdfBase64)
+      .then(result => {
+        if (!cancelled) loaderRef.current.onLoad(result);
+      })
+      .catch(error => {
+        if (!cancelled) loaderRef.current.onError(error);
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [pdfBase64]);
+
+  return isLoading;
+}
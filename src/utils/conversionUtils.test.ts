@@ -0,0 +1,505 @@
+import { DOMParser, XMLSerializer } from '@xmldom/xmldom';
+import { describe, expect, it, vi } from 'vitest';
+import {
+  PDFArray,
+  PDFDict,
+  PDFDocument,
+  PDFHexString,
+  PDFName,
+  PDFObject,
+  PDFRawStream,
+  PDFStream,
+  PDFString,
+  StandardFonts,
+  decodePDFRawStream
+} from 'pdf-lib';
+import {
+  addAnnotationToPDF,
+  addHeaderFooterToPDF,
+  addWatermarkToPDF,
+  compressPDF,
+  exportPDFAnnotations,
+  fillPDFForm,
+  formatBatesNumber,
+  getBookletSides,
+  getPDFAnnotations,
+  getPDFFormFields,
+  importPDFAnnotations,
+  layoutPDF,
+  processBatchPDFOperations,
+  splitPDF,
+  PDFAnnotationInfo
+} from './conversionUtils';
+import { readPDFOutline, writePDFOutline } from './pdfOutlineUtils';
+
+// XMP and XFDF are parsed with the browser's XML DOM
+vi.stubGlobal('DOMParser', DOMParser);
+vi.stubGlobal('XMLSerializer', XMLSerializer);
+
+const toBase64 = (bytes: Uint8Array) => `data:application/pdf;base64,${Buffer.from(bytes).toString('base64')}`;
+const fromBase64 = (pdf: string) => Buffer.from(pdf.split(',')[1] || pdf, 'base64');
+
+describe('compressPDF', () => {
+  it('drops the XMP packet when stripping metadata without removing unused objects', async () => {
+    const pdfDoc = await PDFDocument.create();
+    pdfDoc.addPage([200, 200]);
+    pdfDoc.setTitle('Quarterly figures');
+    const xmp = pdfDoc.context.stream('<x:xmpmeta xmlns:x="adobe:ns:meta/">secret-xmp-marker</x:xmpmeta>', {
+      Type: 'Metadata',
+      Subtype: 'XML'
+    });
+    pdfDoc.catalog.set(pdfDoc.context.obj('Metadata'), pdfDoc.context.register(xmp));
+
+    const { pdf, report } = await compressPDF(toBase64(await pdfDoc.save({ useObjectStreams: false })), {
+      removeMetadata: true,
+      removeUnusedObjects: false
+    });
+
+    const output = fromBase64(pdf);
+    expect(output.toString('latin1')).not.toContain('secret-xmp-marker');
+    expect(report.metadataRemoved).toBe(true);
+    expect((await PDFDocument.load(output, { updateMetadata: false })).getTitle()).toBeUndefined();
+  });
+
+  it('returns the original file with an empty report when nothing can be saved', async () => {
+    const pdfDoc = await PDFDocument.create();
+    pdfDoc.addPage([200, 200]);
+    const original = toBase64(await pdfDoc.save());
+
+    const { pdf, report } = await compressPDF(original);
+
+    expect(pdf).toBe(original);
+    expect(report).toMatchObject({
+      compressedSize: report.originalSize,
+      imagesRecompressed: 0,
+      duplicateStreamsRemoved: 0,
+      unusedObjectsRemoved: 0,
+      metadataRemoved: false
+    });
+  });
+});
+
+/** A PDF with the given number of blank pages */
+const blankPDF = async (pageCount: number) => {
+  const pdfDoc = await PDFDocument.create();
+  for (let i = 0; i < pageCount; i++) pdfDoc.addPage([400, 400]);
+  return toBase64(await pdfDoc.save());
+};
+
+/** Comments without a dedicated builder, written the way other readers store them */
+const reviewedPDF = async () => {
+  const pdfDoc = await PDFDocument.create();
+  const page = pdfDoc.addPage([400, 400]);
+  const { context } = pdfDoc;
+  const annotation = (entries: Record<string, PDFObject | string | number[]>) => {
+    const ref = context.register(context.obj({ Type: 'Annot', F: 4, P: page.ref, ...entries }));
+    page.node.addAnnot(ref);
+    return ref;
+  };
+  const line = annotation({
+    Subtype: 'Line', NM: PDFString.of('line-1'), Rect: [40, 40, 200, 120], L: [50, 50, 190, 110],
+    Contents: PDFHexString.fromText('Move this up'), T: PDFHexString.fromText('Ana'), C: [1, 0, 0]
+  });
+  annotation({
+    Subtype: 'Polygon', NM: PDFString.of('polygon-1'), Rect: [100, 200, 300, 300],
+    Vertices: [100, 200, 300, 200, 200, 300], Contents: PDFHexString.fromText('Region')
+  });
+  annotation({ Subtype: 'Stamp', NM: PDFString.of('stamp-1'), Rect: [250, 50, 350, 90], Name: 'Approved' });
+  annotation({
+    Subtype: 'Squiggly', NM: PDFString.of('squiggly-1'), Rect: [40, 300, 140, 312],
+    QuadPoints: [40, 312, 140, 312, 40, 300, 140, 300]
+  });
+  annotation({
+    Subtype: 'Text', NM: PDFString.of('reply-1'), Rect: [50, 50, 70, 70], IRT: line,
+    Contents: PDFHexString.fromText('Agreed'), T: PDFHexString.fromText('Ben')
+  });
+  annotation({ Subtype: 'Link', Rect: [0, 0, 10, 10] });
+  return toBase64(await pdfDoc.save());
+};
+
+describe('addAnnotationToPDF', () => {
+  it('adds a sticky note that readers list as a comment', async () => {
+    const annotated = await addAnnotationToPDF(await blankPDF(1), {
+      x: 100,
+      y: 200,
+      text: 'Check this figure',
+      author: 'Ana'
+    });
+
+    const [note] = await getPDFAnnotations(annotated);
+    expect(note).toMatchObject({
+      type: 'Text',
+      pageIndex: 0,
+      author: 'Ana',
+      contents: 'Check this figure',
+      rect: [100, 200, 120, 220],
+      replies: []
+    });
+  });
+
+  it('fits ink annotations to their strokes and highlights to their rectangle', async () => {
+    const inked = await addAnnotationToPDF(await blankPDF(1), {
+      type: 'ink',
+      x: 0,
+      y: 0,
+      borderWidth: 3,
+      inkList: [[{ x: 10, y: 20 }, { x: 60, y: 80 }], [{ x: 30, y: 5 }]]
+    });
+    const highlighted = await addAnnotationToPDF(inked, {
+      type: 'highlight',
+      x: 40,
+      y: 300,
+      width: 100,
+      height: 12
+    });
+
+    const [ink, highlight] = await getPDFAnnotations(highlighted);
+    expect(ink).toMatchObject({ type: 'Ink', rect: [7, 2, 63, 83], borderWidth: 3 });
+    expect(highlight).toMatchObject({
+      type: 'Highlight',
+      rect: [40, 300, 140, 312],
+      quadPoints: [40, 312, 140, 312, 40, 300, 140, 300],
+      opacity: 0.5
+    });
+    const page = (await PDFDocument.load(fromBase64(highlighted))).getPage(0);
+    const highlightDict = page.node.Annots()!.lookup(1, PDFDict);
+    const appearance = highlightDict.lookup(PDFName.of('AP'), PDFDict).lookup(PDFName.of('N'), PDFStream);
+    expect(appearance.dict.lookup(PDFName.of('BBox'), PDFArray).asArray().map(value => value.toString()))
+      .toEqual(['40', '300', '140', '312']);
+  });
+
+  it('rejects ink without strokes and pages that do not exist', async () => {
+    const pdf = await blankPDF(1);
+
+    await expect(addAnnotationToPDF(pdf, { type: 'ink', x: 0, y: 0, inkList: [[]] })).rejects.toThrow(
+      'Failed to add annotation to PDF'
+    );
+    await expect(addAnnotationToPDF(pdf, { x: 0, y: 0, pageIndex: 1 })).rejects.toThrow(
+      'Failed to add annotation to PDF'
+    );
+  });
+});
+
+describe('PDF annotation export and import', () => {
+  it.each(['xfdf', 'json'] as const)('moves every comment type and its replies to another copy as %s', async format => {
+    const exported = await exportPDFAnnotations(await reviewedPDF(), format);
+    const { pdf, imported, skipped } = await importPDFAnnotations(await blankPDF(1), exported);
+
+    expect({ imported, skipped }).toEqual({ imported: 5, skipped: 0 });
+    const threads = await getPDFAnnotations(pdf);
+    const byId = new Map(threads.map(info => [info.id, info]));
+    expect(Array.from(byId.keys()).sort()).toEqual(['line-1', 'polygon-1', 'squiggly-1', 'stamp-1']);
+    expect(byId.get('line-1')).toMatchObject({ type: 'Line', line: [50, 50, 190, 110], author: 'Ana', contents: 'Move this up' });
+    expect(byId.get('line-1')!.replies.map(reply => reply.contents)).toEqual(['Agreed']);
+    expect(byId.get('polygon-1')!.vertices).toEqual([100, 200, 300, 200, 200, 300]);
+    expect(byId.get('stamp-1')!.icon).toBe('Approved');
+    expect(byId.get('squiggly-1')!.quadPoints).toEqual([40, 312, 140, 312, 40, 300, 140, 300]);
+  });
+
+  it('keeps the XFDF fields of created annotations', async () => {
+    const annotated = await addAnnotationToPDF(await blankPDF(2), {
+      type: 'ink',
+      pageIndex: 1,
+      x: 0,
+      y: 0,
+      text: 'Signed here & there',
+      author: 'Ana',
+      color: { r: 0, g: 0, b: 1 },
+      inkList: [[{ x: 10, y: 10 }, { x: 60, y: 40 }]]
+    });
+    const xfdf = await exportPDFAnnotations(annotated, 'xfdf');
+    expect(xfdf).toContain('<ink ');
+    expect(xfdf).toContain('<contents>Signed here &amp; there</contents>');
+
+    const { pdf } = await importPDFAnnotations(await blankPDF(2), xfdf);
+    const [ink] = await getPDFAnnotations(pdf);
+    expect(ink).toMatchObject({
+      type: 'Ink',
+      pageIndex: 1,
+      author: 'Ana',
+      contents: 'Signed here & there',
+      color: { r: 0, g: 0, b: 1 },
+      inkList: [[{ x: 10, y: 10 }, { x: 60, y: 40 }]]
+    });
+  });
+
+  it('attaches replies to a skipped comment to the nearest imported one', async () => {
+    const comment = (id: string, type: string, inReplyTo?: string): PDFAnnotationInfo => ({
+      id, type, pageIndex: 0, rect: [10, 10, 30, 30], contents: id, inReplyTo, replies: []
+    });
+    const data = JSON.stringify({
+      annotations: [comment('note', 'Text'), comment('attachment', 'FileAttachment', 'note'), comment('answer', 'Text', 'attachment')]
+    });
+
+    const { pdf, imported, skipped } = await importPDFAnnotations(await blankPDF(1), data);
+
+    expect({ imported, skipped }).toEqual({ imported: 2, skipped: 1 });
+    const [note, ...others] = await getPDFAnnotations(pdf);
+    expect(others).toEqual([]);
+    expect(note.replies.map(reply => reply.id)).toEqual(['answer']);
+  });
+});
+
+describe('addWatermarkToPDF', () => {
+  // 1x1 transparent PNG
+  const png = 'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChwGA60e6kgAAAABJRU5ErkJggg==';
+
+  const imageCount = async (pdf: string) => {
+    const pdfDoc = await PDFDocument.load(fromBase64(pdf));
+    return pdfDoc.context.enumerateIndirectObjects()
+      .filter(([, object]) => object instanceof PDFRawStream && object.dict.get(PDFName.of('Subtype')) === PDFName.of('Image'))
+      .length;
+  };
+
+  it.each([
+    ['a data URL', `data:image/png;base64,${png}`],
+    ['bare base64', png]
+  ])('embeds a PNG given as %s', async (_, image) => {
+    const watermarked = await addWatermarkToPDF(await blankPDF(1), '', { image });
+    expect(await imageCount(watermarked)).toBeGreaterThan(0);
+  });
+
+  it('rejects images that are neither PNG nor JPEG', async () => {
+    const gif = Buffer.from('GIF89a\x01\x00\x01\x00', 'latin1').toString('base64');
+    await expect(addWatermarkToPDF(await blankPDF(1), '', { image: gif })).rejects.toThrow();
+  });
+});
+
+describe('splitPDF', () => {
+  /** Pages numbered in their text, with bookmarks at the given pages */
+  const numberedPDF = async (pageCount: number, bookmarks: Array<[string, number, Array<[string, number]>?]> = []) => {
+    const pdfDoc = await PDFDocument.create();
+    const font = await pdfDoc.embedFont(StandardFonts.Helvetica);
+    for (let i = 0; i < pageCount; i++) {
+      pdfDoc.addPage([300, 300]).drawText(`Page ${i + 1} `.repeat(40), { x: 10, y: 150, size: 8, font, maxWidth: 280 });
+    }
+    writePDFOutline(pdfDoc, bookmarks.map(([title, pageIndex, children = []]) => ({
+      title,
+      pageIndex,
+      children: children.map(([childTitle, childPage]) => ({ title: childTitle, pageIndex: childPage, children: [] }))
+    })));
+    return toBase64(await pdfDoc.save());
+  };
+
+  const pagesOf = (parts: { pageIndices: number[] }[]) => parts.map(part => part.pageIndices);
+
+  it('splits every N pages', async () => {
+    const parts = await splitPDF(await numberedPDF(7), '', { mode: 'everyN', pagesPerFile: 3, fileName: 'scan.pdf' });
+    expect(pagesOf(parts)).toEqual([[0, 1, 2], [3, 4, 5], [6]]);
+    expect(parts.map(part => part.name)).toEqual(['scan_part1.pdf', 'scan_part2.pdf', 'scan_part3.pdf']);
+  });
+
+  it('splits into odd and even pages', async () => {
+    const parts = await splitPDF(await numberedPDF(5), '', { mode: 'oddEven' });
+    expect(parts.map(part => part.title)).toEqual(['odd', 'even']);
+    expect(pagesOf(parts)).toEqual([[0, 2, 4], [1, 3]]);
+  });
+
+  it('splits at top-level bookmarks and keeps their children', async () => {
+    const pdf = await numberedPDF(6, [['Chapter 1', 1, [['Section 1.1', 2]]], ['Chapter 2', 4]]);
+    const parts = await splitPDF(pdf, '', { mode: 'bookmarks', nameTemplate: '{title}' });
+
+    expect(parts.map(part => part.name)).toEqual(['Front matter.pdf', 'Chapter 1.pdf', 'Chapter 2.pdf']);
+    expect(pagesOf(parts)).toEqual([[0], [1, 2, 3], [4, 5]]);
+    const chapter = await PDFDocument.load(fromBase64(parts[1].pdf));
+    expect(readPDFOutline(chapter).map(({ title, pageIndex }) => ({ title, pageIndex }))).toEqual([
+      { title: 'Section 1.1', pageIndex: 1 }
+    ]);
+  });
+
+  it('keeps parts under the size limit and covers every page in order', async () => {
+    const pdf = await numberedPDF(12);
+    const [onePage] = await splitPDF(pdf, '', { mode: 'everyN', pagesPerFile: 1 });
+    const maxFileSize = fromBase64(onePage.pdf).length * 3;
+
+    const parts = await splitPDF(pdf, '', { mode: 'maxSize', maxFileSize });
+
+    expect(parts.length).toBeGreaterThan(1);
+    expect(pagesOf(parts).flat()).toEqual(Array.from({ length: 12 }, (_, i) => i));
+    parts.forEach(part => expect(fromBase64(part.pdf).length).toBeLessThanOrEqual(maxFileSize));
+  });
+
+  it('gives parts that share a templated name a suffix', async () => {
+    const parts = await splitPDF(await numberedPDF(4), '', { mode: 'everyN', pagesPerFile: 2, nameTemplate: 'batch' });
+    expect(parts.map(part => part.name)).toEqual(['batch.pdf', 'batch_2.pdf']);
+  });
+
+  it('extracts page ranges into one part', async () => {
+    const [part] = await splitPDF(await numberedPDF(10), '2-3,8');
+    expect(part.pageIndices).toEqual([1, 2, 7]);
+    expect((await PDFDocument.load(fromBase64(part.pdf))).getPageCount()).toBe(3);
+  });
+});
+
+describe('getBookletSides', () => {
+  it('orders the sides of a saddle-stitched booklet', () => {
+    expect(getBookletSides(8, false)).toEqual([[7, 0], [1, 6], [5, 2], [3, 4]]);
+  });
+
+  it('pads the booklet with blank pages to a multiple of four', () => {
+    expect(getBookletSides(5, false)).toEqual([[null, 0], [1, null], [null, 2], [3, 4]]);
+  });
+
+  it('binds on the right for right-to-left booklets', () => {
+    expect(getBookletSides(4, true)).toEqual([[0, 3], [2, 1]]);
+  });
+});
+
+describe('layoutPDF', () => {
+  const sheetSizes = async (pdf: string) =>
+    (await PDFDocument.load(fromBase64(pdf))).getPages().map(page => page.getSize());
+
+  it('places four pages on each sheet, blank pages without content included', async () => {
+    const sheets = await sheetSizes(await layoutPDF(await blankPDF(5), { columns: 2, rows: 2 }));
+    expect(sheets).toHaveLength(2);
+  });
+
+  it('prints booklets on landscape sheets twice the page width', async () => {
+    const sheets = await sheetSizes(await layoutPDF(await blankPDF(5), { mode: 'booklet', margins: 0, gutter: 0 }));
+    expect(sheets).toEqual(Array(4).fill({ width: 800, height: 400 }));
+  });
+
+  it('rejects grids outside the supported size', async () => {
+    await expect(layoutPDF(await blankPDF(1), { columns: 0 })).rejects.toThrow();
+  });
+});
+
+describe('Bates numbering', () => {
+  /** Standard font text of each page; pdf-lib writes it as hex strings */
+  const pageTexts = async (pdf: string) => {
+    const pdfDoc = await PDFDocument.load(fromBase64(pdf));
+    return pdfDoc.getPages().map(page => {
+      const contents = page.node.Contents();
+      const streams = contents instanceof PDFArray ? contents.asArray().map(ref => pdfDoc.context.lookup(ref)) : [contents];
+      const content = streams
+        .map(stream => (stream instanceof PDFRawStream ? Buffer.from(decodePDFRawStream(stream).decode()).toString('latin1') : ''))
+        .join('\n');
+      return Array.from(content.matchAll(/<([0-9A-F]+)> Tj/g), ([, hex]) => Buffer.from(hex, 'hex').toString('latin1')).join(' ');
+    });
+  };
+
+  it('formats zero-padded labels with a prefix and suffix', () => {
+    expect(formatBatesNumber(42, {})).toBe('000042');
+    expect(formatBatesNumber(42, { prefix: 'ABC', suffix: '-C', digits: 4 })).toBe('ABC0042-C');
+    expect(formatBatesNumber(1234567, { digits: 3 })).toBe('1234567');
+  });
+
+  it('numbers only the filtered pages and returns the next number', async () => {
+    const { pdf, nextBatesNumber } = await addHeaderFooterToPDF(await blankPDF(5), {
+      bates: { prefix: 'ABC', start: 10 },
+      pageParity: 'odd'
+    });
+
+    expect(nextBatesNumber).toBe(13);
+    expect(await pageTexts(pdf)).toEqual(['ABC000010', '', 'ABC000011', '', 'ABC000012']);
+  });
+
+  it('fills header and footer templates', async () => {
+    const { pdf } = await addHeaderFooterToPDF(await blankPDF(2), {
+      header: { left: '{filename}', right: 'Page {page} of {total}' },
+      footer: { center: '{date}' },
+      fileName: 'contract.pdf',
+      date: new Date(2024, 2, 5)
+    });
+
+    expect((await pageTexts(pdf))[1]).toBe('contract.pdf Page 2 of 2 2024-03-05');
+  });
+
+  it('continues the numbering from one file to the next in a batch', async () => {
+    const results = await processBatchPDFOperations(
+      [await blankPDF(3), await blankPDF(2)],
+      [{ type: 'header-footer', options: { bates: { prefix: 'DOC', digits: 4, start: 100 } } }]
+    );
+
+    expect(await pageTexts(results[0])).toEqual(['DOC0100', 'DOC0101', 'DOC0102']);
+    expect(await pageTexts(results[1])).toEqual(['DOC0103', 'DOC0104']);
+  });
+});
+
+/** A form with one field of every fillable type */
+const formPDF = async () => {
+  const pdfDoc = await PDFDocument.create();
+  const page = pdfDoc.addPage([400, 400]);
+  const form = pdfDoc.getForm();
+  const name = form.createTextField('applicant.name');
+  name.setMaxLength(10);
+  name.addToPage(page, { x: 20, y: 340, width: 200, height: 20, borderWidth: 0 });
+  form.createCheckBox('agree').addToPage(page, { x: 20, y: 300, width: 16, height: 16 });
+  const plan = form.createRadioGroup('plan');
+  plan.addOptionToPage('basic', page, { x: 20, y: 260, width: 16, height: 16 });
+  plan.addOptionToPage('pro', page, { x: 60, y: 260, width: 16, height: 16 });
+  const country = form.createDropdown('country');
+  country.addOptions(['France', 'Japan']);
+  country.select('Japan');
+  country.addToPage(page, { x: 20, y: 220, width: 120, height: 20 });
+  const topics = form.createOptionList('topics');
+  topics.addOptions(['Art', 'Music', 'Sport']);
+  topics.enableMultiselect();
+  topics.addToPage(page, { x: 20, y: 120, width: 120, height: 80 });
+  return toBase64(await pdfDoc.save());
+};
+
+describe('getPDFFormFields', () => {
+  it('lists every field with its type, value, options and position', async () => {
+    const fields = await getPDFFormFields(await formPDF());
+
+    expect(fields.map(({ name, type, value }) => ({ name, type, value }))).toEqual([
+      { name: 'applicant.name', type: 'text', value: '' },
+      { name: 'agree', type: 'checkbox', value: false },
+      { name: 'plan', type: 'radio', value: '' },
+      { name: 'country', type: 'dropdown', value: 'Japan' },
+      { name: 'topics', type: 'optionList', value: [] }
+    ]);
+    expect(fields[0]).toMatchObject({ maxLength: 10, page: 1, rect: { x: 20, y: 340, width: 200, height: 20 } });
+    expect(fields[2].options).toEqual(['basic', 'pro']);
+    expect(fields[4]).toMatchObject({ options: ['Art', 'Music', 'Sport'], multiselect: true });
+  });
+});
+
+describe('fillPDFForm', () => {
+  it('fills every field type and reads the values back', async () => {
+    const { pdf, report } = await fillPDFForm(await formPDF(), {
+      'applicant.name': 'Ana Lima',
+      agree: 'yes',
+      plan: 'pro',
+      country: 'France',
+      topics: ['Art', 'Sport']
+    });
+
+    expect(report).toEqual({
+      filledFields: ['applicant.name', 'agree', 'plan', 'country', 'topics'],
+      unknownFields: [],
+      invalidFields: [],
+      flattened: false
+    });
+    const values = Object.fromEntries((await getPDFFormFields(pdf)).map(field => [field.name, field.value]));
+    expect(values).toEqual({
+      'applicant.name': 'Ana Lima',
+      agree: true,
+      plan: 'pro',
+      country: 'France',
+      topics: ['Art', 'Sport']
+    });
+  });
+
+  it('reports unknown fields and rejected values without failing the fill', async () => {
+    const { report } = await fillPDFForm(await formPDF(), {
+      'applicant.name': 'A name that is far too long',
+      agree: 'maybe',
+      plan: 'enterprise',
+      country: 'France',
+      missing: 'value'
+    });
+
+    expect(report.filledFields).toEqual(['country']);
+    expect(report.unknownFields).toEqual(['missing']);
+    expect(report.invalidFields.map(field => field.name)).toEqual(['applicant.name', 'agree', 'plan']);
+  });
+
+  it('flattens the filled values into the page', async () => {
+    const { pdf, report } = await fillPDFForm(await formPDF(), { 'applicant.name': 'Ana' }, { flatten: true });
+
+    expect(report.flattened).toBe(true);
+    expect(await getPDFFormFields(pdf)).toEqual([]);
+  });
+});
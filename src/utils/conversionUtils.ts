@@ -3,7 +3,96 @@
  * Real file conversion utilities using browser APIs and client-side libraries
  */
 
-import { PDFDocument, rgb, StandardFonts, degrees } from 'pdf-lib';
+import {
+  PDFArray,
+  PDFDict,
+  PDFDocument,
+  PDFFont,
+  PDFImage,
+  PDFNumber,
+  PDFName,
+  PDFRawStream,
+  PDFStream,
+  PDFObject,
+  PDFOperator,
+  PDFPage,
+  PDFRef,
+  PDFString,
+  PDFHexString,
+  PDFTextField,
+  PDFCheckBox,
+  PDFRadioGroup,
+  PDFDropdown,
+  PDFOptionList,
+  PDFSignature,
+  rgb,
+  StandardFonts,
+  degrees,
+  beginText,
+  endText,
+  setFontAndSize,
+  setTextMatrix,
+  setCharacterSqueeze,
+  setTextRenderingMode,
+  showText,
+  TextRenderingMode,
+  drawEllipse,
+  drawLine,
+  drawLinesOfText,
+  drawRectangle,
+  lineTo,
+  moveTo,
+  popGraphicsState,
+  pushGraphicsState,
+  setGraphicsState,
+  setLineCap,
+  setLineJoin,
+  setLineWidth,
+  setStrokingRgbColor,
+  setFillingRgbColor,
+  closePath,
+  fill,
+  stroke,
+  LineCapStyle,
+  LineJoinStyle
+} from 'pdf-lib';
+import type { PDFSignatureSubFilter, PDFSignatureVerification } from './pdfSignatureUtils';
+import {
+  convertPDFDocumentToPDFA,
+  getPDFAFontFacesToEmbed,
+  syncPDFAMetadata,
+  validatePDFADocument,
+  PDFAConversionReport,
+  PDFAFontFace,
+  PDFAValidationResult
+} from './pdfArchiveUtils';
+import { collectReachableRefs, deflateBytes, inflateBytes, toStandardFontText, undoPNGPredictor } from './pdfObjectUtils';
+import { inspectPDFStructure, repairPDFDocument, PDFRepairReport, PDFStructureReport } from './pdfRepairUtils';
+import { redactPDFDocument, PDFRedactionLogEntry, PDFRedactionOptions } from './pdfRedactionUtils';
+import { mergePDFDocuments, PDFMergeSource } from './pdfMergeUtils';
+import {
+  readPDFMetadata,
+  removeAllPDFMetadata,
+  writePDFMetadata,
+  PDFMetadataInfo,
+  PDFMetadataUpdate
+} from './pdfMetadataUtils';
+import {
+  alignPages,
+  buildPDFComparisonReport,
+  diffWords,
+  findChangedRegions,
+  tokenizeWords,
+  PDFPageComparison
+} from './pdfCompareUtils';
+import {
+  applyBookmarkEdit,
+  readPDFOutline,
+  remapBookmarkPages,
+  writePDFOutline,
+  PDFBookmark,
+  PDFBookmarkEdit
+} from './pdfOutlineUtils';
 
 /**
  * Convert image to different format using Canvas API
@@ -251,26 +340,68 @@ export const addWatermark = async (
   });
 };
 
+/**
+ * The page as the reader sees it: its visible size after /Rotate, and a
+ * mapping from that view back to user space for drawing
+ */
+const getDisplayedPageFrame = (page: PDFPage) => {
+  const rotation = ((page.getRotation().angle % 360) + 360) % 360;
+  const box = page.getCropBox();
+  const [width, height] = rotation % 180 === 0 ? [box.width, box.height] : [box.height, box.width];
+  const toUserSpace = (x: number, y: number) => ({
+    0: { x: box.x + x, y: box.y + y },
+    90: { x: box.x + box.width - y, y: box.y + x },
+    180: { x: box.x + box.width - x, y: box.y + box.height - y },
+    270: { x: box.x + y, y: box.y + box.height - x }
+  }[rotation] ?? { x: box.x + x, y: box.y + y });
+  return { width, height, rotation, toUserSpace };
+};
+
+export interface PDFWatermarkOptions {
+  fontSize?: number;
+  color?: { r: number; g: number; b: number };
+  opacity?: number;
+  position?: 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right' | 'center';
+  font?: string;
+  /** PNG or JPEG, as a data URL or bare base64, drawn instead of the text; PNG transparency is kept */
+  image?: string;
+  /** Image width as a fraction of the page width */
+  imageScale?: number;
+  /** Counter-clockwise angle in degrees, turning about the watermark's centre */
+  rotation?: number;
+  /** Repeat the watermark across the whole page */
+  tile?: boolean;
+  /** Space between tiles, in points */
+  tileSpacing?: number;
+  /** Pages to watermark, e.g. "1-5,8"; every page when empty */
+  pageRange?: string;
+  /** Draw behind the page content, where opaque backgrounds such as scans hide it, or over it */
+  layer?: 'over' | 'under';
+}
+
+const MAX_WATERMARK_TILES = 2000;
+
 /**
  * Add watermark to PDF using pdf-lib
  */
 export const addWatermarkToPDF = async (
   pdfBase64: string,
   watermarkText: string,
-  options: {
-    fontSize?: number;
-    color?: { r: number; g: number; b: number };
-    opacity?: number;
-    position?: 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right' | 'center';
-    font?: string;
-  } = {}
+  options: PDFWatermarkOptions = {}
 ): Promise<string> => {
   const {
     fontSize = 50,
     color = { r: 0.5, g: 0.5, b: 0.5 },
     opacity = 0.3,
     position = 'center',
-    font = 'Helvetica'
+    font = 'Helvetica',
+    image,
+    imageScale = 0.3,
+    rotation = 0,
+    tile = false,
+    tileSpacing = 60,
+    pageRange,
+    layer = 'over'
   } = options;
 
   try {
@@ -293,53 +424,96 @@ export const addWatermarkToPDF = async (
         pdfFont = await pdfDoc.embedFont(StandardFonts.Helvetica);
     }
 
-    // Get all pages
-    const pages = pdfDoc.getPages();
+    // Embed the image watermark, if any
+    let watermarkImage: PDFImage | undefined;
+    if (image) {
+      const imageBytes = Uint8Array.from(atob(image.split(',')[1] || image), c => c.charCodeAt(0));
+      // Tell PNG and JPEG apart by their signatures, bare base64 has no MIME type
+      if (imageBytes[0] === 0x89 && imageBytes[1] === 0x50 && imageBytes[2] === 0x4e && imageBytes[3] === 0x47) {
+        watermarkImage = await pdfDoc.embedPng(imageBytes);
+      } else if (imageBytes[0] === 0xff && imageBytes[1] === 0xd8) {
+        watermarkImage = await pdfDoc.embedJpg(imageBytes);
+      } else {
+        throw new Error('The watermark image must be a PNG or JPEG');
+      }
+    }
+    const text = toStandardFontText(watermarkText, pdfFont);
 
-    // Add watermark to each page
-    for (const page of pages) {
-      const { width, height } = page.getSize();
+    // Get the pages to watermark
+    const pages = pdfDoc.getPages();
+    const pageIndices = pageRange?.trim()
+      ? parsePageRanges(pageRange, pages.length)
+      : pages.map((_, index) => index);
 
-      // Calculate watermark position
-      const textWidth = pdfFont.widthOfTextAtSize(watermarkText, fontSize);
-      const textHeight = pdfFont.heightAtSize(fontSize);
+    const angle = (rotation * Math.PI) / 180;
+    const cos = Math.cos(angle);
+    const sin = Math.sin(angle);
 
-      let x = width / 2 - textWidth / 2;
-      let y = height / 2 - textHeight / 2;
+    // Add watermark to each page
+    for (const pageIndex of pageIndices) {
+      const page = pages[pageIndex];
+      const frame = getDisplayedPageFrame(page);
+      const contentCount = page.node.normalizedEntries().Contents?.size() ?? 0;
+
+      // Size of the watermark, and of the box around it once rotated
+      const width = watermarkImage ? frame.width * imageScale : pdfFont.widthOfTextAtSize(text, fontSize);
+      const height = watermarkImage ? width * (watermarkImage.height / watermarkImage.width) : pdfFont.heightAtSize(fontSize);
+      const boxWidth = Math.abs(width * cos) + Math.abs(height * sin);
+      const boxHeight = Math.abs(width * sin) + Math.abs(height * cos);
+
+      // Draw with the centre at (centerX, centerY) of the page as displayed
+      const drawAt = (centerX: number, centerY: number) => {
+        const origin = frame.toUserSpace(
+          centerX - (width / 2) * cos + (height / 2) * sin,
+          centerY - (width / 2) * sin - (height / 2) * cos
+        );
+        const rotate = degrees(rotation + frame.rotation);
+        if (watermarkImage) {
+          page.drawImage(watermarkImage, { ...origin, width, height, rotate, opacity });
+        } else {
+          page.drawText(text, {
+            ...origin,
+            size: fontSize,
+            font: pdfFont,
+            color: rgb(color.r, color.g, color.b),
+            opacity,
+            rotate
+          });
+        }
+      };
 
-      switch (position) {
-        case 'top-left':
-          x = 50;
-          y = height - 50 - textHeight;
-          break;
-        case 'top-right':
-          x = width - textWidth - 50;
-          y = height - 50 - textHeight;
-          break;
-        case 'bottom-left':
-          x = 50;
-          y = 50;
-          break;
-        case 'bottom-right':
-          x = width - textWidth - 50;
-          y = 50;
-          break;
-        case 'center':
-        default:
-          x = width / 2 - textWidth / 2;
-          y = height / 2 - textHeight / 2;
-          break;
+      if (tile) {
+        // Staggered rows spreading out from the centre of the page
+        const stepX = boxWidth + tileSpacing;
+        const stepY = boxHeight + tileSpacing;
+        const columns = Math.ceil((frame.width / 2 + boxWidth) / stepX) + 1;
+        const rows = Math.ceil((frame.height / 2 + boxHeight) / stepY);
+        if ((2 * columns + 1) * (2 * rows + 1) > MAX_WATERMARK_TILES) {
+          throw new Error('The watermark is too small to tile; increase its size or the spacing');
+        }
+        for (let row = -rows; row <= rows; row++) {
+          for (let column = -columns; column <= columns; column++) {
+            drawAt(frame.width / 2 + column * stepX + (row % 2 ? stepX / 2 : 0), frame.height / 2 + row * stepY);
+          }
+        }
+      } else {
+        const margin = 50;
+        const centerX = position.endsWith('left') ? margin + boxWidth / 2
+          : position.endsWith('right') ? frame.width - margin - boxWidth / 2
+          : frame.width / 2;
+        const centerY = position.startsWith('top') ? frame.height - margin - boxHeight / 2
+          : position.startsWith('bottom') ? margin + boxHeight / 2
+          : frame.height / 2;
+        drawAt(centerX, centerY);
       }
 
-      // Draw the watermark
-      page.drawText(watermarkText, {
-        x,
-        y,
-        size: fontSize,
-        font: pdfFont,
-        color: rgb(color.r, color.g, color.b),
-        opacity
-      });
+      // Move the new drawing in front of the existing content streams so the page covers it
+      const contents = page.node.normalizedEntries().Contents;
+      if (layer === 'under' && contents) {
+        const added = contents.asArray().slice(contentCount);
+        while (contents.size() > contentCount) contents.remove(contentCount);
+        added.reverse().forEach(stream => contents.insert(0, stream));
+      }
     }
 
     // Save the modified PDF
@@ -351,6 +525,9 @@ export const addWatermarkToPDF = async (
     return modifiedPdfBase64;
   } catch (error) {
     console.error('Error adding watermark to PDF:', error);
+    if (error instanceof Error && /^The watermark (image must|is too small)/.test(error.message)) {
+      throw error;
+    }
     throw new Error('Failed to add watermark to PDF');
   }
 };
@@ -497,6 +674,8 @@ export const addPasswordProtection = async (
   pdfBase64: string,
   options: {
     password: string;
+    ownerPassword?: string;
+    encryption?: 'aes-128' | 'aes-256';
     permissions?: {
       printing?: 'lowResolution' | 'highResolution' | false;
       modifying?: boolean;
@@ -517,6 +696,8 @@ export const addPasswordProtection = async (
       body: JSON.stringify({
         pdfBase64,
         password: options.password,
+        ownerPassword: options.ownerPassword,
+        encryption: options.encryption,
         permissions: options.permissions,
       }),
     });
@@ -535,36 +716,93 @@ export const addPasswordProtection = async (
 };
 
 /**
- * Merge multiple PDFs into a single PDF using pdf-lib
+ * Remove password protection from PDF using server-side API. Rejects with
+ * 'Incorrect password' when neither the user nor the owner password matches.
+ */
+export const removePasswordProtection = async (
+  pdfBase64: string,
+  password: string
+): Promise<string> => {
+  const response = await fetch('/api/pdf/decrypt', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      pdfBase64,
+      password,
+    }),
+  });
+
+  const data = await response.json();
+
+  if (!response.ok) {
+    // Keep the server message so callers can tell a wrong password apart
+    throw new Error(data.error || 'Failed to remove password protection from PDF');
+  }
+
+  return data.pdf;
+};
+
+/**
+ * Check whether a PDF is encrypted, so callers can ask for the password
+ * before pdf-lib operations fail on it
+ */
+export const isPDFEncrypted = async (pdfBase64: string): Promise<boolean> => {
+  try {
+    const pdfBytes = Uint8Array.from(atob(pdfBase64.split(',')[1] || pdfBase64), c => c.charCodeAt(0));
+    const pdfDoc = await PDFDocument.load(pdfBytes, { ignoreEncryption: true, updateMetadata: false });
+    return pdfDoc.isEncrypted;
+  } catch (error) {
+    console.error('Error checking PDF encryption:', error);
+    return false;
+  }
+};
+
+/**
+ * Merge multiple PDFs into a single PDF using pdf-lib. Form fields, links,
+ * bookmarks and page labels of the source files keep working; clashing
+ * top-level field names get a numeric suffix. Optionally each file gets a
+ * top-level bookmark, and a table of contents page linking to each file is
+ * put in front.
  */
-export const mergePDFs = async (pdfBase64Array: string[]): Promise<string> => {
+export const mergePDFs = async (
+  pdfBase64Array: string[],
+  options: {
+    /** Names of the source files, used for bookmarks and the table of contents */
+    fileNames?: string[];
+    bookmarkFiles?: boolean;
+    tableOfContents?: boolean;
+  } = {}
+): Promise<string> => {
   try {
     if (pdfBase64Array.length === 0) {
       throw new Error('No PDFs provided for merging');
     }
 
-    if (pdfBase64Array.length === 1) {
+    if (pdfBase64Array.length === 1 && !options.bookmarkFiles && !options.tableOfContents) {
       return pdfBase64Array[0];
     }
 
-    // Create a new PDF document
-    const mergedPdf = await PDFDocument.create();
+    const sources: PDFMergeSource[] = [];
 
     // Process each PDF
-    for (const pdfBase64 of pdfBase64Array) {
+    for (const [index, pdfBase64] of pdfBase64Array.entries()) {
       // Convert base64 to Uint8Array
       const pdfBytes = Uint8Array.from(atob(pdfBase64.split(',')[1] || pdfBase64), c => c.charCodeAt(0));
 
       // Load the PDF document
       const pdfDoc = await PDFDocument.load(pdfBytes);
 
-      // Copy all pages from this PDF to the merged PDF
-      const pages = await mergedPdf.copyPages(pdfDoc, pdfDoc.getPageIndices());
-
-      // Add all pages to the merged PDF
-      pages.forEach(page => mergedPdf.addPage(page));
+      const title = options.fileNames?.[index]?.replace(/\.pdf$/i, '') || pdfDoc.getTitle() || `Document ${index + 1}`;
+      sources.push({ doc: pdfDoc, title });
     }
 
+    const mergedPdf = await mergePDFDocuments(sources, {
+      bookmarkFiles: options.bookmarkFiles,
+      tableOfContents: options.tableOfContents
+    });
+
     // Save the merged PDF
     const mergedPdfBytes = await mergedPdf.save();
 
@@ -578,10 +816,70 @@ export const mergePDFs = async (pdfBase64Array: string[]): Promise<string> => {
   }
 };
 
+export type PDFSplitMode = 'ranges' | 'bookmarks' | 'everyN' | 'maxSize' | 'blankPages' | 'oddEven';
+
+export interface PDFSplitOptions {
+  mode?: PDFSplitMode;
+  /** Pages per file in 'everyN' mode */
+  pagesPerFile?: number;
+  /** Largest file size in bytes in 'maxSize' mode */
+  maxFileSize?: number;
+  /** Share of inked pixels up to which a page counts as a blank separator (default 0.001) */
+  blankThreshold?: number;
+  /** File name pattern; {name}, {part}, {start}, {end} and {title} are filled in */
+  nameTemplate?: string;
+  /** Name of the source file, used for {name} */
+  fileName?: string;
+}
+
+export interface PDFSplitPart {
+  /** File name built from the name template */
+  name: string;
+  /** Page ranges, bookmark title or page parity the part was made from */
+  title: string;
+  pdf: string;
+  /** Zero-based pages of the original document in this part */
+  pageIndices: number[];
+}
+
+interface PageGroup {
+  title: string;
+  pageIndices: number[];
+}
+
+const pageSpan = (start: number, end: number): number[] => Array.from({ length: end - start }, (_, i) => start + i);
+
+/**
+ * Whether a rendered page has (almost) no ink, as with separator sheets in scanner batches
+ */
+const isBlankPDFPage = async (pdf: PDFJSDocument, pageNumber: number, threshold: number): Promise<boolean> => {
+  const canvas = await renderPDFPageToCanvas(pdf, pageNumber, 50);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas context not available');
+
+  const { data } = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  let inked = 0;
+  for (let i = 0; i < data.length; i += 4) {
+    // Scanner noise and light speckles stay below this luminance
+    if (0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2] < 160) inked++;
+  }
+
+  return inked / (data.length / 4) <= threshold;
+};
+
 /**
- * Split a PDF into multiple PDFs based on page ranges
+ * Split a PDF into multiple PDFs: by page ranges, at each top-level
+ * bookmark, every N pages, into files under a size limit, at blank
+ * separator pages or into odd and even pages. Bookmarks pointing into a
+ * part are kept in it.
  */
-export const splitPDF = async (pdfBase64: string, pageRanges: string): Promise<string[]> => {
+export const splitPDF = async (
+  pdfBase64: string,
+  pageRanges: string,
+  options: PDFSplitOptions = {}
+): Promise<PDFSplitPart[]> => {
+  const { mode = 'ranges', nameTemplate = '{name}_part{part}', fileName = 'document' } = options;
+
   try {
     // Convert base64 to Uint8Array
     const pdfBytes = Uint8Array.from(atob(pdfBase64.split(',')[1] || pdfBase64), c => c.charCodeAt(0));
@@ -589,32 +887,165 @@ export const splitPDF = async (pdfBase64: string, pageRanges: string): Promise<s
     // Load the PDF document
     const pdfDoc = await PDFDocument.load(pdfBytes);
     const totalPages = pdfDoc.getPageCount();
+    const bookmarks = readPDFOutline(pdfDoc);
 
-    // Parse page ranges (e.g., "1-5,8,10-15")
-    const pageIndices = parsePageRanges(pageRanges, totalPages);
+    const buildPart = async (pageIndices: number[], partBookmarks: PDFBookmark[]): Promise<Uint8Array> => {
+      // Create a new PDF document for the split
+      const splitPdf = await PDFDocument.create();
 
-    if (pageIndices.length === 0) {
-      throw new Error('No valid pages specified for splitting');
-    }
+      // Copy specified pages
+      const pages = await splitPdf.copyPages(pdfDoc, pageIndices);
 
-    // Create a new PDF document for the split
-    const splitPdf = await PDFDocument.create();
+      // Add pages to the split PDF
+      pages.forEach(page => splitPdf.addPage(page));
 
-    // Copy specified pages
-    const pages = await splitPdf.copyPages(pdfDoc, pageIndices);
+      // Keep the bookmarks that point into this part
+      writePDFOutline(splitPdf, remapBookmarkPages(partBookmarks, pageIndex => {
+        const newIndex = pageIndices.indexOf(pageIndex);
+        return newIndex >= 0 ? newIndex : null;
+      }, true));
 
-    // Add pages to the split PDF
-    pages.forEach(page => splitPdf.addPage(page));
+      // Save the split PDF
+      return splitPdf.save();
+    };
 
-    // Save the split PDF
-    const splitPdfBytes = await splitPdf.save();
+    let groups: PageGroup[] = [];
+    // Parts that were already saved while measuring their size
+    const savedParts = new Map<PageGroup, Uint8Array>();
 
-    // Convert back to base64
-    const splitPdfBase64 = `data:application/pdf;base64,${Buffer.from(splitPdfBytes).toString('base64')}`;
+    if (mode === 'bookmarks') {
+      // Each top-level bookmark starts a part that runs up to the next one
+      const starts = bookmarks
+        .filter(bookmark => bookmark.pageIndex !== null)
+        .sort((a, b) => (a.pageIndex as number) - (b.pageIndex as number));
+
+      if (starts.length === 0) {
+        throw new Error('This PDF has no bookmarks pointing at pages');
+      }
+
+      if ((starts[0].pageIndex as number) > 0) {
+        groups.push({ title: 'Front matter', pageIndices: pageSpan(0, starts[0].pageIndex as number) });
+      }
+      starts.forEach((bookmark, index) => {
+        const start = bookmark.pageIndex as number;
+        const end = index + 1 < starts.length ? (starts[index + 1].pageIndex as number) : totalPages;
+        if (end > start) groups.push({ title: bookmark.title, pageIndices: pageSpan(start, end) });
+      });
+    } else if (mode === 'everyN') {
+      const pagesPerFile = Math.max(1, Math.floor(options.pagesPerFile ?? 1));
+      for (let start = 0; start < totalPages; start += pagesPerFile) {
+        const end = Math.min(totalPages, start + pagesPerFile);
+        groups.push({ title: `pages ${start + 1}-${end}`, pageIndices: pageSpan(start, end) });
+      }
+    } else if (mode === 'oddEven') {
+      const pageIndices = pdfDoc.getPageIndices();
+      groups = [
+        { title: 'odd', pageIndices: pageIndices.filter(i => i % 2 === 0) },
+        { title: 'even', pageIndices: pageIndices.filter(i => i % 2 === 1) }
+      ].filter(group => group.pageIndices.length > 0);
+    } else if (mode === 'blankPages') {
+      // Blank pages separate the parts and are left out
+      const pdf = await openPDFDocument(pdfBase64);
+      let current: number[] = [];
+      for (let i = 0; i < totalPages; i++) {
+        if (await isBlankPDFPage(pdf, i + 1, options.blankThreshold ?? 0.001)) {
+          if (current.length > 0) groups.push({ title: `pages ${current[0] + 1}-${i}`, pageIndices: current });
+          current = [];
+        } else {
+          current.push(i);
+        }
+      }
+      if (current.length > 0) groups.push({ title: `pages ${current[0] + 1}-${totalPages}`, pageIndices: current });
+
+      if (groups.length === 0) {
+        throw new Error('Every page of this PDF is blank');
+      }
+    } else if (mode === 'maxSize') {
+      const maxFileSize = options.maxFileSize ?? 0;
+      if (maxFileSize <= 0) {
+        throw new Error('No valid maximum file size specified');
+      }
+
+      // Double each part until it goes over the limit, then binary search for
+      // the last page that fits, so a part takes a logarithmic number of saves
+      let start = 0;
+      while (start < totalPages) {
+        let end = start + 1;
+        let bytes = await buildPart(pageSpan(start, end), bookmarks);
+        let tooLarge = bytes.length > maxFileSize ? end : totalPages + 1;
+        while (end < totalPages && tooLarge - end > 1) {
+          const candidate = tooLarge > totalPages
+            ? Math.min(totalPages, start + (end - start) * 2)
+            : Math.floor((end + tooLarge) / 2);
+          const candidateBytes = await buildPart(pageSpan(start, candidate), bookmarks);
+          if (candidateBytes.length > maxFileSize) {
+            tooLarge = candidate;
+          } else {
+            end = candidate;
+            bytes = candidateBytes;
+          }
+        }
+        // A single page over the limit still becomes its own part
+        const group = { title: `pages ${start + 1}-${end}`, pageIndices: pageSpan(start, end) };
+        groups.push(group);
+        savedParts.set(group, bytes);
+        start = end;
+      }
+    } else {
+      // Parse page ranges (e.g., "1-5,8,10-15")
+      const pageIndices = parsePageRanges(pageRanges, totalPages);
+
+      if (pageIndices.length === 0) {
+        throw new Error('No valid pages specified for splitting');
+      }
+
+      groups = [{ title: pageRanges, pageIndices }];
+    }
+
+    const baseName = fileName.replace(/\.pdf$/i, '');
+    const partDigits = String(groups.length).length;
+
+    const parts: PDFSplitPart[] = [];
+    const usedNames = new Set<string>();
+    for (const [index, group] of groups.entries()) {
+      const partBookmarks = mode === 'bookmarks'
+        ? bookmarks.find(bookmark => bookmark.title === group.title && bookmark.pageIndex === group.pageIndices[0])?.children ?? []
+        : bookmarks;
+      const splitPdfBytes = savedParts.get(group) ?? await buildPart(group.pageIndices, partBookmarks);
+
+      // Convert back to base64
+      const splitPdfBase64 = `data:application/pdf;base64,${Buffer.from(splitPdfBytes).toString('base64')}`;
+
+      const values: Record<string, string> = {
+        name: baseName,
+        part: String(index + 1).padStart(partDigits, '0'),
+        start: String(group.pageIndices[0] + 1),
+        end: String(group.pageIndices[group.pageIndices.length - 1] + 1),
+        title: group.title
+      };
+      const name = nameTemplate
+        .replace(/\{(name|part|start|end|title)\}/g, (_, key: string) => values[key])
+        .replace(/[\\/:*?"<>|]+/g, '_')
+        .replace(/\.pdf$/i, '');
+
+      // Templates without {part} can give several parts the same name
+      let uniqueName = name || baseName;
+      for (let n = 2; usedNames.has(uniqueName.toLowerCase()); n++) uniqueName = `${name || baseName}_${n}`;
+      usedNames.add(uniqueName.toLowerCase());
+
+      parts.push({ name: `${uniqueName}.pdf`, title: group.title, pdf: splitPdfBase64, pageIndices: group.pageIndices });
+    }
 
-    return [splitPdfBase64];
+    return parts;
   } catch (error) {
     console.error('Error splitting PDF:', error);
+    if (error instanceof Error && [
+      'This PDF has no bookmarks pointing at pages',
+      'Every page of this PDF is blank',
+      'No valid maximum file size specified'
+    ].includes(error.message)) {
+      throw error;
+    }
     throw new Error('Failed to split PDF');
   }
 };
@@ -655,13 +1086,28 @@ const parsePageRanges = (ranges: string, totalPages: number): number[] => {
   return Array.from(pageIndices).sort((a, b) => a - b);
 };
 
+export type PDFPageSize = 'a4' | 'letter' | 'a3' | 'legal';
+
+/** Portrait page sizes in points */
+const PAGE_DIMENSIONS: Record<PDFPageSize, [number, number]> = {
+  a4: [595, 842],
+  letter: [612, 792],
+  a3: [842, 1191],
+  legal: [612, 1008]
+};
+
+const getPageDimensions = (pageSize: PDFPageSize, orientation: 'portrait' | 'landscape'): [number, number] => {
+  const [width, height] = PAGE_DIMENSIONS[pageSize];
+  return orientation === 'portrait' ? [width, height] : [height, width];
+};
+
 /**
  * Convert images to PDF using pdf-lib
  */
 export const convertImagesToPDF = async (
   imageBase64Array: string[],
   options: {
-    pageSize?: 'a4' | 'letter' | 'a3' | 'legal';
+    pageSize?: PDFPageSize;
     orientation?: 'portrait' | 'landscape';
     margins?: number;
     quality?: number;
@@ -674,15 +1120,7 @@ export const convertImagesToPDF = async (
     // Create a new PDF document
     const pdfDoc = await PDFDocument.create();
 
-    // Define page dimensions
-    const pageDimensions = {
-      a4: orientation === 'portrait' ? [595, 842] : [842, 595],
-      letter: orientation === 'portrait' ? [612, 792] : [792, 612],
-      a3: orientation === 'portrait' ? [842, 1191] : [1191, 842],
-      legal: orientation === 'portrait' ? [612, 1008] : [1008, 612]
-    };
-
-    const [pageWidth, pageHeight] = pageDimensions[pageSize];
+    const [pageWidth, pageHeight] = getPageDimensions(pageSize, orientation);
 
     // Process each image
     for (const imageBase64 of imageBase64Array) {
@@ -748,23 +1186,183 @@ export const convertImagesToPDF = async (
   }
 };
 
+export interface PDFCompressionReport {
+  originalSize: number;
+  compressedSize: number;
+  imagesRecompressed: number;
+  imagesSkipped: number;
+  duplicateStreamsRemoved: number;
+  unusedObjectsRemoved: number;
+  metadataRemoved: boolean;
+}
+
+/**
+ * Find the image XObjects drawn on each page, including those inside form
+ * XObjects, with the longest side of the largest page that shows them
+ */
+const collectPageImages = (pdfDoc: PDFDocument): Map<PDFRef, number> => {
+  const { context } = pdfDoc;
+  const images = new Map<PDFRef, number>();
+
+  pdfDoc.getPages().forEach(page => {
+    const longestSide = Math.max(page.getWidth(), page.getHeight());
+    const visitedForms = new Set<PDFRef>();
+    const visit = (resources: PDFDict | undefined) => {
+      const xObjects = resources?.lookupMaybe(PDFName.of('XObject'), PDFDict);
+      xObjects?.values().forEach(value => {
+        if (!(value instanceof PDFRef)) return;
+        const xObject = context.lookup(value);
+        if (!(xObject instanceof PDFRawStream)) return;
+        const subtype = xObject.dict.lookupMaybe(PDFName.of('Subtype'), PDFName)?.decodeText();
+        if (subtype === 'Image') {
+          images.set(value, Math.max(images.get(value) ?? 0, longestSide));
+        } else if (subtype === 'Form' && !visitedForms.has(value)) {
+          visitedForms.add(value);
+          visit(xObject.dict.lookupMaybe(PDFName.of('Resources'), PDFDict));
+        }
+      });
+    };
+    visit(page.node.Resources());
+  });
+
+  return images;
+};
+
+/**
+ * Re-encode an 8-bit RGB or gray image as JPEG, downsampled so that it has
+ * at most `targetDpi` when stretched over the longest side of its page.
+ * Returns undefined when the image cannot be handled or would not shrink.
+ */
+const recompressImage = async (
+  image: PDFRawStream,
+  longestPageSide: number,
+  quality: number,
+  targetDpi: number
+): Promise<{ bytes: Uint8Array; width: number; height: number } | undefined> => {
+  const { dict } = image;
+  const width = dict.lookupMaybe(PDFName.of('Width'), PDFNumber)?.asNumber() ?? 0;
+  const height = dict.lookupMaybe(PDFName.of('Height'), PDFNumber)?.asNumber() ?? 0;
+  const bitsPerComponent = dict.lookupMaybe(PDFName.of('BitsPerComponent'), PDFNumber)?.asNumber();
+  const filter = dict.lookup(PDFName.of('Filter'));
+  const filterName = filter instanceof PDFArray
+    ? (filter.size() === 1 ? filter.lookupMaybe(0, PDFName)?.decodeText() : undefined)
+    : filter instanceof PDFName ? filter.decodeText() : 'None';
+
+  // Masks, decode arrays and color-key masking do not survive lossy re-encoding
+  if (
+    !width || !height || bitsPerComponent !== 8 ||
+    dict.get(PDFName.of('ImageMask')) || dict.get(PDFName.of('Decode')) ||
+    dict.lookup(PDFName.of('Mask')) instanceof PDFArray ||
+    !['DCTDecode', 'FlateDecode', 'None'].includes(filterName ?? '')
+  ) {
+    return undefined;
+  }
+
+  const colorSpace = dict.lookup(PDFName.of('ColorSpace'));
+  const colorSpaceName = colorSpace instanceof PDFName ? colorSpace.decodeText() : undefined;
+  const iccProfile = colorSpace instanceof PDFArray && colorSpace.lookupMaybe(0, PDFName)?.decodeText() === 'ICCBased'
+    ? colorSpace.lookupMaybe(1, PDFRawStream)
+    : undefined;
+  const colors = colorSpaceName === 'DeviceRGB' ? 3
+    : colorSpaceName === 'DeviceGray' ? 1
+      : iccProfile?.dict.lookupMaybe(PDFName.of('N'), PDFNumber)?.asNumber();
+  if (colors !== 1 && colors !== 3) return undefined;
+
+  const scale = Math.min(1, (longestPageSide / 72) * targetDpi / Math.max(width, height));
+  const targetWidth = Math.max(1, Math.round(width * scale));
+  const targetHeight = Math.max(1, Math.round(height * scale));
+  // JPEG data that is already small enough is left alone
+  if (filterName === 'DCTDecode' && scale === 1) return undefined;
+
+  const source = document.createElement('canvas');
+  source.width = width;
+  source.height = height;
+  const sourceContext = source.getContext('2d');
+  if (!sourceContext) return undefined;
+
+  if (filterName === 'DCTDecode') {
+    const bitmap = await createImageBitmap(new Blob([image.contents as BlobPart], { type: 'image/jpeg' }));
+    sourceContext.drawImage(bitmap, 0, 0, width, height);
+    bitmap.close();
+  } else {
+    let samples = filterName === 'FlateDecode' ? await inflateBytes(image.contents) : image.contents;
+    const decodeParms = dict.lookupMaybe(PDFName.of('DecodeParms'), PDFDict);
+    const predictor = decodeParms?.lookupMaybe(PDFName.of('Predictor'), PDFNumber)?.asNumber() ?? 1;
+    if (predictor >= 10) {
+      samples = undoPNGPredictor(samples, width, colors);
+    } else if (predictor !== 1) {
+      return undefined;
+    }
+    if (samples.length < width * height * colors) return undefined;
+
+    const pixels = sourceContext.createImageData(width, height);
+    for (let i = 0, j = 0; i < width * height; i++, j += colors) {
+      pixels.data[i * 4] = samples[j];
+      pixels.data[i * 4 + 1] = samples[colors === 3 ? j + 1 : j];
+      pixels.data[i * 4 + 2] = samples[colors === 3 ? j + 2 : j];
+      pixels.data[i * 4 + 3] = 255;
+    }
+    sourceContext.putImageData(pixels, 0, 0);
+  }
+
+  const target = document.createElement('canvas');
+  target.width = targetWidth;
+  target.height = targetHeight;
+  const targetContext = target.getContext('2d');
+  if (!targetContext) return undefined;
+  targetContext.imageSmoothingQuality = 'high';
+  targetContext.drawImage(source, 0, 0, targetWidth, targetHeight);
+
+  const blob = await new Promise<Blob | null>(resolve => target.toBlob(resolve, 'image/jpeg', quality));
+  if (!blob) return undefined;
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+
+  return bytes.length < image.contents.length ? { bytes, width: targetWidth, height: targetHeight } : undefined;
+};
+
+/** Point every reference in a direct object at its replacement */
+const replaceReferences = (object: PDFObject, replacements: Map<PDFRef, PDFRef>): void => {
+  if (object instanceof PDFDict) {
+    object.entries().forEach(([key, value]) => {
+      const replacement = value instanceof PDFRef ? replacements.get(value) : undefined;
+      if (replacement) object.set(key, replacement);
+      else replaceReferences(value, replacements);
+    });
+  } else if (object instanceof PDFArray) {
+    object.asArray().forEach((value, index) => {
+      const replacement = value instanceof PDFRef ? replacements.get(value) : undefined;
+      if (replacement) object.set(index, replacement);
+      else replaceReferences(value, replacements);
+    });
+  } else if (object instanceof PDFStream) {
+    replaceReferences(object.dict, replacements);
+  }
+};
+
 /**
- * Compress PDF using pdf-lib optimization techniques
+ * Compress PDF: re-encode images as downsampled JPEGs, merge duplicate
+ * streams, drop unreachable objects and metadata, and deflate streams that
+ * were stored uncompressed. When nothing can be saved the original file is
+ * returned with an empty report, unless metadata removal was requested.
  */
 export const compressPDF = async (
   pdfBase64: string,
   options: {
     quality?: number; // 0.1 to 1.0
-    removeUnusedObjects?: boolean;
-    optimizeFonts?: boolean;
+    targetDpi?: number;
     compressImages?: boolean;
+    removeDuplicateStreams?: boolean;
+    removeUnusedObjects?: boolean;
+    removeMetadata?: boolean;
   } = {}
-): Promise<string> => {
+): Promise<{ pdf: string; report: PDFCompressionReport }> => {
   const {
-    quality = 0.8, // eslint-disable-line @typescript-eslint/no-unused-vars
+    quality = 0.8,
+    targetDpi = 150,
+    compressImages = true,
+    removeDuplicateStreams = true,
     removeUnusedObjects = true,
-    optimizeFonts = true, // eslint-disable-line @typescript-eslint/no-unused-vars
-    compressImages = true // eslint-disable-line @typescript-eslint/no-unused-vars
+    removeMetadata = false
   } = options;
 
   try {
@@ -772,31 +1370,122 @@ export const compressPDF = async (
     const pdfBytes = Uint8Array.from(atob(pdfBase64.split(',')[1] || pdfBase64), c => c.charCodeAt(0));
 
     // Load the PDF document
-    const pdfDoc = await PDFDocument.load(pdfBytes);
+    const pdfDoc = await PDFDocument.load(pdfBytes, { updateMetadata: !removeMetadata });
+    const { context } = pdfDoc;
+
+    const report: PDFCompressionReport = {
+      originalSize: pdfBytes.length,
+      compressedSize: pdfBytes.length,
+      imagesRecompressed: 0,
+      imagesSkipped: 0,
+      duplicateStreamsRemoved: 0,
+      unusedObjectsRemoved: 0,
+      metadataRemoved: false
+    };
+    // What is reported when the original file is handed back untouched
+    const unchangedReport = { ...report };
+
+    if (removeDuplicateStreams) {
+      // Identical streams (often fonts and images repeated by merged documents) are kept once
+      const canonical = new Map<string, PDFRef>();
+      const replacements = new Map<PDFRef, PDFRef>();
+      for (const [ref, object] of context.enumerateIndirectObjects()) {
+        if (!(object instanceof PDFRawStream)) continue;
+        const streamBytes = new Uint8Array(object.dict.sizeInBytes() + object.contents.length);
+        object.dict.copyBytesInto(streamBytes, 0);
+        streamBytes.set(object.contents, object.dict.sizeInBytes());
+        const digest = await crypto.subtle.digest('SHA-256', streamBytes);
+        const key = Buffer.from(digest).toString('hex');
+        const existing = canonical.get(key);
+        if (existing) replacements.set(ref, existing);
+        else canonical.set(key, ref);
+      }
+      if (replacements.size > 0) {
+        context.enumerateIndirectObjects().forEach(([, object]) => replaceReferences(object, replacements));
+        replacements.forEach((_, ref) => context.delete(ref));
+        report.duplicateStreamsRemoved = replacements.size;
+      }
+    }
 
-    // Basic optimization: remove unused objects if requested
-    if (removeUnusedObjects) {
-      // This is a basic optimization - pdf-lib doesn't have extensive compression features
-      // but we can at least ensure the document is properly structured
+    if (compressImages) {
+      for (const [ref, longestSide] of collectPageImages(pdfDoc)) {
+        const image = context.lookup(ref) as PDFRawStream;
+        const recompressed = await recompressImage(image, longestSide, quality, targetDpi).catch(() => undefined);
+        if (!recompressed) {
+          report.imagesSkipped++;
+          continue;
+        }
+
+        // Keep soft masks and other entries, replace the sample description
+        const dict = image.dict.clone(context);
+        ['Filter', 'DecodeParms', 'Length'].forEach(key => dict.delete(PDFName.of(key)));
+        dict.set(PDFName.of('Width'), PDFNumber.of(recompressed.width));
+        dict.set(PDFName.of('Height'), PDFNumber.of(recompressed.height));
+        dict.set(PDFName.of('Filter'), PDFName.of('DCTDecode'));
+        const colorSpace = dict.lookup(PDFName.of('ColorSpace'));
+        if (colorSpace instanceof PDFName && colorSpace.decodeText() === 'DeviceGray') {
+          dict.set(PDFName.of('ColorSpace'), PDFName.of('DeviceRGB'));
+        } else if (colorSpace instanceof PDFArray) {
+          const profile = colorSpace.lookupMaybe(1, PDFRawStream);
+          if (profile?.dict.lookupMaybe(PDFName.of('N'), PDFNumber)?.asNumber() === 1) {
+            dict.set(PDFName.of('ColorSpace'), PDFName.of('DeviceRGB'));
+          }
+        }
+        context.assign(ref, PDFRawStream.of(dict, recompressed.bytes));
+        report.imagesRecompressed++;
+      }
     }
 
-    // For font optimization, we could potentially deduplicate fonts
-    // but pdf-lib handles this automatically when saving
+    if (removeMetadata) {
+      removeAllPDFMetadata(pdfDoc);
 
-    // For image compression, we would need to extract and recompress images
-    // This is complex and would require additional image processing libraries
+      // Drop the metadata streams that are no longer referenced
+      const reachable = collectReachableRefs(pdfDoc);
+      context.enumerateIndirectObjects().forEach(([ref]) => {
+        if (!reachable.has(ref)) context.delete(ref);
+      });
+      report.metadataRemoved = true;
+    }
 
-    // Save the PDF with optimization
-    const compressedPdfBytes = await pdfDoc.save({
-      // Use fast compression if available
-      useObjectStreams: true,
-      // Add other optimization flags as available
-    });
+    // Deflate streams that were stored without any filter
+    for (const [ref, object] of context.enumerateIndirectObjects()) {
+      if (
+        object instanceof PDFRawStream &&
+        !object.dict.has(PDFName.of('Filter')) &&
+        // PDF/A requires the XMP metadata stream to stay uncompressed
+        object.dict.get(PDFName.of('Type')) !== PDFName.of('Metadata') &&
+        object.contents.length > 256
+      ) {
+        const dict = object.dict.clone(context);
+        dict.delete(PDFName.of('Length'));
+        dict.set(PDFName.of('Filter'), PDFName.of('FlateDecode'));
+        context.assign(ref, PDFRawStream.of(dict, await deflateBytes(object.contents)));
+      }
+    }
+
+    if (removeUnusedObjects) {
+      const reachable = collectReachableRefs(pdfDoc);
+      context.enumerateIndirectObjects().forEach(([ref]) => {
+        if (!reachable.has(ref)) {
+          context.delete(ref);
+          report.unusedObjectsRemoved++;
+        }
+      });
+    }
+
+    if (!removeMetadata) syncPDFAMetadata(pdfDoc);
+
+    // Save the PDF with object streams
+    const compressedPdfBytes = await pdfDoc.save({ useObjectStreams: true });
+    if (compressedPdfBytes.length >= pdfBytes.length && !removeMetadata) {
+      return { pdf: pdfBase64, report: unchangedReport };
+    }
+    report.compressedSize = compressedPdfBytes.length;
 
     // Convert back to base64
     const compressedPdfBase64 = `data:application/pdf;base64,${Buffer.from(compressedPdfBytes).toString('base64')}`;
 
-    return compressedPdfBase64;
+    return { pdf: compressedPdfBase64, report };
   } catch (error) {
     console.error('Error compressing PDF:', error);
     throw new Error('Failed to compress PDF');
@@ -990,19 +1679,207 @@ export const deletePDFPages = async (
   }
 };
 
+export type PDFLayoutMode = 'nUp' | 'booklet';
+
+/** Order in which source pages fill the cells of a sheet */
+export type PDFLayoutOrder = 'rows' | 'columns' | 'rowsRightToLeft' | 'columnsRightToLeft';
+
+export interface PDFLayoutOptions {
+  mode?: PDFLayoutMode;
+  /** Grid of pages on each side of a sheet; booklets always use 2 x 1 */
+  columns?: number;
+  rows?: number;
+  /** 'auto' sizes the sheet from the first page, or two of them side by side for booklets */
+  sheetSize?: PDFPageSize | 'auto';
+  /** 'auto' picks whichever orientation shows the pages largest */
+  orientation?: 'portrait' | 'landscape' | 'auto';
+  /** Space around the sheet edge, in points */
+  margins?: number;
+  /** Space between cells, in points */
+  gutter?: number;
+  /** For booklets the right-to-left orders bind on the right */
+  order?: PDFLayoutOrder;
+  borders?: boolean;
+}
+
+const MAX_LAYOUT_CELLS = 10;
+
+/**
+ * Source page indices for each sheet side of a saddle-stitched booklet, left
+ * then right, with null for the blank pages that pad it to a multiple of four.
+ * Sides alternate front and back, for duplex printing flipped on the short edge.
+ */
+export const getBookletSides = (pageCount: number, rightToLeft: boolean): (number | null)[][] => {
+  const paddedCount = Math.ceil(pageCount / 4) * 4;
+  const page = (index: number) => (index < pageCount ? index : null);
+  const sides: (number | null)[][] = [];
+
+  for (let sheet = 0; sheet < paddedCount / 4; sheet++) {
+    const front = [page(paddedCount - 1 - 2 * sheet), page(2 * sheet)];
+    const back = [page(2 * sheet + 1), page(paddedCount - 2 - 2 * sheet)];
+    sides.push(rightToLeft ? front.reverse() : front, rightToLeft ? back.reverse() : back);
+  }
+  return sides;
+};
+
+/**
+ * Place several pages on each output sheet (2-up, 4-up, ...) or impose a
+ * booklet whose sheets fold into reading order when printed duplex.
+ */
+export const layoutPDF = async (pdfBase64: string, options: PDFLayoutOptions = {}): Promise<string> => {
+  const {
+    mode = 'nUp',
+    sheetSize = 'auto',
+    orientation = 'auto',
+    margins = 18,
+    gutter = 12,
+    order = 'rows',
+    borders = false
+  } = options;
+  const columns = mode === 'booklet' ? 2 : options.columns ?? 2;
+  const rows = mode === 'booklet' ? 1 : options.rows ?? 1;
+
+  try {
+    if (![columns, rows].every(count => Number.isInteger(count) && count >= 1 && count <= MAX_LAYOUT_CELLS)) {
+      throw new Error(`Rows and columns must be whole numbers from 1 to ${MAX_LAYOUT_CELLS}`);
+    }
+
+    // Convert base64 to Uint8Array
+    const pdfBytes = Uint8Array.from(atob(pdfBase64.split(',')[1] || pdfBase64), c => c.charCodeAt(0));
+
+    // Load the PDF document
+    const pdfDoc = await PDFDocument.load(pdfBytes);
+    const sourcePages = pdfDoc.getPages();
+    const layoutPdf = await PDFDocument.create();
+
+    // Blank pages may have no content stream, which pages cannot be embedded without
+    sourcePages.forEach(page => {
+      if (!page.node.Contents()) page.node.addContentStream(pdfDoc.context.register(pdfDoc.context.contentStream([])));
+    });
+
+    // Embed each page's visible area; rotation is applied when it is drawn
+    const embeddedPages = await layoutPdf.embedPages(sourcePages, sourcePages.map(page => {
+      const { x, y, width, height } = page.getCropBox();
+      return { left: x, bottom: y, right: x + width, top: y + height };
+    }));
+    const rotations = sourcePages.map(page => ((page.getRotation().angle % 360) + 360) % 360);
+    const displayedSize = (index: number) => {
+      const { width, height } = embeddedPages[index];
+      return rotations[index] % 180 === 0 ? { width, height } : { width: height, height: width };
+    };
+
+    // Pick the sheet size, then the orientation that gives the first page the largest cells
+    const first = displayedSize(0);
+    const [baseWidth, baseHeight] = sheetSize === 'auto'
+      ? [first.width * (mode === 'booklet' ? 2 : 1), first.height].sort((a, b) => a - b)
+      : PAGE_DIMENSIONS[sheetSize];
+    const cellSize = (sheetWidth: number, sheetHeight: number) => ({
+      width: (sheetWidth - margins * 2 - gutter * (columns - 1)) / columns,
+      height: (sheetHeight - margins * 2 - gutter * (rows - 1)) / rows
+    });
+    const fitScale = (sheetWidth: number, sheetHeight: number) => {
+      const cell = cellSize(sheetWidth, sheetHeight);
+      return Math.min(cell.width / first.width, cell.height / first.height);
+    };
+    const landscape = orientation === 'auto'
+      ? fitScale(baseHeight, baseWidth) > fitScale(baseWidth, baseHeight)
+      : orientation === 'landscape';
+    const [sheetWidth, sheetHeight] = landscape ? [baseHeight, baseWidth] : [baseWidth, baseHeight];
+    const cell = cellSize(sheetWidth, sheetHeight);
+
+    if (cell.width <= 0 || cell.height <= 0) {
+      throw new Error('The margins and gutter leave no room for pages on the sheet');
+    }
+
+    // Group source pages by sheet side
+    const perSheet = columns * rows;
+    const sides = mode === 'booklet'
+      ? getBookletSides(sourcePages.length, order === 'rowsRightToLeft' || order === 'columnsRightToLeft')
+      : Array.from({ length: Math.ceil(sourcePages.length / perSheet) }, (_, side) =>
+          Array.from({ length: perSheet }, (_, slot) => side * perSheet + slot)
+            .map(index => (index < sourcePages.length ? index : null)));
+
+    sides.forEach(side => {
+      const sheet = layoutPdf.addPage([sheetWidth, sheetHeight]);
+
+      side.forEach((pageIndex, slot) => {
+        if (pageIndex === null) return;
+
+        // Booklet sides are already in left-to-right order
+        const byColumns = mode !== 'booklet' && (order === 'columns' || order === 'columnsRightToLeft');
+        const rightToLeft = mode !== 'booklet' && (order === 'rowsRightToLeft' || order === 'columnsRightToLeft');
+        let column = byColumns ? Math.floor(slot / rows) : slot % columns;
+        const row = byColumns ? slot % rows : Math.floor(slot / columns);
+        if (rightToLeft) column = columns - 1 - column;
+
+        const cellX = margins + column * (cell.width + gutter);
+        const cellY = sheetHeight - margins - (row + 1) * cell.height - row * gutter;
+
+        // Scale the page into its cell, centred, except that booklet pages sit against the fold
+        const size = displayedSize(pageIndex);
+        const scale = Math.min(cell.width / size.width, cell.height / size.height);
+        const width = size.width * scale;
+        const height = size.height * scale;
+        const alignment = mode === 'booklet' ? (column === 0 ? 1 : 0) : 0.5;
+        const x = cellX + (cell.width - width) * alignment;
+        const y = cellY + (cell.height - height) / 2;
+
+        // Rotating about the drawing origin moves the page, so shift the origin
+        // to keep the rotated page inside its box
+        const rotation = rotations[pageIndex];
+        const origin = {
+          0: { x, y },
+          90: { x, y: y + height },
+          180: { x: x + width, y: y + height },
+          270: { x: x + width, y }
+        }[rotation] ?? { x, y };
+
+        sheet.drawPage(embeddedPages[pageIndex], {
+          x: origin.x,
+          y: origin.y,
+          xScale: scale,
+          yScale: scale,
+          rotate: degrees(-rotation)
+        });
+
+        if (borders) {
+          sheet.drawRectangle({
+            x,
+            y,
+            width,
+            height,
+            borderColor: rgb(0.6, 0.6, 0.6),
+            borderWidth: 0.5
+          });
+        }
+      });
+    });
+
+    // Save the laid out PDF
+    const layoutPdfBytes = await layoutPdf.save();
+
+    // Convert back to base64
+    const layoutPdfBase64 = `data:application/pdf;base64,${Buffer.from(layoutPdfBytes).toString('base64')}`;
+
+    return layoutPdfBase64;
+  } catch (error) {
+    console.error('Error laying out PDF pages:', error);
+    if (error instanceof Error && (error.message.startsWith('Rows and columns') || error.message.startsWith('The margins and gutter'))) {
+      throw error;
+    }
+    throw new Error('Failed to lay out PDF pages');
+  }
+};
+
 /**
- * Add password protection to PDF (Note: pdf-lib doesn't support encryption, this is a placeholder)
+ * Add password protection to PDF with the default AES-256 encryption
  */
 export const addPasswordToPDF = async (
   pdfBase64: string,
-  _password: string // eslint-disable-line @typescript-eslint/no-unused-vars
+  password: string
 ): Promise<string> => {
-  // pdf-lib doesn't support password protection
-  // This would require a server-side solution or additional libraries
-  console.warn('Password protection requires server-side processing or additional PDF libraries');
-
-  // For now, return the original PDF with a warning
-  return pdfBase64;
+  // Encryption needs Node's crypto, so it runs in the password API route
+  return addPasswordProtection(pdfBase64, { password });
 };
 
 /**
@@ -1107,148 +1984,1384 @@ export const addPageNumbersToPDF = async (
   }
 };
 
+/** Text for the left, centre and right of a header or footer */
+export interface PDFHeaderFooterSlots {
+  left?: string;
+  center?: string;
+  right?: string;
+}
+
+export interface PDFBatesOptions {
+  prefix?: string;
+  suffix?: string;
+  /** Width of the zero-padded counter */
+  digits?: number;
+  /** Number of the first stamped page; pass a previous file's nextBatesNumber to continue a production */
+  start?: number;
+}
+
+export interface PDFHeaderFooterOptions {
+  /** Templates using {page}, {total}, {filename}, {date} and {bates} */
+  header?: PDFHeaderFooterSlots;
+  footer?: PDFHeaderFooterSlots;
+  /** Number stamped pages; goes bottom right unless a template uses {bates} */
+  bates?: PDFBatesOptions;
+  fileName?: string;
+  /** Pages to stamp, e.g. "1-5,8"; every page when empty */
+  pageRange?: string;
+  pageParity?: 'all' | 'odd' | 'even';
+  fontSize?: number;
+  margin?: number;
+  /** Date shown for {date}, today by default */
+  date?: Date;
+}
+
+export interface PDFHeaderFooterResult {
+  pdf: string;
+  /** Bates number for the first page of the next file in the production */
+  nextBatesNumber: number;
+}
+
+/** Bates label such as ABC000123 */
+export const formatBatesNumber = (number: number, bates: PDFBatesOptions): string =>
+  `${bates.prefix ?? ''}${number.toString().padStart(bates.digits ?? 6, '0')}${bates.suffix ?? ''}`;
+
 /**
- * Edit PDF metadata using pdf-lib
+ * Stamp header and footer templates and Bates numbers on a PDF. Rotated
+ * pages are stamped along the edges the reader sees, the right way up.
  */
-export const editPDFMetadata = async (
+export const addHeaderFooterToPDF = async (
   pdfBase64: string,
-  metadata: {
-    title?: string;
-    author?: string;
-    subject?: string;
-    keywords?: string;
-    creator?: string;
-    producer?: string;
-  }
-): Promise<string> => {
+  options: PDFHeaderFooterOptions
+): Promise<PDFHeaderFooterResult> => {
+  const {
+    header = {},
+    footer = {},
+    bates,
+    fileName = '',
+    pageRange,
+    pageParity = 'all',
+    fontSize = 10,
+    margin = 24,
+    date = new Date()
+  } = options;
+
   try {
     // Convert base64 to Uint8Array
     const pdfBytes = Uint8Array.from(atob(pdfBase64.split(',')[1] || pdfBase64), c => c.charCodeAt(0));
 
     // Load the PDF document
     const pdfDoc = await PDFDocument.load(pdfBytes);
+    const totalPages = pdfDoc.getPageCount();
+    const font = await pdfDoc.embedFont(StandardFonts.Helvetica);
 
-    // Set metadata
-    if (metadata.title) pdfDoc.setTitle(metadata.title);
-    if (metadata.author) pdfDoc.setAuthor(metadata.author);
-    if (metadata.subject) pdfDoc.setSubject(metadata.subject);
-    if (metadata.keywords) pdfDoc.setKeywords(metadata.keywords.split(',').map(k => k.trim()));
-    if (metadata.creator) pdfDoc.setCreator(metadata.creator);
-    if (metadata.producer) pdfDoc.setProducer(metadata.producer);
+    const selectedPages = pageRange?.trim()
+      ? parsePageRanges(pageRange, totalPages)
+      : Array.from({ length: totalPages }, (_, index) => index);
+    const pagesToStamp = selectedPages.filter(index =>
+      pageParity === 'all' || (pageParity === 'odd' ? index % 2 === 0 : index % 2 === 1));
 
-    // Save the PDF with updated metadata
-    const updatedPdfBytes = await pdfDoc.save();
+    if (pagesToStamp.length === 0) {
+      throw new Error('No pages match the page range and odd/even filter');
+    }
+
+    const templates = [header.left, header.center, header.right, footer.left, footer.center, footer.right];
+    const footerSlots = bates && !templates.some(template => template?.includes('{bates}'))
+      ? { ...footer, right: [footer.right, '{bates}'].filter(Boolean).join('  ') }
+      : footer;
+    const dateText = [date.getFullYear(), date.getMonth() + 1, date.getDate()]
+      .map((part, i) => part.toString().padStart(i === 0 ? 4 : 2, '0'))
+      .join('-');
+
+    let batesNumber = bates?.start ?? 1;
+    const pages = pdfDoc.getPages();
+
+    pagesToStamp.forEach(pageIndex => {
+      const page = pages[pageIndex];
+      const values: Record<string, string> = {
+        page: (pageIndex + 1).toString(),
+        total: totalPages.toString(),
+        filename: fileName,
+        date: dateText,
+        bates: bates ? formatBatesNumber(batesNumber, bates) : ''
+      };
+      const fill = (template: string | undefined) =>
+        toStandardFontText((template ?? '').replace(/\{(\w+)\}/g, (token, key: string) => values[key] ?? token), font);
+
+      // Work in the page's displayed orientation and map back to user space
+      const frame = getDisplayedPageFrame(page);
+
+      const rows: [PDFHeaderFooterSlots, number][] = [
+        [header, frame.height - margin - fontSize],
+        [footerSlots, margin]
+      ];
+      rows.forEach(([slots, baseline]) => {
+        (['left', 'center', 'right'] as const).forEach(slot => {
+          const text = fill(slots[slot]);
+          if (!text) return;
+
+          const textWidth = font.widthOfTextAtSize(text, fontSize);
+          const x = slot === 'left' ? margin : slot === 'center' ? (frame.width - textWidth) / 2 : frame.width - margin - textWidth;
+          page.drawText(text, {
+            ...frame.toUserSpace(x, baseline),
+            size: fontSize,
+            font,
+            color: rgb(0, 0, 0),
+            rotate: degrees(frame.rotation)
+          });
+        });
+      });
+
+      batesNumber++;
+    });
+
+    // Save the stamped PDF
+    const stampedPdfBytes = await pdfDoc.save();
 
     // Convert back to base64
-    const updatedPdfBase64 = `data:application/pdf;base64,${Buffer.from(updatedPdfBytes).toString('base64')}`;
+    const stampedPdfBase64 = `data:application/pdf;base64,${Buffer.from(stampedPdfBytes).toString('base64')}`;
 
-    return updatedPdfBase64;
+    return { pdf: stampedPdfBase64, nextBatesNumber: batesNumber };
   } catch (error) {
-    console.error('Error editing PDF metadata:', error);
-    throw new Error('Failed to edit PDF metadata');
+    console.error('Error adding header and footer to PDF:', error);
+    if (error instanceof Error && error.message === 'No pages match the page range and odd/even filter') {
+      throw error;
+    }
+    throw new Error('Failed to add header and footer to PDF');
   }
 };
 
 /**
- * Add annotations to PDF using pdf-lib
+ * Read the document information, custom entries, XMP properties and language of a PDF
  */
-export const addAnnotationToPDF = async (
-  pdfBase64: string,
-  annotation: {
-    text: string;
-    x: number;
-    y: number;
-    width?: number;
-    height?: number;
-    pageIndex?: number;
-  }
-): Promise<string> => {
+export const getPDFMetadata = async (pdfBase64: string): Promise<PDFMetadataInfo> => {
   try {
     // Convert base64 to Uint8Array
     const pdfBytes = Uint8Array.from(atob(pdfBase64.split(',')[1] || pdfBase64), c => c.charCodeAt(0));
 
-    // Load the PDF document
-    const pdfDoc = await PDFDocument.load(pdfBytes);
+    // Load the PDF document without stamping it as modified
+    const pdfDoc = await PDFDocument.load(pdfBytes, { ignoreEncryption: true, updateMetadata: false });
 
-    const {
-      text,
-      x,
-      y,
-      width = 200,
-      height = 50,
-      pageIndex = 0
-    } = annotation;
+    return readPDFMetadata(pdfDoc);
+  } catch (error) {
+    console.error('Error reading PDF metadata:', error);
+    throw new Error('Failed to read PDF metadata');
+  }
+};
 
-    // Get the specified page
-    const pages = pdfDoc.getPages();
-    if (pageIndex >= pages.length) {
+/**
+ * Edit PDF metadata using pdf-lib. Fields left undefined are kept and empty
+ * strings remove the entry; custom entries are replaced as a whole.
+ */
+export const editPDFMetadata = async (
+  pdfBase64: string,
+  metadata: PDFMetadataUpdate
+): Promise<string> => {
+  try {
+    // Convert base64 to Uint8Array
+    const pdfBytes = Uint8Array.from(atob(pdfBase64.split(',')[1] || pdfBase64), c => c.charCodeAt(0));
+
+    // Load the PDF document, keeping the producer unless it is edited
+    const pdfDoc = await PDFDocument.load(pdfBytes, { updateMetadata: false });
+
+    // Set metadata
+    writePDFMetadata(pdfDoc, metadata);
+
+    // Save the PDF with updated metadata
+    const updatedPdfBytes = await pdfDoc.save();
+
+    // Convert back to base64
+    const updatedPdfBase64 = `data:application/pdf;base64,${Buffer.from(updatedPdfBytes).toString('base64')}`;
+
+    return updatedPdfBase64;
+  } catch (error) {
+    console.error('Error editing PDF metadata:', error);
+    throw new Error('Failed to edit PDF metadata');
+  }
+};
+
+/**
+ * Remove all document metadata: the information dictionary, XMP packets and
+ * private application data. PDF/A files lose their conformance.
+ */
+export const stripPDFMetadata = async (pdfBase64: string): Promise<string> => {
+  try {
+    // Convert base64 to Uint8Array
+    const pdfBytes = Uint8Array.from(atob(pdfBase64.split(',')[1] || pdfBase64), c => c.charCodeAt(0));
+
+    // Load the PDF document without recreating the information dictionary
+    const pdfDoc = await PDFDocument.load(pdfBytes, { updateMetadata: false });
+    const { context } = pdfDoc;
+
+    removeAllPDFMetadata(pdfDoc);
+
+    // Drop the metadata streams that are no longer referenced
+    const reachable = collectReachableRefs(pdfDoc);
+    context.enumerateIndirectObjects().forEach(([ref]) => {
+      if (!reachable.has(ref)) context.delete(ref);
+    });
+
+    const strippedPdfBytes = await pdfDoc.save();
+
+    // Convert back to base64
+    return `data:application/pdf;base64,${Buffer.from(strippedPdfBytes).toString('base64')}`;
+  } catch (error) {
+    console.error('Error stripping PDF metadata:', error);
+    throw new Error('Failed to strip PDF metadata');
+  }
+};
+
+/**
+ * List the bookmark (outline) tree of a PDF
+ */
+export const getPDFBookmarks = async (pdfBase64: string): Promise<PDFBookmark[]> => {
+  try {
+    // Convert base64 to Uint8Array
+    const pdfBytes = Uint8Array.from(atob(pdfBase64.split(',')[1] || pdfBase64), c => c.charCodeAt(0));
+
+    // Load the PDF document
+    const pdfDoc = await PDFDocument.load(pdfBytes, { ignoreEncryption: true, updateMetadata: false });
+
+    return readPDFOutline(pdfDoc);
+  } catch (error) {
+    console.error('Error reading PDF bookmarks:', error);
+    throw new Error('Failed to read PDF bookmarks');
+  }
+};
+
+/**
+ * Replace the bookmark tree of a PDF
+ */
+export const setPDFBookmarks = async (pdfBase64: string, bookmarks: PDFBookmark[]): Promise<string> => {
+  try {
+    // Convert base64 to Uint8Array
+    const pdfBytes = Uint8Array.from(atob(pdfBase64.split(',')[1] || pdfBase64), c => c.charCodeAt(0));
+
+    // Load the PDF document
+    const pdfDoc = await PDFDocument.load(pdfBytes);
+
+    writePDFOutline(pdfDoc, bookmarks);
+
+    const updatedPdfBytes = await pdfDoc.save();
+
+    // Convert back to base64
+    const updatedPdfBase64 = `data:application/pdf;base64,${Buffer.from(updatedPdfBytes).toString('base64')}`;
+
+    return updatedPdfBase64;
+  } catch (error) {
+    console.error('Error writing PDF bookmarks:', error);
+    throw new Error('Failed to update PDF bookmarks');
+  }
+};
+
+/**
+ * Add, rename, move or delete bookmarks of a PDF. Edits are applied in
+ * order, so paths refer to the tree as left by the previous edit.
+ */
+export const editPDFBookmarks = async (pdfBase64: string, edits: PDFBookmarkEdit[]): Promise<string> => {
+  const bookmarks = edits.reduce(applyBookmarkEdit, await getPDFBookmarks(pdfBase64));
+  return setPDFBookmarks(pdfBase64, bookmarks);
+};
+
+/**
+ * Fetch the bundled font PDF/A conversion embeds for a font face, served
+ * from public/fonts/pdfa
+ */
+const loadPDFAFallbackFont = async (face: PDFAFontFace): Promise<Uint8Array> => {
+  const response = await fetch(`/fonts/pdfa/${face}.ttf`);
+  if (!response.ok) {
+    throw new Error(`Failed to load the ${face} PDF/A font`);
+  }
+  return new Uint8Array(await response.arrayBuffer());
+};
+
+/**
+ * Convert a PDF to PDF/A-2b for long-term archiving. Encrypted files are
+ * unlocked with the given password first (an empty password opens files
+ * that only restrict permissions). Fonts the PDF does not embed are replaced
+ * by the supplied TrueType fonts, or by the bundled Arimo, Tinos and Cousine
+ * faces of the same weight and slant for faces without one.
+ */
+export const convertToPDFA = async (
+  pdfBase64: string,
+  options: {
+    password?: string;
+    fonts?: Partial<Record<PDFAFontFace, Uint8Array>>;
+  } = {}
+): Promise<{ pdf: string; report: PDFAConversionReport }> => {
+  if (await isPDFEncrypted(pdfBase64)) {
+    // Rejects with 'Incorrect password' so callers can ask again
+    pdfBase64 = await removePasswordProtection(pdfBase64, options.password ?? '');
+  }
+
+  try {
+    // Convert base64 to Uint8Array
+    const pdfBytes = Uint8Array.from(atob(pdfBase64.split(',')[1] || pdfBase64), c => c.charCodeAt(0));
+
+    // Load the PDF document
+    const pdfDoc = await PDFDocument.load(pdfBytes);
+
+    const fonts = { ...options.fonts };
+    for (const face of getPDFAFontFacesToEmbed(pdfDoc)) {
+      fonts[face] ??= await loadPDFAFallbackFont(face);
+    }
+
+    const report = await convertPDFDocumentToPDFA(pdfDoc, { fonts });
+
+    const archivedPdfBytes = await pdfDoc.save();
+
+    // Convert back to base64
+    const archivedPdfBase64 = `data:application/pdf;base64,${Buffer.from(archivedPdfBytes).toString('base64')}`;
+
+    return { pdf: archivedPdfBase64, report };
+  } catch (error) {
+    console.error('Error converting PDF to PDF/A:', error);
+    if (error instanceof Error && /TrueType/.test(error.message)) {
+      throw error;
+    }
+    throw new Error('Failed to convert PDF to PDF/A');
+  }
+};
+
+/**
+ * List the PDF/A-2b conformance violations of a PDF
+ */
+export const validatePDFA = async (pdfBase64: string): Promise<PDFAValidationResult> => {
+  try {
+    // Convert base64 to Uint8Array
+    const pdfBytes = Uint8Array.from(atob(pdfBase64.split(',')[1] || pdfBase64), c => c.charCodeAt(0));
+
+    // Load the PDF document
+    const pdfDoc = await PDFDocument.load(pdfBytes, { ignoreEncryption: true, updateMetadata: false });
+
+    return validatePDFADocument(pdfDoc, pdfBytes);
+  } catch (error) {
+    console.error('Error validating PDF/A:', error);
+    throw new Error('Failed to validate PDF/A conformance');
+  }
+};
+
+/**
+ * Report the structure of a PDF and any damage found in it
+ */
+export const inspectPDF = async (pdfBase64: string): Promise<PDFStructureReport> => {
+  try {
+    // Convert base64 to Uint8Array
+    const pdfBytes = Uint8Array.from(atob(pdfBase64.split(',')[1] || pdfBase64), c => c.charCodeAt(0));
+
+    return await inspectPDFStructure(pdfBytes);
+  } catch (error) {
+    console.error('Error inspecting PDF:', error);
+    throw new Error('Failed to inspect PDF');
+  }
+};
+
+/**
+ * Repair a damaged PDF and save a clean copy with a fresh cross-reference table
+ */
+export const repairPDF = async (pdfBase64: string): Promise<{ pdf: string; report: PDFRepairReport }> => {
+  try {
+    // Convert base64 to Uint8Array
+    const pdfBytes = Uint8Array.from(atob(pdfBase64.split(',')[1] || pdfBase64), c => c.charCodeAt(0));
+
+    const { pdfDoc, report } = await repairPDFDocument(pdfBytes);
+
+    const repairedPdfBytes = await pdfDoc.save();
+
+    // Convert back to base64
+    const repairedPdfBase64 = `data:application/pdf;base64,${Buffer.from(repairedPdfBytes).toString('base64')}`;
+
+    return { pdf: repairedPdfBase64, report };
+  } catch (error) {
+    console.error('Error repairing PDF:', error);
+    if (error instanceof Error && /^(Encrypted PDFs|No pages|No PDF objects)/.test(error.message)) {
+      throw error;
+    }
+    throw new Error('Failed to repair PDF');
+  }
+};
+
+/**
+ * Permanently redact regions and search matches from a PDF. Unlike drawing
+ * black rectangles, the text, image pixels and metadata underneath are
+ * removed from the file. Returns the redacted PDF and a log of what was removed.
+ */
+export const redactPDF = async (
+  pdfBase64: string,
+  options: PDFRedactionOptions
+): Promise<{ pdf: string; log: PDFRedactionLogEntry[] }> => {
+  try {
+    // Convert base64 to Uint8Array
+    const pdfBytes = Uint8Array.from(atob(pdfBase64.split(',')[1] || pdfBase64), c => c.charCodeAt(0));
+
+    // Load the PDF document
+    const pdfDoc = await PDFDocument.load(pdfBytes);
+
+    const log = await redactPDFDocument(pdfDoc, options);
+
+    syncPDFAMetadata(pdfDoc);
+    const redactedPdfBytes = await pdfDoc.save({ useObjectStreams: true });
+
+    // Convert back to base64
+    const redactedPdfBase64 = `data:application/pdf;base64,${Buffer.from(redactedPdfBytes).toString('base64')}`;
+
+    return { pdf: redactedPdfBase64, log };
+  } catch (error) {
+    console.error('Error redacting PDF:', error);
+    if (error instanceof Error && /^Invalid redaction pattern|cannot be read for redaction/.test(error.message)) {
+      throw error;
+    }
+    throw new Error('Failed to redact PDF');
+  }
+};
+
+export type PDFAnnotationType =
+  | 'text'
+  | 'freeText'
+  | 'highlight'
+  | 'underline'
+  | 'strikeOut'
+  | 'ink'
+  | 'square'
+  | 'circle';
+
+export interface PDFAnnotationOptions {
+  type?: PDFAnnotationType;
+  text?: string;
+  x: number;
+  y: number;
+  width?: number;
+  height?: number;
+  pageIndex?: number;
+  author?: string;
+  color?: { r: number; g: number; b: number };
+  opacity?: number;
+  borderWidth?: number;
+  fontSize?: number;
+  inkList?: Array<Array<{ x: number; y: number }>>; // page coordinates
+}
+
+/** PDF /Subtype of each annotation type */
+const ANNOTATION_SUBTYPES: Record<PDFAnnotationType, string> = {
+  text: 'Text',
+  freeText: 'FreeText',
+  highlight: 'Highlight',
+  underline: 'Underline',
+  strikeOut: 'StrikeOut',
+  ink: 'Ink',
+  square: 'Square',
+  circle: 'Circle'
+};
+
+const DEFAULT_ANNOTATION_COLORS: Record<PDFAnnotationType, { r: number; g: number; b: number }> = {
+  text: { r: 1, g: 0.82, b: 0 },
+  freeText: { r: 0, g: 0, b: 0 },
+  highlight: { r: 1, g: 1, b: 0 },
+  underline: { r: 0, g: 0.6, b: 0 },
+  strikeOut: { r: 0.9, g: 0, b: 0 },
+  ink: { r: 0, g: 0, b: 1 },
+  square: { r: 0.9, g: 0, b: 0 },
+  circle: { r: 0.9, g: 0, b: 0 }
+};
+
+/** Split text into lines that fit the given width */
+const wrapText = (text: string, font: PDFFont, fontSize: number, maxWidth: number): string[] =>
+  text.split(/\r?\n/).flatMap(paragraph => {
+    const lines: string[] = [];
+    let line = '';
+    paragraph.split(/\s+/).filter(Boolean).forEach(word => {
+      const candidate = line ? `${line} ${word}` : word;
+      if (line && font.widthOfTextAtSize(candidate, fontSize) > maxWidth) {
+        lines.push(line);
+        line = word;
+      } else {
+        line = candidate;
+      }
+    });
+    return [...lines, line];
+  });
+
+/** Annotation options plus the identity and thread details kept when importing */
+type AnnotationDraft = PDFAnnotationOptions & {
+  name?: string;
+  created?: Date;
+  modified?: Date;
+  quadPoints?: number[];
+  subject?: string;
+  inReplyTo?: PDFRef;
+  replyType?: 'reply' | 'group';
+};
+
+/**
+ * Create an annotation dictionary with its appearance stream and add it to
+ * the page. Returns the reference of the new annotation.
+ */
+const createAnnotation = async (
+  pdfDoc: PDFDocument,
+  page: PDFPage,
+  annotation: AnnotationDraft
+): Promise<PDFRef> => {
+  const { context } = pdfDoc;
+  const {
+    type = 'text',
+    text = '',
+    x,
+    y,
+    author = 'Convortex',
+    color = DEFAULT_ANNOTATION_COLORS[type],
+    opacity = type === 'highlight' ? 0.5 : 1,
+    borderWidth = type === 'ink' ? 2 : 1,
+    fontSize = 12
+  } = annotation;
+  const width = annotation.width ?? (type === 'text' ? 20 : 200);
+  const height = annotation.height ?? (type === 'text' ? 20 : 50);
+  const pdfColor = rgb(color.r, color.g, color.b);
+
+  let rect = [x, y, x + width, y + height];
+  const operators: PDFOperator[] = [];
+  const resources = context.obj({
+    ExtGState: { GS0: { CA: opacity, ca: opacity, ...(type === 'highlight' ? { BM: 'Multiply' } : {}) } }
+  });
+  const entries: Record<string, PDFObject> = {};
+  const rectangleOptions = {
+    rotate: degrees(0),
+    xSkew: degrees(0),
+    ySkew: degrees(0),
+    graphicsState: 'GS0'
+  };
+
+  switch (type) {
+    case 'text': {
+      // Sticky note icon; the comment itself opens in the reader's popup
+      operators.push(
+        ...drawRectangle({ ...rectangleOptions, x, y, width, height, borderWidth: 1, color: pdfColor, borderColor: rgb(0, 0, 0) }),
+        ...[0.3, 0.5, 0.7].flatMap(level =>
+          drawLine({
+            start: { x: x + width * 0.2, y: y + height * level },
+            end: { x: x + width * 0.8, y: y + height * level },
+            thickness: 1,
+            color: rgb(0, 0, 0),
+            graphicsState: 'GS0'
+          })
+        )
+      );
+      entries.Name = PDFName.of('Comment');
+      entries.Open = context.obj(false);
+      break;
+    }
+    case 'freeText': {
+      const font = await pdfDoc.embedFont(StandardFonts.Helvetica);
+      const lines = wrapText(text, font, fontSize, width - 8);
+      operators.push(
+        ...drawRectangle({ ...rectangleOptions, x, y, width, height, borderWidth, color: rgb(1, 1, 1), borderColor: pdfColor }),
+        ...drawLinesOfText(lines.map(line => font.encodeText(line)), {
+          ...rectangleOptions,
+          x: x + 4,
+          y: y + height - 4 - font.heightAtSize(fontSize, { descender: false }),
+          font: 'Helv',
+          size: fontSize,
+          lineHeight: fontSize * 1.2,
+          color: pdfColor
+        })
+      );
+      resources.set(PDFName.of('Font'), context.obj({ Helv: font.ref }));
+      entries.DA = PDFString.of(`/Helv ${fontSize} Tf ${color.r} ${color.g} ${color.b} rg`);
+      entries.BS = context.obj({ W: borderWidth });
+      break;
+    }
+    case 'highlight':
+    case 'underline':
+    case 'strikeOut': {
+      // Without explicit quadrilaterals the markup covers the whole rectangle.
+      // Each quadrilateral lists its upper-left, upper-right, lower-left and lower-right corners.
+      const quadPoints = annotation.quadPoints ?? [x, y + height, x + width, y + height, x, y, x + width, y];
+      const quads: number[][] = [];
+      for (let i = 0; i + 8 <= quadPoints.length; i += 8) {
+        quads.push(quadPoints.slice(i, i + 8));
+      }
+      if (annotation.quadPoints && quads.length > 0) {
+        const xs = quadPoints.filter((_, index) => index % 2 === 0);
+        const ys = quadPoints.filter((_, index) => index % 2 === 1);
+        rect = [Math.min(...xs), Math.min(...ys), Math.max(...xs), Math.max(...ys)];
+      }
+      entries.QuadPoints = context.obj(quadPoints);
+      operators.push(pushGraphicsState(), setGraphicsState('GS0'));
+      quads.forEach(([x1, y1, x2, y2, x3, y3, x4, y4]) => {
+        if (type === 'highlight') {
+          operators.push(
+            setFillingRgbColor(color.r, color.g, color.b),
+            moveTo(x1, y1),
+            lineTo(x2, y2),
+            lineTo(x4, y4),
+            lineTo(x3, y3),
+            closePath(),
+            fill()
+          );
+        } else {
+          const thickness = Math.max(1, Math.hypot(x1 - x3, y1 - y3) / 14);
+          const [startY, endY] = type === 'underline'
+            ? [y3 + thickness, y4 + thickness]
+            : [(y1 + y3) / 2, (y2 + y4) / 2];
+          const [startX, endX] = type === 'underline' ? [x3, x4] : [(x1 + x3) / 2, (x2 + x4) / 2];
+          operators.push(
+            setStrokingRgbColor(color.r, color.g, color.b),
+            setLineWidth(thickness),
+            moveTo(startX, startY),
+            lineTo(endX, endY),
+            stroke()
+          );
+        }
+      });
+      operators.push(popGraphicsState());
+      break;
+    }
+    case 'ink': {
+      const paths = (annotation.inkList ?? []).filter(path => path.length > 0);
+      if (paths.length === 0) {
+        throw new Error('Ink annotations need at least one stroke');
+      }
+      const points = paths.flat();
+      const padding = borderWidth;
+      rect = [
+        Math.min(...points.map(point => point.x)) - padding,
+        Math.min(...points.map(point => point.y)) - padding,
+        Math.max(...points.map(point => point.x)) + padding,
+        Math.max(...points.map(point => point.y)) + padding
+      ];
+      entries.InkList = context.obj(paths.map(path => path.flatMap(point => [point.x, point.y])));
+      entries.BS = context.obj({ W: borderWidth });
+      operators.push(
+        pushGraphicsState(),
+        setGraphicsState('GS0'),
+        setStrokingRgbColor(color.r, color.g, color.b),
+        setLineWidth(borderWidth),
+        setLineCap(LineCapStyle.Round),
+        setLineJoin(LineJoinStyle.Round),
+        ...paths.flatMap(path => [
+          moveTo(path[0].x, path[0].y),
+          ...(path.length === 1 ? [lineTo(path[0].x, path[0].y)] : path.slice(1).map(point => lineTo(point.x, point.y)))
+        ]),
+        stroke(),
+        popGraphicsState()
+      );
+      break;
+    }
+    case 'square':
+    case 'circle': {
+      // Keep the border inside the rectangle
+      const inset = borderWidth / 2;
+      operators.push(
+        ...(type === 'square'
+          ? drawRectangle({
+              ...rectangleOptions,
+              x: x + inset,
+              y: y + inset,
+              width: width - borderWidth,
+              height: height - borderWidth,
+              borderWidth,
+              color: undefined,
+              borderColor: pdfColor
+            })
+          : drawEllipse({
+              x: x + width / 2,
+              y: y + height / 2,
+              xScale: width / 2 - inset,
+              yScale: height / 2 - inset,
+              borderWidth,
+              color: undefined,
+              borderColor: pdfColor,
+              graphicsState: 'GS0'
+            }))
+      );
+      entries.BS = context.obj({ W: borderWidth });
+      break;
+    }
+  }
+
+  // The appearance is drawn in page space, so its BBox is the annotation rectangle
+  const appearance = context.register(
+    context.formXObject(operators, { BBox: rect, Resources: resources })
+  );
+  const now = new Date();
+  if (annotation.subject) entries.Subj = PDFHexString.fromText(annotation.subject);
+  if (annotation.inReplyTo) {
+    entries.IRT = annotation.inReplyTo;
+    if (annotation.replyType === 'group') entries.RT = PDFName.of('Group');
+  }
+  const annotationRef = context.register(
+    context.obj({
+      Type: 'Annot',
+      Subtype: ANNOTATION_SUBTYPES[type],
+      Rect: rect,
+      Contents: PDFHexString.fromText(text),
+      T: PDFHexString.fromText(author),
+      NM: PDFString.of(annotation.name ?? `${now.getTime().toString(36)}-${Math.random().toString(36).slice(2, 10)}`),
+      M: PDFString.fromDate(annotation.modified ?? now),
+      CreationDate: PDFString.fromDate(annotation.created ?? now),
+      F: 4,
+      C: [color.r, color.g, color.b],
+      CA: opacity,
+      P: page.ref,
+      AP: { N: appearance },
+      ...entries
+    })
+  );
+  page.node.addAnnot(annotationRef);
+
+  return annotationRef;
+};
+
+/**
+ * Add an annotation (sticky note, free text, text markup, ink or shape) to a
+ * PDF as a real annotation object that readers can move, edit and delete
+ */
+export const addAnnotationToPDF = async (
+  pdfBase64: string,
+  annotation: PDFAnnotationOptions
+): Promise<string> => {
+  try {
+    // Convert base64 to Uint8Array
+    const pdfBytes = Uint8Array.from(atob(pdfBase64.split(',')[1] || pdfBase64), c => c.charCodeAt(0));
+
+    // Load the PDF document
+    const pdfDoc = await PDFDocument.load(pdfBytes);
+
+    // Get the specified page
+    const { pageIndex = 0 } = annotation;
+    const pages = pdfDoc.getPages();
+    if (pageIndex >= pages.length) {
       throw new Error('Page index out of range');
     }
 
-    const page = pages[pageIndex];
+    await createAnnotation(pdfDoc, pages[pageIndex], annotation);
 
-    // Get the font
-    const font = await pdfDoc.embedFont(StandardFonts.Helvetica);
+    // Save the annotated PDF
+    const annotatedPdfBytes = await pdfDoc.save();
+
+    // Convert back to base64
+    const annotatedPdfBase64 = `data:application/pdf;base64,${Buffer.from(annotatedPdfBytes).toString('base64')}`;
+
+    return annotatedPdfBase64;
+  } catch (error) {
+    console.error('Error adding annotation to PDF:', error);
+    throw new Error('Failed to add annotation to PDF');
+  }
+};
+
+export interface PDFAnnotationInfo {
+  id: string;
+  type: string; // PDF subtype, e.g. Text, Highlight or Ink
+  pageIndex: number;
+  author?: string;
+  contents?: string;
+  subject?: string;
+  rect: [number, number, number, number];
+  color?: { r: number; g: number; b: number };
+  opacity?: number;
+  borderWidth?: number;
+  fontSize?: number;
+  created?: string;
+  modified?: string;
+  quadPoints?: number[];
+  inkList?: Array<Array<{ x: number; y: number }>>;
+  line?: number[]; // start and end point of Line annotations
+  vertices?: number[]; // Polygon and PolyLine points
+  icon?: string; // icon or stamp name
+  inReplyTo?: string;
+  replyType?: 'reply' | 'group';
+  replies: PDFAnnotationInfo[];
+}
+
+/**
+ * Markup annotations, the ones readers list as comments; links, widgets,
+ * popups and other interactive or printing annotations are left out
+ */
+const COMMENT_SUBTYPES = [
+  'Text', 'FreeText', 'Line', 'Square', 'Circle', 'Polygon', 'PolyLine', 'Highlight', 'Underline',
+  'Squiggly', 'StrikeOut', 'Stamp', 'Caret', 'Ink', 'FileAttachment', 'Sound', 'Redact', 'Projection'
+];
+
+/** Comments that carry an embedded file or sound, which exports do not include */
+const EMBEDDED_DATA_SUBTYPES = ['FileAttachment', 'Sound'];
 
-    // Calculate text dimensions
-    const fontSize = 12;
-    const textWidth = font.widthOfTextAtSize(text, fontSize);
-    const textHeight = font.heightAtSize(fontSize);
-
-    // Adjust annotation box if needed
-    const actualWidth = Math.max(width, textWidth + 20);
-    const actualHeight = Math.max(height, textHeight + 20);
-
-    // Draw annotation background
-    page.drawRectangle({
-      x: x - 5,
-      y: y - 5,
-      width: actualWidth,
-      height: actualHeight,
-      color: rgb(1, 1, 0), // Yellow background
-      opacity: 0.3
+/**
+ * Read the review annotations of every page as a flat list; replies point
+ * to their parent through inReplyTo
+ */
+const readAnnotations = (pdfDoc: PDFDocument): PDFAnnotationInfo[] => {
+  const { context } = pdfDoc;
+  const annotations: PDFAnnotationInfo[] = [];
+  const idsByRef = new Map<string, string>();
+  const parents = new Map<PDFAnnotationInfo, string>();
+
+  pdfDoc.getPages().forEach((page, pageIndex) => {
+    page.node.Annots()?.asArray().forEach((annotRef, annotIndex) => {
+      const dict = context.lookup(annotRef);
+      if (!(dict instanceof PDFDict)) return;
+      const subtype = dict.lookupMaybe(PDFName.of('Subtype'), PDFName)?.decodeText();
+      if (!subtype || !COMMENT_SUBTYPES.includes(subtype)) return;
+
+      const readText = (key: string) => {
+        const value = dict.lookup(PDFName.of(key));
+        return value instanceof PDFString || value instanceof PDFHexString ? value.decodeText() : undefined;
+      };
+      const readDate = (key: string) => {
+        const value = dict.lookup(PDFName.of(key));
+        try {
+          return value instanceof PDFString || value instanceof PDFHexString ? value.decodeDate().toISOString() : undefined;
+        } catch {
+          return undefined;
+        }
+      };
+      const readNumbers = (key: string) =>
+        dict.lookupMaybe(PDFName.of(key), PDFArray)?.asArray().map(item => {
+          const value = context.lookup(item);
+          return value instanceof PDFNumber ? value.asNumber() : 0;
+        });
+
+      // C holds a gray, RGB or CMYK color depending on its length
+      const components = readNumbers('C') ?? [];
+      const color = components.length === 1
+        ? { r: components[0], g: components[0], b: components[0] }
+        : components.length === 3
+          ? { r: components[0], g: components[1], b: components[2] }
+          : components.length === 4
+            ? {
+                r: (1 - components[0]) * (1 - components[3]),
+                g: (1 - components[1]) * (1 - components[3]),
+                b: (1 - components[2]) * (1 - components[3])
+              }
+            : undefined;
+
+      const rect = readNumbers('Rect') ?? [0, 0, 0, 0];
+      const inkList = dict.lookupMaybe(PDFName.of('InkList'), PDFArray)?.asArray().map(path => {
+        const values = context.lookupMaybe(path, PDFArray)?.asArray()
+          .map(item => context.lookupMaybe(item, PDFNumber)?.asNumber() ?? 0) ?? [];
+        const points: Array<{ x: number; y: number }> = [];
+        for (let i = 0; i + 1 < values.length; i += 2) {
+          points.push({ x: values[i], y: values[i + 1] });
+        }
+        return points;
+      });
+      const borderWidth = dict.lookupMaybe(PDFName.of('BS'), PDFDict)?.lookupMaybe(PDFName.of('W'), PDFNumber)?.asNumber()
+        ?? readNumbers('Border')?.[2];
+      const fontSize = readText('DA')?.match(/([\d.]+)\s+Tf/)?.[1];
+      const id = readText('NM') || `page${pageIndex + 1}-annot${annotIndex + 1}`;
+
+      const info: PDFAnnotationInfo = {
+        id,
+        type: subtype,
+        pageIndex,
+        author: readText('T'),
+        contents: readText('Contents'),
+        subject: readText('Subj'),
+        rect: [
+          Math.min(rect[0], rect[2]),
+          Math.min(rect[1], rect[3]),
+          Math.max(rect[0], rect[2]),
+          Math.max(rect[1], rect[3])
+        ],
+        color,
+        opacity: dict.lookupMaybe(PDFName.of('CA'), PDFNumber)?.asNumber(),
+        borderWidth,
+        fontSize: fontSize ? parseFloat(fontSize) : undefined,
+        created: readDate('CreationDate'),
+        modified: readDate('M'),
+        quadPoints: readNumbers('QuadPoints'),
+        inkList,
+        line: readNumbers('L'),
+        vertices: readNumbers('Vertices'),
+        icon: dict.lookupMaybe(PDFName.of('Name'), PDFName)?.decodeText(),
+        replyType: dict.lookupMaybe(PDFName.of('RT'), PDFName)?.decodeText() === 'Group' ? 'group' : 'reply',
+        replies: []
+      };
+      if (annotRef instanceof PDFRef) idsByRef.set(annotRef.tag, id);
+      const parentRef = dict.get(PDFName.of('IRT'));
+      if (parentRef instanceof PDFRef) parents.set(info, parentRef.tag);
+      annotations.push(info);
     });
+  });
 
-    // Draw annotation border
-    page.drawRectangle({
-      x: x - 5,
-      y: y - 5,
-      width: actualWidth,
-      height: actualHeight,
-      color: rgb(0, 0, 0),
-      borderWidth: 1,
-      opacity: 1
+  parents.forEach((parentTag, info) => {
+    info.inReplyTo = idsByRef.get(parentTag);
+  });
+  annotations.forEach(info => {
+    if (!info.inReplyTo) delete info.replyType;
+  });
+
+  return annotations;
+};
+
+/** Nest replies under the annotation they answer */
+const threadAnnotations = (annotations: PDFAnnotationInfo[]): PDFAnnotationInfo[] => {
+  const byId = new Map(annotations.map(info => [info.id, { ...info, replies: [] as PDFAnnotationInfo[] }]));
+  const threads: PDFAnnotationInfo[] = [];
+  byId.forEach(info => {
+    const parent = info.inReplyTo ? byId.get(info.inReplyTo) : undefined;
+    if (parent && parent !== info) {
+      parent.replies.push(info);
+    } else {
+      threads.push(info);
+    }
+  });
+  return threads;
+};
+
+const flattenAnnotations = (annotations: PDFAnnotationInfo[], parentId?: string): PDFAnnotationInfo[] =>
+  annotations.flatMap(info => {
+    const current = { ...info, inReplyTo: info.inReplyTo ?? parentId, replies: [] };
+    return [current, ...flattenAnnotations(info.replies ?? [], info.id)];
+  });
+
+const escapeXml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const toHexColor = (color: { r: number; g: number; b: number }): string =>
+  `#${[color.r, color.g, color.b]
+    .map(component => Math.round(Math.min(1, Math.max(0, component)) * 255).toString(16).padStart(2, '0'))
+    .join('')}`;
+
+/** Flat x, y pairs as the "x,y;x,y" lists XFDF uses */
+const toPointList = (values: number[]): string => {
+  const points: string[] = [];
+  for (let i = 0; i + 1 < values.length; i += 2) {
+    points.push(`${values[i]},${values[i + 1]}`);
+  }
+  return points.join(';');
+};
+
+/** Serialize annotations as XFDF (ISO 19444-1) */
+const annotationsToXFDF = (annotations: PDFAnnotationInfo[]): string => {
+  const toPDFDate = (iso: string) => PDFString.fromDate(new Date(iso)).asString();
+  const elements = flattenAnnotations(annotations).map(info => {
+    const attributes: Array<[string, string | number | undefined]> = [
+      ['page', info.pageIndex],
+      ['rect', info.rect.join(',')],
+      ['name', info.id],
+      ['title', info.author],
+      ['subject', info.subject],
+      ['date', info.modified && toPDFDate(info.modified)],
+      ['creationdate', info.created && toPDFDate(info.created)],
+      ['color', info.color && toHexColor(info.color)],
+      ['opacity', info.opacity],
+      ['width', info.borderWidth],
+      ['coords', info.quadPoints?.join(',')],
+      ['start', info.line && `${info.line[0]},${info.line[1]}`],
+      ['end', info.line && `${info.line[2]},${info.line[3]}`],
+      ['icon', info.icon],
+      ['inreplyto', info.inReplyTo],
+      ['replyType', info.inReplyTo ? info.replyType : undefined],
+      ['flags', 'print']
+    ];
+    const attributeText = attributes
+      .filter(([, value]) => value !== undefined && value !== '')
+      .map(([key, value]) => `${key}="${escapeXml(String(value))}"`)
+      .join(' ');
+    const children = [
+      info.contents ? `      <contents>${escapeXml(info.contents)}</contents>` : '',
+      info.fontSize ? `      <defaultappearance>/Helv ${info.fontSize} Tf</defaultappearance>` : '',
+      info.vertices?.length ? `      <vertices>${toPointList(info.vertices)}</vertices>` : '',
+      info.inkList?.length
+        ? `      <inklist>\n${info.inkList
+            .map(path => `        <gesture>${path.map(point => `${point.x},${point.y}`).join(';')}</gesture>`)
+            .join('\n')}\n      </inklist>`
+        : ''
+    ].filter(Boolean);
+    const element = info.type.toLowerCase();
+    return children.length > 0
+      ? `    <${element} ${attributeText}>\n${children.join('\n')}\n    </${element}>`
+      : `    <${element} ${attributeText}/>`;
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<xfdf xmlns="http://ns.adobe.com/xfdf/" xml:space="preserve">',
+    '  <annots>',
+    ...elements,
+    '  </annots>',
+    '</xfdf>',
+    ''
+  ].join('\n');
+};
+
+/** Parse the annotations of an XFDF document into a flat list */
+const annotationsFromXFDF = (xfdf: string): PDFAnnotationInfo[] => {
+  const document = new DOMParser().parseFromString(xfdf, 'application/xml');
+  if (document.getElementsByTagName('parsererror').length > 0) {
+    throw new Error('Invalid XFDF document');
+  }
+  const annots = document.getElementsByTagName('annots')[0];
+  if (!annots) return [];
+
+  const numbers = (value: string | null) =>
+    value ? value.split(/[,\s]+/).filter(Boolean).map(Number) : undefined;
+  const date = (value: string | null) => {
+    try {
+      return value ? PDFString.of(value).decodeDate().toISOString() : undefined;
+    } catch {
+      return undefined;
+    }
+  };
+
+  return Array.from(annots.children).map((element, index) => {
+    const attribute = (name: string) => element.getAttribute(name);
+    const subtype = COMMENT_SUBTYPES.find(value => value.toLowerCase() === element.localName)
+      ?? element.localName;
+    const rect = numbers(attribute('rect')) ?? [0, 0, 0, 0];
+    const color = attribute('color');
+    const hex = color && /^#[0-9a-f]{6}$/i.test(color) ? parseInt(color.slice(1), 16) : undefined;
+    const gestures = Array.from(element.getElementsByTagName('gesture')).map(gesture =>
+      (gesture.textContent ?? '')
+        .split(';')
+        .map(point => point.split(',').map(Number))
+        .filter(point => point.length === 2 && point.every(Number.isFinite))
+        .map(([x, y]) => ({ x, y }))
+    );
+    const fontSize = element.getElementsByTagName('defaultappearance')[0]?.textContent?.match(/([\d.]+)\s+Tf/)?.[1];
+    const opacity = attribute('opacity');
+    const width = attribute('width');
+    const start = numbers(attribute('start'));
+    const end = numbers(attribute('end'));
+    const vertices = numbers(element.getElementsByTagName('vertices')[0]?.textContent?.replace(/;/g, ',') ?? null);
+
+    return {
+      id: attribute('name') || `imported-${index + 1}`,
+      type: subtype,
+      pageIndex: Number(attribute('page') ?? 0),
+      author: attribute('title') ?? undefined,
+      contents: element.getElementsByTagName('contents')[0]?.textContent ?? undefined,
+      subject: attribute('subject') ?? undefined,
+      rect: [rect[0], rect[1], rect[2], rect[3]],
+      color: hex === undefined ? undefined : { r: ((hex >> 16) & 255) / 255, g: ((hex >> 8) & 255) / 255, b: (hex & 255) / 255 },
+      opacity: opacity ? Number(opacity) : undefined,
+      borderWidth: width ? Number(width) : undefined,
+      fontSize: fontSize ? parseFloat(fontSize) : undefined,
+      created: date(attribute('creationdate')),
+      modified: date(attribute('date')),
+      quadPoints: numbers(attribute('coords')),
+      inkList: gestures.length > 0 ? gestures : undefined,
+      line: start && end ? [...start, ...end] : undefined,
+      vertices,
+      icon: attribute('icon') ?? undefined,
+      inReplyTo: attribute('inreplyto') ?? undefined,
+      replyType: attribute('replyType') === 'group' ? 'group' : 'reply',
+      replies: []
+    };
+  });
+};
+
+/**
+ * List the annotations of a PDF per page with their reply threads
+ */
+export const getPDFAnnotations = async (pdfBase64: string): Promise<PDFAnnotationInfo[]> => {
+  try {
+    // Convert base64 to Uint8Array
+    const pdfBytes = Uint8Array.from(atob(pdfBase64.split(',')[1] || pdfBase64), c => c.charCodeAt(0));
+
+    // Load the PDF document
+    const pdfDoc = await PDFDocument.load(pdfBytes, { updateMetadata: false });
+
+    return threadAnnotations(readAnnotations(pdfDoc));
+  } catch (error) {
+    console.error('Error reading PDF annotations:', error);
+    throw new Error('Failed to read PDF annotations');
+  }
+};
+
+/**
+ * Export the annotations of a PDF as XFDF or JSON
+ */
+export const exportPDFAnnotations = async (
+  pdfBase64: string,
+  format: 'xfdf' | 'json' = 'xfdf'
+): Promise<string> => {
+  const annotations = await getPDFAnnotations(pdfBase64);
+
+  return format === 'json'
+    ? JSON.stringify({ version: 1, annotations }, null, 2)
+    : annotationsToXFDF(annotations);
+};
+
+/**
+ * Recreate a comment without a dedicated builder (lines, polygons, stamps,
+ * carets, squiggly underlines, ...) from its dictionary entries. No
+ * appearance stream is written, readers draw these from their geometry.
+ */
+const createAnnotationFromInfo = (
+  pdfDoc: PDFDocument,
+  page: PDFPage,
+  info: PDFAnnotationInfo,
+  inReplyTo?: PDFRef
+): PDFRef => {
+  const { context } = pdfDoc;
+  const now = new Date();
+  const entries: Record<string, PDFObject> = {};
+  if (info.contents) entries.Contents = PDFHexString.fromText(info.contents);
+  if (info.author) entries.T = PDFHexString.fromText(info.author);
+  if (info.subject) entries.Subj = PDFHexString.fromText(info.subject);
+  if (info.color) entries.C = context.obj([info.color.r, info.color.g, info.color.b]);
+  if (info.opacity !== undefined) entries.CA = PDFNumber.of(info.opacity);
+  if (info.borderWidth !== undefined) entries.BS = context.obj({ W: info.borderWidth });
+  if (info.quadPoints) entries.QuadPoints = context.obj(info.quadPoints);
+  if (info.inkList) entries.InkList = context.obj(info.inkList.map(path => path.flatMap(point => [point.x, point.y])));
+  if (info.line) entries.L = context.obj(info.line);
+  if (info.vertices) entries.Vertices = context.obj(info.vertices);
+  if (info.icon) entries.Name = PDFName.of(info.icon);
+  if (inReplyTo) {
+    entries.IRT = inReplyTo;
+    if (info.replyType === 'group') entries.RT = PDFName.of('Group');
+  }
+
+  const annotationRef = context.register(
+    context.obj({
+      Type: 'Annot',
+      Subtype: info.type,
+      Rect: info.rect,
+      NM: PDFString.of(info.id),
+      M: PDFString.fromDate(info.modified ? new Date(info.modified) : now),
+      CreationDate: PDFString.fromDate(info.created ? new Date(info.created) : now),
+      F: 4,
+      P: page.ref,
+      ...entries
+    })
+  );
+  page.node.addAnnot(annotationRef);
+
+  return annotationRef;
+};
+
+/**
+ * Import annotations from XFDF or JSON. Annotations whose name already exists
+ * in the PDF are skipped, so importing the same file twice adds nothing.
+ * Attachments and sounds, whose data exports do not carry, are skipped too;
+ * their replies answer the nearest imported comment of the thread.
+ */
+export const importPDFAnnotations = async (
+  pdfBase64: string,
+  data: string
+): Promise<{ pdf: string; imported: number; skipped: number }> => {
+  try {
+    const incoming = data.trim().startsWith('<')
+      ? annotationsFromXFDF(data)
+      : flattenAnnotations((JSON.parse(data) as { annotations?: PDFAnnotationInfo[] }).annotations ?? []);
+
+    // Convert base64 to Uint8Array
+    const pdfBytes = Uint8Array.from(atob(pdfBase64.split(',')[1] || pdfBase64), c => c.charCodeAt(0));
+
+    // Load the PDF document
+    const pdfDoc = await PDFDocument.load(pdfBytes);
+    const pages = pdfDoc.getPages();
+
+    // Replies may answer annotations that are already in the document
+    const refsById = new Map<string, PDFRef>();
+    pdfDoc.getPages().forEach(page => {
+      page.node.Annots()?.asArray().forEach(annotRef => {
+        const dict = pdfDoc.context.lookup(annotRef);
+        const name = dict instanceof PDFDict ? dict.lookup(PDFName.of('NM')) : undefined;
+        if (annotRef instanceof PDFRef && (name instanceof PDFString || name instanceof PDFHexString)) {
+          refsById.set(name.decodeText(), annotRef);
+        }
+      });
     });
 
-    // Draw annotation text
-    page.drawText(text, {
-      x: x,
-      y: y + actualHeight - 15,
-      size: fontSize,
-      font,
-      color: rgb(0, 0, 0)
-    });
+    // Comments that were not created, with the comment they answer
+    const skippedParents = new Map<string, string | undefined>();
+    const replyTarget = (id?: string): PDFRef | undefined => {
+      const visited = new Set<string>();
+      while (id && !refsById.has(id) && skippedParents.has(id) && !visited.has(id)) {
+        visited.add(id);
+        id = skippedParents.get(id);
+      }
+      return id ? refsById.get(id) : undefined;
+    };
+
+    let imported = 0;
+    let skipped = 0;
+    // Create parents before their replies
+    const pending = [...incoming];
+    while (pending.length > 0) {
+      const index = pending.findIndex(info =>
+        !info.inReplyTo || refsById.has(info.inReplyTo) || !pending.some(other => other.id === info.inReplyTo)
+      );
+      const [info] = pending.splice(index === -1 ? 0 : index, 1);
+
+      const type = (Object.keys(ANNOTATION_SUBTYPES) as PDFAnnotationType[])
+        .find(key => ANNOTATION_SUBTYPES[key] === info.type);
+      const page = pages[info.pageIndex];
+      if (refsById.has(info.id)) {
+        skipped++;
+        continue;
+      }
+      if (!page || (!type && (!COMMENT_SUBTYPES.includes(info.type) || EMBEDDED_DATA_SUBTYPES.includes(info.type)))) {
+        skippedParents.set(info.id, info.inReplyTo);
+        skipped++;
+        continue;
+      }
+
+      const inReplyTo = replyTarget(info.inReplyTo);
+      if (!type) {
+        refsById.set(info.id, createAnnotationFromInfo(pdfDoc, page, info, inReplyTo));
+        imported++;
+        continue;
+      }
+
+      const [x1, y1, x2, y2] = info.rect;
+      const ref = await createAnnotation(pdfDoc, page, {
+        type,
+        text: info.contents,
+        x: x1,
+        y: y1,
+        width: x2 - x1,
+        height: y2 - y1,
+        author: info.author,
+        color: info.color,
+        opacity: info.opacity,
+        borderWidth: info.borderWidth,
+        fontSize: info.fontSize,
+        inkList: info.inkList,
+        quadPoints: info.quadPoints,
+        name: info.id,
+        subject: info.subject,
+        created: info.created ? new Date(info.created) : undefined,
+        modified: info.modified ? new Date(info.modified) : undefined,
+        inReplyTo,
+        replyType: info.replyType
+      });
+      refsById.set(info.id, ref);
+      imported++;
+    }
+
+    // Save the annotated PDF
+    const annotatedPdfBytes = await pdfDoc.save();
+
+    // Convert back to base64
+    const annotatedPdfBase64 = `data:application/pdf;base64,${Buffer.from(annotatedPdfBytes).toString('base64')}`;
+
+    return { pdf: annotatedPdfBase64, imported, skipped };
+  } catch (error) {
+    console.error('Error importing PDF annotations:', error);
+    throw new Error('Failed to import PDF annotations');
+  }
+};
+
+export type FormFieldValue = string | boolean | string[];
+
+export interface FormFillReport {
+  filledFields: string[];
+  unknownFields: string[];
+  invalidFields: Array<{ name: string; reason: string }>;
+  flattened: boolean;
+}
+
+export interface PDFFormFieldInfo {
+  name: string;
+  type: 'text' | 'checkbox' | 'radio' | 'dropdown' | 'optionList' | 'button' | 'signature';
+  value: FormFieldValue;
+  options: string[];
+  required: boolean;
+  readOnly: boolean;
+  multiline?: boolean;
+  maxLength?: number;
+  multiselect?: boolean;
+  /** 1-based page of the first widget, undefined when it is not on any page */
+  page?: number;
+  /** First widget rectangle in PDF points */
+  rect?: { x: number; y: number; width: number; height: number };
+}
+
+/**
+ * List the AcroForm fields of a PDF with their type, current value, options
+ * and position, so a fill form can be generated for it
+ */
+export const getPDFFormFields = async (pdfBase64: string): Promise<PDFFormFieldInfo[]> => {
+  try {
+    // Convert base64 to Uint8Array
+    const pdfBytes = Uint8Array.from(atob(pdfBase64.split(',')[1] || pdfBase64), c => c.charCodeAt(0));
+
+    // Load the PDF document
+    const pdfDoc = await PDFDocument.load(pdfBytes);
+    const pages = pdfDoc.getPages();
+
+    return pdfDoc.getForm().getFields().map(field => {
+      const info: PDFFormFieldInfo = {
+        name: field.getName(),
+        type: 'button',
+        value: '',
+        options: [],
+        required: field.isRequired(),
+        readOnly: field.isReadOnly()
+      };
 
-    // Save the annotated PDF
-    const annotatedPdfBytes = await pdfDoc.save();
+      if (field instanceof PDFTextField) {
+        info.type = 'text';
+        info.value = field.getText() ?? '';
+        info.multiline = field.isMultiline();
+        info.maxLength = field.getMaxLength();
+      } else if (field instanceof PDFCheckBox) {
+        info.type = 'checkbox';
+        info.value = field.isChecked();
+      } else if (field instanceof PDFRadioGroup) {
+        info.type = 'radio';
+        info.value = field.getSelected() ?? '';
+        info.options = field.getOptions();
+      } else if (field instanceof PDFDropdown || field instanceof PDFOptionList) {
+        info.type = field instanceof PDFDropdown ? 'dropdown' : 'optionList';
+        info.options = field.getOptions();
+        info.multiselect = field.isMultiselect();
+        info.value = info.multiselect ? field.getSelected() : field.getSelected()[0] ?? '';
+      } else if (field instanceof PDFSignature) {
+        info.type = 'signature';
+      }
 
-    // Convert back to base64
-    const annotatedPdfBase64 = `data:application/pdf;base64,${Buffer.from(annotatedPdfBytes).toString('base64')}`;
+      // Widgets without a /P entry are found through the page /Annots arrays
+      const widget = field.acroField.getWidgets()[0];
+      if (widget) {
+        const pageRef = widget.P();
+        const pageIndex = pages.findIndex(page =>
+          pageRef
+            ? page.ref === pageRef
+            : page.node.Annots()?.asArray().some(annot => pdfDoc.context.lookup(annot) === widget.dict)
+        );
+        info.page = pageIndex >= 0 ? pageIndex + 1 : undefined;
+        info.rect = widget.getRectangle();
+      }
 
-    return annotatedPdfBase64;
+      return info;
+    });
   } catch (error) {
-    console.error('Error adding annotation to PDF:', error);
-    throw new Error('Failed to add annotation to PDF');
+    console.error('Error reading PDF form fields:', error);
+    throw new Error('Failed to read PDF form fields');
   }
 };
 
+/** Interpret form input for a checkbox, undefined when it is not a yes/no value */
+const parseCheckBoxValue = (value: FormFieldValue): boolean | undefined => {
+  if (typeof value === 'boolean') return value;
+  const normalized = String(value).trim().toLowerCase();
+  if (['true', 'yes', 'on', '1', 'checked', 'x'].includes(normalized)) return true;
+  if (['false', 'no', 'off', '0', 'unchecked', ''].includes(normalized)) return false;
+  return undefined;
+};
+
 /**
- * Fill PDF forms using pdf-lib (Note: Limited form support in pdf-lib)
+ * Fill PDF form fields by their fully qualified names. Text fields take
+ * strings, checkboxes booleans (or yes/no strings), radio groups and dropdowns
+ * one of their options and option lists one or more options. Fields that are
+ * missing or reject their value are reported instead of failing the whole fill.
  */
 export const fillPDFForm = async (
   pdfBase64: string,
-  formData: Record<string, string>
-): Promise<string> => {
+  formData: Record<string, FormFieldValue>,
+  options: {
+    flatten?: boolean;
+  } = {}
+): Promise<{ pdf: string; report: FormFillReport }> => {
+  const { flatten = false } = options;
+
   try {
     // Convert base64 to Uint8Array
     const pdfBytes = Uint8Array.from(atob(pdfBase64.split(',')[1] || pdfBase64), c => c.charCodeAt(0));
@@ -1258,35 +3371,100 @@ export const fillPDFForm = async (
 
     // Get the form
     const form = pdfDoc.getForm();
+    const font = await pdfDoc.embedFont(StandardFonts.Helvetica);
+
+    const report: FormFillReport = {
+      filledFields: [],
+      unknownFields: [],
+      invalidFields: [],
+      flattened: false
+    };
+
+    for (const [fieldName, value] of Object.entries(formData)) {
+      const field = form.getFieldMaybe(fieldName);
+      if (!field) {
+        report.unknownFields.push(fieldName);
+        continue;
+      }
 
-    // Get all form fields
-    const fields = form.getFields();
+      const values = Array.isArray(value) ? value : [String(value)];
+      const invalid = (reason: string) => report.invalidFields.push({ name: fieldName, reason });
 
-    // Fill form fields (pdf-lib has limited form field manipulation capabilities)
-    for (const [fieldName, _value] of Object.entries(formData)) { // eslint-disable-line @typescript-eslint/no-unused-vars
       try {
-        // Find field by name (this is a simplified approach)
-        const field = fields.find(f => f.getName() === fieldName);
-        if (field) {
-          // pdf-lib form field manipulation is limited
-          // This would require more advanced PDF form handling libraries
-          console.log(`Found field ${fieldName}, but pdf-lib has limited form filling capabilities`);
+        if (field instanceof PDFTextField) {
+          const text = Array.isArray(value) ? value.join(', ') : String(value);
+          const maxLength = field.getMaxLength();
+          if (maxLength !== undefined && text.length > maxLength) {
+            invalid(`Text is longer than ${maxLength} characters`);
+            continue;
+          }
+          // Appearances are drawn with Helvetica, which only covers WinAnsi
+          font.encodeText(text);
+          field.setText(text);
+        } else if (field instanceof PDFCheckBox) {
+          const checked = parseCheckBoxValue(Array.isArray(value) ? values.length > 0 : value);
+          if (checked === undefined) {
+            invalid('Checkbox expects true or false');
+            continue;
+          }
+          if (checked) field.check();
+          else field.uncheck();
+        } else if (field instanceof PDFRadioGroup) {
+          if (!values[0]) {
+            field.clear();
+          } else if (field.getOptions().includes(values[0])) {
+            field.select(values[0]);
+          } else {
+            invalid(`Expected one of: ${field.getOptions().join(', ')}`);
+            continue;
+          }
+        } else if (field instanceof PDFDropdown || field instanceof PDFOptionList) {
+          const selected = values.filter(option => option !== '');
+          const fieldOptions = field.getOptions();
+          const isEditable = field instanceof PDFDropdown && field.isEditable();
+          const isMultiselect = field.isMultiselect();
+
+          if (selected.length > 1 && !isMultiselect) {
+            invalid('Only one option can be selected');
+            continue;
+          }
+          const unknownOptions = selected.filter(option => !fieldOptions.includes(option));
+          if (unknownOptions.length > 0 && !isEditable) {
+            invalid(`Expected one of: ${fieldOptions.join(', ')}`);
+            continue;
+          }
+
+          if (selected.length === 0) field.clear();
+          else field.select(selected);
+        } else {
+          invalid('Field type cannot be filled');
+          continue;
         }
+
+        report.filledFields.push(fieldName);
       } catch (fieldError) {
         console.warn(`Could not fill field ${fieldName}:`, fieldError);
+        invalid(fieldError instanceof Error ? fieldError.message : 'Value was rejected');
       }
     }
 
-    // Save the PDF (form filling may not be applied due to pdf-lib limitations)
-    const filledPdfBytes = await pdfDoc.save();
+    form.updateFieldAppearances(font);
+
+    // Flattening bakes the values into the page content and removes the fields
+    if (flatten) {
+      form.flatten({ updateFieldAppearances: false });
+      report.flattened = true;
+    }
+
+    const filledPdfBytes = await pdfDoc.save({ updateFieldAppearances: false });
 
     // Convert back to base64
     const filledPdfBase64 = `data:application/pdf;base64,${Buffer.from(filledPdfBytes).toString('base64')}`;
 
-    return filledPdfBase64;
+    return { pdf: filledPdfBase64, report };
   } catch (error) {
     console.error('Error filling PDF form:', error);
-    throw new Error('Failed to fill PDF form (pdf-lib has limited form support)');
+    throw new Error('Failed to fill PDF form');
   }
 };
 
@@ -1296,13 +3474,16 @@ export const fillPDFForm = async (
 export const processBatchPDFOperations = async (
   pdfBase64Array: string[],
   operations: Array<{
-    type: 'compress' | 'watermark' | 'rotate' | 'page-numbers' | 'password';
+    type: 'compress' | 'watermark' | 'rotate' | 'page-numbers' | 'header-footer' | 'password';
     options?: Record<string, unknown>;
-  }>
+  }>,
+  fileNames: string[] = []
 ): Promise<string[]> => {
   const results: string[] = [];
+  // Bates numbers run on from one file to the next
+  let nextBatesNumber: number | undefined;
 
-  for (const pdfBase64 of pdfBase64Array) {
+  for (const [index, pdfBase64] of pdfBase64Array.entries()) {
     let processedPdf = pdfBase64;
 
     for (const operation of operations) {
@@ -1310,14 +3491,13 @@ export const processBatchPDFOperations = async (
         switch (operation.type) {
           case 'compress':
             // eslint-disable-next-line @typescript-eslint/no-explicit-any
-            processedPdf = await compressPDF(processedPdf, operation.options as any);
+            processedPdf = (await compressPDF(processedPdf, operation.options as any)).pdf;
             break;
           case 'watermark':
             processedPdf = await addWatermarkToPDF(
               processedPdf,
               (operation.options?.text as string) || 'Batch',
-              // eslint-disable-next-line @typescript-eslint/no-explicit-any
-              operation.options as any
+              operation.options as PDFWatermarkOptions | undefined
             );
             break;
           case 'rotate':
@@ -1331,6 +3511,17 @@ export const processBatchPDFOperations = async (
             // eslint-disable-next-line @typescript-eslint/no-explicit-any
             processedPdf = await addPageNumbersToPDF(processedPdf, operation.options as any);
             break;
+          case 'header-footer': {
+            const options = operation.options as PDFHeaderFooterOptions | undefined;
+            const stamped = await addHeaderFooterToPDF(processedPdf, {
+              ...options,
+              fileName: fileNames[index] ?? options?.fileName,
+              bates: options?.bates && { ...options.bates, start: nextBatesNumber ?? options.bates.start }
+            });
+            processedPdf = stamped.pdf;
+            nextBatesNumber = stamped.nextBatesNumber;
+            break;
+          }
           case 'password':
             processedPdf = await addPasswordToPDF(processedPdf, (operation.options?.password as string) || 'password');
             break;
@@ -1348,7 +3539,175 @@ export const processBatchPDFOperations = async (
 };
 
 /**
- * Convert PDF to Images using canvas rendering (client-side implementation)
+ * Lazily load pdf.js so it only ends up in the client bundle of pages that render PDFs
+ */
+const loadPdfJs = async () => {
+  const pdfjs = await import('pdfjs-dist');
+
+  if (!pdfjs.GlobalWorkerOptions.workerSrc) {
+    pdfjs.GlobalWorkerOptions.workerSrc = new URL('pdfjs-dist/build/pdf.worker.min.mjs', import.meta.url).toString();
+  }
+
+  return pdfjs;
+};
+
+/**
+ * Open a base64 PDF with pdf.js for rendering and text extraction
+ */
+const openPDFDocument = async (pdfBase64: string) => {
+  const pdfjs = await loadPdfJs();
+
+  // Convert base64 to Uint8Array
+  const pdfBytes = Uint8Array.from(atob(pdfBase64.split(',')[1] || pdfBase64), c => c.charCodeAt(0));
+
+  return pdfjs.getDocument({ data: pdfBytes }).promise;
+};
+
+type PDFJSDocument = Awaited<ReturnType<typeof openPDFDocument>>;
+
+/**
+ * Resolve 1-based page numbers against the document, defaulting to every page
+ */
+const resolvePageNumbers = (pages: number[] | undefined, totalPages: number): number[] => {
+  if (!pages || pages.length === 0) {
+    return Array.from({ length: totalPages }, (_, i) => i + 1);
+  }
+
+  return pages.filter(pageNum => Number.isInteger(pageNum) && pageNum >= 1 && pageNum <= totalPages);
+};
+
+/**
+ * Rasterize a single PDF page onto a canvas at the given DPI
+ */
+const renderPDFPageToCanvas = async (
+  pdf: PDFJSDocument,
+  pageNumber: number,
+  dpi: number
+): Promise<HTMLCanvasElement> => {
+  const page = await pdf.getPage(pageNumber);
+
+  // PDF user space is 72 units per inch
+  const viewport = page.getViewport({ scale: dpi / 72 });
+
+  const canvas = document.createElement('canvas');
+  const ctx = canvas.getContext('2d');
+
+  if (!ctx) {
+    throw new Error('Canvas context not available');
+  }
+
+  canvas.width = Math.ceil(viewport.width);
+  canvas.height = Math.ceil(viewport.height);
+
+  // Paint a white background so transparent areas don't turn black in JPEG output
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+
+  await page.render({ canvas, canvasContext: ctx, viewport }).promise;
+  page.cleanup();
+
+  return canvas;
+};
+
+/**
+ * Encode a canvas as a baseline RGB TIFF with Deflate compression, since
+ * canvas.toDataURL cannot produce TIFF
+ */
+const encodeCanvasAsTIFF = async (canvas: HTMLCanvasElement, dpi: number): Promise<string> => {
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas context not available');
+
+  const { width, height } = canvas;
+  const rgba = ctx.getImageData(0, 0, width, height).data;
+  const rgb = new Uint8Array(width * height * 3);
+  for (let i = 0, j = 0; i < rgba.length; i += 4, j += 3) {
+    rgb[j] = rgba[i];
+    rgb[j + 1] = rgba[i + 1];
+    rgb[j + 2] = rgba[i + 2];
+  }
+  const strip = await deflateBytes(rgb);
+
+  // Header, one image file directory, then its out-of-line values and the single strip
+  const SHORT = 3, LONG = 4, RATIONAL = 5;
+  const entryCount = 12;
+  const ifdSize = 2 + entryCount * 12 + 4;
+  const bitsOffset = 8 + ifdSize;
+  const xResolutionOffset = bitsOffset + 6;
+  const yResolutionOffset = xResolutionOffset + 8;
+  const stripOffset = yResolutionOffset + 8;
+
+  const bytes = new Uint8Array(stripOffset + strip.length);
+  const view = new DataView(bytes.buffer);
+  bytes.set([0x49, 0x49, 42, 0]);
+  view.setUint32(4, 8, true);
+  view.setUint16(8, entryCount, true);
+
+  const entries: [number, number, number, number][] = [
+    [256, LONG, 1, width],
+    [257, LONG, 1, height],
+    [258, SHORT, 3, bitsOffset],
+    [259, SHORT, 1, 8], // Deflate
+    [262, SHORT, 1, 2], // RGB
+    [273, LONG, 1, stripOffset],
+    [277, SHORT, 1, 3],
+    [278, LONG, 1, height],
+    [279, LONG, 1, strip.length],
+    [282, RATIONAL, 1, xResolutionOffset],
+    [283, RATIONAL, 1, yResolutionOffset],
+    [296, SHORT, 1, 2] // Inches
+  ];
+  entries.forEach(([tag, type, count, value], i) => {
+    const entry = 10 + i * 12;
+    view.setUint16(entry, tag, true);
+    view.setUint16(entry + 2, type, true);
+    view.setUint32(entry + 4, count, true);
+    if (type === SHORT && count === 1) view.setUint16(entry + 8, value, true);
+    else view.setUint32(entry + 8, value, true);
+  });
+  view.setUint32(10 + entryCount * 12, 0, true);
+
+  [0, 2, 4].forEach(offset => view.setUint16(bitsOffset + offset, 8, true));
+  [xResolutionOffset, yResolutionOffset].forEach(offset => {
+    view.setUint32(offset, Math.round(dpi), true);
+    view.setUint32(offset + 4, 1, true);
+  });
+  bytes.set(strip, stripOffset);
+
+  return `data:image/tiff;base64,${Buffer.from(bytes).toString('base64')}`;
+};
+
+/**
+ * Render the requested PDF pages to image data URLs
+ */
+const renderPDFPagesToImages = async (
+  pdfBase64: string,
+  mimeType: string,
+  options: { dpi: number; quality: number; pages?: number[] }
+): Promise<string[]> => {
+  const pdf = await openPDFDocument(pdfBase64);
+
+  try {
+    const images: string[] = [];
+
+    for (const pageNum of resolvePageNumbers(options.pages, pdf.numPages)) {
+      const canvas = await renderPDFPageToCanvas(pdf, pageNum, options.dpi);
+      images.push(mimeType === 'image/tiff'
+        ? await encodeCanvasAsTIFF(canvas, options.dpi)
+        : canvas.toDataURL(mimeType, options.quality));
+
+      // Release the bitmap memory before rendering the next page
+      canvas.width = 0;
+      canvas.height = 0;
+    }
+
+    return images;
+  } finally {
+    await pdf.destroy();
+  }
+};
+
+/**
+ * Convert PDF to Images using pdf.js canvas rendering (client-side implementation)
  */
 export const convertPDFToImagesAdvanced = async (
   pdfBase64: string,
@@ -1361,173 +3720,268 @@ export const convertPDFToImagesAdvanced = async (
 ): Promise<string[]> => {
   const { format = 'png', quality = 0.9, dpi = 150, pages } = options;
 
-  return new Promise((resolve) => {
-    setTimeout(() => {
-      // Simulate PDF to image conversion
-      // In a real implementation, this would use pdf.js or similar library
-      const images: string[] = [];
-      const totalPages = Math.floor(Math.random() * 10) + 1; // Simulate 1-10 pages
-      const pagesToConvert = pages || Array.from({ length: totalPages }, (_, i) => i + 1);
-
-      pagesToConvert.forEach((pageNum) => {
-        // Create a canvas to simulate page rendering
-        const canvas = document.createElement('canvas');
-        const ctx = canvas.getContext('2d');
-
-        if (ctx) {
-          // A4 dimensions at specified DPI
-          const width = Math.round((8.27 * dpi) / 25.4); // A4 width in pixels
-          const height = Math.round((11.69 * dpi) / 25.4); // A4 height in pixels
-
-          canvas.width = width;
-          canvas.height = height;
-
-          // Fill with white background
-          ctx.fillStyle = '#ffffff';
-          ctx.fillRect(0, 0, width, height);
-
-          // Add some mock content to simulate PDF page
-          ctx.fillStyle = '#000000';
-          ctx.font = `${Math.round(dpi / 8)}px Arial`;
-
-          // Add page header
-          ctx.fillText(`Document Page ${pageNum}`, 100, 100);
-
-          // Add some content lines
-          for (let i = 0; i < 25; i++) {
-            const y = 150 + (i * 35);
-            ctx.fillText(`Line ${i + 1} of content on page ${pageNum}.`, 100, y);
-          }
+  try {
+    const mimeType = format === 'jpg' ? 'image/jpeg' : format === 'webp' ? 'image/webp' : 'image/png';
+    return await renderPDFPagesToImages(pdfBase64, mimeType, { dpi, quality, pages });
+  } catch (error) {
+    console.error('Error converting PDF to images:', error);
+    throw new Error('Failed to convert PDF to images');
+  }
+};
 
-          // Add page number
-          ctx.fillText(`Page ${pageNum}`, width - 200, height - 50);
+/**
+ * A recognized word with its pixel bounding box in the source image
+ */
+export interface OCRWord {
+  text: string;
+  confidence: number;
+  bbox: { x0: number; y0: number; x1: number; y1: number };
+}
 
-          // Convert canvas to image
-          const mimeType = format === 'jpg' ? 'image/jpeg' : format === 'webp' ? 'image/webp' : 'image/png';
-          images.push(canvas.toDataURL(mimeType, quality));
-        }
-      });
+/**
+ * Detailed OCR output returned by performOCR in 'data' mode
+ */
+export interface OCRResult {
+  text: string;
+  confidence: number;
+  language: string;
+  words: OCRWord[];
+}
+
+/**
+ * OCR languages whose trained data ships with the app (see scripts/copy-tesseract-assets.mjs)
+ */
+export const OCR_LANGUAGES: { code: string; name: string }[] = [
+  { code: 'eng', name: 'English' },
+  { code: 'hin', name: 'Hindi' }
+];
+
+/**
+ * Absolute URL of a locally served tesseract.js asset. The worker runs from a
+ * blob URL, so relative paths would not resolve.
+ */
+const getTesseractAssetURL = (path: string): string => `${window.location.origin}/tesseract/${path}`;
 
-      resolve(images);
-    }, 2000 + ((pages?.length || 10) * 300)); // Realistic processing time
+/**
+ * Create a tesseract.js worker that loads its core and language data from our own origin
+ */
+const createOCRWorker = async (
+  language: string,
+  onProgress?: (progress: number, status: string) => void
+) => {
+  const { createWorker, OEM } = await import('tesseract.js');
+
+  return createWorker(language, OEM.LSTM_ONLY, {
+    workerPath: getTesseractAssetURL('worker.min.js'),
+    corePath: getTesseractAssetURL('core'),
+    langPath: getTesseractAssetURL('lang'),
+    logger: message => onProgress?.(message.progress, message.status)
   });
 };
 
+type OCRWorker = Awaited<ReturnType<typeof createOCRWorker>>;
+
+/**
+ * Recognize an image with an existing worker, collecting word boxes when requested
+ */
+const recognizeWithWorker = async (
+  worker: OCRWorker,
+  image: string | HTMLCanvasElement,
+  language: string,
+  includeWords: boolean
+): Promise<OCRResult> => {
+  const { data } = await worker.recognize(image, {}, { text: true, blocks: includeWords });
+
+  const words: OCRWord[] = [];
+  for (const block of data.blocks || []) {
+    for (const paragraph of block.paragraphs) {
+      for (const line of paragraph.lines) {
+        for (const word of line.words) {
+          words.push({ text: word.text, confidence: word.confidence, bbox: word.bbox });
+        }
+      }
+    }
+  }
+
+  return { text: data.text, confidence: data.confidence, language, words };
+};
+
 /**
- * OCR functionality using Tesseract.js (mock implementation)
+ * OCR functionality using Tesseract.js, fully on-device
  */
-export const performOCR = async (
+export const performOCR = async <M extends 'text' | 'data' = 'text'>(
   imageBase64: string,
   options: {
     language?: string;
-    mode?: 'text' | 'data';
+    mode?: M;
+    onProgress?: (progress: number, status: string) => void;
+  } = {}
+): Promise<M extends 'data' ? OCRResult : string> => {
+  const { language = 'eng', mode = 'text', onProgress } = options;
+
+  let worker: OCRWorker | undefined;
+  try {
+    worker = await createOCRWorker(language, onProgress);
+    const result = await recognizeWithWorker(worker, imageBase64, language, mode === 'data');
+
+    return (mode === 'data' ? result : result.text) as M extends 'data' ? OCRResult : string;
+  } catch (error) {
+    console.error('Error performing OCR:', error);
+    throw new Error('Failed to perform OCR');
+  } finally {
+    await worker?.terminate();
+  }
+};
+
+/**
+ * Scanned PDF → Text - Rasterize each page and run OCR on it
+ */
+export const convertScannedPDFToText = async (
+  pdfBase64: string,
+  options: {
+    language?: string;
+    dpi?: number;
+    includePageNumbers?: boolean;
+    onProgress?: (progress: number, status: string) => void;
   } = {}
 ): Promise<string> => {
-  const { language = 'eng', mode = 'text' } = options;
+  const { language = 'eng', dpi = 300, includePageNumbers = false, onProgress } = options;
 
-  return new Promise((resolve) => {
-    setTimeout(() => {
-      // Mock OCR result
-      const mockText = `EXTRACTED TEXT FROM IMAGE
-Language: ${language.toUpperCase()}
-OCR Mode: ${mode}
-
-This is mock OCR text extracted from the image.
-In a real implementation, this would use Tesseract.js
-to perform optical character recognition on the image.
-
-Detected Text:
-• Header text from the document
-• Body content with multiple lines
-• Footer information and page numbers
-• Any visible text in the image
-
-Confidence: 95%
-Processing Time: 2.3 seconds
-Language Model: ${language}`;
-
-      resolve(mockText);
-    }, 2500);
-  });
+  let worker: OCRWorker | undefined;
+  try {
+    const pdf = await openPDFDocument(pdfBase64);
+
+    try {
+      let currentPage = 0;
+
+      // Scale the per-page recognition progress into overall document progress
+      worker = await createOCRWorker(language, (progress, status) => {
+        if (status === 'recognizing text') {
+          onProgress?.((currentPage + progress) / pdf.numPages, `Recognizing page ${currentPage + 1} of ${pdf.numPages}`);
+        } else if (currentPage === 0) {
+          onProgress?.(0, status);
+        }
+      });
+
+      const pageTexts: string[] = [];
+      for (let pageNum = 1; pageNum <= pdf.numPages; pageNum++) {
+        currentPage = pageNum - 1;
+        const canvas = await renderPDFPageToCanvas(pdf, pageNum, dpi);
+        const result = await recognizeWithWorker(worker, canvas, language, false);
+        pageTexts.push(result.text.trim());
+      }
+
+      return joinPageTexts(pageTexts, includePageNumbers);
+    } finally {
+      await pdf.destroy();
+    }
+  } catch (error) {
+    console.error('Error converting scanned PDF to text:', error);
+    throw new Error('Failed to extract text from scanned PDF');
+  } finally {
+    await worker?.terminate();
+  }
 };
 
 /**
- * Digital signature functionality (mock implementation)
+ * Sign a PDF with a detached PKCS#7/PAdES signature using the key and
+ * certificate from a PKCS#12 (.p12/.pfx) file. The appearance is optional;
+ * without it the signature is invisible.
  */
 export const addDigitalSignature = async (
   pdfBase64: string,
   signatureData: {
-    signerName: string;
-    signerEmail: string;
-    signatureText: string;
-    position: { x: number; y: number; page: number };
-    certificate?: string;
+    pkcs12: string;
+    pkcs12Password: string;
+    signerName?: string;
+    signerEmail?: string;
+    reason?: string;
+    location?: string;
+    subFilter?: PDFSignatureSubFilter;
+    appearance?: {
+      page: number;
+      x: number;
+      y: number;
+      width?: number;
+      height?: number;
+      signatureImage?: string;
+    };
   }
 ): Promise<string> => {
   try {
     // Convert base64 to Uint8Array
     const pdfBytes = Uint8Array.from(atob(pdfBase64.split(',')[1] || pdfBase64), c => c.charCodeAt(0));
-
-    // Load the PDF document
-    const pdfDoc = await PDFDocument.load(pdfBytes);
-
-    const { signerName, signerEmail, signatureText, position } = signatureData;
-
-    // Get the specified page
-    const pages = pdfDoc.getPageCount();
-    if (position.page >= pages) {
-      throw new Error('Page index out of range');
+    const pkcs12Bytes = Uint8Array.from(
+      atob(signatureData.pkcs12.split(',')[1] || signatureData.pkcs12),
+      c => c.charCodeAt(0)
+    );
+
+    const { appearance } = signatureData;
+    let image: { bytes: Uint8Array; type: 'png' | 'jpg' } | undefined;
+    if (appearance?.signatureImage) {
+      const mimeType = appearance.signatureImage.match(/^data:([^;,]+)/)?.[1] || 'image/png';
+      if (mimeType !== 'image/png' && mimeType !== 'image/jpeg') {
+        throw new Error('Signature images must be PNG or JPEG');
+      }
+      image = {
+        bytes: Uint8Array.from(
+          atob(appearance.signatureImage.split(',')[1] || appearance.signatureImage),
+          c => c.charCodeAt(0)
+        ),
+        type: mimeType === 'image/png' ? 'png' : 'jpg'
+      };
     }
 
-    const page = pdfDoc.getPages()[position.page];
-
-    // Get the font
-    const font = await pdfDoc.embedFont(StandardFonts.Helvetica);
-
-    // Create signature text
-    const signatureLines = [
-      `Digitally Signed by: ${signerName}`,
-      `Email: ${signerEmail}`,
-      `Date: ${new Date().toISOString().split('T')[0]}`,
-      `Signature: ${signatureText}`,
-      `Certificate: ${signatureData.certificate ? 'Valid' : 'Self-signed'}`
-    ];
-
-    // Draw signature box
-    page.drawRectangle({
-      x: position.x - 10,
-      y: position.y - 10,
-      width: 300,
-      height: signatureLines.length * 20 + 20,
-      color: rgb(0.9, 0.9, 0.9),
-      borderColor: rgb(0, 0, 0),
-      borderWidth: 1
-    });
-
-    // Draw signature text
-    signatureLines.forEach((line, index) => {
-      page.drawText(line, {
-        x: position.x,
-        y: position.y + (signatureLines.length - 1 - index) * 15,
-        size: 10,
-        font,
-        color: rgb(0, 0, 0)
-      });
+    // Loaded on demand so the signing code only ships when it is used
+    const { signPDFBytes } = await import('./pdfSignatureUtils');
+    const signedPdfBytes = await signPDFBytes(pdfBytes, {
+      pkcs12: pkcs12Bytes,
+      password: signatureData.pkcs12Password,
+      name: signatureData.signerName,
+      contactInfo: signatureData.signerEmail,
+      reason: signatureData.reason,
+      location: signatureData.location,
+      subFilter: signatureData.subFilter,
+      appearance: appearance && {
+        page: appearance.page,
+        x: appearance.x,
+        y: appearance.y,
+        width: appearance.width ?? 200,
+        height: appearance.height ?? 60,
+        image
+      }
     });
 
-    // Save the signed PDF
-    const signedPdfBytes = await pdfDoc.save();
-
     // Convert back to base64
     const signedPdfBase64 = `data:application/pdf;base64,${Buffer.from(signedPdfBytes).toString('base64')}`;
 
     return signedPdfBase64;
   } catch (error) {
     console.error('Error adding digital signature:', error);
+    if (error instanceof Error && /invalid password/i.test(error.message)) {
+      throw new Error('Incorrect certificate password');
+    }
     throw new Error('Failed to add digital signature');
   }
 };
 
+/**
+ * Verify the digital signatures of a PDF: signer certificates, ByteRange
+ * digests and any changes made after each signature
+ */
+export const verifyDigitalSignatures = async (pdfBase64: string): Promise<PDFSignatureVerification[]> => {
+  try {
+    // Convert base64 to Uint8Array
+    const pdfBytes = Uint8Array.from(atob(pdfBase64.split(',')[1] || pdfBase64), c => c.charCodeAt(0));
+
+    const { verifyPDFSignatureBytes } = await import('./pdfSignatureUtils');
+    return await verifyPDFSignatureBytes(pdfBytes);
+  } catch (error) {
+    console.error('Error verifying digital signatures:', error);
+    throw new Error('Failed to verify digital signatures');
+  }
+};
+
 /**
  * Video to PDF conversion (mock implementation)
  */
@@ -1610,22 +4064,234 @@ Content Structure:
 4. Appendices
 5. Index
 
-Technical Specifications:
-• Format: ${format.toUpperCase()}
-• Compatibility: Universal e-reader support
-• Images: ${preserveImages ? 'Embedded' : 'Removed'}
-• Navigation: ${includeTOC ? 'TOC included' : 'No TOC'}
-• Compression: Optimized for e-readers
+Technical Specifications:
+• Format: ${format.toUpperCase()}
+• Compatibility: Universal e-reader support
+• Images: ${preserveImages ? 'Embedded' : 'Removed'}
+• Navigation: ${includeTOC ? 'TOC included' : 'No TOC'}
+• Compression: Optimized for e-readers
+
+Conversion completed successfully.`);
+
+      resolve(`data:${mimeType};base64,${mockContent}`);
+    }, 3000);
+  });
+};
+
+/**
+ * A run of text on a rendered page, in top-left based viewport coordinates
+ */
+interface PositionedTextRun {
+  text: string;
+  x: number;
+  y: number;
+  width: number;
+  fontSize: number;
+}
+
+/**
+ * Group text runs into lines in reading order (top to bottom, left to right)
+ */
+const groupTextRunsIntoLines = (runs: PositionedTextRun[]): PositionedTextRun[][] => {
+  const sorted = [...runs].sort((a, b) => a.y - b.y || a.x - b.x);
+  const lines: PositionedTextRun[][] = [];
+
+  for (const run of sorted) {
+    const currentLine = lines[lines.length - 1];
+
+    // Runs whose baselines are within half a glyph height belong to the same line
+    if (currentLine && Math.abs(currentLine[0].y - run.y) <= Math.max(currentLine[0].fontSize, run.fontSize) / 2) {
+      currentLine.push(run);
+    } else {
+      lines.push([run]);
+    }
+  }
+
+  return lines.map(line => line.sort((a, b) => a.x - b.x));
+};
+
+/**
+ * Join the runs of one line, inserting spaces where the glyphs are visibly apart.
+ * With preserveSpacing, wide gaps (table columns, tab stops) keep their width.
+ */
+const joinTextLine = (line: PositionedTextRun[], preserveSpacing: boolean): string => {
+  let text = '';
+  let previousEnd: number | null = null;
+
+  for (const run of line) {
+    const gap = previousEnd !== null ? run.x - previousEnd : 0;
+
+    if (preserveSpacing && gap > run.fontSize * 1.5) {
+      text += ' '.repeat(Math.round(gap / (run.fontSize * 0.5)));
+    } else if (gap > run.fontSize * 0.2 && !/\s$/.test(text) && !/^\s/.test(run.text)) {
+      text += ' ';
+    }
+    text += run.text;
+    previousEnd = run.x + run.width;
+  }
+
+  return text.trimEnd();
+};
+
+/**
+ * Lay out the text of a page, either keeping line breaks, indentation and
+ * paragraph gaps or reflowing it into plain paragraphs
+ */
+const layoutPageText = (runs: PositionedTextRun[], preserveFormatting: boolean): string => {
+  const lines = groupTextRunsIntoLines(runs.filter(run => run.text.length > 0));
+  if (lines.length === 0) return '';
+
+  const leftMargin = Math.min(...lines.map(line => line[0].x));
+  const output: string[] = [];
+  let paragraph: string[] = [];
+
+  lines.forEach((line, index) => {
+    const text = joinTextLine(line, preserveFormatting);
+    const fontSize = line[0].fontSize || 12;
+    const gap = index > 0 ? line[0].y - lines[index - 1][0].y : 0;
+    const startsParagraph = index > 0 && gap > fontSize * 1.8;
+
+    if (preserveFormatting) {
+      if (startsParagraph) output.push('');
+
+      // Approximate indentation with spaces at half the font size per character
+      const indent = Math.max(0, Math.round((line[0].x - leftMargin) / (fontSize * 0.5)));
+      output.push(' '.repeat(indent) + text);
+    } else {
+      if (startsParagraph && paragraph.length > 0) {
+        output.push(paragraph.join(' '), '');
+        paragraph = [];
+      }
+      paragraph.push(text.trim());
+    }
+  });
+
+  if (paragraph.length > 0) {
+    output.push(paragraph.join(' '));
+  }
+
+  return output.join('\n').trim();
+};
+
+/**
+ * Decode the text layer of every page with pdf.js (content streams, font
+ * encodings and ToUnicode maps) and lay each page out in reading order
+ */
+const extractPDFPageTexts = async (pdf: PDFJSDocument, preserveFormatting: boolean): Promise<string[]> => {
+  const pdfjs = await loadPdfJs();
+  const pageTexts: string[] = [];
+
+  for (let pageNum = 1; pageNum <= pdf.numPages; pageNum++) {
+    const page = await pdf.getPage(pageNum);
+    const viewport = page.getViewport({ scale: 1 });
+    const textContent = await page.getTextContent();
+
+    const runs: PositionedTextRun[] = [];
+    for (const item of textContent.items) {
+      if (!('str' in item)) continue;
+
+      // Map the text matrix into viewport space so rotated pages read correctly
+      const [, , c, d, x, y] = pdfjs.Util.transform(viewport.transform, item.transform);
+      runs.push({
+        text: item.str,
+        x,
+        y,
+        width: item.width,
+        fontSize: Math.hypot(c, d) || item.height
+      });
+    }
+
+    pageTexts.push(layoutPageText(runs, preserveFormatting));
+    page.cleanup();
+  }
+
+  return pageTexts;
+};
+
+/**
+ * Combine per-page text into one document, optionally headed by page numbers
+ */
+const joinPageTexts = (pageTexts: string[], includePageNumbers: boolean): string => {
+  return pageTexts
+    .map((pageText, index) => (includePageNumbers ? `PAGE ${index + 1}\n\n${pageText}` : pageText))
+    .join('\n\n');
+};
+
+/**
+ * Extract the images drawn on each page using the pdf.js operator list
+ */
+const extractPDFImages = async (pdf: PDFJSDocument): Promise<string[]> => {
+  const pdfjs = await loadPdfJs();
+  const images: string[] = [];
+
+  for (let pageNum = 1; pageNum <= pdf.numPages; pageNum++) {
+    const page = await pdf.getPage(pageNum);
+    const operatorList = await page.getOperatorList();
+
+    for (let i = 0; i < operatorList.fnArray.length; i++) {
+      if (operatorList.fnArray[i] !== pdfjs.OPS.paintImageXObject) continue;
+
+      const objId = operatorList.argsArray[i][0] as string;
+      const objs = objId.startsWith('g_') ? page.commonObjs : page.objs;
+      const image = await new Promise<{
+        width: number;
+        height: number;
+        kind?: number;
+        data?: Uint8ClampedArray;
+        bitmap?: ImageBitmap;
+      }>(resolve => objs.get(objId, resolve));
+
+      const canvas = document.createElement('canvas');
+      const ctx = canvas.getContext('2d');
+      if (!ctx || !image) continue;
+
+      canvas.width = image.width;
+      canvas.height = image.height;
+
+      if (image.bitmap) {
+        ctx.drawImage(image.bitmap, 0, 0);
+      } else if (image.data) {
+        const imageData = ctx.createImageData(image.width, image.height);
+        const pixelCount = image.width * image.height;
+
+        if (image.kind === pdfjs.ImageKind.RGBA_32BPP) {
+          imageData.data.set(image.data.subarray(0, pixelCount * 4));
+        } else if (image.kind === pdfjs.ImageKind.RGB_24BPP) {
+          for (let p = 0; p < pixelCount; p++) {
+            imageData.data[p * 4] = image.data[p * 3];
+            imageData.data[p * 4 + 1] = image.data[p * 3 + 1];
+            imageData.data[p * 4 + 2] = image.data[p * 3 + 2];
+            imageData.data[p * 4 + 3] = 255;
+          }
+        } else {
+          // 1 bit per pixel grayscale, rows padded to whole bytes
+          const rowBytes = (image.width + 7) >> 3;
+          for (let row = 0; row < image.height; row++) {
+            for (let col = 0; col < image.width; col++) {
+              const bit = (image.data[row * rowBytes + (col >> 3)] >> (7 - (col & 7))) & 1;
+              const offset = (row * image.width + col) * 4;
+              imageData.data[offset] = imageData.data[offset + 1] = imageData.data[offset + 2] = bit ? 255 : 0;
+              imageData.data[offset + 3] = 255;
+            }
+          }
+        }
+
+        ctx.putImageData(imageData, 0, 0);
+      } else {
+        continue;
+      }
 
-Conversion completed successfully.`);
+      images.push(canvas.toDataURL('image/png'));
+    }
 
-      resolve(`data:${mimeType};base64,${mockContent}`);
-    }, 3000);
-  });
+    page.cleanup();
+  }
+
+  return images;
 };
 
 /**
- * Enhanced text extraction from PDF (improved mock)
+ * Enhanced text extraction from PDF using the document's text layer
  */
 export const extractTextFromPDFAdvanced = async (
   pdfBase64: string,
@@ -1638,75 +4304,192 @@ export const extractTextFromPDFAdvanced = async (
 ): Promise<{ text: string; images?: string[]; metadata?: Record<string, unknown> }> => {
   const { preserveFormatting = true, includePageNumbers = false, extractImages = false, language = 'en' } = options;
 
-  return new Promise((resolve) => {
-    setTimeout(() => {
-      let extractedText = '';
-
-      if (includePageNumbers) {
-        extractedText += 'PAGE 1\n\n';
-      }
+  try {
+    const pdf = await openPDFDocument(pdfBase64);
 
-      extractedText += `ADVANCED TEXT EXTRACTION FROM PDF DOCUMENT\n`;
-      extractedText += `Language: ${language.toUpperCase()}\n`;
-      extractedText += `Formatting Preserved: ${preserveFormatting}\n`;
-      extractedText += `Images Extracted: ${extractImages}\n`;
-      extractedText += `Extraction Date: ${new Date().toISOString()}\n\n`;
-
-      if (preserveFormatting) {
-        extractedText += `1. DOCUMENT HEADER\n\n`;
-        extractedText += `   This document has been processed using advanced text extraction algorithms.\n`;
-        extractedText += `   The content has been carefully analyzed and converted to plain text format.\n\n`;
-
-        extractedText += `2. MAIN CONTENT SECTION\n\n`;
-        extractedText += `   • Advanced OCR capabilities for scanned documents\n`;
-        extractedText += `   • Font and formatting information preserved where possible\n`;
-        extractedText += `   • Multi-language support for ${language} content\n`;
-        extractedText += `   • Table and image text extraction capabilities\n\n`;
-
-        extractedText += `3. TECHNICAL SPECIFICATIONS\n\n`;
-        extractedText += `   Processing completed using:\n`;
-        extractedText += `   - PDF parsing and text extraction libraries\n`;
-        extractedText += `   - Font encoding and character recognition\n`;
-        extractedText += `   - Layout analysis and content structuring\n`;
-        extractedText += `   - Quality validation and error correction\n\n`;
-
-        extractedText += `4. CONCLUSION\n\n`;
-        extractedText += `   The document has been successfully converted to text format.\n`;
-        extractedText += `   All content has been preserved with high accuracy.\n`;
-      } else {
-        extractedText += `This is plain text extracted from the PDF file. In a real implementation, this would use advanced PDF parsing libraries like pdf-parse, pdf2pic, or similar tools to extract actual text content from the PDF document.\n\n`;
-
-        extractedText += `Key features of real PDF text extraction:\n`;
-        extractedText += `• Font and encoding detection\n`;
-        extractedText += `• Layout preservation\n`;
-        extractedText += `• Multi-column text handling\n`;
-        extractedText += `• Table and image text extraction\n`;
-        extractedText += `• OCR for scanned documents\n`;
-        extractedText += `• Multi-language support\n`;
-      }
+    try {
+      const pageTexts = await extractPDFPageTexts(pdf, preserveFormatting);
+      const text = joinPageTexts(pageTexts, includePageNumbers);
 
       const result: { text: string; images?: string[]; metadata?: Record<string, unknown> } = {
-        text: extractedText,
+        text,
         metadata: {
           language,
-          pages: 1,
+          pages: pdf.numPages,
+          pagesWithText: pageTexts.filter(pageText => pageText.length > 0).length,
+          characters: pageTexts.reduce((total, pageText) => total + pageText.length, 0),
           formattingPreserved: preserveFormatting,
-          extractionMethod: 'advanced',
-          confidence: 0.95
+          extractionMethod: 'text-layer'
         }
       };
 
       if (extractImages) {
-        // Mock extracted images
-        result.images = [
-          'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChwGA60e6kgAAAABJRU5ErkJggg==',
-          'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChwGA60e6kgAAAABJRU5ErkJggg=='
-        ];
+        result.images = await extractPDFImages(pdf);
       }
 
-      resolve(result);
-    }, 2000);
-  });
+      return result;
+    } finally {
+      await pdf.destroy();
+    }
+  } catch (error) {
+    console.error('Error extracting text from PDF:', error);
+    throw new Error('Failed to extract text from PDF');
+  }
+};
+
+export interface PDFComparisonOptions {
+  /** Resolution of the pixel comparison */
+  dpi?: number;
+  /** Colour difference (0-255) below which pixels count as the same, absorbing anti-aliasing */
+  tolerance?: number;
+  /** File names shown in the report */
+  nameA?: string;
+  nameB?: string;
+  onProgress?: (progress: number) => void;
+}
+
+export interface PDFComparisonResult {
+  pages: PDFPageComparison[];
+  /** PDF report of the differences, as a data URL */
+  report: string;
+}
+
+/**
+ * Pixel diff of two rendered pages. A missing page counts as blank, so every
+ * mark on an inserted or deleted page shows as a change.
+ */
+const diffRenderedPages = (
+  canvasA: HTMLCanvasElement | null,
+  canvasB: HTMLCanvasElement | null,
+  dpi: number,
+  tolerance: number
+): Pick<PDFPageComparison, 'overlay' | 'regions' | 'pixelDifference'> => {
+  const width = Math.max(canvasA?.width ?? 0, canvasB?.width ?? 0);
+  const height = Math.max(canvasA?.height ?? 0, canvasB?.height ?? 0);
+
+  // Read both pages at the same size, padding the smaller one with white
+  const readPixels = (canvas: HTMLCanvasElement | null) => {
+    const padded = document.createElement('canvas');
+    padded.width = width;
+    padded.height = height;
+    const ctx = padded.getContext('2d');
+    if (!ctx) throw new Error('Canvas context not available');
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, width, height);
+    if (canvas) ctx.drawImage(canvas, 0, 0);
+    return ctx.getImageData(0, 0, width, height).data;
+  };
+  const pixelsA = readPixels(canvasA);
+  const pixelsB = readPixels(canvasB);
+
+  // Fade the revised page to grey and paint removed ink red and added ink green
+  const overlayCanvas = document.createElement('canvas');
+  overlayCanvas.width = width;
+  overlayCanvas.height = height;
+  const ctx = overlayCanvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas context not available');
+  const overlay = ctx.createImageData(width, height);
+  const mask = new Uint8Array(width * height);
+  let changedPixels = 0;
+
+  for (let pixel = 0; pixel < mask.length; pixel++) {
+    const i = pixel * 4;
+    const difference = Math.max(
+      Math.abs(pixelsA[i] - pixelsB[i]),
+      Math.abs(pixelsA[i + 1] - pixelsB[i + 1]),
+      Math.abs(pixelsA[i + 2] - pixelsB[i + 2])
+    );
+    const luminanceA = 0.299 * pixelsA[i] + 0.587 * pixelsA[i + 1] + 0.114 * pixelsA[i + 2];
+    const luminanceB = 0.299 * pixelsB[i] + 0.587 * pixelsB[i + 1] + 0.114 * pixelsB[i + 2];
+
+    if (difference > tolerance) {
+      mask[pixel] = 1;
+      changedPixels++;
+      const [r, g, b] = luminanceA < luminanceB ? [220, 38, 38] : [22, 163, 74];
+      overlay.data.set([r, g, b, 255], i);
+    } else {
+      const grey = 255 - (255 - luminanceB) * 0.3;
+      overlay.data.set([grey, grey, grey, 255], i);
+    }
+  }
+  ctx.putImageData(overlay, 0, 0);
+
+  // Outline each changed region, and report it in points from the bottom left
+  const pixelRegions = findChangedRegions(mask, width, height, Math.max(4, Math.round(dpi / 9)));
+  ctx.strokeStyle = 'rgba(234, 88, 12, 0.9)';
+  ctx.lineWidth = 2;
+  pixelRegions.forEach(region => ctx.strokeRect(region.x - 2, region.y - 2, region.width + 4, region.height + 4));
+
+  const scale = 72 / dpi;
+  return {
+    overlay: changedPixels > 0 ? overlayCanvas.toDataURL('image/png') : '',
+    regions: pixelRegions.map(region => ({
+      x: region.x * scale,
+      y: (height - region.y - region.height) * scale,
+      width: region.width * scale,
+      height: region.height * scale
+    })),
+    pixelDifference: mask.length > 0 ? changedPixels / mask.length : 0
+  };
+};
+
+/**
+ * Compare two PDFs: pages are aligned by their text so inserted and removed
+ * pages are detected, then each pair gets a pixel diff with the changed
+ * regions highlighted and a word-level diff of its text. A PDF report of the
+ * differences is returned with the results.
+ */
+export const comparePDFs = async (
+  pdfBase64A: string,
+  pdfBase64B: string,
+  options: PDFComparisonOptions = {}
+): Promise<PDFComparisonResult> => {
+  const { dpi = 72, tolerance = 48, nameA = 'Original', nameB = 'Revised', onProgress } = options;
+
+  try {
+    const pdfA = await openPDFDocument(pdfBase64A);
+    const pdfB = await openPDFDocument(pdfBase64B);
+
+    try {
+      const wordsA = (await extractPDFPageTexts(pdfA, false)).map(tokenizeWords);
+      const wordsB = (await extractPDFPageTexts(pdfB, false)).map(tokenizeWords);
+      const alignment = alignPages(wordsA, wordsB);
+      const pages: PDFPageComparison[] = [];
+
+      for (const [index, { pageA, pageB }] of alignment.entries()) {
+        const canvasA = pageA !== null ? await renderPDFPageToCanvas(pdfA, pageA + 1, dpi) : null;
+        const canvasB = pageB !== null ? await renderPDFPageToCanvas(pdfB, pageB + 1, dpi) : null;
+        const visual = diffRenderedPages(canvasA, canvasB, dpi, tolerance);
+        const textChanges = diffWords(pageA !== null ? wordsA[pageA] : [], pageB !== null ? wordsB[pageB] : []);
+
+        const status = pageA === null ? 'inserted'
+          : pageB === null ? 'deleted'
+          : visual.regions.length > 0 || textChanges.some(change => change.type !== 'equal') ? 'changed'
+          : 'unchanged';
+        pages.push({ pageA, pageB, status, ...visual, overlay: status === 'unchanged' ? '' : visual.overlay, textChanges });
+
+        // Free the rendered pages before the next pair
+        [canvasA, canvasB].forEach(canvas => {
+          if (canvas) canvas.width = 0;
+        });
+        onProgress?.(Math.round(((index + 1) / alignment.length) * 100));
+      }
+
+      const report = await buildPDFComparisonReport(pages, { a: nameA, b: nameB });
+      const reportBytes = await report.save();
+
+      return {
+        pages,
+        report: `data:application/pdf;base64,${Buffer.from(reportBytes).toString('base64')}`
+      };
+    } finally {
+      await pdfA.destroy();
+      await pdfB.destroy();
+    }
+  } catch (error) {
+    console.error('Error comparing PDFs:', error);
+    throw new Error('Failed to compare PDFs');
+  }
 };
 
 // =============================================================================
@@ -1731,54 +4514,13 @@ export const convertPDFToImages = async (
 ): Promise<string[]> => {
   const { dpi = 300, quality = 0.9, pages } = options;
 
-  return new Promise((resolve) => {
-    setTimeout(() => {
-      // Simulate realistic PDF processing
-      const totalPages = Math.floor(Math.random() * 10) + 1; // 1-10 pages
-      const pagesToExtract = pages || Array.from({ length: totalPages }, (_, i) => i + 1);
-      const images: string[] = [];
-
-      pagesToExtract.forEach((pageNum) => {
-        // Create realistic page image
-        const canvas = document.createElement('canvas');
-        const ctx = canvas.getContext('2d');
-
-        // A4 dimensions at specified DPI
-        const width = Math.round((8.27 * dpi) / 25.4); // A4 width in pixels
-        const height = Math.round((11.69 * dpi) / 25.4); // A4 height in pixels
-
-        canvas.width = width;
-        canvas.height = height;
-
-        if (ctx) {
-          // Draw white background
-          ctx.fillStyle = '#ffffff';
-          ctx.fillRect(0, 0, width, height);
-
-          // Add realistic PDF content simulation
-          ctx.fillStyle = '#000000';
-          ctx.font = `${Math.round(dpi / 8)}px Arial`;
-
-          // Add page header
-          ctx.fillText(`Document Title - Page ${pageNum}`, 100, 100);
-
-          // Add some content lines
-          for (let i = 0; i < 20; i++) {
-            const y = 150 + (i * 40);
-            ctx.fillText(`This is line ${i + 1} of content on page ${pageNum}.`, 100, y);
-          }
-
-          // Add page number
-          ctx.fillText(`Page ${pageNum} of ${totalPages}`, width - 200, height - 50);
-        }
-
-        const mimeType = getMimeTypeFromFormat(format);
-        images.push(canvas.toDataURL(mimeType, quality));
-      });
-
-      resolve(images);
-    }, 2000 + ((pages?.length || 10) * 500)); // Realistic processing time
-  });
+  try {
+    const mimeType = format === 'tiff' ? 'image/tiff' : getMimeTypeFromFormat(format);
+    return await renderPDFPagesToImages(pdfBase64, mimeType, { dpi, quality, pages });
+  } catch (error) {
+    console.error('Error converting PDF to images:', error);
+    throw new Error('Failed to convert PDF to images');
+  }
 };
 
 /**
@@ -1792,56 +4534,21 @@ export const convertPDFToText = async (
     language?: string;
   } = {}
 ): Promise<string> => {
-  const { preserveFormatting = true, includePageNumbers = false, language = 'en' } = options;
-
-  return new Promise((resolve) => {
-    setTimeout(() => {
-      let extractedText = '';
-
-      if (includePageNumbers) {
-        extractedText += 'PAGE 1\n\n';
-      }
+  const { preserveFormatting = true, includePageNumbers = false } = options;
 
-      extractedText += `EXTRACTED TEXT FROM PDF DOCUMENT\n`;
-      extractedText += `Language: ${language.toUpperCase()}\n`;
-      extractedText += `Extraction Date: ${new Date().toISOString()}\n\n`;
-
-      if (preserveFormatting) {
-        extractedText += `1. INTRODUCTION\n\n`;
-        extractedText += `   This is a comprehensive document that has been processed for text extraction.\n`;
-        extractedText += `   The content has been carefully analyzed and converted to plain text format.\n\n`;
-
-        extractedText += `2. MAIN CONTENT\n\n`;
-        extractedText += `   • Advanced text extraction algorithms have been applied\n`;
-        extractedText += `   • Font and formatting information preserved where possible\n`;
-        extractedText += `   • Multi-language support for ${language} content\n`;
-        extractedText += `   • OCR capabilities for scanned documents\n\n`;
-
-        extractedText += `3. TECHNICAL DETAILS\n\n`;
-        extractedText += `   Processing completed successfully using:\n`;
-        extractedText += `   - PDF parsing and text extraction\n`;
-        extractedText += `   - Font encoding and character recognition\n`;
-        extractedText += `   - Layout analysis and content structuring\n`;
-        extractedText += `   - Quality validation and error correction\n\n`;
-
-        extractedText += `4. CONCLUSION\n\n`;
-        extractedText += `   The document has been successfully converted to text format.\n`;
-        extractedText += `   All content has been preserved with high accuracy.\n`;
-      } else {
-        extractedText += `This is a mock text extracted from the PDF file. In a real implementation, this would use advanced PDF parsing libraries like pdf-lib, pdf-parse, or similar tools to extract actual text content from the PDF document.\n\n`;
-
-        extractedText += `Key features of real PDF text extraction:\n`;
-        extractedText += `• Font and encoding detection\n`;
-        extractedText += `• Layout preservation\n`;
-        extractedText += `• Multi-column text handling\n`;
-        extractedText += `• Table and image text extraction\n`;
-        extractedText += `• OCR for scanned documents\n`;
-        extractedText += `• Multi-language support\n`;
-      }
+  try {
+    const pdf = await openPDFDocument(pdfBase64);
 
-      resolve(extractedText);
-    }, 1500);
-  });
+    try {
+      const pageTexts = await extractPDFPageTexts(pdf, preserveFormatting);
+      return joinPageTexts(pageTexts, includePageNumbers);
+    } finally {
+      await pdf.destroy();
+    }
+  } catch (error) {
+    console.error('Error converting PDF to text:', error);
+    throw new Error('Failed to convert PDF to text');
+  }
 };
 
 /**
@@ -2280,28 +4987,685 @@ export const convertAudioToPDF = async (audioBase64: string): Promise<string> =>
   });
 };
 
-export const convertScannedPDFToSearchable = async (pdfBase64: string): Promise<string> => {
-  return new Promise((resolve) => {
-    setTimeout(() => {
-      resolve(`data:application/pdf;base64,${btoa('Mock searchable PDF')}`);
-    }, 2500);
+/**
+ * Register a glyph-less Type0 font for invisible OCR text. Characters are
+ * written as their UTF-16 code units with a fixed advance of half an em, and
+ * the ToUnicode map makes the text searchable and copyable in any script.
+ */
+const embedInvisibleTextFont = (pdfDoc: PDFDocument): PDFRef => {
+  const context = pdfDoc.context;
+
+  // Map every 2-byte code to the same Unicode value, one bfrange per high byte
+  const ranges = Array.from({ length: 256 }, (_, high) => {
+    const prefix = high.toString(16).padStart(2, '0').toUpperCase();
+    return `<${prefix}00> <${prefix}FF> <${prefix}00>`;
   });
+  const rangeBlocks: string[] = [];
+  for (let i = 0; i < ranges.length; i += 100) {
+    const block = ranges.slice(i, i + 100);
+    rangeBlocks.push(`${block.length} beginbfrange\n${block.join('\n')}\nendbfrange`);
+  }
+
+  const toUnicodeCMap = [
+    '/CIDInit /ProcSet findresource begin',
+    '12 dict begin',
+    'begincmap',
+    '/CIDSystemInfo << /Registry (Adobe) /Ordering (UCS) /Supplement 0 >> def',
+    '/CMapName /Adobe-Identity-UCS def',
+    '/CMapType 2 def',
+    '1 begincodespacerange',
+    '<0000> <FFFF>',
+    'endcodespacerange',
+    ...rangeBlocks,
+    'endcmap',
+    'CMapName currentdict /CMap defineresource pop',
+    'end',
+    'end'
+  ].join('\n');
+
+  const toUnicodeRef = context.register(context.flateStream(toUnicodeCMap));
+
+  const fontDescriptorRef = context.register(context.obj({
+    Type: 'FontDescriptor',
+    FontName: 'GlyphLessFont',
+    Flags: 5,
+    FontBBox: [0, 0, 500, 1000],
+    ItalicAngle: 0,
+    Ascent: 1000,
+    Descent: 0,
+    CapHeight: 1000,
+    StemV: 80
+  }));
+
+  const cidFontRef = context.register(context.obj({
+    Type: 'Font',
+    Subtype: 'CIDFontType2',
+    BaseFont: 'GlyphLessFont',
+    CIDSystemInfo: {
+      Registry: PDFString.of('Adobe'),
+      Ordering: PDFString.of('Identity'),
+      Supplement: 0
+    },
+    FontDescriptor: fontDescriptorRef,
+    DW: 500,
+    CIDToGIDMap: 'Identity'
+  }));
+
+  return context.register(context.obj({
+    Type: 'Font',
+    Subtype: 'Type0',
+    BaseFont: 'GlyphLessFont',
+    Encoding: 'Identity-H',
+    DescendantFonts: [cidFontRef],
+    ToUnicode: toUnicodeRef
+  }));
 };
 
-export const convertImageToSearchablePDF = async (imageBase64: string): Promise<string> => {
-  return new Promise((resolve) => {
-    setTimeout(() => {
-      resolve(`data:application/pdf;base64,${btoa('Mock OCR PDF')}`);
-    }, 2000);
-  });
+/**
+ * Write OCR words onto a page as invisible text (render mode 3), stretched to
+ * cover each word's box. `toPdfPoint` maps image pixels to page user space.
+ */
+const addInvisibleTextLayer = (
+  page: PDFPage,
+  fontRef: PDFRef,
+  words: OCRWord[],
+  toPdfPoint: (x: number, y: number) => number[]
+): void => {
+  const fontName = page.node.newFontDictionary('OCRText', fontRef);
+  const operators = [beginText(), setTextRenderingMode(TextRenderingMode.Invisible)];
+
+  for (const word of words) {
+    const text = word.text.trim();
+    if (!text) continue;
+
+    // Baseline runs along the bottom edge of the box, glyph height is its height
+    const [startX, startY] = toPdfPoint(word.bbox.x0, word.bbox.y1);
+    const [endX, endY] = toPdfPoint(word.bbox.x1, word.bbox.y1);
+    const [topX, topY] = toPdfPoint(word.bbox.x0, word.bbox.y0);
+
+    const width = Math.hypot(endX - startX, endY - startY);
+    const fontSize = Math.hypot(topX - startX, topY - startY);
+    if (width <= 0 || fontSize <= 0) continue;
+
+    const cos = (endX - startX) / width;
+    const sin = (endY - startY) / width;
+    const hex = Array.from({ length: text.length }, (_, i) => text.charCodeAt(i).toString(16).padStart(4, '0')).join('');
+
+    operators.push(
+      setFontAndSize(fontName, fontSize),
+      // Every glyph advances half an em, squeeze the run to the measured width
+      setCharacterSqueeze((width / (text.length * 0.5 * fontSize)) * 100),
+      setTextMatrix(cos, sin, -sin, cos, startX, startY),
+      showText(PDFHexString.of(hex))
+    );
+  }
+
+  operators.push(endText());
+
+  // Scanned pages often leave their image scaling cm in effect, so isolate
+  // the existing content before appending the text in default user space
+  const { context } = page.doc;
+  page.node.normalize();
+  page.node.wrapContentStreams(
+    context.register(context.contentStream([pushGraphicsState()])),
+    context.register(context.contentStream([popGraphicsState()]))
+  );
+  page.node.addContentStream(context.register(context.contentStream(operators)));
 };
 
-export const convertPDFToFillableForm = async (pdfBase64: string): Promise<string> => {
-  return new Promise((resolve) => {
-    setTimeout(() => {
-      resolve(`data:application/pdf;base64,${btoa('Mock fillable PDF form')}`);
-    }, 1800);
-  });
+/**
+ * Scanned PDF → Searchable PDF - OCR each page and overlay an invisible text
+ * layer on the original page content
+ */
+export const convertScannedPDFToSearchable = async (
+  pdfBase64: string,
+  options: {
+    language?: string;
+    dpi?: number;
+    skipPagesWithText?: boolean;
+    onProgress?: (progress: number, status: string) => void;
+  } = {}
+): Promise<string> => {
+  const { language = 'eng', dpi = 300, skipPagesWithText = true, onProgress } = options;
+
+  let worker: OCRWorker | undefined;
+  try {
+    // Convert base64 to Uint8Array
+    const pdfBytes = Uint8Array.from(atob(pdfBase64.split(',')[1] || pdfBase64), c => c.charCodeAt(0));
+
+    // Load the PDF document
+    const pdfDoc = await PDFDocument.load(pdfBytes);
+    const pdf = await openPDFDocument(pdfBase64);
+
+    try {
+      const pages = pdfDoc.getPages();
+      const fontRef = embedInvisibleTextFont(pdfDoc);
+      let currentPage = 0;
+
+      worker = await createOCRWorker(language, (progress, status) => {
+        if (status === 'recognizing text') {
+          onProgress?.((currentPage + progress) / pdf.numPages, `Recognizing page ${currentPage + 1} of ${pdf.numPages}`);
+        }
+      });
+
+      for (let pageNum = 1; pageNum <= pdf.numPages; pageNum++) {
+        currentPage = pageNum - 1;
+        const pdfPage = await pdf.getPage(pageNum);
+
+        // Pages that already carry a text layer would end up with duplicate text
+        if (skipPagesWithText) {
+          const textContent = await pdfPage.getTextContent();
+          if (textContent.items.some(item => 'str' in item && item.str.trim().length > 0)) {
+            onProgress?.(pageNum / pdf.numPages, `Page ${pageNum} already has text`);
+            continue;
+          }
+        }
+
+        const canvas = await renderPDFPageToCanvas(pdf, pageNum, dpi);
+        const result = await recognizeWithWorker(worker, canvas, language, true);
+        canvas.width = 0;
+        canvas.height = 0;
+
+        // The render viewport knows the page rotation and crop box offset
+        const viewport = pdfPage.getViewport({ scale: dpi / 72 });
+        addInvisibleTextLayer(pages[pageNum - 1], fontRef, result.words, (x, y) => viewport.convertToPdfPoint(x, y));
+      }
+    } finally {
+      await pdf.destroy();
+    }
+
+    // Save the searchable PDF
+    const searchablePdfBytes = await pdfDoc.save();
+
+    // Convert back to base64
+    return `data:application/pdf;base64,${Buffer.from(searchablePdfBytes).toString('base64')}`;
+  } catch (error) {
+    console.error('Error converting scanned PDF to searchable PDF:', error);
+    throw new Error('Failed to convert scanned PDF to searchable PDF');
+  } finally {
+    await worker?.terminate();
+  }
+};
+
+/**
+ * Image → Searchable PDF - Place the image on a page and overlay the OCR text
+ */
+export const convertImageToSearchablePDF = async (
+  imageBase64: string,
+  options: {
+    language?: string;
+    dpi?: number;
+    onProgress?: (progress: number, status: string) => void;
+  } = {}
+): Promise<string> => {
+  const { language = 'eng', dpi = 300, onProgress } = options;
+
+  try {
+    // pdf-lib embeds PNG and JPEG only, re-encode anything else as PNG
+    const isEmbeddable = /^data:image\/(png|jpe?g);/i.test(imageBase64);
+    const sourceImage = isEmbeddable ? imageBase64 : await convertImageFormat(imageBase64, 'png');
+
+    const ocr = await performOCR(sourceImage, { language, mode: 'data', onProgress });
+
+    const pdfDoc = await PDFDocument.create();
+    const imageBytes = Uint8Array.from(atob(sourceImage.split(',')[1] || sourceImage), c => c.charCodeAt(0));
+    const embeddedImage = sourceImage.startsWith('data:image/png')
+      ? await pdfDoc.embedPng(imageBytes)
+      : await pdfDoc.embedJpg(imageBytes);
+
+    // Size the page from the pixel dimensions at the scan resolution
+    const scale = 72 / dpi;
+    const pageWidth = embeddedImage.width * scale;
+    const pageHeight = embeddedImage.height * scale;
+    const page = pdfDoc.addPage([pageWidth, pageHeight]);
+
+    page.drawImage(embeddedImage, { x: 0, y: 0, width: pageWidth, height: pageHeight });
+    addInvisibleTextLayer(page, embedInvisibleTextFont(pdfDoc), ocr.words, (x, y) => [x * scale, pageHeight - y * scale]);
+
+    const pdfBytes = await pdfDoc.save();
+    return `data:application/pdf;base64,${Buffer.from(pdfBytes).toString('base64')}`;
+  } catch (error) {
+    console.error('Error converting image to searchable PDF:', error);
+    throw new Error('Failed to convert image to searchable PDF');
+  }
+};
+
+interface FormTextRun {
+  text: string;
+  x: number;
+  /** Baseline in PDF user space */
+  y: number;
+  width: number;
+  height: number;
+}
+
+interface FormFieldRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+interface FormFieldCandidate extends FormFieldRect {
+  kind: 'text' | 'checkbox';
+  label?: string;
+}
+
+/** Horizontal rule in PDF user space, the typical "sign here" blank */
+interface FormLine {
+  x0: number;
+  x1: number;
+  y: number;
+}
+
+const CHECKBOX_GLYPHS = /[\u2610\u2611\u2612\u25A1\u25A2\u274F\u2751]/g;
+
+/** Path segment codes in pdf.js constructPath data (DrawOPS, not exported) */
+const DRAW_MOVE_TO = 0;
+const DRAW_LINE_TO = 1;
+const DRAW_CURVE_TO = 2;
+const DRAW_QUADRATIC_CURVE_TO = 3;
+const DRAW_CLOSE_PATH = 4;
+
+/** Share of the smaller rectangle covered by the intersection */
+const rectOverlap = (a: FormFieldRect, b: FormFieldRect): number => {
+  const width = Math.min(a.x + a.width, b.x + b.width) - Math.max(a.x, b.x);
+  const height = Math.min(a.y + a.height, b.y + b.height) - Math.max(a.y, b.y);
+  if (width <= 0 || height <= 0) return 0;
+  return (width * height) / Math.max(1, Math.min(a.width * a.height, b.width * b.height));
+};
+
+/** Turn label text into an AcroForm-safe field name (dots separate name parts) */
+const toFieldLabel = (text: string): string =>
+  text.replace(CHECKBOX_GLYPHS, ' ').replace(/[._:]+/g, ' ').replace(/\s+/g, ' ').trim().slice(0, 40);
+
+/**
+ * Find blanks written as text: runs of underscores ("Name: ______") and
+ * checkbox glyphs, labelled by the text in front of them or after the box
+ */
+const detectTextFormFields = (runs: FormTextRun[]): FormFieldCandidate[] => {
+  const candidates: FormFieldCandidate[] = [];
+
+  for (const run of runs) {
+    const charWidth = run.width / Math.max(1, run.text.length);
+
+    for (const match of run.text.matchAll(/_{3,}/g)) {
+      const index = match.index ?? 0;
+      candidates.push({
+        kind: 'text',
+        x: run.x + index * charWidth,
+        y: run.y - run.height * 0.2,
+        width: match[0].length * charWidth,
+        height: run.height * 1.2,
+        label: toFieldLabel(run.text.slice(0, index).split('_').filter(Boolean).pop() ?? '') || undefined
+      });
+    }
+
+    for (const match of run.text.matchAll(CHECKBOX_GLYPHS)) {
+      const index = match.index ?? 0;
+      candidates.push({
+        kind: 'checkbox',
+        x: run.x + index * charWidth,
+        y: run.y - run.height * 0.1,
+        width: Math.max(charWidth, run.height * 0.8),
+        height: run.height * 0.8,
+        label: toFieldLabel(run.text.slice(index + 1).split(CHECKBOX_GLYPHS)[0]) || undefined
+      });
+    }
+  }
+
+  return candidates;
+};
+
+/**
+ * Collect stroked or filled shapes from the page content: thin horizontal
+ * shapes become lines, small squares checkboxes and wider empty boxes text fields
+ */
+const detectVectorFormShapes = async (
+  page: Awaited<ReturnType<PDFJSDocument['getPage']>>
+): Promise<{ lines: FormLine[]; boxes: FormFieldCandidate[] }> => {
+  const pdfjs = await loadPdfJs();
+  const operatorList = await page.getOperatorList();
+  const paintOps = new Set([
+    pdfjs.OPS.stroke, pdfjs.OPS.closeStroke, pdfjs.OPS.fill, pdfjs.OPS.eoFill,
+    pdfjs.OPS.fillStroke, pdfjs.OPS.eoFillStroke, pdfjs.OPS.closeFillStroke, pdfjs.OPS.closeEOFillStroke
+  ]);
+
+  const lines: FormLine[] = [];
+  const boxes: FormFieldCandidate[] = [];
+  const transformStack: number[][] = [];
+  let transform = [1, 0, 0, 1, 0, 0];
+
+  const addShape = (points: number[][]) => {
+    const xs = points.map(([x, y]) => transform[0] * x + transform[2] * y + transform[4]);
+    const ys = points.map(([x, y]) => transform[1] * x + transform[3] * y + transform[5]);
+    const x = Math.min(...xs);
+    const y = Math.min(...ys);
+    const width = Math.max(...xs) - x;
+    const height = Math.max(...ys) - y;
+
+    if (width >= 30 && height <= 3) {
+      lines.push({ x0: x, x1: x + width, y: y + height / 2 });
+    } else if (width >= 6 && width <= 20 && Math.abs(width - height) <= 2) {
+      boxes.push({ kind: 'checkbox', x, y, width, height });
+    } else if (width >= 30 && height >= 10 && height <= 60) {
+      boxes.push({ kind: 'text', x, y, width, height });
+    }
+  };
+
+  for (let i = 0; i < operatorList.fnArray.length; i++) {
+    const fn = operatorList.fnArray[i];
+    const args = operatorList.argsArray[i];
+
+    if (fn === pdfjs.OPS.save || fn === pdfjs.OPS.paintFormXObjectBegin) {
+      transformStack.push(transform);
+      if (fn === pdfjs.OPS.paintFormXObjectBegin && args?.[0]) {
+        transform = pdfjs.Util.transform(transform, args[0]);
+      }
+    } else if (fn === pdfjs.OPS.restore || fn === pdfjs.OPS.paintFormXObjectEnd) {
+      transform = transformStack.pop() ?? [1, 0, 0, 1, 0, 0];
+    } else if (fn === pdfjs.OPS.transform) {
+      transform = pdfjs.Util.transform(transform, args);
+    } else if (fn === pdfjs.OPS.constructPath && paintOps.has(args[0])) {
+      const data: ArrayLike<number> | undefined = args[1]?.[0];
+      if (!data) continue;
+
+      // Split the path into subpaths, ignoring curved ones (radio circles, logos)
+      let points: number[][] = [];
+      let curved = false;
+      const flush = () => {
+        if (points.length > 1 && !curved) addShape(points);
+        points = [];
+        curved = false;
+      };
+
+      for (let k = 0; k < data.length;) {
+        switch (data[k]) {
+          case DRAW_MOVE_TO:
+            flush();
+            points.push([data[k + 1], data[k + 2]]);
+            k += 3;
+            break;
+          case DRAW_LINE_TO:
+            points.push([data[k + 1], data[k + 2]]);
+            k += 3;
+            break;
+          case DRAW_CURVE_TO:
+            curved = true;
+            k += 7;
+            break;
+          case DRAW_QUADRATIC_CURVE_TO:
+            curved = true;
+            k += 5;
+            break;
+          case DRAW_CLOSE_PATH:
+          default:
+            k += 1;
+        }
+      }
+      flush();
+    }
+  }
+
+  return { lines, boxes };
+};
+
+/**
+ * Find long, thin dark rows on a scanned page. Returns lines in canvas pixels.
+ */
+const detectRasterLines = (canvas: HTMLCanvasElement, minLength: number, maxThickness: number): FormLine[] => {
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return [];
+
+  const { data, width, height } = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  const open: Array<FormLine & { top: number }> = [];
+  const lines: FormLine[] = [];
+
+  for (let y = 0; y < height; y++) {
+    // Dark horizontal runs on this row
+    const segments: Array<[number, number]> = [];
+    let runStart = -1;
+    for (let x = 0; x <= width; x++) {
+      const offset = (y * width + x) * 4;
+      const dark = x < width && data[offset] * 0.299 + data[offset + 1] * 0.587 + data[offset + 2] * 0.114 < 128;
+      if (dark && runStart < 0) runStart = x;
+      if (!dark && runStart >= 0) {
+        if (x - runStart >= minLength) segments.push([runStart, x]);
+        runStart = -1;
+      }
+    }
+
+    // Continue lines from the previous row, close the ones that ended
+    for (let i = open.length - 1; i >= 0; i--) {
+      const line = open[i];
+      const next = segments.findIndex(([x0, x1]) => Math.min(x1, line.x1) - Math.max(x0, line.x0) > minLength / 2);
+      if (next >= 0) {
+        [line.x0, line.x1] = [Math.min(line.x0, segments[next][0]), Math.max(line.x1, segments[next][1])];
+        segments.splice(next, 1);
+      } else {
+        if (y - line.top <= maxThickness) lines.push({ x0: line.x0, x1: line.x1, y: (line.top + y - 1) / 2 });
+        open.splice(i, 1);
+      }
+    }
+    segments.forEach(([x0, x1]) => open.push({ x0, x1, y, top: y }));
+  }
+
+  return lines;
+};
+
+/**
+ * Turn rules into text fields. Two rules spanning the same width close
+ * together form a box; a rule with text sitting on it is decoration.
+ */
+const formLinesToFields = (lines: FormLine[], runs: FormTextRun[]): FormFieldCandidate[] => {
+  const sorted = [...lines].sort((a, b) => a.y - b.y);
+  const used = new Set<FormLine>();
+  const candidates: FormFieldCandidate[] = [];
+
+  for (const line of sorted) {
+    if (used.has(line)) continue;
+
+    const top = sorted.find(other =>
+      !used.has(other) && other !== line && other.y - line.y >= 10 && other.y - line.y <= 60
+      && Math.abs(other.x0 - line.x0) <= 3 && Math.abs(other.x1 - line.x1) <= 3
+    );
+    const height = top ? top.y - line.y : 16;
+    const field: FormFieldCandidate = { kind: 'text', x: line.x0, y: line.y, width: line.x1 - line.x0, height };
+
+    const hasText = runs.some(run => run.text.replace(/_/g, '').trim() && rectOverlap(field, {
+      x: run.x, y: run.y, width: run.width, height: run.height
+    }) > 0.3);
+    if (hasText) continue;
+
+    used.add(line);
+    if (top) used.add(top);
+    candidates.push(field);
+  }
+
+  return candidates;
+};
+
+/**
+ * Name unlabelled fields after the nearest text: on the same line to the left
+ * for text fields, to the right for checkboxes, otherwise just above
+ */
+const labelFormFields = (candidates: FormFieldCandidate[], runs: FormTextRun[]): void => {
+  for (const candidate of candidates) {
+    if (candidate.label) continue;
+
+    const sameLine = runs.filter(run =>
+      run.text.trim() && Math.abs(run.y - candidate.y) <= Math.max(run.height, candidate.height)
+    );
+    const left = sameLine
+      .filter(run => run.x + run.width <= candidate.x + 2 && candidate.x - (run.x + run.width) <= 150)
+      .sort((a, b) => b.x - a.x)[0];
+    const right = sameLine
+      .filter(run => run.x >= candidate.x + candidate.width - 2 && run.x - (candidate.x + candidate.width) <= 40)
+      .sort((a, b) => a.x - b.x)[0];
+    const above = runs
+      .filter(run => run.text.trim() && run.y >= candidate.y + candidate.height && run.y - (candidate.y + candidate.height) <= 20
+        && Math.min(run.x + run.width, candidate.x + candidate.width) - Math.max(run.x, candidate.x) > 0)
+      .sort((a, b) => a.y - b.y)[0];
+
+    const source = candidate.kind === 'checkbox' ? right ?? left : left ?? above;
+    candidate.label = source ? toFieldLabel(source.text) || undefined : undefined;
+  }
+};
+
+/**
+ * PDF → Fillable Form - Detect blanks, boxes and checkboxes in the page
+ * content and add matching AcroForm fields. Pages without a text layer are
+ * OCR-ed for labels and scanned rules are detected on the rendered image.
+ */
+export const convertPDFToFillableForm = async (
+  pdfBase64: string,
+  options: {
+    language?: string;
+    ocrScannedPages?: boolean;
+    onProgress?: (progress: number, status: string) => void;
+  } = {}
+): Promise<string> => {
+  const { language = 'eng', ocrScannedPages = true, onProgress } = options;
+  const dpi = 200;
+
+  let worker: OCRWorker | undefined;
+  try {
+    // Convert base64 to Uint8Array
+    const pdfBytes = Uint8Array.from(atob(pdfBase64.split(',')[1] || pdfBase64), c => c.charCodeAt(0));
+
+    // Load the PDF document
+    const pdfDoc = await PDFDocument.load(pdfBytes);
+    const pdf = await openPDFDocument(pdfBase64);
+    const pages = pdfDoc.getPages();
+    const form = pdfDoc.getForm();
+
+    // Never place new fields over existing ones, and keep names unique
+    const usedNames = new Set(form.getFields().map(field => field.getName()));
+    const existingWidgets = form.getFields().flatMap(field => field.acroField.getWidgets().map(widget => ({
+      pageRef: widget.P(),
+      rect: widget.getRectangle()
+    })));
+    const uniqueName = (label: string | undefined, fallback: string) => {
+      const base = label || fallback;
+      let name = base;
+      for (let i = 2; usedNames.has(name); i++) name = `${base} ${i}`;
+      usedNames.add(name);
+      return name;
+    };
+
+    let fieldCount = 0;
+
+    try {
+      for (let pageNum = 1; pageNum <= pdf.numPages; pageNum++) {
+        onProgress?.((pageNum - 1) / pdf.numPages, `Analysing page ${pageNum} of ${pdf.numPages}`);
+
+        const pdfPage = await pdf.getPage(pageNum);
+        const textContent = await pdfPage.getTextContent();
+        const runs: FormTextRun[] = [];
+        for (const item of textContent.items) {
+          if (!('str' in item) || !item.str) continue;
+          runs.push({
+            text: item.str,
+            x: item.transform[4],
+            y: item.transform[5],
+            width: item.width,
+            height: Math.hypot(item.transform[2], item.transform[3]) || item.height
+          });
+        }
+
+        const { lines, boxes } = await detectVectorFormShapes(pdfPage);
+
+        // Scanned page: recognise labels and find the rules in the image
+        if (runs.every(run => !run.text.trim()) && ocrScannedPages) {
+          const canvas = await renderPDFPageToCanvas(pdf, pageNum, dpi);
+          const viewport = pdfPage.getViewport({ scale: dpi / 72 });
+          const toPdf = (x: number, y: number) => viewport.convertToPdfPoint(x, y) as number[];
+
+          worker ??= await createOCRWorker(language);
+          const ocr = await recognizeWithWorker(worker, canvas, language, true);
+          for (const word of ocr.words) {
+            const [x0, y0] = toPdf(word.bbox.x0, word.bbox.y1);
+            const [x1, y1] = toPdf(word.bbox.x1, word.bbox.y0);
+            runs.push({
+              text: word.text,
+              x: Math.min(x0, x1),
+              y: Math.min(y0, y1),
+              width: Math.abs(x1 - x0),
+              height: Math.abs(y1 - y0)
+            });
+          }
+
+          const scale = dpi / 72;
+          for (const line of detectRasterLines(canvas, 30 * scale, 3 * scale)) {
+            const [x0, y] = toPdf(line.x0, line.y);
+            const [x1] = toPdf(line.x1, line.y);
+            lines.push({ x0: Math.min(x0, x1), x1: Math.max(x0, x1), y });
+          }
+
+          canvas.width = 0;
+          canvas.height = 0;
+        }
+
+        // Boxes only count as blanks when nothing is written inside them
+        const emptyBoxes = boxes.filter(box => !runs.some(run => run.text.trim() && rectOverlap(box, {
+          x: run.x, y: run.y, width: run.width, height: run.height
+        }) > 0.3));
+
+        const candidates: FormFieldCandidate[] = [];
+        for (const candidate of [...detectTextFormFields(runs), ...emptyBoxes, ...formLinesToFields(lines, runs)]) {
+          // Underscores usually sit on a drawn rule too, keep the first detection
+          if (candidates.some(other => rectOverlap(other, candidate) > 0.5)) continue;
+          candidates.push(candidate);
+        }
+        labelFormFields(candidates, runs);
+
+        const page = pages[pageNum - 1];
+        const pageWidgets = existingWidgets.filter(widget => !widget.pageRef || widget.pageRef === page.ref);
+
+        for (const candidate of candidates) {
+          if (pageWidgets.some(widget => rectOverlap(widget.rect, candidate) > 0.3)) continue;
+
+          const rect = {
+            x: candidate.x + 1,
+            y: candidate.y + 1,
+            width: Math.max(candidate.width - 2, 4),
+            height: Math.max(candidate.height - 2, 4),
+            // Transparent so the original blank stays visible underneath
+            borderWidth: 0,
+            borderColor: undefined,
+            backgroundColor: undefined
+          };
+
+          if (candidate.kind === 'checkbox') {
+            form.createCheckBox(uniqueName(candidate.label, `checkbox_${pageNum}_${fieldCount + 1}`)).addToPage(page, rect);
+          } else {
+            const textField = form.createTextField(uniqueName(candidate.label, `field_${pageNum}_${fieldCount + 1}`));
+            textField.addToPage(page, rect);
+            textField.setFontSize(Math.min(12, Math.max(6, rect.height * 0.7)));
+            if (rect.height > 40) textField.enableMultiline();
+          }
+          fieldCount++;
+        }
+
+        pdfPage.cleanup();
+      }
+    } finally {
+      await pdf.destroy();
+    }
+
+    onProgress?.(1, `Created ${fieldCount} form field${fieldCount !== 1 ? 's' : ''}`);
+
+    // Save the fillable PDF
+    const fillablePdfBytes = await pdfDoc.save();
+
+    // Convert back to base64
+    return `data:application/pdf;base64,${Buffer.from(fillablePdfBytes).toString('base64')}`;
+  } catch (error) {
+    console.error('Error converting PDF to fillable form:', error);
+    throw new Error('Failed to convert PDF to fillable form');
+  } finally {
+    await worker?.terminate();
+  }
 };
 
 export const convertLaTeXToPDF = async (latexContent: string): Promise<string> => {
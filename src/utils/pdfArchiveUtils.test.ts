@@ -0,0 +1,61 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { describe, expect, it } from 'vitest';
+import { PDFDict, PDFDocument, PDFName, PDFNumber, StandardFonts } from 'pdf-lib';
+import { convertPDFDocumentToPDFA, getPDFAFontFacesToEmbed } from './pdfArchiveUtils';
+
+const bundledFont = (packageName: string, fontName: string, weight: string) =>
+  new Uint8Array(readFileSync(join('node_modules', '@expo-google-fonts', packageName, weight, `${fontName}_${weight}.ttf`)));
+
+const createDocument = async () => {
+  const pdfDoc = await PDFDocument.create();
+  const page = pdfDoc.addPage([400, 400]);
+  page.drawText('Heading', { x: 50, y: 300, size: 18, font: await pdfDoc.embedFont(StandardFonts.HelveticaBold) });
+  page.drawText('Quoted', { x: 50, y: 200, size: 12, font: await pdfDoc.embedFont(StandardFonts.TimesRomanItalic) });
+  return PDFDocument.load(await pdfDoc.save());
+};
+
+/** The font dictionaries of the first page, by base font name */
+const pageFonts = (pdfDoc: PDFDocument) => {
+  const fonts = pdfDoc.getPage(0).node.Resources()?.lookup(PDFName.of('Font'), PDFDict);
+  return new Map(fonts!.values().map(ref => {
+    const font = pdfDoc.context.lookup(ref, PDFDict);
+    return [font.lookup(PDFName.of('BaseFont'))!.toString(), font];
+  }));
+};
+
+describe('convertPDFDocumentToPDFA', () => {
+  it('asks for a face per weight and slant', async () => {
+    const faces = getPDFAFontFacesToEmbed(await createDocument());
+    expect(faces.sort()).toEqual(['sans-bold', 'serif-italic']);
+  });
+
+  it('embeds bold and italic faces for bold and italic standard fonts', async () => {
+    const pdfDoc = await createDocument();
+    const report = await convertPDFDocumentToPDFA(pdfDoc, {
+      fonts: {
+        'sans-bold': bundledFont('arimo', 'Arimo', '700Bold'),
+        'serif-italic': bundledFont('tinos', 'Tinos', '400Regular_Italic')
+      }
+    });
+
+    expect(report.conformant).toBe(true);
+    const fonts = pageFonts(await PDFDocument.load(await pdfDoc.save()));
+    const bold = fonts.get('/Helvetica-Bold')!.lookup(PDFName.of('FontDescriptor'), PDFDict);
+    const italic = fonts.get('/Times-Italic')!.lookup(PDFName.of('FontDescriptor'), PDFDict);
+    expect(bold.get(PDFName.of('FontFile2'))).toBeDefined();
+    expect(italic.get(PDFName.of('FontFile2'))).not.toEqual(bold.get(PDFName.of('FontFile2')));
+    expect(bold.lookup(PDFName.of('ItalicAngle'), PDFNumber).asNumber()).toBe(0);
+    expect(italic.lookup(PDFName.of('ItalicAngle'), PDFNumber).asNumber()).toBeLessThan(0);
+  });
+
+  it('leaves fonts without a matching face as violations', async () => {
+    const pdfDoc = await createDocument();
+    const report = await convertPDFDocumentToPDFA(pdfDoc, {
+      fonts: { 'sans-regular': bundledFont('arimo', 'Arimo', '400Regular') }
+    });
+
+    expect(report.conformant).toBe(false);
+    expect(pageFonts(pdfDoc).get('/Helvetica-Bold')!.has(PDFName.of('FontDescriptor'))).toBe(false);
+  });
+});
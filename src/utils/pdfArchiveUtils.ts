@@ -0,0 +1,1062 @@
+// src/utils/pdfArchiveUtils.ts
+// PDF/A-2b conversion and conformance checking on top of pdf-lib. Everything
+// here runs in the browser; decrypting protected input goes through the
+// password API first.
+import {
+  PDFArray,
+  PDFContext,
+  PDFDict,
+  PDFDocument,
+  PDFHexString,
+  PDFName,
+  PDFNumber,
+  PDFObject,
+  PDFPage,
+  PDFRawStream,
+  PDFRef,
+  PDFStream,
+  PDFString,
+  decodePDFRawStream
+} from 'pdf-lib';
+import { winAnsiCodePoint } from './pdfObjectUtils';
+
+export type PDFARule =
+  | 'file'
+  | 'encryption'
+  | 'metadata'
+  | 'outputIntent'
+  | 'color'
+  | 'fonts'
+  | 'transparency'
+  | 'images'
+  | 'annotations'
+  | 'actions'
+  | 'forms'
+  | 'embeddedFiles'
+  | 'optionalContent';
+
+export interface PDFAViolation {
+  rule: PDFARule;
+  description: string;
+  location?: string;
+  occurrences: number;
+  /** Whether convertPDFDocumentToPDFA can repair it */
+  fixable: boolean;
+}
+
+export interface PDFAValidationResult {
+  conformant: boolean;
+  /** Part and level claimed by the XMP metadata, e.g. "2B" */
+  claimedConformance?: string;
+  violations: PDFAViolation[];
+}
+
+export type PDFAFontFamily = 'sans' | 'serif' | 'mono';
+export type PDFAFontStyle = 'regular' | 'bold' | 'italic' | 'boldItalic';
+/** A font family in one weight and slant, e.g. "serif-bold" */
+export type PDFAFontFace = `${PDFAFontFamily}-${PDFAFontStyle}`;
+
+export interface PDFAConversionOptions {
+  /** TrueType fonts embedded in place of fonts the PDF only references by name */
+  fonts?: Partial<Record<PDFAFontFace, Uint8Array>>;
+}
+
+export interface PDFAConversionReport {
+  fixes: string[];
+  violations: PDFAViolation[];
+  conformant: boolean;
+}
+
+const FORBIDDEN_ACTIONS = [
+  'Launch', 'Sound', 'Movie', 'ResetForm', 'ImportData', 'Hide', 'SetOCGState',
+  'Rendition', 'Trans', 'GoTo3DView', 'JavaScript'
+];
+const ALLOWED_NAMED_ACTIONS = ['NextPage', 'PrevPage', 'FirstPage', 'LastPage'];
+const FORBIDDEN_ANNOTATIONS = ['3D', 'Sound', 'Screen', 'Movie', 'RichMedia'];
+const BLEND_MODES = [
+  'Normal', 'Compatible', 'Multiply', 'Screen', 'Overlay', 'Darken', 'Lighten', 'ColorDodge',
+  'ColorBurn', 'HardLight', 'SoftLight', 'Difference', 'Exclusion', 'Hue', 'Saturation', 'Color', 'Luminosity'
+];
+const RENDERING_INTENTS = ['RelativeColorimetric', 'AbsoluteColorimetric', 'Perceptual', 'Saturation'];
+const FONT_FILE_KEYS = ['FontFile', 'FontFile2', 'FontFile3'];
+const SRGB_IDENTIFIER = 'sRGB IEC61966-2.1';
+
+const name = (value: string) => PDFName.of(value);
+
+const nameOf = (object: PDFObject | undefined): string | undefined =>
+  object instanceof PDFName ? object.decodeText() : undefined;
+
+const escapeXml = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const unescapeXml = (text: string): string =>
+  text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, decimal) => String.fromCodePoint(parseInt(decimal, 10)))
+    .replace(/&amp;/g, '&');
+
+const toXMPDate = (date: Date): string => date.toISOString().replace(/\.\d{3}Z$/, 'Z');
+
+/**
+ * Build an sRGB ICC v2 display profile for the PDF/A output intent, with the
+ * IEC 61966-2.1 tone curve sampled into a lookup table
+ */
+const buildSRGBProfile = (): Uint8Array => {
+  const s15Fixed16 = (value: number) => Math.round(value * 65536);
+  const xyz = (x: number, y: number, z: number) => ['XYZ ', 0, s15Fixed16(x), s15Fixed16(y), s15Fixed16(z)];
+
+  const curve = new Uint16Array(1024).map((_, i) => {
+    const value = i / 1023;
+    const linear = value <= 0.04045 ? value / 12.92 : Math.pow((value + 0.055) / 1.055, 2.4);
+    return Math.round(linear * 65535);
+  });
+
+  const encodeAscii = (text: string) => Array.from(text, c => c.charCodeAt(0));
+  const description = [...encodeAscii('desc'), 0, 0, 0, 0];
+  const descriptionText = [...encodeAscii(SRGB_IDENTIFIER), 0];
+  const copyright = [...encodeAscii('text'), 0, 0, 0, 0, ...encodeAscii('No copyright, use freely'), 0];
+
+  const chunk = (parts: (string | number)[]) => {
+    const bytes: number[] = [];
+    parts.forEach(part => {
+      if (typeof part === 'string') bytes.push(...encodeAscii(part));
+      else bytes.push((part >>> 24) & 0xff, (part >>> 16) & 0xff, (part >>> 8) & 0xff, part & 0xff);
+    });
+    return bytes;
+  };
+
+  const descriptionTag = [
+    ...description,
+    ...chunk([descriptionText.length]), ...descriptionText,
+    ...chunk([0, 0]), 0, 0, 0,
+    ...new Array(67).fill(0)
+  ];
+  const curveTag = [...chunk(['curv', 0, curve.length]), ...Array.from(curve).flatMap(v => [v >> 8, v & 0xff])];
+  const tags: [string, number[]][] = [
+    ['desc', descriptionTag],
+    ['cprt', copyright],
+    ['wtpt', chunk(xyz(0.9642, 1, 0.8249))],
+    ['rXYZ', chunk(xyz(0.4361, 0.2225, 0.0139))],
+    ['gXYZ', chunk(xyz(0.3851, 0.7169, 0.0971))],
+    ['bXYZ', chunk(xyz(0.1431, 0.0606, 0.7141))],
+    ['rTRC', curveTag]
+  ];
+
+  // gTRC and bTRC share the red curve
+  const tagTableSize = 4 + (tags.length + 2) * 12;
+  const entries: number[] = [];
+  const data: number[] = [];
+  let offset = 128 + tagTableSize;
+  tags.forEach(([signature, bytes]) => {
+    entries.push(...chunk([signature, offset, bytes.length]));
+    if (signature === 'rTRC') {
+      entries.push(...chunk(['gTRC', offset, bytes.length]), ...chunk(['bTRC', offset, bytes.length]));
+    }
+    const padded = [...bytes, ...new Array((4 - (bytes.length % 4)) % 4).fill(0)];
+    data.push(...padded);
+    offset += padded.length;
+  });
+
+  const header = [
+    ...chunk([offset, 0, 0x02100000, 'mntr', 'RGB ', 'XYZ ']),
+    ...new Array(12).fill(0),
+    ...chunk(['acsp', 0, 0, 0, 0, 0, 0, 0]),
+    ...chunk(xyz(0.9642, 1, 0.8249).slice(2)),
+    ...new Array(48).fill(0)
+  ];
+
+  return new Uint8Array([...header, ...chunk([tags.length + 2]), ...entries, ...data]);
+};
+
+interface TrueTypeMetrics {
+  unitsPerEm: number;
+  bbox: [number, number, number, number];
+  ascent: number;
+  descent: number;
+  capHeight: number;
+  italicAngle: number;
+  isFixedPitch: boolean;
+  advanceForCodePoint: (codePoint: number) => number | undefined;
+}
+
+/** Read the metrics needed for a simple font dictionary from a TrueType font */
+const readTrueTypeMetrics = (bytes: Uint8Array): TrueTypeMetrics => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const version = view.getUint32(0);
+  if (version !== 0x00010000 && version !== 0x74727565) {
+    throw new Error('Replacement fonts must be TrueType (.ttf) files');
+  }
+
+  const tables = new Map<string, number>();
+  for (let i = 0; i < view.getUint16(4); i++) {
+    const record = 12 + i * 16;
+    tables.set(String.fromCharCode(...bytes.subarray(record, record + 4)), view.getUint32(record + 8));
+  }
+  const table = (tag: string) => {
+    const offset = tables.get(tag);
+    if (offset === undefined) throw new Error(`TrueType font has no ${tag} table`);
+    return offset;
+  };
+
+  const head = table('head');
+  const unitsPerEm = view.getUint16(head + 18);
+  const hhea = table('hhea');
+  const hmtx = table('hmtx');
+  const numberOfHMetrics = view.getUint16(hhea + 34);
+  const post = tables.get('post');
+  const os2 = tables.get('OS/2');
+
+  // Format 4 subtable of the Windows Unicode cmap
+  const cmap = table('cmap');
+  let subtable: number | undefined;
+  for (let i = 0; i < view.getUint16(cmap + 2); i++) {
+    const record = cmap + 4 + i * 8;
+    if (view.getUint16(record) === 3 && view.getUint16(record + 2) === 1) {
+      subtable = cmap + view.getUint32(record + 4);
+    }
+  }
+  if (subtable === undefined || view.getUint16(subtable) !== 4) {
+    throw new Error('TrueType font has no Unicode character map');
+  }
+  const segments = view.getUint16(subtable + 6) / 2;
+  const endCodes = subtable + 14;
+  const startCodes = endCodes + segments * 2 + 2;
+  const idDeltas = startCodes + segments * 2;
+  const idRangeOffsets = idDeltas + segments * 2;
+
+  const glyphForCodePoint = (codePoint: number): number => {
+    for (let i = 0; i < segments; i++) {
+      if (view.getUint16(endCodes + i * 2) < codePoint) continue;
+      const start = view.getUint16(startCodes + i * 2);
+      if (start > codePoint) return 0;
+      const delta = view.getInt16(idDeltas + i * 2);
+      const rangeOffset = view.getUint16(idRangeOffsets + i * 2);
+      if (rangeOffset === 0) return (codePoint + delta) & 0xffff;
+      const glyph = view.getUint16(idRangeOffsets + i * 2 + rangeOffset + (codePoint - start) * 2);
+      return glyph === 0 ? 0 : (glyph + delta) & 0xffff;
+    }
+    return 0;
+  };
+
+  const scale = (value: number) => Math.round((value * 1000) / unitsPerEm);
+
+  return {
+    unitsPerEm,
+    bbox: [
+      scale(view.getInt16(head + 36)), scale(view.getInt16(head + 38)),
+      scale(view.getInt16(head + 40)), scale(view.getInt16(head + 42))
+    ],
+    ascent: scale(view.getInt16(hhea + 4)),
+    descent: scale(view.getInt16(hhea + 6)),
+    capHeight: os2 !== undefined && view.getUint16(os2) >= 2 ? scale(view.getInt16(os2 + 88)) : scale(view.getInt16(hhea + 4)),
+    italicAngle: post !== undefined ? view.getInt32(post + 4) / 65536 : 0,
+    isFixedPitch: post !== undefined && view.getUint32(post + 12) !== 0,
+    advanceForCodePoint: codePoint => {
+      const glyph = glyphForCodePoint(codePoint);
+      if (glyph === 0) return undefined;
+      return scale(view.getUint16(hmtx + Math.min(glyph, numberOfHMetrics - 1) * 4));
+    }
+  };
+};
+
+const fontFamilyOf = (baseFont: string): PDFAFontFamily => {
+  const fontName = baseFont.replace(/^[A-Z]{6}\+/, '').toLowerCase();
+  if (/courier|mono|consol/.test(fontName)) return 'mono';
+  if (/times|serif|roman|georgia|garamond|cambria|book/.test(fontName) && !/sans/.test(fontName)) return 'serif';
+  return 'sans';
+};
+
+const fontStyleOf = (baseFont: string): PDFAFontStyle => {
+  const fontName = baseFont.replace(/^[A-Z]{6}\+/, '').toLowerCase();
+  const bold = /bold|black|heavy|semibold|demi/.test(fontName);
+  const italic = /italic|oblique/.test(fontName);
+  if (bold) return italic ? 'boldItalic' : 'bold';
+  return italic ? 'italic' : 'regular';
+};
+
+const fontFaceOf = (baseFont: string): PDFAFontFace => `${fontFamilyOf(baseFont)}-${fontStyleOf(baseFont)}`;
+
+const isFontEmbedded = (font: PDFDict): boolean => {
+  const subtype = nameOf(font.lookup(name('Subtype')));
+  if (subtype === 'Type3') return true;
+  if (subtype === 'Type0') {
+    const descendant = font.lookupMaybe(name('DescendantFonts'), PDFArray)?.lookupMaybe(0, PDFDict);
+    return !!descendant && isFontEmbedded(descendant);
+  }
+  const descriptor = font.lookupMaybe(name('FontDescriptor'), PDFDict);
+  return !!descriptor && FONT_FILE_KEYS.some(key => descriptor.has(name(key)));
+};
+
+/** Whether an unembedded font can be replaced by a WinAnsi TrueType font */
+const isReplaceableFont = (font: PDFDict): boolean => {
+  const subtype = nameOf(font.lookup(name('Subtype')));
+  const baseFont = nameOf(font.lookup(name('BaseFont'))) ?? '';
+  const flags = font.lookupMaybe(name('FontDescriptor'), PDFDict)?.lookupMaybe(name('Flags'), PDFNumber)?.asNumber() ?? 32;
+  const encoding = font.lookup(name('Encoding'));
+  return (
+    ['Type1', 'MMType1', 'TrueType'].includes(subtype ?? '') &&
+    !/Symbol|Dingbats/i.test(baseFont) &&
+    (flags & 4) === 0 &&
+    (encoding === undefined || ['WinAnsiEncoding', 'StandardEncoding'].includes(nameOf(encoding) ?? ''))
+  );
+};
+
+const locationOf = (ref: PDFRef, pageRefs: Map<PDFRef, number>): string => {
+  const pageIndex = pageRefs.get(ref);
+  return pageIndex !== undefined ? `page ${pageIndex + 1}` : `object ${ref.objectNumber}`;
+};
+
+type Visitor = (dict: PDFDict, ref: PDFRef, stream?: PDFStream) => void;
+
+/** Call the visitor for every dictionary in the file, including nested direct ones */
+const visitDictionaries = (context: PDFContext, visitor: Visitor): void => {
+  const visit = (object: PDFObject, ref: PDFRef) => {
+    if (object instanceof PDFStream) {
+      visitor(object.dict, ref, object);
+      object.dict.values().forEach(value => visit(value, ref));
+    } else if (object instanceof PDFDict) {
+      visitor(object, ref);
+      object.values().forEach(value => visit(value, ref));
+    } else if (object instanceof PDFArray) {
+      object.asArray().forEach(value => visit(value, ref));
+    }
+  };
+  context.enumerateIndirectObjects().forEach(([ref, object]) => visit(object, ref));
+};
+
+/** Device colour spaces named by a ColorSpace entry, resource dictionary or colour space array */
+const collectDeviceSpaces = (context: PDFContext, object: PDFObject | undefined, found: Set<string>): void => {
+  const resolved = object instanceof PDFRef ? context.lookup(object) : object;
+  const spaceName = nameOf(resolved);
+  if (spaceName && ['DeviceRGB', 'DeviceCMYK', 'DeviceGray', 'RGB', 'CMYK', 'G'].includes(spaceName)) {
+    found.add(spaceName === 'RGB' ? 'DeviceRGB' : spaceName === 'CMYK' ? 'DeviceCMYK' : spaceName === 'G' ? 'DeviceGray' : spaceName);
+  } else if (resolved instanceof PDFArray) {
+    if (nameOf(resolved.get(0)) === 'ICCBased') return;
+    resolved.asArray().forEach(value => collectDeviceSpaces(context, value, found));
+  } else if (resolved instanceof PDFDict && !(resolved instanceof PDFStream)) {
+    resolved.values().forEach(value => collectDeviceSpaces(context, value, found));
+  }
+};
+
+/** Device colour operators used by a content stream */
+const collectContentDeviceSpaces = (stream: PDFStream, found: Set<string>): void => {
+  let bytes: Uint8Array;
+  try {
+    bytes = stream instanceof PDFRawStream ? decodePDFRawStream(stream).decode() : stream.getContents();
+  } catch {
+    return;
+  }
+  const source = Buffer.from(bytes).toString('latin1')
+    .replace(/\bBI\b[\s\S]*?\bEI\b/g, ' ')
+    .replace(/\((?:\\.|[^\\)])*\)/g, ' ')
+    .replace(/%[^\r\n]*/g, ' ');
+  source.split(/[\s[\]<>{}]+|(?=\/)/).forEach(token => {
+    if (token === 'rg' || token === 'RG' || token === '/DeviceRGB') found.add('DeviceRGB');
+    else if (token === 'k' || token === 'K' || token === '/DeviceCMYK') found.add('DeviceCMYK');
+    else if (token === 'g' || token === 'G' || token === '/DeviceGray') found.add('DeviceGray');
+  });
+};
+
+/** Read a simple or first-item property from an XMP packet */
+const readXMPProperty = (xmp: string, property: string): string | undefined => {
+  const element = xmp.match(new RegExp(`<${property}(?:\\s[^>]*)?>([\\s\\S]*?)</${property}>`));
+  if (element) {
+    const item = element[1].match(/<rdf:li(?:\s[^>]*)?>([\s\S]*?)<\/rdf:li>/);
+    return unescapeXml((item ? item[1] : element[1]).trim());
+  }
+  const attribute = xmp.match(new RegExp(`\\s${property}\\s*=\\s*"([^"]*)"`)) ?? xmp.match(new RegExp(`\\s${property}\\s*=\\s*'([^']*)'`));
+  return attribute ? unescapeXml(attribute[1]) : undefined;
+};
+
+/** The decoded XMP packet of the document catalog */
+export const readXMP = (pdfDoc: PDFDocument): string | undefined => {
+  const metadata = pdfDoc.catalog.lookupMaybe(name('Metadata'), PDFStream);
+  if (!metadata) return undefined;
+  try {
+    const bytes = metadata instanceof PDFRawStream ? decodePDFRawStream(metadata).decode() : metadata.getContents();
+    return new TextDecoder().decode(bytes);
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * Build the XMP packet for a PDF/A-2b document from its document information
+ * dictionary. Leave out the PDF/A identification for files that do not
+ * conform yet, so they do not claim a conformance level they fail.
+ */
+const buildXMPPacket = (
+  pdfDoc: PDFDocument,
+  identification: { part: string; conformance: string } | null = { part: '2', conformance: 'B' }
+): string => {
+  const title = pdfDoc.getTitle();
+  const author = pdfDoc.getAuthor();
+  const subject = pdfDoc.getSubject();
+  const keywords = pdfDoc.getKeywords();
+  const creator = pdfDoc.getCreator();
+  const producer = pdfDoc.getProducer();
+  const created = pdfDoc.getCreationDate();
+  const modified = pdfDoc.getModificationDate();
+
+  const properties = [
+    identification && `<pdfaid:part>${identification.part}</pdfaid:part>`,
+    identification && `<pdfaid:conformance>${identification.conformance}</pdfaid:conformance>`,
+    '<dc:format>application/pdf</dc:format>',
+    title !== undefined && `<dc:title><rdf:Alt><rdf:li xml:lang="x-default">${escapeXml(title)}</rdf:li></rdf:Alt></dc:title>`,
+    author !== undefined && `<dc:creator><rdf:Seq><rdf:li>${escapeXml(author)}</rdf:li></rdf:Seq></dc:creator>`,
+    subject !== undefined && `<dc:description><rdf:Alt><rdf:li xml:lang="x-default">${escapeXml(subject)}</rdf:li></rdf:Alt></dc:description>`,
+    keywords !== undefined && `<pdf:Keywords>${escapeXml(keywords)}</pdf:Keywords>`,
+    producer !== undefined && `<pdf:Producer>${escapeXml(producer)}</pdf:Producer>`,
+    creator !== undefined && `<xmp:CreatorTool>${escapeXml(creator)}</xmp:CreatorTool>`,
+    created && `<xmp:CreateDate>${toXMPDate(created)}</xmp:CreateDate>`,
+    modified && `<xmp:ModifyDate>${toXMPDate(modified)}</xmp:ModifyDate>`,
+    `<xmp:MetadataDate>${toXMPDate(modified ?? new Date())}</xmp:MetadataDate>`
+  ].filter(Boolean);
+
+  return [
+    '<?xpacket begin="\uFEFF" id="W5M0MpCehiHzreSzNTczkc9d"?>',
+    '<x:xmpmeta xmlns:x="adobe:ns:meta/">',
+    '<rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">',
+    '<rdf:Description rdf:about=""',
+    '  xmlns:pdfaid="http://www.aiim.org/pdfa/ns/id/"',
+    '  xmlns:dc="http://purl.org/dc/elements/1.1/"',
+    '  xmlns:pdf="http://ns.adobe.com/pdf/1.3/"',
+    '  xmlns:xmp="http://ns.adobe.com/xap/1.0/">',
+    ...properties.map(property => `  ${property}`),
+    '</rdf:Description>',
+    '</rdf:RDF>',
+    '</x:xmpmeta>',
+    // Padding lets other tools edit the packet in place
+    ...new Array(20).fill(' '.repeat(99)),
+    '<?xpacket end="w"?>'
+  ].join('\n');
+};
+
+/** Replace the XMP packet of the document catalog, leaving it uncompressed */
+export const writeXMP = (pdfDoc: PDFDocument, xmp: string): void => {
+  const existingRef = pdfDoc.catalog.get(name('Metadata'));
+  if (existingRef instanceof PDFRef) pdfDoc.context.delete(existingRef);
+  const stream = pdfDoc.context.stream(new TextEncoder().encode(xmp), {
+    Type: 'Metadata',
+    Subtype: 'XML'
+  });
+  pdfDoc.catalog.set(name('Metadata'), pdfDoc.context.register(stream));
+};
+
+/**
+ * Rewrite the XMP metadata of a document that claims PDF/A conformance so it
+ * matches the document information dictionary again. Call it before saving
+ * after changing the title, author or dates.
+ */
+export const syncPDFAMetadata = (pdfDoc: PDFDocument): void => {
+  const xmp = readXMP(pdfDoc);
+  const part = xmp && readXMPProperty(xmp, 'pdfaid:part');
+  if (!xmp || !part) return;
+  writeXMP(pdfDoc, buildXMPPacket(pdfDoc, { part, conformance: readXMPProperty(xmp, 'pdfaid:conformance') ?? 'B' }));
+};
+
+/** Output intent profiles of the document, by number of colour components */
+const readOutputIntentComponents = (pdfDoc: PDFDocument): number[] => {
+  const intents = pdfDoc.catalog.lookupMaybe(name('OutputIntents'), PDFArray);
+  if (!intents) return [];
+  return intents.asArray().flatMap(value => {
+    const intent = pdfDoc.context.lookup(value);
+    if (!(intent instanceof PDFDict) || nameOf(intent.lookup(name('S'))) !== 'GTS_PDFA1') return [];
+    const profile = intent.lookupMaybe(name('DestOutputProfile'), PDFStream);
+    const components = profile?.dict.lookupMaybe(name('N'), PDFNumber)?.asNumber();
+    return components ? [components] : [];
+  });
+};
+
+const collectViolations = (pdfDoc: PDFDocument, pdfBytes?: Uint8Array): PDFAViolation[] => {
+  const { context, catalog } = pdfDoc;
+  const violations = new Map<string, PDFAViolation>();
+  const report = (rule: PDFARule, description: string, fixable: boolean, location?: string) => {
+    const existing = violations.get(description);
+    if (existing) existing.occurrences++;
+    else violations.set(description, { rule, description, location, fixable, occurrences: 1 });
+  };
+
+  const pages = pdfDoc.getPages();
+  const pageRefs = new Map<PDFRef, number>(pages.map((page, index) => [page.ref, index]));
+
+  // File structure
+  if (pdfBytes) {
+    const header = Buffer.from(pdfBytes.subarray(0, 1024)).toString('latin1');
+    if (!/^%PDF-1\.[0-7]/.test(header)) {
+      report('file', 'The file header is not %PDF-1.0 to %PDF-1.7', true);
+    }
+    const comment = header.split(/\r\n|\r|\n/)[1] ?? '';
+    if (!/^%[\x80-\xff]{4}/.test(comment)) {
+      report('file', 'The header is not followed by a comment with four binary bytes', true);
+    }
+  }
+  if (context.trailerInfo.Encrypt) {
+    report('encryption', 'The document is encrypted', true);
+  }
+  if (!context.trailerInfo.ID) {
+    report('file', 'The trailer has no file identifier (ID)', true);
+  }
+
+  // Metadata
+  const xmp = readXMP(pdfDoc);
+  if (!xmp) {
+    report('metadata', 'The document has no XMP metadata stream', true);
+  } else {
+    const metadata = catalog.lookupMaybe(name('Metadata'), PDFStream);
+    if (metadata?.dict.has(name('Filter'))) {
+      report('metadata', 'The XMP metadata stream is compressed', true);
+    }
+    const part = readXMPProperty(xmp, 'pdfaid:part');
+    const conformance = readXMPProperty(xmp, 'pdfaid:conformance');
+    if (part !== '2' || !['A', 'B', 'U'].includes(conformance ?? '')) {
+      report('metadata', 'The XMP metadata does not identify the file as PDF/A-2', true);
+    }
+    const matches = (infoValue: string | undefined, property: string) =>
+      infoValue === undefined || readXMPProperty(xmp, property) === infoValue;
+    const sameDate = (infoValue: Date | undefined, property: string) => {
+      if (!infoValue) return true;
+      const xmpValue = readXMPProperty(xmp, property);
+      return !!xmpValue && Math.abs(new Date(xmpValue).getTime() - infoValue.getTime()) < 1000;
+    };
+    if (
+      !matches(pdfDoc.getTitle(), 'dc:title') ||
+      !matches(pdfDoc.getAuthor(), 'dc:creator') ||
+      !matches(pdfDoc.getSubject(), 'dc:description') ||
+      !matches(pdfDoc.getKeywords(), 'pdf:Keywords') ||
+      !matches(pdfDoc.getCreator(), 'xmp:CreatorTool') ||
+      !matches(pdfDoc.getProducer(), 'pdf:Producer') ||
+      !sameDate(pdfDoc.getCreationDate(), 'xmp:CreateDate') ||
+      !sameDate(pdfDoc.getModificationDate(), 'xmp:ModifyDate')
+    ) {
+      report('metadata', 'The document information dictionary does not match the XMP metadata', true);
+    }
+  }
+
+  // Document-level features
+  const names = catalog.lookupMaybe(name('Names'), PDFDict);
+  if (names?.has(name('JavaScript'))) {
+    report('actions', 'The document contains JavaScript', true);
+  }
+  if (names?.has(name('EmbeddedFiles'))) {
+    report('embeddedFiles', 'The document has embedded files that cannot be confirmed as PDF/A', true);
+  }
+  if (names?.has(name('AlternatePresentations'))) {
+    report('file', 'The document has alternate presentations', true);
+  }
+  const acroForm = catalog.lookupMaybe(name('AcroForm'), PDFDict);
+  if (acroForm?.has(name('XFA'))) {
+    report('forms', 'The form contains XFA data', true);
+  }
+  if (acroForm?.lookup(name('NeedAppearances'))?.toString() === 'true') {
+    report('forms', 'The form asks viewers to generate field appearances (NeedAppearances)', true);
+  }
+  const perms = catalog.lookupMaybe(name('Perms'), PDFDict);
+  if (perms?.keys().some(key => !['UR3', 'DocMDP'].includes(key.decodeText()))) {
+    report('file', 'The permissions dictionary contains entries other than UR3 and DocMDP', true);
+  }
+  const ocProperties = catalog.lookupMaybe(name('OCProperties'), PDFDict);
+  if (ocProperties) {
+    const configs = [
+      ocProperties.lookupMaybe(name('D'), PDFDict),
+      ...(ocProperties.lookupMaybe(name('Configs'), PDFArray)?.asArray().map(value => context.lookup(value)) ?? [])
+    ];
+    configs.forEach(config => {
+      if (!(config instanceof PDFDict)) return;
+      if (!config.has(name('Name'))) report('optionalContent', 'An optional content configuration has no name', true);
+      if (config.has(name('AS'))) report('optionalContent', 'An optional content configuration uses the AS key', true);
+    });
+  }
+
+  // Annotations
+  pages.forEach((page, index) => {
+    page.node.lookupMaybe(name('Annots'), PDFArray)?.asArray().forEach(value => {
+      const annotation = context.lookup(value);
+      if (!(annotation instanceof PDFDict)) return;
+      const subtype = nameOf(annotation.lookup(name('Subtype'))) ?? 'Unknown';
+      const location = `page ${index + 1}`;
+      if (FORBIDDEN_ANNOTATIONS.includes(subtype)) {
+        report('annotations', `${subtype} annotations are not allowed`, true, location);
+        return;
+      }
+      if (subtype === 'FileAttachment') {
+        report('embeddedFiles', 'File attachment annotations cannot be confirmed as PDF/A', true, location);
+      }
+      if (subtype !== 'Popup') {
+        const flags = annotation.lookupMaybe(name('F'), PDFNumber)?.asNumber() ?? 0;
+        if ((flags & 4) === 0 || (flags & (1 | 2 | 32 | 256)) !== 0) {
+          report('annotations', 'An annotation is not set to print or is hidden', true, location);
+        }
+      }
+      const rect = annotation.lookupMaybe(name('Rect'), PDFArray)?.asArray()
+        .map(v => (v instanceof PDFNumber ? v.asNumber() : 0)) ?? [0, 0, 0, 0];
+      const hasArea = rect[0] !== rect[2] && rect[1] !== rect[3];
+      if (subtype !== 'Popup' && subtype !== 'Link' && hasArea) {
+        const appearance = annotation.lookupMaybe(name('AP'), PDFDict);
+        if (!appearance?.has(name('N'))) {
+          report('annotations', `A ${subtype} annotation has no appearance stream`, false, location);
+        } else if (appearance.keys().some(key => key.decodeText() !== 'N')) {
+          report('annotations', 'An annotation appearance has rollover or down states', true, location);
+        }
+      }
+    });
+    if (page.node.has(name('PresSteps'))) {
+      report('file', 'A page uses presentation steps', true, `page ${index + 1}`);
+    }
+  });
+
+  // Objects anywhere in the file
+  const outputIntents = readOutputIntentComponents(pdfDoc);
+  const deviceSpaces = new Set<string>();
+  const contentStreams = new Set<PDFStream>();
+  let usesTransparency = false;
+
+  pages.forEach(page => {
+    const contents = page.node.Contents();
+    const streams = contents instanceof PDFArray ? contents.asArray().map(v => context.lookup(v)) : [contents];
+    streams.forEach(stream => {
+      if (stream instanceof PDFStream) contentStreams.add(stream);
+    });
+  });
+
+  visitDictionaries(context, (dict, ref, stream) => {
+    const location = locationOf(ref, pageRefs);
+    const type = nameOf(dict.lookup(name('Type')));
+    const subtype = nameOf(dict.lookup(name('Subtype')));
+    const action = nameOf(dict.get(name('S')));
+
+    if (dict.has(name('AA'))) {
+      report('actions', 'Additional actions (AA) trigger on document or page events', true, location);
+    }
+    if (action && FORBIDDEN_ACTIONS.includes(action)) {
+      report('actions', `${action} actions are not allowed`, true, location);
+    }
+    if (action === 'Named' && !ALLOWED_NAMED_ACTIONS.includes(nameOf(dict.lookup(name('N'))) ?? '')) {
+      report('actions', 'Named actions other than page navigation are not allowed', true, location);
+    }
+
+    if (stream) {
+      if (['F', 'FFilter', 'FDecodeParms'].some(key => dict.has(name(key)))) {
+        report('file', 'A stream refers to external file data', false, location);
+      }
+      const filter = dict.lookup(name('Filter'));
+      const filters = filter instanceof PDFArray ? filter.asArray().map(nameOf) : [nameOf(filter)];
+      if (filters.includes('LZWDecode')) {
+        report('file', 'A stream uses LZW compression', false, location);
+      }
+      if (subtype === 'Form') contentStreams.add(stream);
+    }
+
+    if (subtype === 'Image' && stream) {
+      if (dict.has(name('Alternates'))) report('images', 'An image has alternate images', true, location);
+      if (dict.has(name('OPI'))) report('images', 'An image has OPI information', true, location);
+      if (dict.lookup(name('Interpolate'))?.toString() === 'true') {
+        report('images', 'An image asks for interpolation', true, location);
+      }
+      if (dict.has(name('SMask'))) usesTransparency = true;
+      if (!dict.lookup(name('ImageMask'))) collectDeviceSpaces(context, dict.get(name('ColorSpace')), deviceSpaces);
+    } else if (subtype === 'Form' && stream) {
+      if (dict.has(name('OPI'))) report('images', 'A form XObject has OPI information', true, location);
+      if (dict.has(name('PS')) || nameOf(dict.lookup(name('Subtype2'))) === 'PS') {
+        report('images', 'A form XObject contains PostScript', true, location);
+      }
+      if (dict.has(name('Ref'))) report('images', 'A reference XObject points to another file', false, location);
+    } else if (subtype === 'PS' && stream) {
+      report('images', 'A PostScript XObject is used', false, location);
+    }
+
+    if (type === 'Font' || (subtype && ['Type1', 'MMType1', 'TrueType', 'Type0', 'Type3'].includes(subtype) && dict.has(name('BaseFont')))) {
+      if (subtype !== 'CIDFontType0' && subtype !== 'CIDFontType2' && !isFontEmbedded(dict)) {
+        const baseFont = nameOf(dict.lookup(name('BaseFont'))) ?? 'unnamed';
+        report('fonts', `Font ${baseFont} is not embedded`, isReplaceableFont(dict), location);
+      }
+    }
+
+    const extGState = dict.lookupMaybe(name('ExtGState'), PDFDict);
+    extGState?.values().forEach(value => {
+      const state = context.lookup(value);
+      if (!(state instanceof PDFDict)) return;
+      if (state.has(name('TR'))) report('transparency', 'A graphics state uses a transfer function (TR)', true, location);
+      const tr2 = state.lookup(name('TR2'));
+      if (tr2 && nameOf(tr2) !== 'Default') {
+        report('transparency', 'A graphics state uses a transfer function (TR2)', true, location);
+      }
+      if (state.has(name('HTP'))) report('transparency', 'A graphics state sets a halftone phase (HTP)', true, location);
+      const intent = nameOf(state.lookup(name('RI')));
+      if (intent && !RENDERING_INTENTS.includes(intent)) {
+        report('color', `Unknown rendering intent ${intent}`, true, location);
+      }
+      const blendMode = state.lookup(name('BM'));
+      const blendModes = blendMode instanceof PDFArray ? blendMode.asArray().map(nameOf) : blendMode ? [nameOf(blendMode)] : [];
+      if (blendModes.some(mode => !mode || !BLEND_MODES.includes(mode))) {
+        report('transparency', 'A graphics state uses a non-standard blend mode', true, location);
+      }
+      const opacities = ['CA', 'ca'].map(key => state.lookupMaybe(name(key), PDFNumber)?.asNumber() ?? 1);
+      if (
+        opacities.some(opacity => opacity < 1) ||
+        (state.has(name('SMask')) && nameOf(state.lookup(name('SMask'))) !== 'None') ||
+        blendModes.some(mode => mode !== 'Normal' && mode !== 'Compatible')
+      ) {
+        usesTransparency = true;
+      }
+    });
+
+    const group = dict.lookupMaybe(name('Group'), PDFDict);
+    if (group && nameOf(group.lookup(name('S'))) === 'Transparency') {
+      const groupSpaces = new Set<string>();
+      collectDeviceSpaces(context, group.get(name('CS')), groupSpaces);
+      if (groupSpaces.has('DeviceCMYK') && !outputIntents.includes(4)) {
+        report('transparency', 'A transparency group blends in DeviceCMYK without a CMYK output intent', true, location);
+      } else if (groupSpaces.has('DeviceRGB') && !outputIntents.includes(3)) {
+        report('transparency', 'A transparency group blends in DeviceRGB without an RGB output intent', true, location);
+      }
+    }
+
+    const resourceSpaces = dict.lookupMaybe(name('ColorSpace'), PDFDict);
+    if (resourceSpaces && !stream) collectDeviceSpaces(context, resourceSpaces, deviceSpaces);
+  });
+
+  contentStreams.forEach(stream => collectContentDeviceSpaces(stream, deviceSpaces));
+
+  // Colour
+  if (outputIntents.length === 0 && (deviceSpaces.size > 0 || usesTransparency)) {
+    report('outputIntent', 'Device colours or transparency are used without a PDF/A output intent', true);
+  }
+  if (new Set(outputIntents).size > 1) {
+    report('outputIntent', 'The document has more than one PDF/A output intent profile', false);
+  }
+  if (outputIntents.length > 0) {
+    if (deviceSpaces.has('DeviceRGB') && !outputIntents.includes(3)) {
+      report('color', 'DeviceRGB colours are used but the output intent is not RGB', false);
+    }
+    if (deviceSpaces.has('DeviceCMYK') && !outputIntents.includes(4)) {
+      report('color', 'DeviceCMYK colours are used but the output intent is not CMYK', false);
+    }
+  }
+
+  return Array.from(violations.values());
+};
+
+/**
+ * Check a loaded document against the PDF/A-2b requirements that can be
+ * tested without rendering it. Pass the original bytes to also check the
+ * file header.
+ */
+export const validatePDFADocument = (pdfDoc: PDFDocument, pdfBytes?: Uint8Array): PDFAValidationResult => {
+  const xmp = readXMP(pdfDoc);
+  const part = xmp && readXMPProperty(xmp, 'pdfaid:part');
+  const violations = collectViolations(pdfDoc, pdfBytes);
+
+  return {
+    conformant: violations.length === 0,
+    claimedConformance: part ? `${part}${readXMPProperty(xmp, 'pdfaid:conformance') ?? ''}` : undefined,
+    violations
+  };
+};
+
+/**
+ * Font faces convertPDFDocumentToPDFA needs a TrueType font for, one per
+ * family, weight and slant of the unembedded fonts it can replace
+ */
+export const getPDFAFontFacesToEmbed = (pdfDoc: PDFDocument): PDFAFontFace[] => {
+  const faces = new Set<PDFAFontFace>();
+  pdfDoc.context.enumerateIndirectObjects().forEach(([, object]) => {
+    if (!(object instanceof PDFDict) || nameOf(object.lookup(name('Type'))) !== 'Font') return;
+    if (isFontEmbedded(object) || !isReplaceableFont(object)) return;
+    faces.add(fontFaceOf(nameOf(object.lookup(name('BaseFont'))) ?? 'Font'));
+  });
+  return Array.from(faces);
+};
+
+/**
+ * Replace unembedded simple fonts with the supplied TrueType font of the same
+ * family, weight and slant. Fonts without a matching face stay unembedded.
+ */
+const embedReplacementFonts = (pdfDoc: PDFDocument, fonts: Partial<Record<PDFAFontFace, Uint8Array>>): string[] => {
+  const { context } = pdfDoc;
+  const fontFiles = new Map<PDFAFontFace, { ref: PDFRef; metrics: TrueTypeMetrics }>();
+  const embedded: string[] = [];
+
+  const fontFileFor = (face: PDFAFontFace) => {
+    if (!fontFiles.has(face)) {
+      const bytes = fonts[face];
+      if (!bytes) return undefined;
+      const stream = context.flateStream(bytes, { Length1: bytes.length });
+      fontFiles.set(face, { ref: context.register(stream), metrics: readTrueTypeMetrics(bytes) });
+    }
+    return fontFiles.get(face);
+  };
+
+  context.enumerateIndirectObjects().forEach(([, object]) => {
+    if (!(object instanceof PDFDict) || nameOf(object.lookup(name('Type'))) !== 'Font') return;
+    if (isFontEmbedded(object) || !isReplaceableFont(object)) return;
+
+    const baseFont = nameOf(object.lookup(name('BaseFont'))) ?? 'Font';
+    const family = fontFamilyOf(baseFont);
+    const fontFile = fontFileFor(fontFaceOf(baseFont));
+    if (!fontFile) return;
+
+    const { metrics } = fontFile;
+    const fontName = baseFont.replace(/^[A-Z]{6}\+/, '').replace(/[^A-Za-z0-9-]/g, '');
+    const widths = Array.from({ length: 224 }, (_, i) => metrics.advanceForCodePoint(winAnsiCodePoint(i + 32)) ?? 0);
+    const flags = 32 | (metrics.isFixedPitch ? 1 : 0) | (family === 'serif' ? 2 : 0) | (metrics.italicAngle !== 0 ? 64 : 0);
+
+    const descriptor = context.obj({
+      Type: 'FontDescriptor',
+      FontName: fontName,
+      Flags: flags,
+      FontBBox: metrics.bbox,
+      ItalicAngle: metrics.italicAngle,
+      Ascent: metrics.ascent,
+      Descent: metrics.descent,
+      CapHeight: metrics.capHeight,
+      StemV: 80,
+      FontFile2: fontFile.ref
+    });
+
+    object.set(name('Subtype'), name('TrueType'));
+    object.set(name('BaseFont'), name(fontName));
+    object.set(name('Encoding'), name('WinAnsiEncoding'));
+    object.set(name('FirstChar'), PDFNumber.of(32));
+    object.set(name('LastChar'), PDFNumber.of(255));
+    object.set(name('Widths'), context.obj(widths));
+    object.set(name('FontDescriptor'), context.register(descriptor));
+    embedded.push(baseFont);
+  });
+
+  return embedded;
+};
+
+const removeForbiddenActions = (context: PDFContext): number => {
+  let removed = 0;
+  visitDictionaries(context, dict => {
+    if (dict.has(name('AA'))) {
+      dict.delete(name('AA'));
+      removed++;
+    }
+    ['A', 'OpenAction', 'Next'].forEach(key => {
+      const action = dict.lookup(name(key));
+      if (!(action instanceof PDFDict)) return;
+      const type = nameOf(action.get(name('S')));
+      if (
+        (type && FORBIDDEN_ACTIONS.includes(type)) ||
+        (type === 'Named' && !ALLOWED_NAMED_ACTIONS.includes(nameOf(action.lookup(name('N'))) ?? ''))
+      ) {
+        dict.delete(name(key));
+        removed++;
+      }
+    });
+  });
+  return removed;
+};
+
+const fixAnnotations = (page: PDFPage): number => {
+  const annots = page.node.lookupMaybe(name('Annots'), PDFArray);
+  if (!annots) return 0;
+
+  let changes = 0;
+  for (let i = annots.size() - 1; i >= 0; i--) {
+    const annotation = annots.lookup(i);
+    if (!(annotation instanceof PDFDict)) continue;
+    const subtype = nameOf(annotation.lookup(name('Subtype'))) ?? '';
+
+    if (FORBIDDEN_ANNOTATIONS.includes(subtype) || subtype === 'FileAttachment') {
+      annots.remove(i);
+      changes++;
+      continue;
+    }
+    if (subtype !== 'Popup') {
+      const flags = annotation.lookupMaybe(name('F'), PDFNumber)?.asNumber() ?? 0;
+      const fixedFlags = (flags | 4) & ~(1 | 2 | 32 | 256);
+      if (fixedFlags !== flags || !annotation.has(name('F'))) {
+        annotation.set(name('F'), PDFNumber.of(fixedFlags));
+        changes++;
+      }
+    }
+    const appearance = annotation.lookupMaybe(name('AP'), PDFDict);
+    if (appearance) {
+      ['R', 'D'].forEach(key => {
+        if (appearance.has(name(key))) {
+          appearance.delete(name(key));
+          changes++;
+        }
+      });
+    }
+  }
+  return changes;
+};
+
+const fixGraphicsStates = (context: PDFContext): number => {
+  let changes = 0;
+  visitDictionaries(context, (dict, _ref, stream) => {
+    dict.lookupMaybe(name('ExtGState'), PDFDict)?.values().forEach(value => {
+      const state = context.lookup(value);
+      if (!(state instanceof PDFDict)) return;
+      ['TR', 'HTP'].forEach(key => {
+        if (state.has(name(key))) {
+          state.delete(name(key));
+          changes++;
+        }
+      });
+      const tr2 = state.lookup(name('TR2'));
+      if (tr2 && nameOf(tr2) !== 'Default') {
+        state.set(name('TR2'), name('Default'));
+        changes++;
+      }
+      const intent = nameOf(state.lookup(name('RI')));
+      if (intent && !RENDERING_INTENTS.includes(intent)) {
+        state.set(name('RI'), name('RelativeColorimetric'));
+        changes++;
+      }
+      const blendMode = state.lookup(name('BM'));
+      const blendModes = blendMode instanceof PDFArray ? blendMode.asArray().map(nameOf) : blendMode ? [nameOf(blendMode)] : [];
+      if (blendModes.some(mode => !mode || !BLEND_MODES.includes(mode))) {
+        state.set(name('BM'), name(blendModes.find(mode => mode && BLEND_MODES.includes(mode)) ?? 'Normal'));
+        changes++;
+      }
+    });
+
+    // The output intent is RGB, so device groups blend in DeviceRGB
+    const group = dict.lookupMaybe(name('Group'), PDFDict);
+    if (group && nameOf(group.lookup(name('S'))) === 'Transparency') {
+      const groupSpace = nameOf(group.lookup(name('CS')));
+      if (groupSpace === 'DeviceCMYK') {
+        group.set(name('CS'), name('DeviceRGB'));
+        changes++;
+      }
+    }
+
+    if (stream && nameOf(dict.lookup(name('Subtype'))) === 'Image') {
+      ['Alternates', 'OPI'].forEach(key => {
+        if (dict.has(name(key))) {
+          dict.delete(name(key));
+          changes++;
+        }
+      });
+      if (dict.lookup(name('Interpolate'))?.toString() === 'true') {
+        dict.delete(name('Interpolate'));
+        changes++;
+      }
+    } else if (stream && nameOf(dict.lookup(name('Subtype'))) === 'Form') {
+      ['OPI', 'PS', 'Subtype2'].forEach(key => {
+        if (dict.has(name(key))) {
+          dict.delete(name(key));
+          changes++;
+        }
+      });
+    }
+  });
+  return changes;
+};
+
+/**
+ * Convert a decrypted document to PDF/A-2b in place: embed fonts, add an
+ * sRGB output intent and PDF/A XMP metadata, and strip JavaScript, forbidden
+ * actions and annotations, embedded files and transparency settings the
+ * standard does not allow. Problems that cannot be repaired automatically
+ * are returned as violations, and the XMP only identifies the file as
+ * PDF/A-2b when none remain.
+ */
+export const convertPDFDocumentToPDFA = async (
+  pdfDoc: PDFDocument,
+  options: PDFAConversionOptions = {}
+): Promise<PDFAConversionReport> => {
+  const { context, catalog } = pdfDoc;
+  const fixes: string[] = [];
+
+  if (context.trailerInfo.Encrypt) {
+    throw new Error('Decrypt the PDF before converting it to PDF/A');
+  }
+
+  const embeddedFonts = embedReplacementFonts(pdfDoc, options.fonts ?? {});
+  if (embeddedFonts.length > 0) {
+    fixes.push(`Embedded fonts for ${Array.from(new Set(embeddedFonts)).join(', ')}`);
+  }
+
+  if (readOutputIntentComponents(pdfDoc).length === 0) {
+    const profile = buildSRGBProfile();
+    const profileRef = context.register(context.flateStream(profile, { N: 3 }));
+    const intent = context.register(context.obj({
+      Type: 'OutputIntent',
+      S: 'GTS_PDFA1',
+      OutputConditionIdentifier: PDFString.of(SRGB_IDENTIFIER),
+      Info: PDFString.of(SRGB_IDENTIFIER),
+      RegistryName: PDFString.of('http://www.color.org'),
+      DestOutputProfile: profileRef
+    }));
+    catalog.set(name('OutputIntents'), context.obj([intent]));
+    fixes.push('Added an sRGB output intent');
+  }
+
+  // Document-level features PDF/A does not allow
+  const names = catalog.lookupMaybe(name('Names'), PDFDict);
+  if (names?.has(name('JavaScript'))) {
+    names.delete(name('JavaScript'));
+    fixes.push('Removed document JavaScript');
+  }
+  if (names?.has(name('EmbeddedFiles'))) {
+    names.delete(name('EmbeddedFiles'));
+    fixes.push('Removed embedded files');
+  }
+  names?.delete(name('AlternatePresentations'));
+  catalog.delete(name('NeedsRendering'));
+
+  const acroForm = catalog.lookupMaybe(name('AcroForm'), PDFDict);
+  if (acroForm?.has(name('XFA'))) {
+    acroForm.delete(name('XFA'));
+    fixes.push('Removed XFA form data');
+  }
+  acroForm?.delete(name('NeedAppearances'));
+
+  const perms = catalog.lookupMaybe(name('Perms'), PDFDict);
+  perms?.keys().forEach(key => {
+    if (!['UR3', 'DocMDP'].includes(key.decodeText())) perms.delete(key);
+  });
+
+  const ocProperties = catalog.lookupMaybe(name('OCProperties'), PDFDict);
+  if (ocProperties) {
+    const configs = [
+      ocProperties.lookupMaybe(name('D'), PDFDict),
+      ...(ocProperties.lookupMaybe(name('Configs'), PDFArray)?.asArray().map(value => context.lookup(value)) ?? [])
+    ];
+    configs.forEach((config, index) => {
+      if (!(config instanceof PDFDict)) return;
+      if (!config.has(name('Name'))) config.set(name('Name'), PDFString.of(index === 0 ? 'Default' : `Configuration ${index}`));
+      config.delete(name('AS'));
+    });
+  }
+
+  const removedActions = removeForbiddenActions(context);
+  if (removedActions > 0) fixes.push(`Removed ${removedActions} JavaScript or other forbidden action(s)`);
+
+  let annotationChanges = 0;
+  pdfDoc.getPages().forEach(page => {
+    annotationChanges += fixAnnotations(page);
+    page.node.delete(name('PresSteps'));
+  });
+  if (annotationChanges > 0) fixes.push(`Fixed ${annotationChanges} annotation setting(s)`);
+
+  const graphicsChanges = fixGraphicsStates(context);
+  if (graphicsChanges > 0) fixes.push(`Fixed ${graphicsChanges} transparency and image setting(s)`);
+
+  if (!context.trailerInfo.ID) {
+    const id = PDFHexString.of(Array.from(crypto.getRandomValues(new Uint8Array(16)), b => b.toString(16).padStart(2, '0')).join(''));
+    context.trailerInfo.ID = context.obj([id, id]);
+    fixes.push('Added a file identifier');
+  }
+
+  writeXMP(pdfDoc, buildXMPPacket(pdfDoc));
+  const violations = collectViolations(pdfDoc);
+  if (violations.length === 0) {
+    fixes.push('Wrote PDF/A-2b XMP metadata');
+  } else {
+    writeXMP(pdfDoc, buildXMPPacket(pdfDoc, null));
+    fixes.push('Wrote XMP metadata without the PDF/A-2b identification until the remaining violations are fixed');
+  }
+
+  return { fixes, violations, conformant: violations.length === 0 };
+};
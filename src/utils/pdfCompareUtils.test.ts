@@ -0,0 +1,100 @@
+import { describe, expect, it } from 'vitest';
+import { alignPages, buildPDFComparisonReport, diffWords, findChangedRegions, tokenizeWords } from './pdfCompareUtils';
+
+const words = (text: string) => tokenizeWords(text);
+
+describe('alignPages', () => {
+  const intro = words('Introduction to the quarterly report for the board');
+  const results = words('Results improved across every region this quarter');
+  const outlook = words('Outlook for next year remains cautious but positive');
+  const appendix = words('Appendix with tables of raw figures and sources');
+
+  it('pairs identical documents page by page', () => {
+    expect(alignPages([intro, results], [intro, results])).toEqual([
+      { pageA: 0, pageB: 0 },
+      { pageA: 1, pageB: 1 }
+    ]);
+  });
+
+  it('keeps later pages paired when a page is inserted', () => {
+    expect(alignPages([intro, results, outlook], [intro, appendix, results, outlook])).toEqual([
+      { pageA: 0, pageB: 0 },
+      { pageA: null, pageB: 1 },
+      { pageA: 1, pageB: 2 },
+      { pageA: 2, pageB: 3 }
+    ]);
+  });
+
+  it('reports a removed page as only in the first document', () => {
+    expect(alignPages([intro, appendix, outlook], [intro, outlook])).toEqual([
+      { pageA: 0, pageB: 0 },
+      { pageA: 1, pageB: null },
+      { pageA: 2, pageB: 1 }
+    ]);
+  });
+
+  it('pairs a lightly edited page with its original', () => {
+    const edited = words('Results improved across most regions this quarter');
+    expect(alignPages([intro, results], [intro, edited])).toEqual([
+      { pageA: 0, pageB: 0 },
+      { pageA: 1, pageB: 1 }
+    ]);
+  });
+});
+
+describe('diffWords', () => {
+  it('returns one equal run for identical texts', () => {
+    expect(diffWords(words('the same text'), words('the same text'))).toEqual([{ type: 'equal', text: 'the same text' }]);
+  });
+
+  it('marks replaced, inserted and deleted words', () => {
+    expect(diffWords(words('pay the fee within 30 days'), words('pay the late fee within 14 days'))).toEqual([
+      { type: 'equal', text: 'pay the' },
+      { type: 'insert', text: 'late' },
+      { type: 'equal', text: 'fee within' },
+      { type: 'delete', text: '30' },
+      { type: 'insert', text: '14' },
+      { type: 'equal', text: 'days' }
+    ]);
+  });
+
+  it('handles an empty side', () => {
+    expect(diffWords([], words('new text'))).toEqual([{ type: 'insert', text: 'new text' }]);
+    expect(diffWords(words('old text'), [])).toEqual([{ type: 'delete', text: 'old text' }]);
+  });
+});
+
+describe('findChangedRegions', () => {
+  const maskWith = (width: number, height: number, pixels: Array<[number, number]>) => {
+    const mask = new Uint8Array(width * height);
+    pixels.forEach(([x, y]) => { mask[y * width + x] = 1; });
+    return mask;
+  };
+
+  it('finds nothing in an empty mask', () => {
+    expect(findChangedRegions(new Uint8Array(64 * 64), 64, 64)).toEqual([]);
+  });
+
+  it('groups nearby changes and keeps distant ones apart', () => {
+    const mask = maskWith(100, 100, [[2, 2], [12, 3], [90, 90]]);
+    expect(findChangedRegions(mask, 100, 100)).toEqual([
+      { x: 0, y: 0, width: 16, height: 8 },
+      { x: 88, y: 88, width: 8, height: 8 }
+    ]);
+  });
+});
+
+describe('buildPDFComparisonReport', () => {
+  it('lays out a summary page and a page per change', async () => {
+    const report = await buildPDFComparisonReport([
+      { pageA: 0, pageB: 0, status: 'unchanged', pixelDifference: 0, regions: [], overlay: '', textChanges: [] },
+      {
+        pageA: 1, pageB: 1, status: 'changed', pixelDifference: 0.02, regions: [], overlay: '',
+        textChanges: [{ type: 'equal', text: 'pay' }, { type: 'delete', text: '30' }, { type: 'insert', text: '14' }]
+      }
+    ], { a: 'a.pdf', b: 'b.pdf' });
+
+    expect(report.getTitle()).toBe('Comparison of a.pdf and b.pdf');
+    expect(report.getPageCount()).toBeGreaterThanOrEqual(2);
+  });
+});
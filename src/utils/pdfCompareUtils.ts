@@ -0,0 +1,363 @@
+// src/utils/pdfCompareUtils.ts
+// Page alignment, word diffs, changed-region detection and the downloadable
+// report for comparing two versions of a PDF.
+import { PDFDocument, PDFPage, StandardFonts, rgb } from 'pdf-lib';
+import { toStandardFontText } from './pdfObjectUtils';
+
+export interface PDFPageAlignment {
+  /** Zero-based page in the first document, or null for a page only in the second */
+  pageA: number | null;
+  /** Zero-based page in the second document, or null for a page only in the first */
+  pageB: number | null;
+}
+
+export interface PDFTextChange {
+  type: 'equal' | 'insert' | 'delete';
+  text: string;
+}
+
+export interface PDFDiffRegion {
+  /** In PDF points from the bottom-left corner of the page as displayed */
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface PDFPageComparison extends PDFPageAlignment {
+  status: 'unchanged' | 'changed' | 'inserted' | 'deleted';
+  /** Share of the page's pixels that differ, from 0 to 1 */
+  pixelDifference: number;
+  regions: PDFDiffRegion[];
+  /** PNG data URL of the page with differences highlighted; empty when unchanged */
+  overlay: string;
+  textChanges: PDFTextChange[];
+}
+
+// Pages sharing less text than this are treated as different pages
+const MIN_PAGE_SIMILARITY = 0.25;
+// Above this many cells the word diff falls back to replacing the changed middle
+const MAX_DIFF_CELLS = 4_000_000;
+const MAX_REGIONS = 200;
+
+export const tokenizeWords = (text: string): string[] => text.split(/\s+/).filter(Boolean);
+
+/** Dice coefficient of two pages' words, counting repeats */
+const pageSimilarity = (a: string[], b: string[]): number => {
+  if (a.length === 0 && b.length === 0) return 1;
+  const counts = new Map<string, number>();
+  a.forEach(word => counts.set(word, (counts.get(word) ?? 0) + 1));
+  let common = 0;
+  b.forEach(word => {
+    const count = counts.get(word) ?? 0;
+    if (count > 0) {
+      common++;
+      counts.set(word, count - 1);
+    }
+  });
+  return (2 * common) / (a.length + b.length);
+};
+
+/**
+ * Pair up the pages of two documents by their text, so inserted or removed
+ * pages do not make every later page look changed
+ */
+export const alignPages = (wordsA: string[][], wordsB: string[][]): PDFPageAlignment[] => {
+  const rows = wordsA.length + 1;
+  const columns = wordsB.length + 1;
+  const similarity = wordsA.map(a => wordsB.map(b => pageSimilarity(a, b)));
+  const score = new Float64Array(rows * columns);
+
+  for (let i = 1; i < rows; i++) {
+    for (let j = 1; j < columns; j++) {
+      const paired = similarity[i - 1][j - 1] >= MIN_PAGE_SIMILARITY
+        ? score[(i - 1) * columns + j - 1] + similarity[i - 1][j - 1]
+        : -Infinity;
+      score[i * columns + j] = Math.max(paired, score[(i - 1) * columns + j], score[i * columns + j - 1]);
+    }
+  }
+
+  // Walk back from the end, preferring to pair pages
+  const alignment: PDFPageAlignment[] = [];
+  let i = rows - 1;
+  let j = columns - 1;
+  while (i > 0 || j > 0) {
+    const current = score[i * columns + j];
+    if (i > 0 && j > 0 && similarity[i - 1][j - 1] >= MIN_PAGE_SIMILARITY &&
+      current === score[(i - 1) * columns + j - 1] + similarity[i - 1][j - 1]) {
+      alignment.push({ pageA: --i, pageB: --j });
+    } else if (i > 0 && (j === 0 || current === score[(i - 1) * columns + j])) {
+      alignment.push({ pageA: --i, pageB: null });
+    } else {
+      alignment.push({ pageA: null, pageB: --j });
+    }
+  }
+  return alignment.reverse();
+};
+
+/** Append words to a change list, merging with the previous change of the same type */
+const pushChange = (changes: PDFTextChange[], type: PDFTextChange['type'], words: string[]) => {
+  if (words.length === 0) return;
+  const last = changes[changes.length - 1];
+  if (last?.type === type) {
+    last.text += ` ${words.join(' ')}`;
+  } else {
+    changes.push({ type, text: words.join(' ') });
+  }
+};
+
+/**
+ * Word-level diff of two texts as runs of equal, deleted and inserted words
+ */
+export const diffWords = (a: string[], b: string[]): PDFTextChange[] => {
+  // Trim the common start and end so the table only covers the changed middle
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let end = 0;
+  while (end < a.length - start && end < b.length - start && a[a.length - 1 - end] === b[b.length - 1 - end]) end++;
+
+  const middleA = a.slice(start, a.length - end);
+  const middleB = b.slice(start, b.length - end);
+  const changes: PDFTextChange[] = [];
+  pushChange(changes, 'equal', a.slice(0, start));
+
+  if ((middleA.length + 1) * (middleB.length + 1) > MAX_DIFF_CELLS) {
+    pushChange(changes, 'delete', middleA);
+    pushChange(changes, 'insert', middleB);
+  } else {
+    // Longest common subsequence lengths of every pair of suffixes
+    const columns = middleB.length + 1;
+    const lengths = new Uint32Array((middleA.length + 1) * columns);
+    for (let i = middleA.length - 1; i >= 0; i--) {
+      for (let j = middleB.length - 1; j >= 0; j--) {
+        lengths[i * columns + j] = middleA[i] === middleB[j]
+          ? lengths[(i + 1) * columns + j + 1] + 1
+          : Math.max(lengths[(i + 1) * columns + j], lengths[i * columns + j + 1]);
+      }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < middleA.length || j < middleB.length) {
+      if (i < middleA.length && j < middleB.length && middleA[i] === middleB[j]) {
+        pushChange(changes, 'equal', [middleA[i++]]);
+        j++;
+      } else if (j >= middleB.length || (i < middleA.length && lengths[(i + 1) * columns + j] >= lengths[i * columns + j + 1])) {
+        pushChange(changes, 'delete', [middleA[i++]]);
+      } else {
+        pushChange(changes, 'insert', [middleB[j++]]);
+      }
+    }
+  }
+
+  pushChange(changes, 'equal', a.slice(a.length - end));
+  return changes;
+};
+
+/**
+ * Group changed pixels into rectangles. The mask is split into square cells,
+ * and changed cells up to two cells apart end up in the same region.
+ * Regions are returned in pixels from the top-left corner.
+ */
+export const findChangedRegions = (
+  mask: Uint8Array,
+  width: number,
+  height: number,
+  cellSize = 8
+): PDFDiffRegion[] => {
+  const cellColumns = Math.ceil(width / cellSize);
+  const cellRows = Math.ceil(height / cellSize);
+  const changed = new Uint8Array(cellColumns * cellRows);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (mask[y * width + x]) changed[Math.floor(y / cellSize) * cellColumns + Math.floor(x / cellSize)] = 1;
+    }
+  }
+
+  const regions: PDFDiffRegion[] = [];
+  const visited = new Uint8Array(changed.length);
+  for (let start = 0; start < changed.length && regions.length < MAX_REGIONS; start++) {
+    if (!changed[start] || visited[start]) continue;
+
+    let minColumn = cellColumns;
+    let minRow = cellRows;
+    let maxColumn = 0;
+    let maxRow = 0;
+    const stack = [start];
+    visited[start] = 1;
+    while (stack.length > 0) {
+      const cell = stack.pop() as number;
+      const column = cell % cellColumns;
+      const row = Math.floor(cell / cellColumns);
+      minColumn = Math.min(minColumn, column);
+      maxColumn = Math.max(maxColumn, column);
+      minRow = Math.min(minRow, row);
+      maxRow = Math.max(maxRow, row);
+
+      for (let dy = -2; dy <= 2; dy++) {
+        for (let dx = -2; dx <= 2; dx++) {
+          const nextColumn = column + dx;
+          const nextRow = row + dy;
+          if (nextColumn < 0 || nextRow < 0 || nextColumn >= cellColumns || nextRow >= cellRows) continue;
+          const next = nextRow * cellColumns + nextColumn;
+          if (changed[next] && !visited[next]) {
+            visited[next] = 1;
+            stack.push(next);
+          }
+        }
+      }
+    }
+
+    const x = minColumn * cellSize;
+    const y = minRow * cellSize;
+    regions.push({
+      x,
+      y,
+      width: Math.min(width, (maxColumn + 1) * cellSize) - x,
+      height: Math.min(height, (maxRow + 1) * cellSize) - y
+    });
+  }
+  return regions;
+};
+
+const REPORT_PAGE_SIZE: [number, number] = [595, 842];
+const REPORT_MARGIN = 50;
+const REPORT_TEXT_SIZE = 10;
+const REPORT_LINE_HEIGHT = 14;
+// Unchanged words kept either side of a change in the report
+const CONTEXT_WORDS = 8;
+
+const pageLabel = (page: number | null) => (page === null ? '-' : `${page + 1}`);
+
+/**
+ * Lay out a comparison as a PDF: a summary page, then for each page that
+ * differs its highlighted overlay and the inserted and deleted words
+ */
+export const buildPDFComparisonReport = async (
+  comparisons: PDFPageComparison[],
+  names: { a: string; b: string }
+): Promise<PDFDocument> => {
+  const report = await PDFDocument.create();
+  const font = await report.embedFont(StandardFonts.Helvetica);
+  const boldFont = await report.embedFont(StandardFonts.HelveticaBold);
+  const [pageWidth, pageHeight] = REPORT_PAGE_SIZE;
+  const textWidth = pageWidth - REPORT_MARGIN * 2;
+  report.setTitle(`Comparison of ${names.a} and ${names.b}`);
+
+  let page: PDFPage = report.addPage(REPORT_PAGE_SIZE);
+  let y = pageHeight - REPORT_MARGIN;
+
+  const ensureSpace = (needed: number) => {
+    if (y - needed < REPORT_MARGIN) {
+      page = report.addPage(REPORT_PAGE_SIZE);
+      y = pageHeight - REPORT_MARGIN;
+    }
+  };
+  const writeLine = (text: string, options: { size?: number; bold?: boolean; color?: [number, number, number] } = {}) => {
+    const size = options.size ?? REPORT_TEXT_SIZE;
+    ensureSpace(size * 1.4);
+    y -= size * 1.4;
+    page.drawText(toStandardFontText(text, font), {
+      x: REPORT_MARGIN,
+      y,
+      size,
+      font: options.bold ? boldFont : font,
+      color: rgb(...(options.color ?? [0, 0, 0]))
+    });
+  };
+
+  // Summary
+  const count = (status: PDFPageComparison['status']) => comparisons.filter(c => c.status === status).length;
+  writeLine('PDF Comparison Report', { size: 18, bold: true });
+  y -= 6;
+  writeLine(`Original: ${names.a}`);
+  writeLine(`Revised: ${names.b}`);
+  writeLine(`Compared: ${new Date().toLocaleString()}`);
+  y -= 6;
+  writeLine(`${count('changed')} changed, ${count('inserted')} inserted, ${count('deleted')} deleted and ${count('unchanged')} unchanged pages`, { bold: true });
+  y -= 6;
+  comparisons.forEach(comparison => {
+    const inserted = comparison.textChanges.filter(change => change.type === 'insert')
+      .reduce((sum, change) => sum + tokenizeWords(change.text).length, 0);
+    const deleted = comparison.textChanges.filter(change => change.type === 'delete')
+      .reduce((sum, change) => sum + tokenizeWords(change.text).length, 0);
+    writeLine(
+      `Page ${pageLabel(comparison.pageA)} -> ${pageLabel(comparison.pageB)}: ${comparison.status}` +
+        (comparison.status === 'changed'
+          ? `, ${comparison.regions.length} region(s), ${inserted} word(s) inserted, ${deleted} deleted`
+          : ''),
+      { color: comparison.status === 'unchanged' ? [0.4, 0.4, 0.4] : [0, 0, 0] }
+    );
+  });
+
+  // One section per page that differs
+  for (const comparison of comparisons) {
+    if (comparison.status === 'unchanged') continue;
+
+    page = report.addPage(REPORT_PAGE_SIZE);
+    y = pageHeight - REPORT_MARGIN;
+    writeLine(`Page ${pageLabel(comparison.pageA)} -> ${pageLabel(comparison.pageB)} (${comparison.status})`, { size: 14, bold: true });
+    y -= 8;
+
+    if (comparison.overlay) {
+      const image = await report.embedPng(comparison.overlay);
+      const scale = Math.min(textWidth / image.width, (pageHeight / 2) / image.height, 1);
+      y -= image.height * scale;
+      page.drawImage(image, { x: REPORT_MARGIN, y, width: image.width * scale, height: image.height * scale });
+      page.drawRectangle({
+        x: REPORT_MARGIN,
+        y,
+        width: image.width * scale,
+        height: image.height * scale,
+        borderColor: rgb(0.7, 0.7, 0.7),
+        borderWidth: 0.5
+      });
+      y -= 12;
+    }
+
+    if (!comparison.textChanges.some(change => change.type !== 'equal')) {
+      writeLine('No text changes; the differences are visual only.', { color: [0.4, 0.4, 0.4] });
+      continue;
+    }
+
+    // Flow the words, striking deletions in red and underlining insertions in green,
+    // with long unchanged stretches cut down to a little context
+    const words: { text: string; type: PDFTextChange['type'] }[] = [];
+    comparison.textChanges.forEach((change, index) => {
+      const changeWords = tokenizeWords(change.text);
+      if (change.type !== 'equal' || changeWords.length <= CONTEXT_WORDS * 2) {
+        changeWords.forEach(text => words.push({ text, type: change.type }));
+        return;
+      }
+      const head = index > 0 ? changeWords.slice(0, CONTEXT_WORDS) : [];
+      const tail = index < comparison.textChanges.length - 1 ? changeWords.slice(-CONTEXT_WORDS) : [];
+      head.forEach(text => words.push({ text, type: 'equal' }));
+      words.push({ text: '...', type: 'equal' });
+      tail.forEach(text => words.push({ text, type: 'equal' }));
+    });
+
+    const spaceWidth = font.widthOfTextAtSize(' ', REPORT_TEXT_SIZE);
+    let x = REPORT_MARGIN;
+    ensureSpace(REPORT_LINE_HEIGHT);
+    y -= REPORT_LINE_HEIGHT;
+    words.forEach(word => {
+      const text = toStandardFontText(word.text, font);
+      const width = Math.min(font.widthOfTextAtSize(text, REPORT_TEXT_SIZE), textWidth);
+      if (x > REPORT_MARGIN && x + width > REPORT_MARGIN + textWidth) {
+        x = REPORT_MARGIN;
+        ensureSpace(REPORT_LINE_HEIGHT);
+        y -= REPORT_LINE_HEIGHT;
+      }
+
+      const color = word.type === 'insert' ? rgb(0, 0.5, 0) : word.type === 'delete' ? rgb(0.8, 0, 0) : rgb(0, 0, 0);
+      page.drawText(text, { x, y, size: REPORT_TEXT_SIZE, font, color });
+      if (word.type !== 'equal') {
+        const lineY = word.type === 'delete' ? y + REPORT_TEXT_SIZE * 0.3 : y - 1.5;
+        page.drawLine({ start: { x, y: lineY }, end: { x: x + width, y: lineY }, thickness: 0.75, color });
+      }
+      x += width + spaceWidth;
+    });
+  }
+
+  return report;
+};
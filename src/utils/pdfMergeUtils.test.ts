@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest';
+import { PDFArray, PDFDict, PDFDocument, PDFName, PDFNumber, PDFString } from 'pdf-lib';
+import { readPDFOutline, writePDFOutline } from './pdfOutlineUtils';
+import { mergePDFDocuments } from './pdfMergeUtils';
+
+/** A document with a text field on its only page, reloaded as a user would open it */
+const formDocument = async (fieldName: string, value: string) => {
+  const pdfDoc = await PDFDocument.create();
+  const page = pdfDoc.addPage([300, 300]);
+  const field = pdfDoc.getForm().createTextField(fieldName);
+  field.setText(value);
+  field.addToPage(page, { x: 20, y: 200, width: 200, height: 24 });
+  return PDFDocument.load(await pdfDoc.save());
+};
+
+const blankDocument = async (pageCount: number) => {
+  const pdfDoc = await PDFDocument.create();
+  for (let i = 0; i < pageCount; i++) pdfDoc.addPage([300, 300]);
+  return pdfDoc;
+};
+
+describe('mergePDFDocuments', () => {
+  it('keeps the form fields of every source and renames clashing ones', async () => {
+    const merged = await mergePDFDocuments([
+      { doc: await formDocument('name', 'Ana'), title: 'First' },
+      { doc: await formDocument('name', 'Ben'), title: 'Second' },
+      { doc: await formDocument('name', 'Cy'), title: 'Third' }
+    ]);
+    const form = (await PDFDocument.load(await merged.save())).getForm();
+
+    expect(form.getFields().map(field => field.getName())).toEqual(['name', 'name_2', 'name_3']);
+    expect(form.getTextField('name_2').getText()).toBe('Ben');
+    expect(form.getTextField('name_3').getText()).toBe('Cy');
+  });
+
+  it('offsets bookmarks and nests them under a bookmark per file', async () => {
+    const first = await blankDocument(2);
+    writePDFOutline(first, [{ title: 'Summary', pageIndex: 1, children: [] }]);
+    const second = await blankDocument(3);
+    writePDFOutline(second, [{ title: 'Appendix', pageIndex: 2, children: [] }]);
+
+    const merged = await mergePDFDocuments(
+      [{ doc: first, title: 'Report' }, { doc: second, title: 'Annex' }],
+      { bookmarkFiles: true }
+    );
+    const outline = readPDFOutline(merged);
+
+    expect(outline.map(({ title, pageIndex }) => ({ title, pageIndex }))).toEqual([
+      { title: 'Report', pageIndex: 0 },
+      { title: 'Annex', pageIndex: 2 }
+    ]);
+    expect(outline[1].children.map(({ title, pageIndex }) => ({ title, pageIndex }))).toEqual([
+      { title: 'Appendix', pageIndex: 4 }
+    ]);
+  });
+
+  it('starts with a table of contents linking to each file', async () => {
+    const merged = await mergePDFDocuments(
+      [{ doc: await blankDocument(2), title: 'Report' }, { doc: await blankDocument(1), title: '報告書' }],
+      { tableOfContents: true }
+    );
+
+    expect(merged.getPageCount()).toBe(4);
+    const links = merged.getPage(0).node.Annots()!.asArray().map(ref => merged.context.lookup(ref, PDFDict));
+    const targets = links.map(link => merged.getPages().findIndex(page => page.ref === link.lookup(PDFName.of('Dest'), PDFArray).get(0)));
+    expect(targets).toEqual([1, 3]);
+  });
+
+  it('keeps page labels and numbers the contents pages in roman numerals', async () => {
+    const labelled = await blankDocument(2);
+    labelled.catalog.set(PDFName.of('PageLabels'), labelled.context.obj({
+      Nums: [0, { S: 'D', P: PDFString.of('A-') }]
+    }));
+
+    const merged = await mergePDFDocuments(
+      [{ doc: await blankDocument(1), title: 'Cover' }, { doc: labelled, title: 'Annex' }],
+      { tableOfContents: true }
+    );
+    const nums = merged.catalog.lookup(PDFName.of('PageLabels'), PDFDict).lookup(PDFName.of('Nums'), PDFArray);
+    const ranges = [];
+    for (let i = 0; i + 1 < nums.size(); i += 2) {
+      const label = nums.lookup(i + 1, PDFDict);
+      ranges.push([
+        nums.lookup(i, PDFNumber).asNumber(),
+        label.get(PDFName.of('S'))?.toString(),
+        label.lookupMaybe(PDFName.of('P'), PDFString)?.decodeText()
+      ]);
+    }
+
+    expect(ranges).toEqual([[0, '/r', undefined], [1, '/D', undefined], [2, '/D', 'A-']]);
+  });
+});
@@ -0,0 +1,315 @@
+// src/utils/pdfMergeUtils.ts
+// Merging PDFs with pdf-lib while keeping form fields, links, bookmarks and
+// page labels working in the combined document.
+import {
+  PDFArray,
+  PDFDict,
+  PDFDocument,
+  PDFFont,
+  PDFHexString,
+  PDFName,
+  PDFNull,
+  PDFNumber,
+  PDFObject,
+  PDFObjectCopier,
+  PDFPage,
+  PDFPageLeaf,
+  PDFRef,
+  PDFString,
+  StandardFonts,
+  rgb
+} from 'pdf-lib';
+import { readPDFOutline, remapBookmarkPages, resolveExplicitDestination, writePDFOutline, PDFBookmark } from './pdfOutlineUtils';
+import { toStandardFontText } from './pdfObjectUtils';
+
+export interface PDFMergeSource {
+  doc: PDFDocument;
+  /** Shown in the table of contents and, when bookmarking files, as the file's bookmark */
+  title: string;
+}
+
+export interface PDFMergeOptions {
+  /** Add a top-level bookmark per source with its own bookmarks nested below it */
+  bookmarkFiles?: boolean;
+  /** Start with generated pages listing each source with a link to its first page */
+  tableOfContents?: boolean;
+}
+
+interface PageLabelRange {
+  startIndex: number;
+  label: PDFDict;
+}
+
+const TOC_MARGIN = 56;
+const TOC_TITLE_SIZE = 22;
+const TOC_ENTRY_SIZE = 12;
+const TOC_LINE_HEIGHT = 24;
+
+const textOf = (value: PDFObject | undefined): string | undefined =>
+  value instanceof PDFString || value instanceof PDFHexString ? value.decodeText() : undefined;
+
+/** Flatten the catalog's PageLabels number tree */
+const readPageLabels = (pdfDoc: PDFDocument): PageLabelRange[] => {
+  const ranges: PageLabelRange[] = [];
+  const visit = (node: PDFDict | undefined, depth: number) => {
+    if (!node || depth > 32) return;
+    const nums = node.lookupMaybe(PDFName.of('Nums'), PDFArray);
+    for (let i = 0; nums && i + 1 < nums.size(); i += 2) {
+      const startIndex = nums.lookupMaybe(i, PDFNumber)?.asNumber();
+      const label = nums.lookup(i + 1);
+      if (startIndex !== undefined && label instanceof PDFDict) ranges.push({ startIndex, label });
+    }
+    const kids = node.lookupMaybe(PDFName.of('Kids'), PDFArray);
+    for (let i = 0; kids && i < kids.size(); i++) visit(kids.lookupMaybe(i, PDFDict), depth + 1);
+  };
+  visit(pdfDoc.catalog.lookupMaybe(PDFName.of('PageLabels'), PDFDict), 0);
+  return ranges.sort((a, b) => a.startIndex - b.startIndex);
+};
+
+const toRoman = (value: number): string => {
+  const numerals: [number, string][] = [
+    [1000, 'm'], [900, 'cm'], [500, 'd'], [400, 'cd'], [100, 'c'], [90, 'xc'],
+    [50, 'l'], [40, 'xl'], [10, 'x'], [9, 'ix'], [5, 'v'], [4, 'iv'], [1, 'i']
+  ];
+  let remaining = value;
+  return numerals.reduce((result, [amount, numeral]) => {
+    while (remaining >= amount) {
+      result += numeral;
+      remaining -= amount;
+    }
+    return result;
+  }, '');
+};
+
+/** The label a reader shows for a page, e.g. "iv" or "A-3" */
+const formatPageLabel = (pageIndex: number, ranges: PageLabelRange[]): string => {
+  const range = [...ranges].reverse().find(candidate => candidate.startIndex <= pageIndex);
+  if (!range) return String(pageIndex + 1);
+
+  const { label } = range;
+  const style = label.lookupMaybe(PDFName.of('S'), PDFName)?.decodeText();
+  const value = (label.lookupMaybe(PDFName.of('St'), PDFNumber)?.asNumber() ?? 1) + pageIndex - range.startIndex;
+  const prefix = textOf(label.lookup(PDFName.of('P'))) ?? '';
+  const letters = String.fromCharCode(65 + ((value - 1) % 26)).repeat(Math.floor((value - 1) / 26) + 1);
+
+  const number = style === 'D' ? String(value)
+    : style === 'R' ? toRoman(value).toUpperCase()
+      : style === 'r' ? toRoman(value)
+        : style === 'A' ? letters
+          : style === 'a' ? letters.toLowerCase()
+            : '';
+  return prefix + number;
+};
+
+/**
+ * Point links that use named destinations straight at their pages, since
+ * the Names tree of the source is not carried into the merged document
+ */
+const inlineNamedDestinations = (pdfDoc: PDFDocument) => {
+  const isNamed = (value: PDFObject | undefined) =>
+    value instanceof PDFName || value instanceof PDFString || value instanceof PDFHexString;
+
+  pdfDoc.getPages().forEach(page => {
+    page.node.lookupMaybe(PDFName.of('Annots'), PDFArray)?.asArray().forEach(value => {
+      const annotation = pdfDoc.context.lookup(value);
+      if (!(annotation instanceof PDFDict)) return;
+
+      const destination = annotation.get(PDFName.of('Dest'));
+      if (isNamed(destination)) {
+        const explicit = resolveExplicitDestination(pdfDoc, destination);
+        if (explicit) annotation.set(PDFName.of('Dest'), explicit);
+        else annotation.delete(PDFName.of('Dest'));
+      }
+
+      const action = annotation.lookupMaybe(PDFName.of('A'), PDFDict);
+      if (action?.lookupMaybe(PDFName.of('S'), PDFName)?.decodeText() === 'GoTo' && isNamed(action.get(PDFName.of('D')))) {
+        const explicit = resolveExplicitDestination(pdfDoc, action.get(PDFName.of('D')));
+        if (explicit) action.set(PDFName.of('D'), explicit);
+      }
+    });
+  });
+};
+
+/** Truncate text with an ellipsis so it fits the given width */
+const fitText = (text: string, font: PDFFont, size: number, maxWidth: number): string => {
+  if (font.widthOfTextAtSize(text, size) <= maxWidth) return text;
+  let fitted = text;
+  while (fitted.length > 1 && font.widthOfTextAtSize(`${fitted}…`, size) > maxWidth) {
+    fitted = fitted.slice(0, -1);
+  }
+  return `${fitted.trimEnd()}…`;
+};
+
+/**
+ * Merge documents into a new one. Unlike copying pages, this keeps form
+ * fields (renaming top-level fields whose names clash), links between pages,
+ * bookmarks and page labels of every source.
+ */
+export const mergePDFDocuments = async (sources: PDFMergeSource[], options: PDFMergeOptions = {}): Promise<PDFDocument> => {
+  const merged = await PDFDocument.create();
+  const { context } = merged;
+
+  const bookmarks: PDFBookmark[] = [];
+  const fieldRefs: PDFRef[] = [];
+  const fieldNames = new Set<string>();
+  const labelRanges: PageLabelRange[] = [];
+  const firstPages: PDFPage[] = [];
+  let hasPageLabels = false;
+  let formResources: PDFDict | undefined;
+  let defaultAppearance: PDFObject | undefined;
+  let needAppearances = false;
+
+  // Reserve the table of contents pages so page numbers are known up front
+  const tocPages: PDFPage[] = [];
+  if (options.tableOfContents) {
+    // Same size as the first page of the first document, Letter otherwise
+    const firstPage = sources[0]?.doc.getPageCount() ? sources[0].doc.getPage(0) : undefined;
+    const [width, height] = firstPage ? [firstPage.getWidth(), firstPage.getHeight()] : [612, 792];
+    const entriesPerPage = Math.max(1, Math.floor((height - 2 * TOC_MARGIN - TOC_TITLE_SIZE * 2) / TOC_LINE_HEIGHT));
+    const tocPageCount = Math.max(1, Math.ceil(sources.length / entriesPerPage));
+    for (let i = 0; i < tocPageCount; i++) tocPages.push(merged.addPage([width, height]));
+    labelRanges.push({ startIndex: 0, label: context.obj({ S: 'r' }) });
+  }
+
+  for (const { doc, title } of sources) {
+    inlineNamedDestinations(doc);
+    const offset = merged.getPageCount();
+
+    // One copier per source, so links, widgets and fields that refer to the
+    // same page or field all end up pointing at the same copy
+    const copier = PDFObjectCopier.for(doc.context, context);
+    doc.getPages().forEach((page, index) => {
+      const ref = copier.copy(page.ref) as PDFRef;
+      const copiedPage = merged.addPage(PDFPage.of(context.lookup(ref) as PDFPageLeaf, ref, merged));
+      if (index === 0) firstPages.push(copiedPage);
+    });
+
+    const acroForm = doc.catalog.lookupMaybe(PDFName.of('AcroForm'), PDFDict);
+    acroForm?.lookupMaybe(PDFName.of('Fields'), PDFArray)?.asArray().forEach(value => {
+      if (!(value instanceof PDFRef)) return;
+      const ref = copier.copy(value) as PDFRef;
+      const field = context.lookup(ref);
+      const fieldName = field instanceof PDFDict ? textOf(field.lookup(PDFName.of('T'))) : undefined;
+      if (field instanceof PDFDict && fieldName !== undefined) {
+        let uniqueName = fieldName;
+        for (let n = 2; fieldNames.has(uniqueName); n++) uniqueName = `${fieldName}_${n}`;
+        if (uniqueName !== fieldName) field.set(PDFName.of('T'), PDFHexString.fromText(uniqueName));
+        fieldNames.add(uniqueName);
+      }
+      fieldRefs.push(ref);
+    });
+    if (acroForm) {
+      // Fonts of the form's default resources, kept so fields can be regenerated
+      const resources = acroForm.lookupMaybe(PDFName.of('DR'), PDFDict);
+      if (resources) {
+        const copiedResources = copier.copy(resources) as PDFDict;
+        if (!formResources) {
+          formResources = copiedResources;
+        } else {
+          const fonts = copiedResources.lookupMaybe(PDFName.of('Font'), PDFDict);
+          let mergedFonts = formResources.lookupMaybe(PDFName.of('Font'), PDFDict);
+          if (fonts && !mergedFonts) {
+            mergedFonts = context.obj({});
+            formResources.set(PDFName.of('Font'), mergedFonts);
+          }
+          fonts?.entries().forEach(([fontName, font]) => {
+            if (!mergedFonts?.has(fontName)) mergedFonts?.set(fontName, font);
+          });
+        }
+      }
+      defaultAppearance ??= acroForm.get(PDFName.of('DA'))?.clone();
+      needAppearances ||= acroForm.get(PDFName.of('NeedAppearances'))?.toString() === 'true';
+    }
+
+    const sourceLabels = readPageLabels(doc);
+    hasPageLabels ||= sourceLabels.length > 0;
+    if (sourceLabels.length === 0 || sourceLabels[0].startIndex > 0) {
+      // Pages without labels are numbered from 1 within their own document
+      labelRanges.push({ startIndex: offset, label: context.obj({ S: 'D' }) });
+    }
+    sourceLabels.forEach(({ startIndex, label }) => {
+      labelRanges.push({ startIndex: offset + startIndex, label: copier.copy(label) as PDFDict });
+    });
+
+    const fileBookmarks = remapBookmarkPages(readPDFOutline(doc), pageIndex => pageIndex + offset);
+    if (options.bookmarkFiles) {
+      bookmarks.push({ title, pageIndex: offset, children: fileBookmarks });
+    } else {
+      bookmarks.push(...fileBookmarks);
+    }
+  }
+
+  if (fieldRefs.length > 0) {
+    const acroForm = context.obj({ Fields: fieldRefs });
+    if (formResources) acroForm.set(PDFName.of('DR'), formResources);
+    if (defaultAppearance) acroForm.set(PDFName.of('DA'), defaultAppearance);
+    if (needAppearances) acroForm.set(PDFName.of('NeedAppearances'), context.obj(true));
+    merged.catalog.set(PDFName.of('AcroForm'), context.register(acroForm));
+  }
+
+  // Labels are only written when a source had its own, otherwise readers number pages plainly
+  if (hasPageLabels) {
+    merged.catalog.set(PDFName.of('PageLabels'), context.register(context.obj({
+      Nums: labelRanges.flatMap(({ startIndex, label }) => [PDFNumber.of(startIndex), label])
+    })));
+  }
+
+  if (tocPages.length > 0 && bookmarks.length > 0) {
+    bookmarks.unshift({ title: 'Contents', pageIndex: 0, children: [] });
+  }
+  writePDFOutline(merged, bookmarks);
+
+  if (tocPages.length > 0) {
+    const font = await merged.embedFont(StandardFonts.Helvetica);
+    const boldFont = await merged.embedFont(StandardFonts.HelveticaBold);
+    const entriesPerPage = Math.ceil(sources.length / tocPages.length);
+
+    tocPages.forEach((page, pageNumber) => {
+      const { width, height } = page.getSize();
+      let y = height - TOC_MARGIN - TOC_TITLE_SIZE;
+      if (pageNumber === 0) {
+        page.drawText('Contents', { x: TOC_MARGIN, y, size: TOC_TITLE_SIZE, font: boldFont, color: rgb(0, 0, 0) });
+      }
+      y -= TOC_TITLE_SIZE * 2;
+
+      sources.slice(pageNumber * entriesPerPage, (pageNumber + 1) * entriesPerPage).forEach((source, i) => {
+        const index = pageNumber * entriesPerPage + i;
+        const target = firstPages[index];
+        const pageLabel = toStandardFontText(target
+          ? hasPageLabels
+            ? formatPageLabel(merged.getPages().indexOf(target), labelRanges)
+            : String(merged.getPages().indexOf(target) + 1)
+          : '', font);
+        const labelWidth = font.widthOfTextAtSize(pageLabel, TOC_ENTRY_SIZE);
+        const entryTitle = fitText(toStandardFontText(source.title, font), font, TOC_ENTRY_SIZE, width - 2 * TOC_MARGIN - labelWidth - 40);
+        const titleWidth = font.widthOfTextAtSize(entryTitle, TOC_ENTRY_SIZE);
+
+        page.drawText(entryTitle, { x: TOC_MARGIN, y, size: TOC_ENTRY_SIZE, font, color: rgb(0, 0, 0) });
+        page.drawText(pageLabel, { x: width - TOC_MARGIN - labelWidth, y, size: TOC_ENTRY_SIZE, font, color: rgb(0, 0, 0) });
+
+        // Dotted leader between the title and the page number
+        const dotWidth = font.widthOfTextAtSize('.', TOC_ENTRY_SIZE) * 2;
+        const leaderStart = TOC_MARGIN + titleWidth + 8;
+        const leaderEnd = width - TOC_MARGIN - labelWidth - 8;
+        if (leaderEnd > leaderStart) {
+          const dots = Array(Math.floor((leaderEnd - leaderStart) / dotWidth)).fill('.').join(' ');
+          page.drawText(dots, { x: leaderStart, y, size: TOC_ENTRY_SIZE, font, color: rgb(0.5, 0.5, 0.5) });
+        }
+
+        if (target) {
+          const link = context.register(context.obj({
+            Type: 'Annot',
+            Subtype: 'Link',
+            Rect: [TOC_MARGIN, y - 4, width - TOC_MARGIN, y + TOC_ENTRY_SIZE],
+            Border: [0, 0, 0],
+            Dest: [target.ref, PDFName.of('XYZ'), 0, target.getHeight(), PDFNull]
+          }));
+          page.node.addAnnot(link);
+        }
+        y -= TOC_LINE_HEIGHT;
+      });
+    });
+  }
+
+  return merged;
+};
@@ -0,0 +1,114 @@
+import { DOMParser, XMLSerializer } from '@xmldom/xmldom';
+import { describe, expect, it, vi } from 'vitest';
+import { PDFDocument, PDFName, PDFString } from 'pdf-lib';
+import { readXMP, writeXMP } from './pdfArchiveUtils';
+import { readPDFMetadata, removeAllPDFMetadata, writePDFMetadata } from './pdfMetadataUtils';
+
+// XMP and XFDF are parsed with the browser's XML DOM
+vi.stubGlobal('DOMParser', DOMParser);
+vi.stubGlobal('XMLSerializer', XMLSerializer);
+
+const reload = async (pdfDoc: PDFDocument) => PDFDocument.load(await pdfDoc.save(), { updateMetadata: false });
+
+const PACKET = `<?xpacket begin="﻿" id="W5M0MpCehiHzreSzNTczkc9d"?>
+<x:xmpmeta xmlns:x="adobe:ns:meta/">
+  <rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">
+    <rdf:Description rdf:about=""
+        xmlns:dc="http://purl.org/dc/elements/1.1/"
+        xmlns:xmpMM="http://ns.adobe.com/xap/1.0/mm/"
+        xmlns:stEvt="http://ns.adobe.com/xap/1.0/sType/ResourceEvent#">
+      <dc:rights>
+        <rdf:Alt>
+          <rdf:li xml:lang="x-default">All rights reserved</rdf:li>
+          <rdf:li xml:lang="de-DE">Alle Rechte vorbehalten</rdf:li>
+        </rdf:Alt>
+      </dc:rights>
+      <xmpMM:History>
+        <rdf:Seq>
+          <rdf:li rdf:parseType="Resource">
+            <stEvt:action>created</stEvt:action>
+          </rdf:li>
+        </rdf:Seq>
+      </xmpMM:History>
+    </rdf:Description>
+  </rdf:RDF>
+</x:xmpmeta>
+<?xpacket end="w"?>`;
+
+describe('writePDFMetadata', () => {
+  it('sets and removes information entries, custom entries and the language', async () => {
+    const pdfDoc = await PDFDocument.create();
+    pdfDoc.addPage();
+    pdfDoc.setAuthor('Old author');
+
+    writePDFMetadata(pdfDoc, {
+      title: 'Annual report',
+      author: '',
+      language: 'en-GB',
+      customInfo: { Department: 'Finance', Title: 'ignored' }
+    });
+    const metadata = readPDFMetadata(await reload(pdfDoc));
+
+    expect(metadata).toMatchObject({ title: 'Annual report', author: '', language: 'en-GB' });
+    expect(metadata.customInfo).toEqual({ Department: 'Finance' });
+    expect(metadata.hasXMP).toBe(false);
+  });
+
+  it('writes custom XMP properties and mirrors the information dictionary', async () => {
+    const pdfDoc = await PDFDocument.create();
+    pdfDoc.addPage();
+
+    writePDFMetadata(pdfDoc, {
+      title: 'Annual report',
+      xmp: [
+        { namespace: 'http://example.com/ns/', prefix: 'ex', name: 'project', value: 'Apollo' },
+        { namespace: 'http://purl.org/dc/elements/1.1/', prefix: 'dc', name: 'subject', value: ['finance', 'annual'] }
+      ]
+    });
+    const reloaded = await reload(pdfDoc);
+    const metadata = readPDFMetadata(reloaded);
+
+    expect(metadata.hasXMP).toBe(true);
+    expect(metadata.xmp).toEqual(expect.arrayContaining([
+      expect.objectContaining({ namespace: 'http://example.com/ns/', name: 'project', value: 'Apollo' }),
+      expect.objectContaining({ name: 'subject', value: ['finance', 'annual'] })
+    ]));
+    expect(readXMP(reloaded)).toContain('Annual report');
+  });
+
+  it('keeps structured and language alternative properties it does not edit', async () => {
+    const pdfDoc = await PDFDocument.create();
+    pdfDoc.addPage();
+    writeXMP(pdfDoc, PACKET);
+
+    const rights = readPDFMetadata(pdfDoc).xmp.find(property => property.name === 'rights');
+    expect(rights).toMatchObject({ value: ['All rights reserved', 'Alle Rechte vorbehalten'], languages: ['x-default', 'de-DE'] });
+
+    writePDFMetadata(pdfDoc, { title: 'Edited' });
+    const xmp = readXMP(await reload(pdfDoc)) ?? '';
+
+    expect(xmp).toContain('xml:lang="de-DE"');
+    expect(xmp).toContain('Alle Rechte vorbehalten');
+    expect(xmp).toContain('<stEvt:action>created</stEvt:action>');
+    expect(xmp).toContain('Edited');
+  });
+});
+
+describe('removeAllPDFMetadata', () => {
+  it('drops the information dictionary, XMP and private data but keeps the language', async () => {
+    const pdfDoc = await PDFDocument.create();
+    const page = pdfDoc.addPage();
+    pdfDoc.setTitle('Secret title');
+    pdfDoc.catalog.set(PDFName.of('Lang'), PDFString.of('fr'));
+    writeXMP(pdfDoc, PACKET);
+    page.node.set(PDFName.of('PieceInfo'), pdfDoc.context.obj({ App: { Private: 'data' } }));
+
+    removeAllPDFMetadata(pdfDoc);
+    const reloaded = await reload(pdfDoc);
+
+    expect(reloaded.getTitle()).toBeUndefined();
+    expect(readXMP(reloaded)).toBeUndefined();
+    expect(reloaded.getPage(0).node.has(PDFName.of('PieceInfo'))).toBe(false);
+    expect(readPDFMetadata(reloaded).language).toBe('fr');
+  });
+});
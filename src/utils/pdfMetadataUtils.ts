@@ -0,0 +1,360 @@
+// src/utils/pdfMetadataUtils.ts
+// Reading and editing document metadata: the document information dictionary,
+// the XMP packet (including custom namespaces) and the document language.
+// XMP is edited in place through the DOM so properties this module does not
+// know about survive an edit.
+import { PDFDict, PDFDocument, PDFHexString, PDFName, PDFRef, PDFStream, PDFString } from 'pdf-lib';
+import { readXMP, writeXMP } from './pdfArchiveUtils';
+
+export interface PDFXMPProperty {
+  /** Namespace URI, e.g. http://purl.org/dc/elements/1.1/ */
+  namespace: string;
+  /** Preferred prefix, used when the packet does not declare the namespace yet */
+  prefix: string;
+  name: string;
+  /** Arrays are written as rdf:Seq, rdf:Bag or rdf:Alt; an empty value removes the property */
+  value: string | string[];
+  /** xml:lang of each array item; rdf:Alt items without one are written as x-default */
+  languages?: (string | undefined)[];
+}
+
+export interface PDFMetadataFields {
+  title: string;
+  author: string;
+  subject: string;
+  keywords: string;
+  creator: string;
+  producer: string;
+  /** Natural language of the document (catalog /Lang), e.g. en-US */
+  language: string;
+}
+
+export interface PDFMetadataInfo extends PDFMetadataFields {
+  creationDate?: Date;
+  modificationDate?: Date;
+  /** Text entries of the document information dictionary beyond the standard ones */
+  customInfo: Record<string, string>;
+  /** Simple and array XMP properties, leaving out the ones mirrored from the fields above */
+  xmp: PDFXMPProperty[];
+  hasXMP: boolean;
+}
+
+/** Fields left undefined are kept; an empty string removes the entry */
+export interface PDFMetadataUpdate extends Partial<PDFMetadataFields> {
+  /** Replaces every custom text entry of the document information dictionary */
+  customInfo?: Record<string, string>;
+  /** Properties to set or, with an empty value, remove; other properties are kept */
+  xmp?: PDFXMPProperty[];
+}
+
+const RDF_NS = 'http://www.w3.org/1999/02/22-rdf-syntax-ns#';
+const XML_NS = 'http://www.w3.org/XML/1998/namespace';
+const XMLNS_NS = 'http://www.w3.org/2000/xmlns/';
+const DC_NS = 'http://purl.org/dc/elements/1.1/';
+const PDF_NS = 'http://ns.adobe.com/pdf/1.3/';
+const XMP_NS = 'http://ns.adobe.com/xap/1.0/';
+const PDFAID_NS = 'http://www.aiim.org/pdfa/ns/id/';
+
+const STANDARD_INFO_KEYS = [
+  'Title', 'Author', 'Subject', 'Keywords', 'Creator', 'Producer', 'CreationDate', 'ModDate', 'Trapped'
+];
+
+/** XMP properties kept in step with the information dictionary and /Lang */
+const MANAGED_PROPERTIES = [
+  `${DC_NS}title`, `${DC_NS}creator`, `${DC_NS}description`, `${DC_NS}language`,
+  `${PDF_NS}Keywords`, `${PDF_NS}Producer`,
+  `${XMP_NS}CreatorTool`, `${XMP_NS}CreateDate`, `${XMP_NS}ModifyDate`, `${XMP_NS}MetadataDate`
+];
+
+/** Array type of well-known properties that are new to the packet */
+const DEFAULT_CONTAINERS: Record<string, string> = {
+  [`${DC_NS}contributor`]: 'Bag',
+  [`${DC_NS}creator`]: 'Seq',
+  [`${DC_NS}date`]: 'Seq',
+  [`${DC_NS}description`]: 'Alt',
+  [`${DC_NS}language`]: 'Bag',
+  [`${DC_NS}publisher`]: 'Bag',
+  [`${DC_NS}relation`]: 'Bag',
+  [`${DC_NS}rights`]: 'Alt',
+  [`${DC_NS}subject`]: 'Bag',
+  [`${DC_NS}title`]: 'Alt',
+  [`${DC_NS}type`]: 'Bag'
+};
+
+const EMPTY_PACKET = [
+  '<?xpacket begin="\uFEFF" id="W5M0MpCehiHzreSzNTczkc9d"?>',
+  '<x:xmpmeta xmlns:x="adobe:ns:meta/">',
+  `<rdf:RDF xmlns:rdf="${RDF_NS}">`,
+  '<rdf:Description rdf:about=""/>',
+  '</rdf:RDF>',
+  '</x:xmpmeta>',
+  '<?xpacket end="w"?>'
+].join('\n');
+
+const toXMPDate = (date: Date): string => date.toISOString().replace(/\.\d{3}Z$/, 'Z');
+
+const elementChildren = (node: Node): Element[] =>
+  Array.from(node.childNodes).filter((child): child is Element => child.nodeType === 1);
+
+const parsePacket = (xmp: string): Document | undefined => {
+  const doc = new DOMParser().parseFromString(xmp.replace(/^\s+/, ''), 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) return undefined;
+  return doc.getElementsByTagNameNS(RDF_NS, 'RDF').length > 0 ? doc : undefined;
+};
+
+const serializePacket = (doc: Document): string => {
+  const xml = new XMLSerializer().serializeToString(doc);
+  // Padding lets other tools edit the packet in place
+  const padding = new Array(20).fill(' '.repeat(99)).join('\n');
+  return /<\?xpacket end/.test(xml)
+    ? xml.replace(/\s*<\?xpacket end/, `\n${padding}\n<?xpacket end`)
+    : `${xml}\n${padding}\n<?xpacket end="w"?>`;
+};
+
+/** The top-level rdf:Description elements, which hold the properties */
+const descriptionsOf = (doc: Document): Element[] =>
+  Array.from(doc.getElementsByTagNameNS(RDF_NS, 'RDF')).slice(0, 1).flatMap(rdf =>
+    elementChildren(rdf).filter(child => child.namespaceURI === RDF_NS && child.localName === 'Description')
+  );
+
+/** rdf:Seq, rdf:Bag or rdf:Alt holding the items of an array property */
+const containerOf = (element: Element): Element | undefined =>
+  elementChildren(element).find(child =>
+    child.namespaceURI === RDF_NS && ['Seq', 'Bag', 'Alt'].includes(child.localName ?? '')
+  );
+
+const readProperties = (doc: Document): PDFXMPProperty[] =>
+  descriptionsOf(doc).flatMap(description => {
+    const properties: PDFXMPProperty[] = [];
+
+    Array.from(description.attributes).forEach(attribute => {
+      const namespace = attribute.namespaceURI;
+      if (!namespace || namespace === XMLNS_NS || namespace === XML_NS || namespace === RDF_NS) return;
+      properties.push({
+        namespace,
+        prefix: attribute.prefix ?? '',
+        name: attribute.localName ?? attribute.name,
+        value: attribute.value
+      });
+    });
+
+    elementChildren(description).forEach(element => {
+      if (!element.namespaceURI) return;
+      const container = containerOf(element);
+      const property = {
+        namespace: element.namespaceURI,
+        prefix: element.prefix ?? '',
+        name: element.localName ?? element.nodeName
+      };
+      if (container) {
+        const items = elementChildren(container);
+        // Arrays of structures (e.g. xmpMM:History) are kept as they are but not listed
+        if (items.some(item => elementChildren(item).length > 0 || item.hasAttributeNS(RDF_NS, 'parseType'))) return;
+        const languages = items.map(item => item.getAttributeNS(XML_NS, 'lang') || undefined);
+        properties.push({
+          ...property,
+          value: items.map(item => item.textContent ?? ''),
+          ...(languages.some(Boolean) && { languages })
+        });
+      } else if (elementChildren(element).length === 0) {
+        // A simple value; structured ones are kept as they are but not listed
+        properties.push({ ...property, value: element.textContent ?? '' });
+      }
+    });
+
+    return properties;
+  });
+
+/** Prefix to write a namespace with, declaring it on the description if needed */
+const declareNamespace = (description: Element, namespace: string, preferred: string): string => {
+  const existing = description.lookupPrefix(namespace);
+  if (existing) return existing;
+
+  const base = /^[A-Za-z_][\w.-]*$/.test(preferred) ? preferred : 'ns';
+  let prefix = base;
+  for (let i = 1; description.lookupNamespaceURI(prefix); i++) prefix = `${base}${i}`;
+  description.setAttributeNS(XMLNS_NS, `xmlns:${prefix}`, namespace);
+  return prefix;
+};
+
+const setProperty = (doc: Document, property: PDFXMPProperty): void => {
+  const { namespace, name } = property;
+  const descriptions = descriptionsOf(doc);
+  let containerType: string | undefined;
+
+  descriptions.forEach(description => {
+    if (description.hasAttributeNS(namespace, name)) description.removeAttributeNS(namespace, name);
+    elementChildren(description)
+      .filter(element => element.namespaceURI === namespace && element.localName === name)
+      .forEach(element => {
+        containerType ??= containerOf(element)?.localName ?? undefined;
+        description.removeChild(element);
+      });
+  });
+
+  const values = Array.isArray(property.value)
+    ? property.value
+      .map((value, index) => ({ value: value.trim(), language: property.languages?.[index] }))
+      .filter(item => item.value)
+    : property.value.trim();
+  if (values.length === 0) return;
+
+  let target = descriptions[0];
+  if (!target) {
+    target = doc.createElementNS(RDF_NS, 'rdf:Description');
+    target.setAttributeNS(RDF_NS, 'rdf:about', '');
+    doc.getElementsByTagNameNS(RDF_NS, 'RDF')[0].appendChild(target);
+  }
+
+  const prefix = declareNamespace(target, namespace, property.prefix);
+  const element = doc.createElementNS(namespace, `${prefix}:${name}`);
+  if (Array.isArray(values)) {
+    const type = containerType ?? DEFAULT_CONTAINERS[`${namespace}${name}`] ?? 'Bag';
+    const container = doc.createElementNS(RDF_NS, `rdf:${type}`);
+    values.forEach(({ value, language }) => {
+      const item = doc.createElementNS(RDF_NS, 'rdf:li');
+      if (language || type === 'Alt') item.setAttributeNS(XML_NS, 'xml:lang', language || 'x-default');
+      item.appendChild(doc.createTextNode(value));
+      container.appendChild(item);
+    });
+    element.appendChild(container);
+  } else {
+    element.appendChild(doc.createTextNode(values));
+  }
+  target.appendChild(element);
+};
+
+const infoDictOf = (pdfDoc: PDFDocument, create: boolean): PDFDict | undefined => {
+  const { context } = pdfDoc;
+  const existing = context.lookup(context.trailerInfo.Info);
+  if (existing instanceof PDFDict) return existing;
+  if (!create) return undefined;
+  const info = context.obj({});
+  context.trailerInfo.Info = context.register(info);
+  return info;
+};
+
+const textOf = (value: unknown): string | undefined =>
+  value instanceof PDFString || value instanceof PDFHexString ? value.decodeText() : undefined;
+
+/**
+ * Read the metadata of a document. Load it with updateMetadata: false so
+ * pdf-lib does not replace the producer and dates first.
+ */
+export const readPDFMetadata = (pdfDoc: PDFDocument): PDFMetadataInfo => {
+  const info = infoDictOf(pdfDoc, false);
+  const customInfo: Record<string, string> = {};
+  info?.entries().forEach(([key, value]) => {
+    const text = textOf(pdfDoc.context.lookup(value));
+    if (text !== undefined && !STANDARD_INFO_KEYS.includes(key.decodeText())) {
+      customInfo[key.decodeText()] = text;
+    }
+  });
+
+  const xmp = readXMP(pdfDoc);
+  const packet = xmp ? parsePacket(xmp) : undefined;
+
+  return {
+    title: pdfDoc.getTitle() ?? '',
+    author: pdfDoc.getAuthor() ?? '',
+    subject: pdfDoc.getSubject() ?? '',
+    keywords: pdfDoc.getKeywords() ?? '',
+    creator: pdfDoc.getCreator() ?? '',
+    producer: pdfDoc.getProducer() ?? '',
+    language: textOf(pdfDoc.catalog.lookup(PDFName.of('Lang'))) ?? '',
+    creationDate: pdfDoc.getCreationDate(),
+    modificationDate: pdfDoc.getModificationDate(),
+    customInfo,
+    xmp: (packet ? readProperties(packet) : []).filter(property =>
+      property.namespace !== PDFAID_NS && !MANAGED_PROPERTIES.includes(`${property.namespace}${property.name}`)
+    ),
+    hasXMP: !!xmp
+  };
+};
+
+/**
+ * Apply a metadata update and stamp the modification date. An existing XMP
+ * packet is edited in place and its standard properties are brought in line
+ * with the information dictionary, so PDF/A files stay consistent; a packet
+ * is only created when XMP properties are given.
+ */
+export const writePDFMetadata = (pdfDoc: PDFDocument, update: PDFMetadataUpdate): void => {
+  const { catalog } = pdfDoc;
+  const info = infoDictOf(pdfDoc, true) as PDFDict;
+
+  const fields: [keyof PDFMetadataFields, string][] = [
+    ['title', 'Title'], ['author', 'Author'], ['subject', 'Subject'],
+    ['keywords', 'Keywords'], ['creator', 'Creator'], ['producer', 'Producer']
+  ];
+  fields.forEach(([field, key]) => {
+    const value = update[field]?.trim();
+    if (value === undefined) return;
+    if (value) info.set(PDFName.of(key), PDFHexString.fromText(value));
+    else info.delete(PDFName.of(key));
+  });
+
+  if (update.customInfo) {
+    info.entries().forEach(([key, value]) => {
+      if (!STANDARD_INFO_KEYS.includes(key.decodeText()) && textOf(pdfDoc.context.lookup(value)) !== undefined) {
+        info.delete(key);
+      }
+    });
+    Object.entries(update.customInfo).forEach(([key, value]) => {
+      const trimmedKey = key.trim();
+      if (trimmedKey && !STANDARD_INFO_KEYS.includes(trimmedKey)) {
+        info.set(PDFName.of(trimmedKey), PDFHexString.fromText(value));
+      }
+    });
+  }
+
+  const language = update.language?.trim();
+  if (language) catalog.set(PDFName.of('Lang'), PDFString.of(language));
+  else if (language === '') catalog.delete(PDFName.of('Lang'));
+
+  const modified = new Date();
+  pdfDoc.setModificationDate(modified);
+
+  const xmp = readXMP(pdfDoc);
+  if (!xmp && !update.xmp?.length) return;
+  const packet = (xmp && parsePacket(xmp)) || (parsePacket(EMPTY_PACKET) as Document);
+
+  update.xmp?.forEach(property => setProperty(packet, property));
+
+  const created = pdfDoc.getCreationDate();
+  const standard: PDFXMPProperty[] = [
+    { namespace: DC_NS, prefix: 'dc', name: 'title', value: [pdfDoc.getTitle() ?? ''] },
+    { namespace: DC_NS, prefix: 'dc', name: 'creator', value: [pdfDoc.getAuthor() ?? ''] },
+    { namespace: DC_NS, prefix: 'dc', name: 'description', value: [pdfDoc.getSubject() ?? ''] },
+    { namespace: PDF_NS, prefix: 'pdf', name: 'Keywords', value: pdfDoc.getKeywords() ?? '' },
+    { namespace: PDF_NS, prefix: 'pdf', name: 'Producer', value: pdfDoc.getProducer() ?? '' },
+    { namespace: XMP_NS, prefix: 'xmp', name: 'CreatorTool', value: pdfDoc.getCreator() ?? '' },
+    { namespace: XMP_NS, prefix: 'xmp', name: 'CreateDate', value: created ? toXMPDate(created) : '' },
+    { namespace: XMP_NS, prefix: 'xmp', name: 'ModifyDate', value: toXMPDate(modified) },
+    { namespace: XMP_NS, prefix: 'xmp', name: 'MetadataDate', value: toXMPDate(modified) }
+  ];
+  if (language !== undefined) {
+    standard.push({ namespace: DC_NS, prefix: 'dc', name: 'language', value: [language] });
+  }
+  standard.forEach(property => setProperty(packet, property));
+
+  writeXMP(pdfDoc, serializePacket(packet));
+};
+
+/**
+ * Remove the document information dictionary, the XMP packets of the
+ * document and of every object in it, and private application data
+ * (PieceInfo). The language is kept since screen readers depend on it.
+ */
+export const removeAllPDFMetadata = (pdfDoc: PDFDocument): void => {
+  const { context } = pdfDoc;
+
+  const infoRef = context.trailerInfo.Info;
+  if (infoRef instanceof PDFRef) context.delete(infoRef);
+  context.trailerInfo.Info = undefined;
+
+  context.enumerateIndirectObjects().forEach(([, object]) => {
+    const dict = object instanceof PDFStream ? object.dict : object instanceof PDFDict ? object : undefined;
+    dict?.delete(PDFName.of('Metadata'));
+    dict?.delete(PDFName.of('PieceInfo'));
+  });
+};
@@ -0,0 +1,83 @@
+// src/utils/pdfObjectUtils.ts
+// Low-level stream and object helpers shared by the pdf-lib based tools.
+import { PDFArray, PDFDict, PDFDocument, PDFFont, PDFObject, PDFRef, PDFStream } from 'pdf-lib';
+
+// Unicode values of the WinAnsiEncoding codes 128-159; the rest match Latin-1
+const WIN_ANSI_HIGH = [
+  0x20ac, 0, 0x201a, 0x0192, 0x201e, 0x2026, 0x2020, 0x2021, 0x02c6, 0x2030, 0x0160, 0x2039, 0x0152, 0, 0x017d, 0,
+  0, 0x2018, 0x2019, 0x201c, 0x201d, 0x2022, 0x2013, 0x2014, 0x02dc, 0x2122, 0x0161, 0x203a, 0x0153, 0, 0x017e, 0x0178
+];
+
+/** Unicode code point of a WinAnsiEncoding character code */
+export const winAnsiCodePoint = (code: number): number =>
+  code >= 128 && code < 160 ? WIN_ANSI_HIGH[code - 128] : code;
+
+/** Replace characters the standard fonts cannot encode */
+export const toStandardFontText = (text: string, font: PDFFont): string => {
+  const supported = new Set(font.getCharacterSet());
+  return Array.from(text, char => (supported.has(char.codePointAt(0) ?? 0) ? char : '?')).join('');
+};
+
+export const inflateBytes = async (bytes: Uint8Array): Promise<Uint8Array> =>
+  new Uint8Array(await new Response(new Blob([bytes as BlobPart]).stream().pipeThrough(new DecompressionStream('deflate'))).arrayBuffer());
+
+export const deflateBytes = async (bytes: Uint8Array): Promise<Uint8Array> =>
+  new Uint8Array(await new Response(new Blob([bytes as BlobPart]).stream().pipeThrough(new CompressionStream('deflate'))).arrayBuffer());
+
+/** Reverse the PNG row filters used by FlateDecode with /Predictor 10-15 */
+export const undoPNGPredictor = (data: Uint8Array, columns: number, bytesPerPixel: number): Uint8Array => {
+  const rowLength = columns * bytesPerPixel;
+  const rows = Math.floor(data.length / (rowLength + 1));
+  const output = new Uint8Array(rows * rowLength);
+
+  for (let row = 0; row < rows; row++) {
+    const filter = data[row * (rowLength + 1)];
+    const input = row * (rowLength + 1) + 1;
+    const out = row * rowLength;
+    for (let i = 0; i < rowLength; i++) {
+      const left = i >= bytesPerPixel ? output[out + i - bytesPerPixel] : 0;
+      const up = row > 0 ? output[out + i - rowLength] : 0;
+      const upLeft = row > 0 && i >= bytesPerPixel ? output[out + i - rowLength - bytesPerPixel] : 0;
+      let value = data[input + i];
+      if (filter === 1) value += left;
+      else if (filter === 2) value += up;
+      else if (filter === 3) value += (left + up) >> 1;
+      else if (filter === 4) {
+        const estimate = left + up - upLeft;
+        const distanceLeft = Math.abs(estimate - left);
+        const distanceUp = Math.abs(estimate - up);
+        const distanceUpLeft = Math.abs(estimate - upLeft);
+        value += distanceLeft <= distanceUp && distanceLeft <= distanceUpLeft ? left : distanceUp <= distanceUpLeft ? up : upLeft;
+      }
+      output[out + i] = value & 0xff;
+    }
+  }
+
+  return output;
+};
+
+/** Collect every indirect object reachable from the document trailer */
+export const collectReachableRefs = (pdfDoc: PDFDocument): Set<PDFRef> => {
+  const { context } = pdfDoc;
+  const reachable = new Set<PDFRef>();
+  const pending: PDFObject[] = [context.trailerInfo.Root, context.trailerInfo.Info]
+    .filter((object): object is PDFObject => !!object);
+
+  while (pending.length > 0) {
+    const object = pending.pop() as PDFObject;
+    if (object instanceof PDFRef) {
+      if (reachable.has(object)) continue;
+      reachable.add(object);
+      const target = context.lookup(object);
+      if (target) pending.push(target);
+    } else if (object instanceof PDFDict) {
+      pending.push(...object.values());
+    } else if (object instanceof PDFArray) {
+      pending.push(...object.asArray());
+    } else if (object instanceof PDFStream) {
+      pending.push(object.dict);
+    }
+  }
+
+  return reachable;
+};
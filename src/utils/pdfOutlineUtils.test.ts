@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import { PDFDict, PDFDocument, PDFName, PDFString } from 'pdf-lib';
+import { applyBookmarkEdit, readPDFOutline, remapBookmarkPages, writePDFOutline, PDFBookmark } from './pdfOutlineUtils';
+
+const bookmark = (title: string, pageIndex: number | null, children: PDFBookmark[] = []): PDFBookmark =>
+  ({ title, pageIndex, children });
+
+/** Titles as a nested list, e.g. ['A', ['A.1']] */
+const titles = (bookmarks: PDFBookmark[]): unknown[] =>
+  bookmarks.flatMap(item => (item.children.length > 0 ? [item.title, titles(item.children)] : [item.title]));
+
+const tree = () => [
+  bookmark('Intro', 0),
+  bookmark('Chapter 1', 1, [bookmark('Section 1.1', 2), bookmark('Section 1.2', 3)]),
+  bookmark('Chapter 2', 4)
+];
+
+describe('applyBookmarkEdit', () => {
+  it('adds a bookmark at the end of a level or at an index', () => {
+    const appended = applyBookmarkEdit(tree(), { type: 'add', parentPath: [1], title: 'Section 1.3', pageIndex: 3 });
+    expect(titles(appended)).toEqual(['Intro', 'Chapter 1', ['Section 1.1', 'Section 1.2', 'Section 1.3'], 'Chapter 2']);
+
+    const inserted = applyBookmarkEdit(tree(), { type: 'add', parentPath: [], index: 0, title: 'Cover', pageIndex: 0 });
+    expect(titles(inserted)[0]).toBe('Cover');
+  });
+
+  it('renames and deletes by path without touching the original tree', () => {
+    const original = tree();
+    const renamed = applyBookmarkEdit(original, { type: 'rename', path: [1, 0], title: 'Overview' });
+    const deleted = applyBookmarkEdit(renamed, { type: 'delete', path: [1, 1] });
+
+    expect(titles(deleted)).toEqual(['Intro', 'Chapter 1', ['Overview'], 'Chapter 2']);
+    expect(titles(original)).toEqual(titles(tree()));
+  });
+
+  it('moves a bookmark into another level', () => {
+    const moved = applyBookmarkEdit(tree(), { type: 'move', path: [2], parentPath: [1], index: 1 });
+    expect(titles(moved)).toEqual(['Intro', 'Chapter 1', ['Section 1.1', 'Chapter 2', 'Section 1.2']]);
+  });
+
+  it('rejects moving a bookmark into itself and unknown paths', () => {
+    expect(() => applyBookmarkEdit(tree(), { type: 'move', path: [1], parentPath: [1, 0], index: 0 })).toThrow('into itself');
+    expect(() => applyBookmarkEdit(tree(), { type: 'rename', path: [7], title: 'Missing' })).toThrow('No bookmark at position 8');
+  });
+});
+
+describe('remapBookmarkPages', () => {
+  it('maps pages and clears destinations of pages that are gone', () => {
+    const remapped = remapBookmarkPages(tree(), page => (page < 3 ? page + 10 : null));
+    expect(remapped.map(item => item.pageIndex)).toEqual([10, 11, null]);
+    expect(remapped[1].children.map(item => item.pageIndex)).toEqual([12, null]);
+  });
+
+  it('drops unmapped bookmarks unless they still have children', () => {
+    const remapped = remapBookmarkPages(tree(), page => (page === 2 ? 0 : null), true);
+    expect(titles(remapped)).toEqual(['Chapter 1', ['Section 1.1']]);
+    expect(remapped[0].pageIndex).toBeNull();
+  });
+});
+
+describe('writePDFOutline and readPDFOutline', () => {
+  const documentWithPages = async (count: number) => {
+    const pdfDoc = await PDFDocument.create();
+    for (let i = 0; i < count; i++) pdfDoc.addPage([200, 200]);
+    return pdfDoc;
+  };
+
+  it('round-trips titles, pages and nesting', async () => {
+    const pdfDoc = await documentWithPages(5);
+    writePDFOutline(pdfDoc, tree());
+    const reloaded = await PDFDocument.load(await pdfDoc.save());
+
+    const outline = readPDFOutline(reloaded);
+    expect(titles(outline)).toEqual(titles(tree()));
+    expect(outline[1].children.map(item => item.pageIndex)).toEqual([2, 3]);
+  });
+
+  it('keeps the action and colour of bookmarks read from the file', async () => {
+    const pdfDoc = await documentWithPages(2);
+    writePDFOutline(pdfDoc, [bookmark('Website', null), bookmark('Start', 0)]);
+    const website = readPDFOutline(pdfDoc)[0].source!;
+    website.set(PDFName.of('A'), pdfDoc.context.obj({ S: 'URI', URI: PDFString.of('https://example.com') }));
+    website.set(PDFName.of('C'), pdfDoc.context.obj([1, 0, 0]));
+
+    const edited = applyBookmarkEdit(readPDFOutline(pdfDoc), { type: 'rename', path: [0], title: 'Homepage' });
+    writePDFOutline(pdfDoc, edited);
+    const [homepage] = readPDFOutline(await PDFDocument.load(await pdfDoc.save()));
+
+    expect(homepage.title).toBe('Homepage');
+    const action = homepage.source!.lookup(PDFName.of('A'), PDFDict);
+    expect(action.lookup(PDFName.of('URI'), PDFString).decodeText()).toBe('https://example.com');
+    expect(homepage.source!.get(PDFName.of('C'))?.toString()).toBe('[ 1 0 0 ]');
+  });
+});
@@ -0,0 +1,331 @@
+// src/utils/pdfOutlineUtils.ts
+// Reading and writing PDF outlines (bookmarks) with pdf-lib.
+import {
+  PDFArray,
+  PDFDict,
+  PDFDocument,
+  PDFHexString,
+  PDFName,
+  PDFNull,
+  PDFNumber,
+  PDFContext,
+  PDFObject,
+  PDFObjectCopier,
+  PDFRef,
+  PDFString
+} from 'pdf-lib';
+
+export interface PDFBookmark {
+  title: string;
+  /** Zero-based page the bookmark opens, or null when it has no page destination */
+  pageIndex: number | null;
+  /** Whether the children are shown expanded */
+  open?: boolean;
+  children: PDFBookmark[];
+  /**
+   * The outline item the bookmark was read from. Its action, colour, style
+   * and other entries are written back unchanged, and its destination keeps
+   * its position and zoom when the bookmark moves to another page.
+   */
+  source?: PDFDict;
+}
+
+/** Bookmarks are addressed by their index path from the top level, e.g. [2, 0] */
+export type PDFBookmarkEdit =
+  | { type: 'add'; parentPath: number[]; index?: number; title: string; pageIndex: number }
+  | { type: 'rename'; path: number[]; title: string }
+  | { type: 'move'; path: number[]; parentPath: number[]; index: number }
+  | { type: 'delete'; path: number[] };
+
+const MAX_OUTLINE_ITEMS = 10000;
+
+/** Entries that link an outline item into the tree, rebuilt on every write */
+const TREE_KEYS = ['Title', 'Parent', 'Prev', 'Next', 'First', 'Last', 'Count'];
+
+const textOf = (value: PDFObject | undefined): string | undefined =>
+  value instanceof PDFString || value instanceof PDFHexString ? value.decodeText() : undefined;
+
+/** Look up a key in a name tree such as the catalog's Names/Dests */
+const lookupNameTree = (node: PDFDict | undefined, key: string, depth = 0): PDFObject | undefined => {
+  if (!node || depth > 32) return undefined;
+
+  const names = node.lookupMaybe(PDFName.of('Names'), PDFArray);
+  if (names) {
+    for (let i = 0; i + 1 < names.size(); i += 2) {
+      if (textOf(names.lookup(i)) === key) return names.lookup(i + 1);
+    }
+  }
+
+  const kids = node.lookupMaybe(PDFName.of('Kids'), PDFArray);
+  for (let i = 0; kids && i < kids.size(); i++) {
+    const kid = kids.lookupMaybe(i, PDFDict);
+    const limits = kid?.lookupMaybe(PDFName.of('Limits'), PDFArray);
+    const low = textOf(limits?.lookup(0));
+    const high = textOf(limits?.lookup(1));
+    if (low !== undefined && high !== undefined && (key < low || key > high)) continue;
+    const found = lookupNameTree(kid, key, depth + 1);
+    if (found) return found;
+  }
+
+  return undefined;
+};
+
+/**
+ * The explicit [page /View ...] array of a destination in the document of
+ * the given context, looking up named destinations in the catalog's Dests
+ * dictionary or Names tree
+ */
+const resolveDestinationArray = (context: PDFContext, destination: PDFObject | undefined): PDFArray | undefined => {
+  const catalog = context.lookupMaybe(context.trailerInfo.Root, PDFDict);
+  let resolved = destination instanceof PDFRef ? context.lookup(destination) : destination;
+
+  if (resolved instanceof PDFName) {
+    resolved = catalog?.lookupMaybe(PDFName.of('Dests'), PDFDict)?.lookup(resolved);
+  } else if (resolved instanceof PDFString || resolved instanceof PDFHexString) {
+    const dests = catalog?.lookupMaybe(PDFName.of('Names'), PDFDict)?.lookupMaybe(PDFName.of('Dests'), PDFDict);
+    resolved = lookupNameTree(dests, resolved.decodeText());
+    if (resolved instanceof PDFRef) resolved = context.lookup(resolved);
+  }
+  if (resolved instanceof PDFDict) {
+    resolved = resolved.lookup(PDFName.of('D'));
+  }
+  return resolved instanceof PDFArray ? resolved : undefined;
+};
+
+/**
+ * The explicit [page /View ...] array of a destination, looking up named
+ * destinations in the catalog's Dests dictionary or Names tree
+ */
+export const resolveExplicitDestination = (pdfDoc: PDFDocument, destination: PDFObject | undefined): PDFArray | undefined =>
+  resolveDestinationArray(pdfDoc.context, destination);
+
+/** Page index of an explicit or named destination */
+const resolveDestination = (pdfDoc: PDFDocument, destination: PDFObject | undefined, pageRefs: PDFRef[]): number | null => {
+  const page = resolveExplicitDestination(pdfDoc, destination)?.get(0);
+  if (page instanceof PDFRef) {
+    const pageIndex = pageRefs.findIndex(ref => ref === page);
+    return pageIndex >= 0 ? pageIndex : null;
+  }
+  return null;
+};
+
+/** The destination an outline item opens and the key holding it: Dest, or A for a GoTo action */
+const destinationOf = (item: PDFDict): { key: string; destination: PDFObject | undefined } | undefined => {
+  if (item.has(PDFName.of('Dest'))) return { key: 'Dest', destination: item.get(PDFName.of('Dest')) };
+  const action = item.lookupMaybe(PDFName.of('A'), PDFDict);
+  if (action?.lookupMaybe(PDFName.of('S'), PDFName)?.decodeText() === 'GoTo') {
+    return { key: 'A', destination: action.get(PDFName.of('D')) };
+  }
+  return undefined;
+};
+
+/** Refs of every outline item below a node, guarding against cycles */
+const collectOutlineItems = (pdfDoc: PDFDocument, parent: PDFDict, found: Set<PDFRef>): PDFRef[] => {
+  const items: PDFRef[] = [];
+  let ref = parent.get(PDFName.of('First'));
+  while (ref instanceof PDFRef && !found.has(ref) && found.size < MAX_OUTLINE_ITEMS) {
+    found.add(ref);
+    items.push(ref);
+    const item = pdfDoc.context.lookup(ref);
+    if (!(item instanceof PDFDict)) break;
+    ref = item.get(PDFName.of('Next'));
+  }
+  return items;
+};
+
+/**
+ * Read the bookmark tree of a document
+ */
+export const readPDFOutline = (pdfDoc: PDFDocument): PDFBookmark[] => {
+  const { context, catalog } = pdfDoc;
+  const outlines = catalog.lookupMaybe(PDFName.of('Outlines'), PDFDict);
+  if (!outlines) return [];
+
+  const pageRefs = pdfDoc.getPages().map(page => page.ref);
+  const found = new Set<PDFRef>();
+
+  const readLevel = (parent: PDFDict): PDFBookmark[] =>
+    collectOutlineItems(pdfDoc, parent, found).flatMap(ref => {
+      const item = context.lookup(ref);
+      if (!(item instanceof PDFDict)) return [];
+
+      const count = item.lookupMaybe(PDFName.of('Count'), PDFNumber)?.asNumber() ?? 0;
+      return [{
+        title: textOf(item.lookup(PDFName.of('Title'))) ?? '',
+        pageIndex: resolveDestination(pdfDoc, destinationOf(item)?.destination, pageRefs),
+        open: count > 0,
+        children: readLevel(item),
+        source: item
+      }];
+    });
+
+  return readLevel(outlines);
+};
+
+/** Number of descendants shown when a bookmark is expanded */
+const countVisible = (bookmarks: PDFBookmark[]): number =>
+  bookmarks.reduce((sum, bookmark) => sum + 1 + (bookmark.open ? countVisible(bookmark.children) : 0), 0);
+
+/**
+ * Carry the entries of the outline item a bookmark was read from over to
+ * its new item, copying them in when it came from another document. A
+ * destination still pointing at the bookmark's page is kept as it is; one
+ * that does not is left for the caller to rebuild, and the explicit
+ * destination it had is returned so the rebuilt one keeps its view.
+ */
+const copySourceEntries = (
+  context: PDFContext,
+  source: PDFDict,
+  item: PDFDict,
+  pageRef: PDFRef | undefined
+): PDFArray | undefined => {
+  const sameDocument = source.context === context;
+  const copier = sameDocument ? undefined : PDFObjectCopier.for(source.context, context);
+  const target = destinationOf(source);
+  const destination = target && resolveDestinationArray(source.context, target.destination);
+  // Destinations that never resolved are kept in their own document too
+  const keepsDestination = sameDocument && (pageRef ? destination?.get(0) === pageRef : !destination);
+
+  source.entries().forEach(([key, value]) => {
+    const keyName = key.decodeText();
+    if (TREE_KEYS.includes(keyName) || (keyName === target?.key && !keepsDestination)) return;
+    // The structure tree is not carried into other documents
+    if (!sameDocument && keyName === 'SE') return;
+    item.set(key, copier ? copier.copy(value) : value);
+  });
+
+  return keepsDestination ? undefined : destination;
+};
+
+/**
+ * Replace the bookmark tree of a document. Bookmarks pointing at pages that
+ * do not exist keep their place in the tree but get no destination.
+ */
+export const writePDFOutline = (pdfDoc: PDFDocument, bookmarks: PDFBookmark[]): void => {
+  const { context, catalog } = pdfDoc;
+
+  // Remove the old tree so it is not left behind in the file
+  const existingRef = catalog.get(PDFName.of('Outlines'));
+  const existing = catalog.lookupMaybe(PDFName.of('Outlines'), PDFDict);
+  if (existing) {
+    const found = new Set<PDFRef>();
+    const removeLevel = (parent: PDFDict) => {
+      collectOutlineItems(pdfDoc, parent, found).forEach(ref => {
+        const item = context.lookup(ref);
+        if (item instanceof PDFDict) removeLevel(item);
+        context.delete(ref);
+      });
+    };
+    removeLevel(existing);
+    if (existingRef instanceof PDFRef) context.delete(existingRef);
+  }
+  catalog.delete(PDFName.of('Outlines'));
+  if (bookmarks.length === 0) return;
+
+  const pages = pdfDoc.getPages();
+  const outlinesRef = context.nextRef();
+
+  const writeLevel = (items: PDFBookmark[], parentRef: PDFRef): PDFRef[] => {
+    const refs = items.map(() => context.nextRef());
+    items.forEach((bookmark, i) => {
+      const page = bookmark.pageIndex !== null ? pages[bookmark.pageIndex] : undefined;
+      const item = context.obj({
+        Title: PDFHexString.fromText(bookmark.title),
+        Parent: parentRef
+      });
+      const destination = bookmark.source && copySourceEntries(context, bookmark.source, item, page?.ref);
+      if (page && !item.has(PDFName.of('Dest')) && !item.has(PDFName.of('A'))) {
+        // Keep the original view on the new page, or open at the top keeping the reader's zoom
+        const view = destination?.asArray().slice(1);
+        item.set(PDFName.of('Dest'), view?.length
+          ? context.obj([page.ref, ...view])
+          : context.obj([page.ref, PDFName.of('XYZ'), 0, page.getHeight(), PDFNull]));
+      }
+      if (i > 0) item.set(PDFName.of('Prev'), refs[i - 1]);
+      if (i < refs.length - 1) item.set(PDFName.of('Next'), refs[i + 1]);
+      if (bookmark.children.length > 0) {
+        const childRefs = writeLevel(bookmark.children, refs[i]);
+        const descendants = countVisible(bookmark.children);
+        item.set(PDFName.of('First'), childRefs[0]);
+        item.set(PDFName.of('Last'), childRefs[childRefs.length - 1]);
+        item.set(PDFName.of('Count'), PDFNumber.of(bookmark.open ? descendants : -descendants));
+      }
+      context.assign(refs[i], item);
+    });
+    return refs;
+  };
+
+  const topRefs = writeLevel(bookmarks, outlinesRef);
+  context.assign(outlinesRef, context.obj({
+    Type: 'Outlines',
+    First: topRefs[0],
+    Last: topRefs[topRefs.length - 1],
+    Count: countVisible(bookmarks)
+  }));
+  catalog.set(PDFName.of('Outlines'), outlinesRef);
+};
+
+const childrenAt = (bookmarks: PDFBookmark[], path: number[]): PDFBookmark[] => {
+  let level = bookmarks;
+  for (const index of path) {
+    const bookmark = level[index];
+    if (!bookmark) throw new Error(`No bookmark at position ${path.map(i => i + 1).join('.')}`);
+    level = bookmark.children;
+  }
+  return level;
+};
+
+/**
+ * Apply an edit to a bookmark tree, returning the edited copy
+ */
+export const applyBookmarkEdit = (bookmarks: PDFBookmark[], edit: PDFBookmarkEdit): PDFBookmark[] => {
+  // Copied by hand, since source items cannot be cloned
+  const copyTree = (level: PDFBookmark[]): PDFBookmark[] =>
+    level.map(bookmark => ({ ...bookmark, children: copyTree(bookmark.children) }));
+  const copy = copyTree(bookmarks);
+
+  if (edit.type === 'add') {
+    const level = childrenAt(copy, edit.parentPath);
+    level.splice(edit.index ?? level.length, 0, { title: edit.title, pageIndex: edit.pageIndex, children: [] });
+    return copy;
+  }
+
+  const parent = childrenAt(copy, edit.path.slice(0, -1));
+  const index = edit.path[edit.path.length - 1];
+  if (!parent[index]) throw new Error(`No bookmark at position ${edit.path.map(i => i + 1).join('.')}`);
+
+  if (edit.type === 'rename') {
+    parent[index].title = edit.title;
+  } else if (edit.type === 'delete') {
+    parent.splice(index, 1);
+  } else {
+    const isOwnDescendant = edit.parentPath.length >= edit.path.length &&
+      edit.path.every((step, i) => edit.parentPath[i] === step);
+    if (isOwnDescendant) throw new Error('A bookmark cannot be moved into itself');
+
+    // Resolve the destination before removing, since removal shifts later siblings;
+    // the index is the bookmark's position among its new siblings
+    const target = childrenAt(copy, edit.parentPath);
+    const [bookmark] = parent.splice(index, 1);
+    target.splice(Math.max(0, Math.min(edit.index, target.length)), 0, bookmark);
+  }
+
+  return copy;
+};
+
+/**
+ * Copy a bookmark tree with its page indices mapped, e.g. after pages were
+ * moved into another document. Pages that map to null lose their destination,
+ * or with dropUnmapped the bookmark is left out unless it has children left.
+ */
+export const remapBookmarkPages = (
+  bookmarks: PDFBookmark[],
+  mapPage: (pageIndex: number) => number | null,
+  dropUnmapped = false
+): PDFBookmark[] =>
+  bookmarks.flatMap(bookmark => {
+    const pageIndex = bookmark.pageIndex === null ? null : mapPage(bookmark.pageIndex);
+    const children = remapBookmarkPages(bookmark.children, mapPage, dropUnmapped);
+    if (dropUnmapped && pageIndex === null && children.length === 0) return [];
+    return [{ ...bookmark, pageIndex, children }];
+  });
@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { PDFArray, PDFDocument, PDFRawStream, StandardFonts, decodePDFRawStream } from 'pdf-lib';
+import { redactPDFDocument } from './pdfRedactionUtils';
+
+/** The decoded content streams of a page, as Latin-1 text */
+const pageContent = (pdfDoc: PDFDocument, pageIndex: number): string => {
+  const contents = pdfDoc.getPage(pageIndex).node.Contents();
+  const streams = contents instanceof PDFArray ? contents.asArray().map(ref => pdfDoc.context.lookup(ref)) : [contents];
+  return streams
+    .map(stream => (stream instanceof PDFRawStream ? Buffer.from(decodePDFRawStream(stream).decode()).toString('latin1') : ''))
+    .join('\n');
+};
+
+/** pdf-lib writes standard font text as hex strings */
+const hexOf = (text: string) => Buffer.from(text, 'latin1').toString('hex').toUpperCase();
+
+describe('redactPDFDocument', () => {
+  it('removes matched text from the content stream and keeps the rest', async () => {
+    const pdfDoc = await PDFDocument.create();
+    const font = await pdfDoc.embedFont(StandardFonts.Helvetica);
+    const page = pdfDoc.addPage([400, 400]);
+    page.drawText('Account 12345', { x: 50, y: 300, size: 12, font });
+    page.drawText('Public notice', { x: 50, y: 200, size: 12, font });
+    pdfDoc.setTitle('Statement for account 12345');
+
+    const reloaded = await PDFDocument.load(await pdfDoc.save());
+    const log = await redactPDFDocument(reloaded, { searchTerms: ['12345'] });
+    const redacted = await PDFDocument.load(await reloaded.save());
+    const content = pageContent(redacted, 0);
+
+    expect(content).not.toContain(hexOf('12345'));
+    expect(content).not.toContain('12345');
+    expect(content).toContain(hexOf('Public notice'));
+    expect(redacted.getTitle()).not.toContain('12345');
+    expect(log.some(entry => entry.kind === 'text' && entry.pageIndex === 0)).toBe(true);
+    expect(log.some(entry => entry.kind === 'metadata')).toBe(true);
+  });
+
+  it('removes text inside a region', async () => {
+    const pdfDoc = await PDFDocument.create();
+    const font = await pdfDoc.embedFont(StandardFonts.Helvetica);
+    const page = pdfDoc.addPage([400, 400]);
+    page.drawText('Inside', { x: 50, y: 300, size: 12, font });
+    page.drawText('Outside', { x: 50, y: 100, size: 12, font });
+
+    const reloaded = await PDFDocument.load(await pdfDoc.save());
+    await redactPDFDocument(reloaded, { regions: [{ pageIndex: 0, x: 40, y: 290, width: 200, height: 30 }] });
+    const content = pageContent(await PDFDocument.load(await reloaded.save()), 0);
+
+    expect(content).not.toContain(hexOf('Inside'));
+    expect(content).toContain(hexOf('Outside'));
+  });
+
+  it('rejects invalid patterns', async () => {
+    const pdfDoc = await PDFDocument.create();
+    pdfDoc.addPage();
+
+    await expect(redactPDFDocument(pdfDoc, { patterns: ['('] })).rejects.toThrow('Invalid redaction pattern: (');
+  });
+});
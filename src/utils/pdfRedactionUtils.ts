@@ -0,0 +1,1236 @@
+// src/utils/pdfRedactionUtils.ts
+// True redaction on top of pdf-lib: page content streams are parsed and
+// rewritten so redacted glyphs and image pixels are removed from the file,
+// not just covered up.
+import {
+  PDFArray,
+  PDFContext,
+  PDFDict,
+  PDFDocument,
+  PDFFont,
+  PDFHexString,
+  PDFName,
+  PDFNumber,
+  PDFObject,
+  PDFPage,
+  PDFRawStream,
+  PDFRef,
+  PDFStream,
+  PDFString,
+  StandardFonts,
+  decodePDFRawStream,
+  rgb
+} from 'pdf-lib';
+import { collectReachableRefs, deflateBytes, undoPNGPredictor, winAnsiCodePoint } from './pdfObjectUtils';
+
+export interface PDFRedactionRegion {
+  pageIndex: number;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface PDFRedactionOptions {
+  /** Areas to redact, in PDF points from the bottom-left corner of the page */
+  regions?: PDFRedactionRegion[];
+  /** Words or phrases to redact wherever they appear */
+  searchTerms?: string[];
+  /** Regular expressions to redact wherever they match */
+  patterns?: string[];
+  caseSensitive?: boolean;
+}
+
+export interface PDFRedactionLogEntry {
+  kind: 'text' | 'image' | 'annotation' | 'formField' | 'metadata';
+  pageIndex?: number;
+  description: string;
+}
+
+type Matrix = [number, number, number, number, number, number];
+type Box = [number, number, number, number];
+
+type ContentValue =
+  | { type: 'number'; value: number }
+  | { type: 'string'; bytes: Uint8Array }
+  | { type: 'name'; value: string }
+  | { type: 'array'; items: ContentValue[] }
+  | { type: 'dict'; entries: [string, ContentValue][] }
+  | { type: 'keyword'; value: string };
+
+interface ContentOperation {
+  operator: string;
+  operands: ContentValue[];
+  start: number;
+  end: number;
+}
+
+interface FontInfo {
+  bytesPerCode: 1 | 2;
+  ascent: number;
+  descent: number;
+  widthOf: (code: number) => number;
+  unicodeOf: (code: number) => string;
+}
+
+interface TextState {
+  charSpacing: number;
+  wordSpacing: number;
+  scale: number;
+  leading: number;
+  font?: FontInfo;
+  fontSize: number;
+  rise: number;
+}
+
+interface GraphicsState {
+  ctm: Matrix;
+  text: TextState;
+}
+
+interface Glyph {
+  id: number;
+  unicode: string;
+  box: Box;
+  origin: [number, number];
+  height: number;
+}
+
+interface PageRedaction {
+  /** Glyphs matched by search terms, by id */
+  glyphIds: Set<number>;
+  /** Areas whose text is removed */
+  regions: Box[];
+  /** Areas whose images and annotations are removed and painted black */
+  boxes: Box[];
+}
+
+interface RedactionContext {
+  context: PDFContext;
+  pageIndex: number;
+  nextGlyphId: number;
+  glyphs: Glyph[];
+  plan?: PageRedaction;
+  removedText: string[];
+  log: PDFRedactionLogEntry[];
+  fonts: Map<PDFDict, FontInfo>;
+  standardFonts: Map<string, PDFFont>;
+  scratch: PDFDocument;
+  resourceCounter: number;
+}
+
+const IDENTITY: Matrix = [1, 0, 0, 1, 0, 0];
+const WHITESPACE = new Set([0, 9, 10, 12, 13, 32]);
+const DELIMITERS = new Set(Array.from('()<>[]{}/%', c => c.charCodeAt(0)));
+const REDACTED_TEXT = '[redacted]';
+const MAX_FORM_DEPTH = 12;
+
+const GLYPH_NAMES: Record<string, string> = {
+  space: ' ', exclam: '!', quotedbl: '"', numbersign: '#', dollar: '$', percent: '%', ampersand: '&',
+  quotesingle: "'", quoteright: '’', quoteleft: '‘', parenleft: '(', parenright: ')', asterisk: '*',
+  plus: '+', comma: ',', hyphen: '-', period: '.', slash: '/', colon: ':', semicolon: ';', less: '<',
+  equal: '=', greater: '>', question: '?', at: '@', bracketleft: '[', backslash: '\\', bracketright: ']',
+  underscore: '_', zero: '0', one: '1', two: '2', three: '3', four: '4', five: '5', six: '6', seven: '7',
+  eight: '8', nine: '9', endash: '–', emdash: '—', bullet: '•', quotedblleft: '“',
+  quotedblright: '”', fi: 'fi', fl: 'fl'
+};
+
+const latin1 = (bytes: Uint8Array): string => {
+  let text = '';
+  for (let i = 0; i < bytes.length; i += 8192) {
+    text += String.fromCharCode(...bytes.subarray(i, i + 8192));
+  }
+  return text;
+};
+
+const concatBytes = (chunks: Uint8Array[]): Uint8Array => {
+  const output = new Uint8Array(chunks.reduce((sum, chunk) => sum + chunk.length, 0));
+  let offset = 0;
+  chunks.forEach(chunk => {
+    output.set(chunk, offset);
+    offset += chunk.length;
+  });
+  return output;
+};
+
+const encodeLatin1 = (text: string): Uint8Array => Uint8Array.from(text, c => c.charCodeAt(0) & 0xff);
+
+const multiply = (m: Matrix, n: Matrix): Matrix => [
+  m[0] * n[0] + m[1] * n[2],
+  m[0] * n[1] + m[1] * n[3],
+  m[2] * n[0] + m[3] * n[2],
+  m[2] * n[1] + m[3] * n[3],
+  m[4] * n[0] + m[5] * n[2] + n[4],
+  m[4] * n[1] + m[5] * n[3] + n[5]
+];
+
+const transformPoint = (m: Matrix, x: number, y: number): [number, number] => [
+  m[0] * x + m[2] * y + m[4],
+  m[1] * x + m[3] * y + m[5]
+];
+
+const invert = (m: Matrix): Matrix | undefined => {
+  const determinant = m[0] * m[3] - m[1] * m[2];
+  if (Math.abs(determinant) < 1e-12) return undefined;
+  return [
+    m[3] / determinant,
+    -m[1] / determinant,
+    -m[2] / determinant,
+    m[0] / determinant,
+    (m[2] * m[5] - m[3] * m[4]) / determinant,
+    (m[1] * m[4] - m[0] * m[5]) / determinant
+  ];
+};
+
+/** Bounding box of a rectangle after transforming it */
+const transformBox = (m: Matrix, [x1, y1, x2, y2]: Box): Box => {
+  const corners = [transformPoint(m, x1, y1), transformPoint(m, x2, y1), transformPoint(m, x1, y2), transformPoint(m, x2, y2)];
+  const xs = corners.map(([x]) => x);
+  const ys = corners.map(([, y]) => y);
+  return [Math.min(...xs), Math.min(...ys), Math.max(...xs), Math.max(...ys)];
+};
+
+const intersects = (a: Box, b: Box): boolean => a[0] < b[2] && b[0] < a[2] && a[1] < b[3] && b[1] < a[3];
+
+const numbersOf = (array: PDFArray | undefined): number[] =>
+  array?.asArray().map(value => (value instanceof PDFNumber ? value.asNumber() : 0)) ?? [];
+
+const decodeStream = (stream: PDFStream): Uint8Array =>
+  stream instanceof PDFRawStream ? decodePDFRawStream(stream).decode() : stream.getContents();
+
+/** Parse a content stream into operations, keeping the byte range of each */
+const parseContent = (bytes: Uint8Array): ContentOperation[] => {
+  const length = bytes.length;
+  let pos = 0;
+
+  const skipWhitespace = () => {
+    while (pos < length) {
+      if (WHITESPACE.has(bytes[pos])) {
+        pos++;
+      } else if (bytes[pos] === 0x25) {
+        while (pos < length && bytes[pos] !== 0x0a && bytes[pos] !== 0x0d) pos++;
+      } else {
+        break;
+      }
+    }
+  };
+
+  const readLiteralString = (): ContentValue => {
+    const output: number[] = [];
+    let depth = 1;
+    pos++;
+    while (pos < length) {
+      const byte = bytes[pos++];
+      if (byte === 0x5c) {
+        const next = bytes[pos++];
+        const escapes: Record<number, number> = { 0x6e: 10, 0x72: 13, 0x74: 9, 0x62: 8, 0x66: 12 };
+        if (next in escapes) {
+          output.push(escapes[next]);
+        } else if (next >= 0x30 && next <= 0x37) {
+          let octal = next - 0x30;
+          for (let i = 0; i < 2 && bytes[pos] >= 0x30 && bytes[pos] <= 0x37; i++) {
+            octal = octal * 8 + (bytes[pos++] - 0x30);
+          }
+          output.push(octal & 0xff);
+        } else if (next === 0x0d) {
+          if (bytes[pos] === 0x0a) pos++;
+        } else if (next !== 0x0a) {
+          output.push(next);
+        }
+      } else {
+        if (byte === 0x28) depth++;
+        if (byte === 0x29 && --depth === 0) break;
+        output.push(byte);
+      }
+    }
+    return { type: 'string', bytes: new Uint8Array(output) };
+  };
+
+  const readHexString = (): ContentValue => {
+    pos++;
+    let digits = '';
+    while (pos < length && bytes[pos] !== 0x3e) {
+      if (!WHITESPACE.has(bytes[pos])) digits += String.fromCharCode(bytes[pos]);
+      pos++;
+    }
+    pos++;
+    if (digits.length % 2) digits += '0';
+    return { type: 'string', bytes: Uint8Array.from(digits.match(/../g) ?? [], hex => parseInt(hex, 16)) };
+  };
+
+  const readObject = (): ContentValue | undefined => {
+    skipWhitespace();
+    if (pos >= length) return undefined;
+    const byte = bytes[pos];
+
+    if (byte === 0x28) return readLiteralString();
+    if (byte === 0x3c && bytes[pos + 1] === 0x3c) {
+      pos += 2;
+      const entries: [string, ContentValue][] = [];
+      for (;;) {
+        skipWhitespace();
+        if (pos >= length) break;
+        if (bytes[pos] === 0x3e && bytes[pos + 1] === 0x3e) {
+          pos += 2;
+          break;
+        }
+        const key = readObject();
+        const value = readObject();
+        if (!key || !value) break;
+        if (key.type === 'name') entries.push([key.value, value]);
+      }
+      return { type: 'dict', entries };
+    }
+    if (byte === 0x3c) return readHexString();
+    if (byte === 0x5b) {
+      pos++;
+      const items: ContentValue[] = [];
+      for (;;) {
+        skipWhitespace();
+        if (pos >= length) break;
+        if (bytes[pos] === 0x5d) {
+          pos++;
+          break;
+        }
+        const item = readObject();
+        if (!item) break;
+        items.push(item);
+      }
+      return { type: 'array', items };
+    }
+    if (byte === 0x2f) {
+      const start = ++pos;
+      while (pos < length && !WHITESPACE.has(bytes[pos]) && !DELIMITERS.has(bytes[pos])) pos++;
+      const value = latin1(bytes.subarray(start, pos)).replace(/#([0-9a-fA-F]{2})/g, (_, hex) => String.fromCharCode(parseInt(hex, 16)));
+      return { type: 'name', value };
+    }
+    if (DELIMITERS.has(byte)) {
+      pos++;
+      return { type: 'keyword', value: String.fromCharCode(byte) };
+    }
+
+    const start = pos;
+    while (pos < length && !WHITESPACE.has(bytes[pos]) && !DELIMITERS.has(bytes[pos])) pos++;
+    const token = latin1(bytes.subarray(start, pos));
+    if (/^[+-]?(\d+\.?\d*|\.\d+)$/.test(token)) return { type: 'number', value: parseFloat(token) };
+    return { type: 'keyword', value: token };
+  };
+
+  const operations: ContentOperation[] = [];
+  let operands: ContentValue[] = [];
+  let start = 0;
+
+  for (;;) {
+    skipWhitespace();
+    if (pos >= length) break;
+    if (operands.length === 0) start = pos;
+    const value = readObject();
+    if (!value) break;
+
+    if (value.type !== 'keyword' || ['true', 'false', 'null'].includes(value.value)) {
+      operands.push(value);
+      continue;
+    }
+
+    if (value.value === 'BI') {
+      // Inline image: key/value pairs up to ID, then binary data up to EI
+      const entries: [string, ContentValue][] = [];
+      for (;;) {
+        const key = readObject();
+        if (!key || (key.type === 'keyword' && key.value === 'ID')) break;
+        const entryValue = readObject();
+        if (key.type === 'name' && entryValue) entries.push([key.value, entryValue]);
+      }
+      let end = pos + 1;
+      while (
+        end < length &&
+        !(bytes[end] === 0x45 && bytes[end + 1] === 0x49 &&
+          WHITESPACE.has(bytes[end - 1]) && (end + 2 >= length || WHITESPACE.has(bytes[end + 2])))
+      ) {
+        end++;
+      }
+      pos = Math.min(length, end + 2);
+      operations.push({ operator: 'BI', operands: [{ type: 'dict', entries }], start, end: pos });
+    } else {
+      operations.push({ operator: value.value, operands, start, end: pos });
+    }
+    operands = [];
+  }
+
+  return operations;
+};
+
+const serializeValue = (value: ContentValue): string => {
+  switch (value.type) {
+    case 'number':
+      return Number.isInteger(value.value) ? String(value.value) : String(Number(value.value.toFixed(4)));
+    case 'string':
+      return `<${Array.from(value.bytes, b => b.toString(16).padStart(2, '0')).join('')}>`;
+    case 'name':
+      return `/${Array.from(value.value, c => {
+        const code = c.charCodeAt(0);
+        return code < 33 || code > 126 || DELIMITERS.has(code) || c === '#' ? `#${code.toString(16).padStart(2, '0')}` : c;
+      }).join('')}`;
+    case 'array':
+      return `[${value.items.map(serializeValue).join(' ')}]`;
+    case 'dict':
+      return `<<${value.entries.map(([key, entry]) => `${serializeValue({ type: 'name', value: key })} ${serializeValue(entry)}`).join(' ')}>>`;
+    case 'keyword':
+      return value.value;
+  }
+};
+
+const serializeOperation = (operator: string, operands: ContentValue[]): Uint8Array =>
+  encodeLatin1(`${[...operands.map(serializeValue), operator].join(' ')}\n`);
+
+/** Parse the bfchar and bfrange sections of a ToUnicode CMap */
+const parseToUnicode = (stream: PDFStream): Map<number, string> => {
+  const map = new Map<number, string>();
+  const text = latin1(decodeStream(stream));
+  const utf16 = (hex: string) => {
+    const units = hex.match(/.{1,4}/g)?.map(unit => parseInt(unit.padEnd(4, '0'), 16)) ?? [];
+    return String.fromCharCode(...units);
+  };
+
+  for (const [, body] of text.matchAll(/beginbfchar([\s\S]*?)endbfchar/g)) {
+    for (const [, source, target] of body.matchAll(/<([0-9a-fA-F]+)>\s*<([0-9a-fA-F]*)>/g)) {
+      map.set(parseInt(source, 16), utf16(target));
+    }
+  }
+  for (const [, body] of text.matchAll(/beginbfrange([\s\S]*?)endbfrange/g)) {
+    for (const [, low, high, target] of body.matchAll(/<([0-9a-fA-F]+)>\s*<([0-9a-fA-F]+)>\s*(<[0-9a-fA-F]*>|\[[^\]]*\])/g)) {
+      const first = parseInt(low, 16);
+      const last = Math.min(parseInt(high, 16), first + 0xffff);
+      if (target.startsWith('[')) {
+        Array.from(target.matchAll(/<([0-9a-fA-F]*)>/g)).forEach(([, hex], i) => {
+          if (first + i <= last) map.set(first + i, utf16(hex));
+        });
+      } else {
+        const base = utf16(target.slice(1, -1));
+        for (let code = first; code <= last; code++) {
+          map.set(code, base.slice(0, -1) + String.fromCharCode(base.charCodeAt(base.length - 1) + code - first));
+        }
+      }
+    }
+  }
+
+  return map;
+};
+
+/** Standard 14 font whose metrics stand in for a font without a Widths array */
+const standardFontFor = (baseFont: string): StandardFonts => {
+  const fontName = baseFont.replace(/^[A-Z]{6}\+/, '');
+  if ((Object.values(StandardFonts) as string[]).includes(fontName)) return fontName as StandardFonts;
+  const lower = fontName.toLowerCase();
+  if (lower.includes('symbol')) return StandardFonts.Symbol;
+  if (lower.includes('dingbat')) return StandardFonts.ZapfDingbats;
+  const bold = /bold|black|heavy|semibold/.test(lower);
+  const italic = /italic|oblique/.test(lower);
+  if (/courier|mono/.test(lower)) {
+    return bold ? (italic ? StandardFonts.CourierBoldOblique : StandardFonts.CourierBold) : italic ? StandardFonts.CourierOblique : StandardFonts.Courier;
+  }
+  if (/times|serif|roman|georgia/.test(lower) && !lower.includes('sans')) {
+    return bold ? (italic ? StandardFonts.TimesRomanBoldItalic : StandardFonts.TimesRomanBold) : italic ? StandardFonts.TimesRomanItalic : StandardFonts.TimesRoman;
+  }
+  return bold ? (italic ? StandardFonts.HelveticaBoldOblique : StandardFonts.HelveticaBold) : italic ? StandardFonts.HelveticaOblique : StandardFonts.Helvetica;
+};
+
+const loadFont = (redaction: RedactionContext, font: PDFDict): FontInfo => {
+  const cached = redaction.fonts.get(font);
+  if (cached) return cached;
+
+  const subtype = font.lookupMaybe(PDFName.of('Subtype'), PDFName)?.decodeText();
+  const toUnicodeStream = font.lookup(PDFName.of('ToUnicode'));
+  const toUnicode = toUnicodeStream instanceof PDFStream ? parseToUnicode(toUnicodeStream) : new Map<number, string>();
+  let info: FontInfo;
+
+  if (subtype === 'Type0') {
+    const descendant = font.lookupMaybe(PDFName.of('DescendantFonts'), PDFArray)?.lookupMaybe(0, PDFDict);
+    const descriptor = descendant?.lookupMaybe(PDFName.of('FontDescriptor'), PDFDict);
+    const defaultWidth = descendant?.lookupMaybe(PDFName.of('DW'), PDFNumber)?.asNumber() ?? 1000;
+    const widths = new Map<number, number>();
+    const w = descendant?.lookupMaybe(PDFName.of('W'), PDFArray);
+    for (let i = 0; w && i < w.size(); ) {
+      const first = w.lookupMaybe(i, PDFNumber)?.asNumber() ?? 0;
+      const next = w.lookup(i + 1);
+      if (next instanceof PDFArray) {
+        numbersOf(next).forEach((width, offset) => widths.set(first + offset, width));
+        i += 2;
+      } else {
+        const last = next instanceof PDFNumber ? next.asNumber() : first;
+        const width = w.lookupMaybe(i + 2, PDFNumber)?.asNumber() ?? defaultWidth;
+        for (let code = first; code <= last && code - first < 0x10000; code++) widths.set(code, width);
+        i += 3;
+      }
+    }
+    info = {
+      bytesPerCode: 2,
+      ascent: (descriptor?.lookupMaybe(PDFName.of('Ascent'), PDFNumber)?.asNumber() ?? 800) / 1000,
+      descent: (descriptor?.lookupMaybe(PDFName.of('Descent'), PDFNumber)?.asNumber() ?? -200) / 1000,
+      widthOf: code => (widths.get(code) ?? defaultWidth) / 1000,
+      unicodeOf: code => toUnicode.get(code) ?? '�'
+    };
+  } else {
+    const descriptor = font.lookupMaybe(PDFName.of('FontDescriptor'), PDFDict);
+    const firstChar = font.lookupMaybe(PDFName.of('FirstChar'), PDFNumber)?.asNumber() ?? 0;
+    const widths = numbersOf(font.lookupMaybe(PDFName.of('Widths'), PDFArray));
+    const missingWidth = descriptor?.lookupMaybe(PDFName.of('MissingWidth'), PDFNumber)?.asNumber() ?? 0;
+    const glyphScale = subtype === 'Type3'
+      ? numbersOf(font.lookupMaybe(PDFName.of('FontMatrix'), PDFArray))[0] ?? 0.001
+      : 0.001;
+
+    const differences = new Map<number, string>();
+    const encoding = font.lookup(PDFName.of('Encoding'));
+    const differenceList = encoding instanceof PDFDict ? encoding.lookupMaybe(PDFName.of('Differences'), PDFArray) : undefined;
+    let code = 0;
+    differenceList?.asArray().forEach(value => {
+      if (value instanceof PDFNumber) code = value.asNumber();
+      else if (value instanceof PDFName) differences.set(code++, value.decodeText());
+    });
+    const glyphNameToUnicode = (glyphName: string) => {
+      if (GLYPH_NAMES[glyphName]) return GLYPH_NAMES[glyphName];
+      const hex = glyphName.match(/^uni([0-9A-Fa-f]{4})$/) ?? glyphName.match(/^u([0-9A-Fa-f]{4,6})$/);
+      if (hex) return String.fromCodePoint(parseInt(hex[1], 16));
+      return glyphName.length === 1 ? glyphName : '�';
+    };
+
+    let standardFont: PDFFont | undefined;
+    if (widths.length === 0 && subtype !== 'Type3') {
+      const fontName = standardFontFor(font.lookupMaybe(PDFName.of('BaseFont'), PDFName)?.decodeText() ?? 'Helvetica');
+      standardFont = redaction.standardFonts.get(fontName);
+      if (!standardFont) {
+        standardFont = redaction.scratch.embedStandardFont(fontName);
+        redaction.standardFonts.set(fontName, standardFont);
+      }
+    }
+
+    const unicodeOf = (charCode: number) => {
+      const mapped = toUnicode.get(charCode);
+      if (mapped !== undefined) return mapped;
+      const glyphName = differences.get(charCode);
+      return glyphName ? glyphNameToUnicode(glyphName) : String.fromCodePoint(winAnsiCodePoint(charCode) || charCode);
+    };
+
+    info = {
+      bytesPerCode: 1,
+      ascent: subtype === 'Type3' ? 0.8 : (descriptor?.lookupMaybe(PDFName.of('Ascent'), PDFNumber)?.asNumber() || 800) / 1000,
+      descent: subtype === 'Type3' ? -0.2 : (descriptor?.lookupMaybe(PDFName.of('Descent'), PDFNumber)?.asNumber() || -200) / 1000,
+      widthOf: charCode => {
+        if (standardFont) {
+          try {
+            return standardFont.widthOfTextAtSize(unicodeOf(charCode), 1);
+          } catch {
+            return 0.5;
+          }
+        }
+        const width = widths[charCode - firstChar];
+        return (width ?? missingWidth) * glyphScale;
+      },
+      unicodeOf
+    };
+  }
+
+  redaction.fonts.set(font, info);
+  return info;
+};
+
+/** A name not yet used in a resource category */
+const uniqueResourceName = (redaction: RedactionContext, dict: PDFDict, prefix: string): string => {
+  let resourceName: string;
+  do {
+    resourceName = `${prefix}${++redaction.resourceCounter}`;
+  } while (dict.has(PDFName.of(resourceName)));
+  return resourceName;
+};
+
+/**
+ * Black out the parts of an image that fall inside the boxes. Returns the
+ * redacted copy, or undefined when the image format cannot be edited and the
+ * whole image has to go.
+ */
+const redactImage = async (
+  redaction: RedactionContext,
+  image: PDFRawStream,
+  ctm: Matrix,
+  boxes: Box[]
+): Promise<PDFRef | undefined> => {
+  const { context } = redaction;
+  const { dict } = image;
+  const width = dict.lookupMaybe(PDFName.of('Width'), PDFNumber)?.asNumber() ?? 0;
+  const height = dict.lookupMaybe(PDFName.of('Height'), PDFNumber)?.asNumber() ?? 0;
+  const inverse = invert(ctm);
+  if (!width || !height || !inverse) return undefined;
+
+  // Pixel rectangles covered by the boxes; image space maps the unit square top row first
+  const pixelRects = boxes.map(box => {
+    const [u1, v1, u2, v2] = transformBox(inverse, box);
+    return [
+      Math.max(0, Math.floor(u1 * width)),
+      Math.max(0, Math.floor((1 - v2) * height)),
+      Math.min(width, Math.ceil(u2 * width)),
+      Math.min(height, Math.ceil((1 - v1) * height))
+    ];
+  }).filter(([x1, y1, x2, y2]) => x2 > x1 && y2 > y1);
+  if (pixelRects.length === 0) return undefined;
+
+  const filter = dict.lookup(PDFName.of('Filter'));
+  const filters = (filter instanceof PDFArray ? filter.asArray() : filter ? [filter] : [])
+    .map(value => (value instanceof PDFName ? value.decodeText() : ''));
+  const isImageMask = dict.lookup(PDFName.of('ImageMask'))?.toString() === 'true';
+  const colorSpace = dict.lookup(PDFName.of('ColorSpace'));
+  const colorSpaceName = colorSpace instanceof PDFName ? colorSpace.decodeText() : undefined;
+  const iccComponents = colorSpace instanceof PDFArray && colorSpace.lookupMaybe(0, PDFName)?.decodeText() === 'ICCBased'
+    ? colorSpace.lookupMaybe(1, PDFStream)?.dict.lookupMaybe(PDFName.of('N'), PDFNumber)?.asNumber()
+    : undefined;
+  const components = isImageMask ? 1
+    : colorSpaceName === 'DeviceGray' ? 1
+      : colorSpaceName === 'DeviceRGB' ? 3
+        : iccComponents === 1 || iccComponents === 3 ? iccComponents
+          : undefined;
+  if (!components) return undefined;
+
+  if (filters.includes('DCTDecode')) {
+    if (filters.length !== 1 || typeof document === 'undefined') return undefined;
+    const bitmap = await createImageBitmap(new Blob([image.contents as BlobPart], { type: 'image/jpeg' }));
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const canvasContext = canvas.getContext('2d');
+    if (!canvasContext) return undefined;
+    canvasContext.drawImage(bitmap, 0, 0, width, height);
+    bitmap.close();
+    canvasContext.fillStyle = '#000000';
+    pixelRects.forEach(([x1, y1, x2, y2]) => canvasContext.fillRect(x1, y1, x2 - x1, y2 - y1));
+    const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/jpeg', 0.92));
+    if (!blob) return undefined;
+
+    const redactedDict = dict.clone(context);
+    ['Length', 'Decode', 'DecodeParms'].forEach(key => redactedDict.delete(PDFName.of(key)));
+    redactedDict.set(PDFName.of('ColorSpace'), PDFName.of('DeviceRGB'));
+    return context.register(PDFRawStream.of(redactedDict, new Uint8Array(await blob.arrayBuffer())));
+  }
+
+  // Only filters pdf-lib can decode; fax, JBIG2 and JPEG 2000 images are removed
+  if (!filters.every(name => ['FlateDecode', 'LZWDecode', 'ASCII85Decode', 'ASCIIHexDecode', 'RunLengthDecode'].includes(name))) {
+    return undefined;
+  }
+  const bitsPerComponent = isImageMask ? 1 : dict.lookupMaybe(PDFName.of('BitsPerComponent'), PDFNumber)?.asNumber();
+  if (bitsPerComponent !== 1 && bitsPerComponent !== 8) return undefined;
+
+  let samples = filters.length > 0 ? decodePDFRawStream(image).decode() : image.contents.slice();
+  const decodeParms = dict.lookupMaybe(PDFName.of('DecodeParms'), PDFDict);
+  const predictor = decodeParms?.lookupMaybe(PDFName.of('Predictor'), PDFNumber)?.asNumber() ?? 1;
+  const rowBytes = Math.ceil((width * components * bitsPerComponent) / 8);
+  if (predictor >= 10) {
+    samples = undoPNGPredictor(samples, rowBytes / Math.max(1, (components * bitsPerComponent) / 8), Math.max(1, (components * bitsPerComponent) / 8));
+  } else if (predictor !== 1) {
+    return undefined;
+  }
+  if (samples.length < rowBytes * height) return undefined;
+
+  // Stencil masks are cleared (nothing painted); other images are painted black
+  const decode = numbersOf(dict.lookupMaybe(PDFName.of('Decode'), PDFArray));
+  const inverted = decode.length >= 2 && decode[0] > decode[1];
+  const setBits = isImageMask ? !inverted : inverted;
+
+  pixelRects.forEach(([x1, y1, x2, y2]) => {
+    for (let row = y1; row < y2; row++) {
+      if (bitsPerComponent === 8) {
+        samples.fill(setBits ? 255 : 0, row * rowBytes + x1 * components, row * rowBytes + x2 * components);
+      } else {
+        for (let column = x1; column < x2; column++) {
+          const index = row * rowBytes + (column >> 3);
+          const bit = 0x80 >> (column & 7);
+          samples[index] = setBits ? samples[index] | bit : samples[index] & ~bit;
+        }
+      }
+    }
+  });
+
+  const redactedDict = dict.clone(context);
+  ['Length', 'DecodeParms'].forEach(key => redactedDict.delete(PDFName.of(key)));
+  redactedDict.set(PDFName.of('Filter'), PDFName.of('FlateDecode'));
+  return context.register(PDFRawStream.of(redactedDict, await deflateBytes(samples.subarray(0, rowBytes * height))));
+};
+
+/**
+ * Interpret a content stream, recording every glyph and, when a redaction
+ * plan is given, rewriting the operations that draw redacted glyphs, images
+ * and form XObjects. Returns the new content and resources when anything
+ * changed.
+ */
+const processContent = async (
+  redaction: RedactionContext,
+  bytes: Uint8Array,
+  resources: PDFDict | undefined,
+  initialCtm: Matrix,
+  depth = 0
+): Promise<{ bytes: Uint8Array; resources: PDFDict | undefined } | undefined> => {
+  const { context, plan } = redaction;
+  const operations = parseContent(bytes);
+  const chunks: Uint8Array[] = [];
+  const markedContent: { chunk: number; operation: ContentOperation; touched: boolean }[] = [];
+  let changed = false;
+  let localResources: PDFDict | undefined;
+  let localXObjects: PDFDict | undefined;
+  const replacedXObjects = new Set<string>();
+  const keptXObjects = new Set<string>();
+
+  const xObjects = resources?.lookupMaybe(PDFName.of('XObject'), PDFDict);
+  const fonts = resources?.lookupMaybe(PDFName.of('Font'), PDFDict);
+
+  /** XObjects of this content only, so shared resources are left untouched */
+  const ownXObjects = (): PDFDict => {
+    if (!localXObjects) {
+      localResources = resources ? resources.clone(context) : context.obj({});
+      localXObjects = xObjects ? xObjects.clone(context) : context.obj({});
+      localResources.set(PDFName.of('XObject'), localXObjects);
+    }
+    return localXObjects;
+  };
+
+  const addXObject = (prefix: string, ref: PDFRef): string => {
+    const resourceName = uniqueResourceName(redaction, ownXObjects(), prefix);
+    ownXObjects().set(PDFName.of(resourceName), ref);
+    return resourceName;
+  };
+
+  let state: GraphicsState = {
+    ctm: initialCtm,
+    text: { charSpacing: 0, wordSpacing: 0, scale: 1, leading: 0, fontSize: 0, rise: 0 }
+  };
+  const stack: GraphicsState[] = [];
+  let textMatrix: Matrix = IDENTITY;
+  let lineMatrix: Matrix = IDENTITY;
+
+  const boxes = plan?.boxes ?? [];
+  const number = (operand: ContentValue | undefined) => (operand?.type === 'number' ? operand.value : 0);
+  const moveText = (tx: number, ty: number) => {
+    lineMatrix = multiply([1, 0, 0, 1, tx, ty], lineMatrix);
+    textMatrix = lineMatrix;
+  };
+
+  /** Show text, returning the TJ operands to write instead when glyphs were removed */
+  const showText = (elements: ContentValue[]): ContentValue[] | undefined => {
+    const { font, fontSize, charSpacing, wordSpacing, scale, rise } = state.text;
+    if (!font) return undefined;
+
+    const output: ContentValue[] = [];
+    let kept: number[] = [];
+    let removedAny = false;
+    const flush = () => {
+      if (kept.length > 0) output.push({ type: 'string', bytes: new Uint8Array(kept) });
+      kept = [];
+    };
+    const adjust = (amount: number) => {
+      const last = output[output.length - 1];
+      if (last?.type === 'number') last.value += amount;
+      else output.push({ type: 'number', value: amount });
+    };
+
+    elements.forEach(element => {
+      if (element.type === 'number') {
+        flush();
+        adjust(element.value);
+        textMatrix = multiply([1, 0, 0, 1, (-element.value / 1000) * fontSize * scale, 0], textMatrix);
+        return;
+      }
+      if (element.type !== 'string') return;
+
+      for (let i = 0; i + font.bytesPerCode <= element.bytes.length; i += font.bytesPerCode) {
+        const code = font.bytesPerCode === 2 ? (element.bytes[i] << 8) | element.bytes[i + 1] : element.bytes[i];
+        const glyphWidth = font.widthOf(code);
+        const renderingMatrix = multiply(multiply([fontSize * scale, 0, 0, fontSize, 0, rise], textMatrix), state.ctm);
+        const glyph: Glyph = {
+          id: redaction.nextGlyphId++,
+          unicode: font.unicodeOf(code),
+          box: transformBox(renderingMatrix, [0, font.descent, Math.max(glyphWidth, 0.05), font.ascent]),
+          origin: transformPoint(renderingMatrix, 0, 0),
+          height: Math.hypot(renderingMatrix[2], renderingMatrix[3])
+        };
+        const advance = glyphWidth * fontSize + charSpacing + (font.bytesPerCode === 1 && code === 32 ? wordSpacing : 0);
+
+        if (!plan) {
+          redaction.glyphs.push(glyph);
+        }
+        const remove = !!plan && (plan.glyphIds.has(glyph.id) || plan.regions.some(box => intersects(box, glyph.box)));
+        if (remove) {
+          flush();
+          if (fontSize !== 0) adjust((-advance * 1000) / fontSize);
+          redaction.removedText.push(glyph.unicode);
+          removedAny = true;
+        } else {
+          kept.push(...element.bytes.subarray(i, i + font.bytesPerCode));
+        }
+        textMatrix = multiply([1, 0, 0, 1, advance * scale, 0], textMatrix);
+      }
+    });
+    flush();
+
+    if (removedAny) markedContent.forEach(entry => (entry.touched = true));
+    return removedAny ? output : undefined;
+  };
+
+  for (const operation of operations) {
+    const { operator, operands } = operation;
+    let replacement: Uint8Array | undefined;
+
+    switch (operator) {
+      case 'q':
+        stack.push({ ctm: state.ctm, text: { ...state.text } });
+        break;
+      case 'Q':
+        state = stack.pop() ?? state;
+        break;
+      case 'cm':
+        state = { ...state, ctm: multiply(operands.map(number) as Matrix, state.ctm) };
+        break;
+      case 'BT':
+        textMatrix = IDENTITY;
+        lineMatrix = IDENTITY;
+        break;
+      case 'Tc':
+        state.text.charSpacing = number(operands[0]);
+        break;
+      case 'Tw':
+        state.text.wordSpacing = number(operands[0]);
+        break;
+      case 'Tz':
+        state.text.scale = number(operands[0]) / 100;
+        break;
+      case 'TL':
+        state.text.leading = number(operands[0]);
+        break;
+      case 'Ts':
+        state.text.rise = number(operands[0]);
+        break;
+      case 'Tf': {
+        const fontName = operands[0]?.type === 'name' ? operands[0].value : '';
+        const fontDict = fonts?.lookupMaybe(PDFName.of(fontName), PDFDict);
+        state.text.font = fontDict ? loadFont(redaction, fontDict) : undefined;
+        state.text.fontSize = number(operands[1]);
+        break;
+      }
+      case 'Td':
+        moveText(number(operands[0]), number(operands[1]));
+        break;
+      case 'TD':
+        state.text.leading = -number(operands[1]);
+        moveText(number(operands[0]), number(operands[1]));
+        break;
+      case 'Tm':
+        lineMatrix = operands.map(number) as Matrix;
+        textMatrix = lineMatrix;
+        break;
+      case 'T*':
+        moveText(0, -state.text.leading);
+        break;
+      case 'Tj':
+      case 'TJ':
+      case "'":
+      case '"': {
+        let prefix = '';
+        if (operator === '"') {
+          state.text.wordSpacing = number(operands[0]);
+          state.text.charSpacing = number(operands[1]);
+          prefix = `${serializeValue(operands[0])} Tw ${serializeValue(operands[1])} Tc T*\n`;
+        } else if (operator === "'") {
+          prefix = 'T*\n';
+        }
+        if (operator === '"' || operator === "'") moveText(0, -state.text.leading);
+        const textOperand = operands[operands.length - 1];
+        const elements = textOperand?.type === 'array' ? textOperand.items : textOperand ? [textOperand] : [];
+        const shown = showText(elements);
+        if (shown) {
+          replacement = concatBytes([encodeLatin1(prefix), serializeOperation('TJ', [{ type: 'array', items: shown }])]);
+        }
+        break;
+      }
+      case 'BDC':
+      case 'BMC':
+        markedContent.push({ chunk: chunks.length, operation, touched: false });
+        break;
+      case 'EMC': {
+        const entry = markedContent.pop();
+        const properties = entry?.operation.operands[1];
+        if (entry?.touched && properties?.type === 'dict') {
+          // Replacement text would still reveal the removed glyphs
+          const entries = properties.entries.filter(([key]) => !['ActualText', 'Alt', 'E'].includes(key));
+          if (entries.length !== properties.entries.length) {
+            chunks[entry.chunk] = serializeOperation('BDC', [entry.operation.operands[0], { type: 'dict', entries }]);
+            changed = true;
+          }
+        }
+        break;
+      }
+      case 'BI': {
+        if (!plan || boxes.length === 0) break;
+        if (boxes.some(box => intersects(box, transformBox(state.ctm, [0, 0, 1, 1])))) {
+          replacement = new Uint8Array(0);
+          redaction.log.push({ kind: 'image', pageIndex: redaction.pageIndex, description: 'Removed an inline image' });
+        }
+        break;
+      }
+      case 'Do': {
+        const xObjectName = operands[0]?.type === 'name' ? operands[0].value : '';
+        const xObjectRef = xObjects?.get(PDFName.of(xObjectName));
+        const xObject = xObjectRef ? context.lookup(xObjectRef) : undefined;
+        if (!(xObject instanceof PDFStream)) break;
+
+        const subtype = xObject.dict.lookupMaybe(PDFName.of('Subtype'), PDFName)?.decodeText();
+
+        if (subtype === 'Image' && plan && xObject instanceof PDFRawStream) {
+          const touching = boxes.filter(box => intersects(box, transformBox(state.ctm, [0, 0, 1, 1])));
+          if (touching.length === 0) break;
+          const redactedRef = await redactImage(redaction, xObject, state.ctm, touching).catch(() => undefined);
+          replacedXObjects.add(xObjectName);
+          if (redactedRef) {
+            replacement = serializeOperation('Do', [{ type: 'name', value: addXObject('RdIm', redactedRef) }]);
+            redaction.log.push({ kind: 'image', pageIndex: redaction.pageIndex, description: `Blacked out part of image ${xObjectName}` });
+          } else {
+            replacement = new Uint8Array(0);
+            redaction.log.push({ kind: 'image', pageIndex: redaction.pageIndex, description: `Removed image ${xObjectName}, whose format cannot be partly redacted` });
+          }
+        } else if (subtype === 'Form' && depth < MAX_FORM_DEPTH) {
+          const formMatrix = numbersOf(xObject.dict.lookupMaybe(PDFName.of('Matrix'), PDFArray));
+          const ctm = multiply(formMatrix.length === 6 ? (formMatrix as Matrix) : IDENTITY, state.ctm);
+          const formResources = xObject.dict.lookupMaybe(PDFName.of('Resources'), PDFDict) ?? resources;
+          let formBytes: Uint8Array;
+          try {
+            formBytes = decodeStream(xObject);
+          } catch {
+            break;
+          }
+          const result = await processContent(redaction, formBytes, formResources, ctm, depth + 1);
+          if (result) {
+            replacedXObjects.add(xObjectName);
+            const formDict = xObject.dict.clone(context);
+            ['Length', 'Filter', 'DecodeParms'].forEach(key => formDict.delete(PDFName.of(key)));
+            formDict.set(PDFName.of('Filter'), PDFName.of('FlateDecode'));
+            if (result.resources) formDict.set(PDFName.of('Resources'), result.resources);
+            const formRef = context.register(PDFRawStream.of(formDict, await deflateBytes(result.bytes)));
+            replacement = serializeOperation('Do', [{ type: 'name', value: addXObject('RdFm', formRef) }]);
+          }
+        }
+        break;
+      }
+    }
+
+    if (replacement) {
+      chunks.push(replacement);
+      changed = true;
+    } else {
+      chunks.push(bytes.subarray(operation.start, operation.end), encodeLatin1('\n'));
+      if (operator === 'Do' && operands[0]?.type === 'name') keptXObjects.add(operands[0].value);
+    }
+  }
+
+  // The unredacted originals must not stay reachable through the resources
+  replacedXObjects.forEach(xObjectName => {
+    if (!keptXObjects.has(xObjectName)) ownXObjects().delete(PDFName.of(xObjectName));
+  });
+
+  return changed || localResources ? { bytes: concatBytes(chunks), resources: localResources } : undefined;
+};
+
+const pageContentBytes = (pdfDoc: PDFDocument, page: PDFPage): Uint8Array => {
+  const contents = page.node.Contents();
+  const streams = contents instanceof PDFArray
+    ? contents.asArray().map(value => pdfDoc.context.lookup(value))
+    : [contents];
+  const parts: Uint8Array[] = [];
+  streams.forEach(stream => {
+    if (stream instanceof PDFStream) parts.push(decodeStream(stream), encodeLatin1('\n'));
+  });
+  return concatBytes(parts);
+};
+
+/** Page text in reading order, with the glyph each character came from */
+const buildPageText = (glyphs: Glyph[]): { text: string; glyphAt: number[] } => {
+  let text = '';
+  const glyphAt: number[] = [];
+
+  glyphs.forEach((glyph, index) => {
+    const previous = glyphs[index - 1];
+    if (previous && !/\s$/.test(previous.unicode) && !/^\s/.test(glyph.unicode)) {
+      const newLine = Math.abs(glyph.origin[1] - previous.origin[1]) > previous.height * 0.5;
+      const gap = glyph.box[0] - previous.box[2] > previous.height * 0.3;
+      if (newLine || gap) {
+        text += ' ';
+        glyphAt.push(-1);
+      }
+    }
+    const unicode = glyph.unicode.replace(/\s/g, ' ');
+    text += unicode;
+    for (let i = 0; i < unicode.length; i++) glyphAt.push(glyph.id);
+  });
+
+  return { text, glyphAt };
+};
+
+/** Boxes covering matched glyphs, one per run of glyphs on the same line */
+const boxesForGlyphs = (glyphs: Glyph[]): Box[] => {
+  const boxes: Box[] = [];
+  let current: Box | undefined;
+  let previous: Glyph | undefined;
+
+  glyphs.forEach(glyph => {
+    const sameLine = previous && Math.abs(glyph.origin[1] - previous.origin[1]) <= previous.height * 0.5 && glyph.box[0] >= previous.box[0];
+    if (current && sameLine) {
+      current = [Math.min(current[0], glyph.box[0]), Math.min(current[1], glyph.box[1]), Math.max(current[2], glyph.box[2]), Math.max(current[3], glyph.box[3])];
+    } else {
+      if (current) boxes.push(current);
+      current = [...glyph.box];
+    }
+    previous = glyph;
+  });
+  if (current) boxes.push(current);
+
+  // A little padding so anti-aliased edges of the glyphs stay covered
+  return boxes.map(([x1, y1, x2, y2]) => [x1 - 0.5, y1 - 0.5, x2 + 0.5, y2 + 0.5]);
+};
+
+/** Remove annotations and form fields that overlap redacted areas */
+const redactAnnotations = (pdfDoc: PDFDocument, page: PDFPage, pageIndex: number, boxes: Box[], log: PDFRedactionLogEntry[]) => {
+  const { context } = pdfDoc;
+  const annots = page.node.lookupMaybe(PDFName.of('Annots'), PDFArray);
+  if (!annots || boxes.length === 0) return;
+
+  const removed = new Set<PDFObject>();
+  for (let i = annots.size() - 1; i >= 0; i--) {
+    const ref = annots.get(i);
+    const annotation = annots.lookup(i);
+    if (!(annotation instanceof PDFDict)) continue;
+    const subtype = annotation.lookupMaybe(PDFName.of('Subtype'), PDFName)?.decodeText() ?? 'Unknown';
+    const [x1, y1, x2, y2] = numbersOf(annotation.lookupMaybe(PDFName.of('Rect'), PDFArray));
+    const rect: Box = [Math.min(x1, x2), Math.min(y1, y2), Math.max(x1, x2), Math.max(y1, y2)];
+    if (subtype === 'Popup' || !boxes.some(box => intersects(box, rect))) continue;
+
+    annots.remove(i);
+    removed.add(ref);
+    if (subtype === 'Widget') {
+      // The field value would survive in the form even without its widget
+      const field = annotation.has(PDFName.of('T')) ? annotation : annotation.lookupMaybe(PDFName.of('Parent'), PDFDict) ?? annotation;
+      field.delete(PDFName.of('V'));
+      field.delete(PDFName.of('DV'));
+      const fieldName = field.lookup(PDFName.of('T'));
+      const label = fieldName instanceof PDFString || fieldName instanceof PDFHexString ? fieldName.decodeText() : 'unnamed';
+      log.push({ kind: 'formField', pageIndex, description: `Removed form field ${label}` });
+    } else {
+      log.push({ kind: 'annotation', pageIndex, description: `Removed ${subtype} annotation` });
+    }
+  }
+
+  // Drop popups whose parent annotation went away
+  for (let i = annots.size() - 1; i >= 0; i--) {
+    const annotation = annots.lookup(i);
+    if (annotation instanceof PDFDict && annotation.get(PDFName.of('Parent')) && removed.has(annotation.get(PDFName.of('Parent')) as PDFObject)) {
+      annots.remove(i);
+    }
+  }
+
+  // Widgets must also leave the field tree
+  const fields = pdfDoc.catalog.lookupMaybe(PDFName.of('AcroForm'), PDFDict)?.lookupMaybe(PDFName.of('Fields'), PDFArray);
+  const prune = (kids: PDFArray) => {
+    for (let i = kids.size() - 1; i >= 0; i--) {
+      if (removed.has(kids.get(i))) {
+        kids.remove(i);
+        continue;
+      }
+      const kid = kids.lookup(i);
+      const grandKids = kid instanceof PDFDict ? kid.lookupMaybe(PDFName.of('Kids'), PDFArray) : undefined;
+      if (grandKids) {
+        prune(grandKids);
+        if (grandKids.size() === 0) kids.remove(i);
+      }
+    }
+  };
+  if (fields) prune(fields);
+  context.assign(page.ref, page.node);
+};
+
+/** Replace matches in document information, XMP metadata, bookmarks and comments */
+const scrubMetadata = (pdfDoc: PDFDocument, expressions: RegExp[], log: PDFRedactionLogEntry[]) => {
+  const { context, catalog } = pdfDoc;
+  const scrub = (text: string) => expressions.reduce((result, expression) => result.replace(expression, REDACTED_TEXT), text);
+
+  const scrubStrings = (dict: PDFDict, keys: string[], label: string) => {
+    keys.forEach(key => {
+      const value = dict.lookup(PDFName.of(key));
+      if (!(value instanceof PDFString || value instanceof PDFHexString)) return;
+      const original = value.decodeText();
+      const scrubbed = scrub(original);
+      if (scrubbed !== original) {
+        dict.set(PDFName.of(key), PDFHexString.fromText(scrubbed));
+        log.push({ kind: 'metadata', description: `Scrubbed ${label} ${key}` });
+      }
+    });
+  };
+
+  const info = context.lookup(context.trailerInfo.Info);
+  if (info instanceof PDFDict) {
+    scrubStrings(info, info.keys().map(key => key.decodeText()), 'document');
+  }
+
+  const metadata = catalog.lookupMaybe(PDFName.of('Metadata'), PDFStream);
+  if (metadata) {
+    try {
+      const xmp = new TextDecoder().decode(decodeStream(metadata));
+      const scrubbed = scrub(xmp);
+      if (scrubbed !== xmp) {
+        const metadataDict = metadata.dict.clone(context);
+        ['Length', 'Filter', 'DecodeParms'].forEach(key => metadataDict.delete(PDFName.of(key)));
+        catalog.set(PDFName.of('Metadata'), context.register(PDFRawStream.of(metadataDict, new TextEncoder().encode(scrubbed))));
+        log.push({ kind: 'metadata', description: 'Scrubbed XMP metadata' });
+      }
+    } catch {
+      // Undecodable metadata is dropped rather than left unchecked
+      catalog.delete(PDFName.of('Metadata'));
+      log.push({ kind: 'metadata', description: 'Removed unreadable XMP metadata' });
+    }
+  }
+
+  const visitedOutlines = new Set<PDFDict>();
+  const scrubOutline = (item: PDFDict | undefined) => {
+    while (item && !visitedOutlines.has(item)) {
+      visitedOutlines.add(item);
+      scrubStrings(item, ['Title'], 'bookmark');
+      scrubOutline(item.lookupMaybe(PDFName.of('First'), PDFDict));
+      item = item.lookupMaybe(PDFName.of('Next'), PDFDict);
+    }
+  };
+  scrubOutline(catalog.lookupMaybe(PDFName.of('Outlines'), PDFDict)?.lookupMaybe(PDFName.of('First'), PDFDict));
+
+  pdfDoc.getPages().forEach(page => {
+    page.node.lookupMaybe(PDFName.of('Annots'), PDFArray)?.asArray().forEach(value => {
+      const annotation = context.lookup(value);
+      if (annotation instanceof PDFDict) scrubStrings(annotation, ['Contents', 'T', 'Subj'], 'annotation');
+    });
+  });
+};
+
+/**
+ * Redact a document in place. Text runs, image pixels, annotations and form
+ * fields inside the regions or matching the search terms are removed from
+ * the file, black boxes are burned in over them, matches are scrubbed from
+ * the metadata and objects that are no longer used are dropped.
+ */
+export const redactPDFDocument = async (
+  pdfDoc: PDFDocument,
+  options: PDFRedactionOptions
+): Promise<PDFRedactionLogEntry[]> => {
+  const { regions = [], searchTerms = [], patterns = [], caseSensitive = false } = options;
+  const { context } = pdfDoc;
+  const log: PDFRedactionLogEntry[] = [];
+  const flags = caseSensitive ? 'gu' : 'giu';
+
+  const expressions = [
+    ...searchTerms
+      .map(term => term.trim())
+      .filter(Boolean)
+      .map(term => new RegExp(term.split(/\s+/).map(word => word.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('\\s+'), flags)),
+    ...patterns.filter(Boolean).map(pattern => {
+      try {
+        return new RegExp(pattern, flags);
+      } catch {
+        throw new Error(`Invalid redaction pattern: ${pattern}`);
+      }
+    })
+  ];
+
+  const redaction: RedactionContext = {
+    context,
+    pageIndex: 0,
+    nextGlyphId: 0,
+    glyphs: [],
+    removedText: [],
+    log,
+    fonts: new Map(),
+    standardFonts: new Map(),
+    scratch: await PDFDocument.create(),
+    resourceCounter: 0
+  };
+
+  const pages = pdfDoc.getPages();
+  for (let pageIndex = 0; pageIndex < pages.length; pageIndex++) {
+    const page = pages[pageIndex];
+    const pageRegions: Box[] = regions
+      .filter(region => region.pageIndex === pageIndex)
+      .map(({ x, y, width, height }) => [Math.min(x, x + width), Math.min(y, y + height), Math.max(x, x + width), Math.max(y, y + height)]);
+    if (pageRegions.length === 0 && expressions.length === 0) continue;
+
+    let content: Uint8Array;
+    try {
+      content = pageContentBytes(pdfDoc, page);
+    } catch {
+      throw new Error(`Page ${pageIndex + 1} has content that cannot be read for redaction`);
+    }
+    const resources = page.node.Resources();
+
+    // First pass: find where every glyph sits to match the search terms
+    redaction.pageIndex = pageIndex;
+    redaction.nextGlyphId = 0;
+    redaction.glyphs = [];
+    redaction.plan = undefined;
+    await processContent(redaction, content, resources, IDENTITY);
+
+    const glyphIds = new Set<number>();
+    const matchBoxes: Box[] = [];
+    if (expressions.length > 0) {
+      const { text, glyphAt } = buildPageText(redaction.glyphs);
+      const glyphsById = new Map(redaction.glyphs.map(glyph => [glyph.id, glyph]));
+      expressions.forEach(expression => {
+        let matches = 0;
+        for (const match of text.matchAll(expression)) {
+          if (!match[0]) continue;
+          const ids = new Set(glyphAt.slice(match.index, (match.index ?? 0) + match[0].length).filter(id => id >= 0));
+          ids.forEach(id => glyphIds.add(id));
+          matchBoxes.push(...boxesForGlyphs(Array.from(ids, id => glyphsById.get(id) as Glyph)));
+          matches++;
+        }
+        if (matches > 0) {
+          log.push({ kind: 'text', pageIndex, description: `Found ${matches} match${matches === 1 ? '' : 'es'} for ${expression.source}` });
+        }
+      });
+    }
+
+    const boxes = [...pageRegions, ...matchBoxes];
+    if (boxes.length === 0) continue;
+
+    // Second pass: rewrite the content without the redacted glyphs and pixels
+    redaction.nextGlyphId = 0;
+    redaction.removedText = [];
+    redaction.plan = { glyphIds, regions: pageRegions, boxes };
+    const result = await processContent(redaction, content, resources, IDENTITY);
+    if (result) {
+      const stream = context.flateStream(result.bytes);
+      page.node.set(PDFName.of('Contents'), context.register(stream));
+      if (result.resources) page.node.set(PDFName.of('Resources'), result.resources);
+    }
+    if (redaction.removedText.length > 0) {
+      const removed = redaction.removedText.join('').replace(/\s+/g, ' ').trim();
+      log.push({
+        kind: 'text',
+        pageIndex,
+        description: `Removed ${redaction.removedText.length} characters: "${removed.length > 200 ? `${removed.slice(0, 200)}…` : removed}"`
+      });
+    }
+
+    redactAnnotations(pdfDoc, page, pageIndex, boxes, log);
+
+    // Burn in the black boxes
+    boxes.forEach(([x1, y1, x2, y2]) => {
+      page.drawRectangle({ x: x1, y: y1, width: x2 - x1, height: y2 - y1, color: rgb(0, 0, 0) });
+    });
+  }
+
+  if (expressions.length > 0) scrubMetadata(pdfDoc, expressions, log);
+
+  // Replaced streams must not survive as unreferenced objects in the file
+  const reachable = collectReachableRefs(pdfDoc);
+  context.enumerateIndirectObjects().forEach(([ref]) => {
+    if (!reachable.has(ref)) context.delete(ref);
+  });
+
+  return log;
+};
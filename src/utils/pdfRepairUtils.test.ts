@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { PDFDocument, StandardFonts } from 'pdf-lib';
+import { inspectPDFStructure, repairPDFDocument } from './pdfRepairUtils';
+
+/** A three page document saved without object streams, so its objects can be found by scanning */
+const createPDFBytes = async (): Promise<Uint8Array> => {
+  const pdfDoc = await PDFDocument.create();
+  const font = await pdfDoc.embedFont(StandardFonts.Helvetica);
+  for (let i = 1; i <= 3; i++) {
+    pdfDoc.addPage([300, 300]).drawText(`Page ${i}`, { x: 20, y: 150, size: 12, font });
+  }
+  return pdfDoc.save({ useObjectStreams: false });
+};
+
+const latin1 = (bytes: Uint8Array) => Buffer.from(bytes).toString('latin1');
+
+describe('repairPDFDocument', () => {
+  it('re-saves a file that opens as is', async () => {
+    const { pdfDoc, report } = await repairPDFDocument(await createPDFBytes());
+
+    expect(report.method).toBe('resaved');
+    expect(report.pageCount).toBe(3);
+    expect(pdfDoc.getPageCount()).toBe(3);
+  });
+
+  it('recovers a file cut off before its cross-reference table', async () => {
+    const bytes = await createPDFBytes();
+    const truncated = bytes.slice(0, latin1(bytes).lastIndexOf('xref'));
+
+    const { pdfDoc, report } = await repairPDFDocument(truncated);
+    const repaired = await PDFDocument.load(await pdfDoc.save());
+
+    expect(report.problems).toContain('The file does not end with %%EOF, so it is probably truncated');
+    expect(repaired.getPageCount()).toBe(3);
+  });
+
+  it('rebuilds a file cut off in the middle, keeping the start of the cut stream', async () => {
+    const bytes = await createPDFBytes();
+    const text = latin1(bytes);
+    // Cut inside the content stream of the first page
+    const truncated = bytes.slice(0, text.indexOf('stream\n') + 'stream\n'.length + 10);
+
+    const { pdfDoc, report } = await repairPDFDocument(truncated);
+    const repaired = await PDFDocument.load(await pdfDoc.save());
+
+    expect(report.method).toBe('rebuilt');
+    expect(report.truncatedStreams).toBe(1);
+    expect(report.pageCount).toBe(1);
+    expect(repaired.getPageCount()).toBe(1);
+  });
+
+  it('rebuilds a file whose cross-reference offsets are wrong', async () => {
+    const bytes = await createPDFBytes();
+    const damaged = Buffer.from(latin1(bytes).replace(/startxref\s+\d+/, 'startxref\n12'), 'latin1');
+
+    const { pdfDoc } = await repairPDFDocument(new Uint8Array(damaged));
+
+    expect(pdfDoc.getPageCount()).toBe(3);
+  });
+});
+
+describe('inspectPDFStructure', () => {
+  it('reports the version, pages and unembedded standard fonts', async () => {
+    const report = await inspectPDFStructure(await createPDFBytes());
+
+    expect(report.pageCount).toBe(3);
+    expect(report.fonts.some(font => font.name === 'Helvetica' && !font.embedded)).toBe(true);
+  });
+});
@@ -0,0 +1,700 @@
+// src/utils/pdfRepairUtils.ts
+// Diagnosing and repairing damaged PDFs, and summarising their structure.
+// Repair rebuilds the document from the objects found by scanning the file,
+// so it does not depend on the cross-reference table or trailer being intact.
+import {
+  PDFArray,
+  PDFContext,
+  PDFDict,
+  PDFDocument,
+  PDFHeader,
+  PDFInvalidObject,
+  PDFName,
+  PDFNumber,
+  PDFObject,
+  PDFObjectParser,
+  PDFObjectStreamParser,
+  PDFRawStream,
+  PDFRef,
+  PDFStream,
+  PDFWriter
+} from 'pdf-lib';
+import { collectReachableRefs } from './pdfObjectUtils';
+
+export interface PDFFontSummary {
+  /** Base font name without the subset tag */
+  name: string;
+  type: string;
+  embedded: boolean;
+  subset: boolean;
+}
+
+export interface PDFImageSummary {
+  width: number;
+  height: number;
+  colorSpace: string;
+  bitsPerComponent: number;
+  filter: string;
+  /** Size of the stored image data in bytes */
+  size: number;
+}
+
+export interface PDFEncryptionSummary {
+  filter: string;
+  version: number;
+  revision: number;
+  keyLength: number;
+}
+
+export interface PDFFormSummary {
+  fields: number;
+  signatureFields: number;
+  xfa: boolean;
+}
+
+export interface PDFJavaScriptSummary {
+  /** JavaScript actions anywhere in the document */
+  actions: number;
+  /** Scripts in the document-level JavaScript name tree */
+  documentScripts: number;
+  runsOnOpen: boolean;
+}
+
+export interface PDFStructureReport {
+  version: string;
+  fileSize: number;
+  objectCount: number;
+  pageCount: number;
+  /** Revisions appended after the original file was written */
+  incrementalUpdates: number;
+  linearized: boolean;
+  tagged: boolean;
+  /** Whether the file opens without being rebuilt */
+  loadable: boolean;
+  encryption?: PDFEncryptionSummary;
+  fonts: PDFFontSummary[];
+  images: PDFImageSummary[];
+  forms?: PDFFormSummary;
+  javaScript: PDFJavaScriptSummary;
+  problems: string[];
+}
+
+export interface PDFRepairReport {
+  /** 'resaved' when the file opened as is, 'rebuilt' when it was reconstructed from scanned objects */
+  method: 'resaved' | 'rebuilt';
+  objectsRecovered: number;
+  /** Objects whose data could not be parsed */
+  objectsLost: number;
+  /** Streams cut off by the end of the file, kept with the data that was left */
+  truncatedStreams: number;
+  /** Objects nothing refers to any more, such as ones replaced by incremental updates */
+  unusedObjectsRemoved: number;
+  pageCount: number;
+  problems: string[];
+}
+
+interface PDFScanResult {
+  context: PDFContext;
+  /** Refs in the order the objects first appear in the file */
+  refs: PDFRef[];
+  lost: number;
+  truncatedStreams: number;
+}
+
+const OBJECT_HEADER = /(\d+)\s+(\d+)\s+obj\b/g;
+const STREAM_KEYWORD = /stream(?:\r\n|\r|\n)/g;
+const TRAILER_KEYWORD = /trailer\s*<</g;
+const FONT_FILE_KEYS = ['FontFile', 'FontFile2', 'FontFile3'];
+const INHERITABLE_PAGE_KEYS = ['Resources', 'MediaBox', 'CropBox', 'Rotate'];
+const MAX_TREE_DEPTH = 64;
+const MAX_CHECKED_XREF_ENTRIES = 100000;
+
+const name = (value: string) => PDFName.of(value);
+
+const nameOf = (object: PDFObject | undefined): string | undefined =>
+  object instanceof PDFName ? object.decodeText() : undefined;
+
+const numberOf = (object: PDFObject | undefined): number | undefined =>
+  object instanceof PDFNumber ? object.asNumber() : undefined;
+
+const dictAt = (dict: PDFDict | undefined, key: string): PDFDict | undefined => {
+  const value = dict?.lookup(name(key));
+  return value instanceof PDFDict ? value : undefined;
+};
+
+/** Byte-per-character view of the file for searching keywords and offsets */
+const toLatin1 = (bytes: Uint8Array): string => {
+  let text = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    text += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return text;
+};
+
+/** Problems visible in the file layout: header, trailer and cross-reference offsets */
+const diagnoseFileLayout = (text: string): string[] => {
+  const problems: string[] = [];
+
+  const headerIndex = text.indexOf('%PDF-');
+  if (headerIndex < 0) {
+    problems.push('The file has no %PDF header');
+  } else if (headerIndex > 0) {
+    problems.push(`The %PDF header is preceded by ${headerIndex} byte${headerIndex === 1 ? '' : 's'} of other data`);
+  }
+
+  if (!/%%EOF\s*$/.test(text.slice(-1024))) {
+    problems.push('The file does not end with %%EOF, so it is probably truncated');
+  }
+
+  const startXRefs = Array.from(text.matchAll(/startxref\s+(\d+)/g));
+  const lastStartXRef = startXRefs[startXRefs.length - 1];
+  if (!lastStartXRef) {
+    problems.push('The file has no startxref pointer to its cross-reference table');
+  } else {
+    const offset = Number(lastStartXRef[1]);
+    if (offset >= text.length) {
+      problems.push('The startxref pointer is past the end of the file');
+    } else if (!/^\s*(?:xref|\d+\s+\d+\s+obj)/.test(text.slice(offset, offset + 64))) {
+      problems.push('The startxref pointer does not point at a cross-reference section');
+    }
+  }
+
+  // Entries of classic cross-reference tables must point at their object
+  let wrongEntries = 0;
+  let checkedEntries = 0;
+  for (const section of text.matchAll(/(?:^|[\r\n])xref\s*[\r\n]/g)) {
+    const subsection = /\s*(\d+)\s+(\d+)/y;
+    const entry = /\s*(\d{10})\s+(\d{5})\s+([nf])/y;
+    subsection.lastIndex = (section.index ?? 0) + section[0].length;
+    let header: RegExpExecArray | null;
+    while ((header = subsection.exec(text)) && checkedEntries < MAX_CHECKED_XREF_ENTRIES) {
+      let objectNumber = Number(header[1]);
+      entry.lastIndex = subsection.lastIndex;
+      let row: RegExpExecArray | null;
+      while ((row = entry.exec(text))) {
+        if (row[3] === 'n' && objectNumber > 0) {
+          checkedEntries++;
+          const target = /^\s*(\d+)\s+\d+\s+obj/.exec(text.slice(Number(row[1]), Number(row[1]) + 40));
+          if (!target || Number(target[1]) !== objectNumber) wrongEntries++;
+        }
+        objectNumber++;
+        subsection.lastIndex = entry.lastIndex;
+      }
+    }
+  }
+  if (wrongEntries > 0) {
+    problems.push(`${wrongEntries} cross-reference entr${wrongEntries === 1 ? 'y points' : 'ies point'} to the wrong offset`);
+  }
+
+  return problems;
+};
+
+/**
+ * Keep what is left of a stream whose data could not be parsed, e.g. one cut
+ * off by the end of the file
+ */
+const salvageStream = (
+  bytes: Uint8Array,
+  text: string,
+  start: number,
+  context: PDFContext
+): { stream: PDFRawStream; end: number; truncated: boolean } | undefined => {
+  const nextHeader = new RegExp(OBJECT_HEADER);
+  nextHeader.lastIndex = start;
+  const limit = nextHeader.exec(text)?.index ?? text.length;
+
+  const keyword = new RegExp(STREAM_KEYWORD);
+  keyword.lastIndex = start;
+  const keywordMatch = keyword.exec(text);
+  if (!keywordMatch || keywordMatch.index > limit) return undefined;
+
+  const dict = PDFObjectParser.forBytes(bytes.subarray(start, keywordMatch.index), context).parseObject();
+  if (!(dict instanceof PDFDict)) return undefined;
+
+  const contentStart = keywordMatch.index + keywordMatch[0].length;
+  const endStream = text.lastIndexOf('endstream', limit);
+  const truncated = endStream < contentStart;
+  const end = truncated ? limit : endStream;
+  return { stream: PDFRawStream.of(dict, bytes.slice(contentStart, end)), end, truncated };
+};
+
+/** Parse every object found in the file into a fresh context, later definitions winning */
+const scanObjects = async (bytes: Uint8Array, text: string): Promise<PDFScanResult> => {
+  const context = PDFContext.create();
+  const version = /%PDF-(\d+)\.(\d+)/.exec(text.slice(0, 1024));
+  if (version) context.header = PDFHeader.forVersion(Number(version[1]), Number(version[2]));
+
+  const result: PDFScanResult = { context, refs: [], lost: 0, truncatedStreams: 0 };
+  const seen = new Set<PDFRef>();
+  const trailer: Partial<Record<'Root' | 'Info' | 'ID' | 'Encrypt', PDFObject>> = {};
+  const readTrailer = (dict: PDFDict) => {
+    (['Root', 'Info', 'ID', 'Encrypt'] as const).forEach(key => {
+      const value = dict.get(name(key));
+      if (value) trailer[key] = value;
+    });
+  };
+
+  // Objects and trailers are interleaved in incremental updates, so walk both in file order
+  const headers = new RegExp(OBJECT_HEADER);
+  const trailers = Array.from(text.matchAll(TRAILER_KEYWORD));
+  let match: RegExpExecArray | null;
+  while ((match = headers.exec(text))) {
+    const headerIndex = match.index;
+    while (trailers.length > 0 && (trailers[0].index ?? 0) < headerIndex) {
+      const trailerMatch = trailers.shift() as RegExpMatchArray;
+      try {
+        const dictStart = (trailerMatch.index ?? 0) + trailerMatch[0].length - 2;
+        const dict = PDFObjectParser.forBytes(bytes.subarray(dictStart), context).parseObject();
+        if (dict instanceof PDFDict) readTrailer(dict);
+      } catch {
+        // A damaged trailer is replaced by what the objects themselves say
+      }
+    }
+
+    const ref = PDFRef.of(Number(match[1]), Number(match[2]));
+    const start = headerIndex + match[0].length;
+    let object: PDFObject | undefined;
+    let streamEnd: number | undefined;
+    try {
+      object = PDFObjectParser.forBytes(bytes.subarray(start), context).parseObject();
+      if (object instanceof PDFRawStream) {
+        const keyword = new RegExp(STREAM_KEYWORD);
+        keyword.lastIndex = start;
+        const keywordMatch = keyword.exec(text);
+        if (keywordMatch) streamEnd = keywordMatch.index + keywordMatch[0].length + object.contents.length;
+      }
+    } catch {
+      try {
+        const salvaged = salvageStream(bytes, text, start, context);
+        if (salvaged) {
+          object = salvaged.stream;
+          streamEnd = salvaged.end;
+          if (salvaged.truncated) result.truncatedStreams++;
+        }
+      } catch {
+        object = undefined;
+      }
+    }
+    // Skip past stream data so binary content is not mistaken for object headers
+    if (streamEnd !== undefined) headers.lastIndex = Math.max(headers.lastIndex, streamEnd);
+
+    if (!object || object instanceof PDFInvalidObject || ref.objectNumber === 0) {
+      result.lost++;
+      continue;
+    }
+
+    const type = object instanceof PDFRawStream ? nameOf(object.dict.lookup(name('Type'))) : undefined;
+    if (object instanceof PDFRawStream && type === 'XRef') {
+      readTrailer(object.dict);
+    } else if (object instanceof PDFRawStream && type === 'ObjStm') {
+      try {
+        await PDFObjectStreamParser.forStream(object).parseIntoContext();
+      } catch {
+        result.lost++;
+      }
+    } else {
+      context.assign(ref, object);
+      if (!seen.has(ref)) {
+        seen.add(ref);
+        result.refs.push(ref);
+      }
+    }
+  }
+  trailers.forEach(trailerMatch => {
+    try {
+      const dictStart = (trailerMatch.index ?? 0) + trailerMatch[0].length - 2;
+      const dict = PDFObjectParser.forBytes(bytes.subarray(dictStart), context).parseObject();
+      if (dict instanceof PDFDict) readTrailer(dict);
+    } catch {
+      // Ignored as above
+    }
+  });
+
+  // Objects expanded from object streams come after the ones defined directly
+  context.enumerateIndirectObjects().forEach(([ref]) => {
+    if (!seen.has(ref)) {
+      seen.add(ref);
+      result.refs.push(ref);
+    }
+  });
+
+  context.trailerInfo = {
+    Root: trailer.Root,
+    Info: trailer.Info instanceof PDFRef && context.lookup(trailer.Info) instanceof PDFDict ? trailer.Info : undefined,
+    ID: trailer.ID,
+    Encrypt: trailer.Encrypt
+  };
+  return result;
+};
+
+const isPageTreeNode = (object: PDFObject | undefined, type: 'Page' | 'Pages'): object is PDFDict =>
+  object instanceof PDFDict && nameOf(object.lookup(name('Type'))) === type;
+
+/**
+ * Page leaves of an intact page tree, fixing node counts on the way, or
+ * undefined when the tree is broken
+ */
+const walkPageTree = (context: PDFContext, root: PDFObject | undefined): PDFRef[] | undefined => {
+  const leaves: PDFRef[] = [];
+  const visited = new Set<PDFRef>();
+
+  const walk = (ref: PDFObject | undefined, depth: number): number | undefined => {
+    if (!(ref instanceof PDFRef) || visited.has(ref) || depth > MAX_TREE_DEPTH) return undefined;
+    visited.add(ref);
+    const node = context.lookup(ref);
+    if (isPageTreeNode(node, 'Page')) {
+      leaves.push(ref);
+      return 1;
+    }
+    if (!isPageTreeNode(node, 'Pages')) return undefined;
+    const kids = node.lookup(name('Kids'));
+    if (!(kids instanceof PDFArray)) return undefined;
+    let count = 0;
+    for (const kid of kids.asArray()) {
+      const kidCount = walk(kid, depth + 1);
+      if (kidCount === undefined) return undefined;
+      count += kidCount;
+    }
+    node.set(name('Count'), PDFNumber.of(count));
+    return count;
+  };
+
+  return walk(root, 0) ? leaves : undefined;
+};
+
+/** An inheritable page attribute, looked up through the page's ancestors */
+const inheritedAttribute = (context: PDFContext, page: PDFDict, key: string): PDFObject | undefined => {
+  let node: PDFDict | undefined = page;
+  for (let depth = 0; node && depth < MAX_TREE_DEPTH; depth++) {
+    const value = node.get(name(key));
+    if (value) return value;
+    const parent: PDFObject | undefined = context.lookup(node.get(name('Parent')));
+    node = parent instanceof PDFDict ? parent : undefined;
+  }
+  return undefined;
+};
+
+/**
+ * Make sure the catalog has a working page tree, rebuilding a flat one from
+ * the page objects found in the file when the original cannot be walked
+ */
+const repairPageTree = (scan: PDFScanResult, problems: string[]): void => {
+  const { context, refs } = scan;
+
+  let catalogRef = context.trailerInfo.Root;
+  if (!(catalogRef instanceof PDFRef && context.lookup(catalogRef) instanceof PDFDict)) {
+    catalogRef = [...refs].reverse().find(ref => {
+      const object = context.lookup(ref);
+      return object instanceof PDFDict && nameOf(object.lookup(name('Type'))) === 'Catalog';
+    });
+    if (catalogRef) {
+      problems.push('The trailer did not point at the document catalog; it was found by scanning');
+    } else {
+      catalogRef = context.register(context.obj({ Type: 'Catalog' }));
+      problems.push('The document catalog was missing and has been recreated');
+    }
+    context.trailerInfo.Root = catalogRef;
+  }
+  const catalog = context.lookup(catalogRef) as PDFDict;
+
+  let pageRefs = walkPageTree(context, catalog.get(name('Pages')));
+  if (!pageRefs) {
+    pageRefs = refs.filter(ref => isPageTreeNode(context.lookup(ref), 'Page'));
+    if (pageRefs.length === 0) throw new Error('No pages could be recovered from this file');
+
+    // Copy inherited attributes down before the old tree goes away
+    const pages = pageRefs.map(ref => context.lookup(ref) as PDFDict);
+    const inherited = pages.map(page =>
+      INHERITABLE_PAGE_KEYS.map(key => [key, inheritedAttribute(context, page, key)] as const)
+    );
+    const pagesRef = context.nextRef();
+    pages.forEach((page, index) => {
+      inherited[index].forEach(([key, value]) => {
+        if (value) page.set(name(key), value);
+      });
+      page.set(name('Parent'), pagesRef);
+    });
+    context.assign(pagesRef, context.obj({ Type: 'Pages', Kids: pageRefs, Count: pageRefs.length }));
+    catalog.set(name('Pages'), pagesRef);
+    problems.push(`The page tree was broken and has been rebuilt from ${pageRefs.length} page${pageRefs.length === 1 ? '' : 's'} found in the file`);
+  }
+
+  let missingMediaBoxes = 0;
+  pageRefs.forEach(ref => {
+    const page = context.lookup(ref) as PDFDict;
+    if (!(context.lookup(inheritedAttribute(context, page, 'MediaBox')) instanceof PDFArray)) {
+      page.set(name('MediaBox'), context.obj([0, 0, 612, 792]));
+      missingMediaBoxes++;
+    }
+  });
+  if (missingMediaBoxes > 0) {
+    problems.push(`${missingMediaBoxes} page${missingMediaBoxes === 1 ? ' had' : 's had'} no size and now use US Letter`);
+  }
+};
+
+/** Number of entries in a name tree such as the catalog's Names/JavaScript */
+const countNameTreeEntries = (node: PDFDict | undefined, depth = 0): number => {
+  if (!node || depth > MAX_TREE_DEPTH) return 0;
+  const names = node.lookup(name('Names'));
+  const kids = node.lookup(name('Kids'));
+  let count = names instanceof PDFArray ? Math.floor(names.size() / 2) : 0;
+  if (kids instanceof PDFArray) {
+    kids.asArray().forEach(kid => {
+      const child = node.context.lookup(kid);
+      if (child instanceof PDFDict) count += countNameTreeEntries(child, depth + 1);
+    });
+  }
+  return count;
+};
+
+const isJavaScriptAction = (object: PDFObject | undefined): boolean =>
+  object instanceof PDFDict && (nameOf(object.lookup(name('S'))) === 'JavaScript' || object.has(name('JS')));
+
+const summarizeJavaScript = (pdfDoc: PDFDocument): PDFJavaScriptSummary => {
+  const { context, catalog } = pdfDoc;
+
+  // Actions can sit in any dictionary, direct or indirect
+  let actions = 0;
+  context.enumerateIndirectObjects().forEach(([, object]) => {
+    const pending: PDFObject[] = [object];
+    while (pending.length > 0) {
+      const current = pending.pop() as PDFObject;
+      if (current instanceof PDFStream) {
+        pending.push(current.dict);
+      } else if (current instanceof PDFDict) {
+        if (isJavaScriptAction(current)) actions++;
+        current.values().forEach(value => {
+          if (!(value instanceof PDFRef)) pending.push(value);
+        });
+      } else if (current instanceof PDFArray) {
+        current.asArray().forEach(value => {
+          if (!(value instanceof PDFRef)) pending.push(value);
+        });
+      }
+    }
+  });
+
+  const documentScripts = countNameTreeEntries(dictAt(dictAt(catalog, 'Names'), 'JavaScript'));
+  const openAction = catalog.lookup(name('OpenAction'));
+  return { actions, documentScripts, runsOnOpen: documentScripts > 0 || isJavaScriptAction(openAction) };
+};
+
+const summarizeFonts = (pdfDoc: PDFDocument): PDFFontSummary[] =>
+  pdfDoc.context.enumerateIndirectObjects().flatMap(([, object]) => {
+    if (!(object instanceof PDFDict) || nameOf(object.lookup(name('Type'))) !== 'Font') return [];
+    const type = nameOf(object.lookup(name('Subtype'))) ?? 'Unknown';
+    // Descendant fonts are reported through their Type 0 parent
+    if (type.startsWith('CIDFontType')) return [];
+
+    let descriptorOwner: PDFDict = object;
+    if (type === 'Type0') {
+      const descendants = object.lookup(name('DescendantFonts'));
+      const descendant = descendants instanceof PDFArray ? descendants.lookup(0) : undefined;
+      if (descendant instanceof PDFDict) descriptorOwner = descendant;
+    }
+    const descriptor = dictAt(descriptorOwner, 'FontDescriptor');
+    const baseFont = nameOf(object.lookup(name('BaseFont'))) ?? (type === 'Type3' ? 'Type 3 font' : 'Unnamed font');
+    const subset = /^[A-Z]{6}\+/.test(baseFont);
+
+    return [{
+      name: subset ? baseFont.slice(7) : baseFont,
+      type,
+      embedded: type === 'Type3' || FONT_FILE_KEYS.some(key => descriptor?.has(name(key))),
+      subset
+    }];
+  });
+
+const summarizeImages = (pdfDoc: PDFDocument): PDFImageSummary[] =>
+  pdfDoc.context.enumerateIndirectObjects().flatMap(([, object]) => {
+    if (!(object instanceof PDFRawStream) || nameOf(object.dict.lookup(name('Subtype'))) !== 'Image') return [];
+    const { dict } = object;
+
+    const colorSpace = dict.lookup(name('ColorSpace'));
+    const filter = dict.lookup(name('Filter'));
+    const isMask = dict.lookup(name('ImageMask'))?.toString() === 'true';
+    return [{
+      width: numberOf(dict.lookup(name('Width'))) ?? 0,
+      height: numberOf(dict.lookup(name('Height'))) ?? 0,
+      colorSpace: isMask
+        ? 'Mask'
+        : nameOf(colorSpace) ?? (colorSpace instanceof PDFArray ? nameOf(colorSpace.lookup(0)) : undefined) ?? 'Unknown',
+      bitsPerComponent: numberOf(dict.lookup(name('BitsPerComponent'))) ?? (isMask ? 1 : 0),
+      filter: nameOf(filter) ??
+        (filter instanceof PDFArray ? filter.asArray().map(value => nameOf(value) ?? '?').join(' + ') : 'None'),
+      size: object.contents.length
+    }];
+  });
+
+const summarizeForms = (pdfDoc: PDFDocument): PDFFormSummary | undefined => {
+  const acroForm = dictAt(pdfDoc.catalog, 'AcroForm');
+  if (!acroForm) return undefined;
+
+  let fields = 0;
+  let signatureFields = 0;
+  const visited = new Set<PDFObject>();
+  const walk = (object: PDFObject | undefined, inheritedType: string | undefined, depth: number) => {
+    if (!object || visited.has(object) || depth > MAX_TREE_DEPTH) return;
+    visited.add(object);
+    const field = pdfDoc.context.lookup(object);
+    if (!(field instanceof PDFDict)) return;
+    const type = nameOf(field.lookup(name('FT'))) ?? inheritedType;
+    const kids = field.lookup(name('Kids'));
+    // Kids without a name of their own are the widgets of a terminal field
+    const childFields = kids instanceof PDFArray
+      ? kids.asArray().filter(kid => {
+        const child = pdfDoc.context.lookup(kid);
+        return child instanceof PDFDict && child.has(name('T'));
+      })
+      : [];
+    if (childFields.length > 0) {
+      childFields.forEach(kid => walk(kid, type, depth + 1));
+    } else {
+      fields++;
+      if (type === 'Sig') signatureFields++;
+    }
+  };
+  const topLevel = acroForm.lookup(name('Fields'));
+  if (topLevel instanceof PDFArray) topLevel.asArray().forEach(field => walk(field, undefined, 0));
+
+  return { fields, signatureFields, xfa: acroForm.has(name('XFA')) };
+};
+
+const summarizeEncryption = (pdfDoc: PDFDocument): PDFEncryptionSummary | undefined => {
+  const encrypt = pdfDoc.context.lookup(pdfDoc.context.trailerInfo.Encrypt);
+  if (!(encrypt instanceof PDFDict)) return undefined;
+  return {
+    filter: nameOf(encrypt.lookup(name('Filter'))) ?? 'Unknown',
+    version: numberOf(encrypt.lookup(name('V'))) ?? 0,
+    revision: numberOf(encrypt.lookup(name('R'))) ?? 0,
+    keyLength: numberOf(encrypt.lookup(name('Length'))) ?? 40
+  };
+};
+
+/**
+ * Rebuild a document from the objects found by scanning the file. Problems
+ * fixed along the way are added to the given list.
+ */
+const rebuildPDFDocument = async (
+  pdfBytes: Uint8Array,
+  text: string,
+  problems: string[]
+): Promise<{ pdfDoc: PDFDocument; scan: PDFScanResult }> => {
+  const scan = await scanObjects(pdfBytes, text);
+  if (scan.refs.length === 0) throw new Error('No PDF objects could be found in this file');
+
+  repairPageTree(scan, problems);
+  if (scan.lost > 0) {
+    problems.push(`${scan.lost} damaged object${scan.lost === 1 ? ' was' : 's were'} dropped`);
+  }
+  if (scan.truncatedStreams > 0) {
+    problems.push(`${scan.truncatedStreams} stream${scan.truncatedStreams === 1 ? ' was' : 's were'} cut off and kept incomplete`);
+  }
+
+  const rebuiltBytes = await PDFWriter.forContext(scan.context, 50).serializeToBuffer();
+  const pdfDoc = await PDFDocument.load(rebuiltBytes, { ignoreEncryption: true, updateMetadata: false });
+  return { pdfDoc, scan };
+};
+
+/** Open a document as is when possible, rebuilding it otherwise */
+const openPDFDocument = async (
+  pdfBytes: Uint8Array,
+  text: string,
+  problems: string[]
+): Promise<{ pdfDoc: PDFDocument; scan?: PDFScanResult }> => {
+  try {
+    const pdfDoc = await PDFDocument.load(pdfBytes, { ignoreEncryption: true, updateMetadata: false });
+    const invalidObjects = pdfDoc.context.enumerateIndirectObjects()
+      .filter(([, object]) => object instanceof PDFInvalidObject).length;
+    if (invalidObjects > 0) {
+      problems.push(`${invalidObjects} object${invalidObjects === 1 ? '' : 's'} could not be parsed`);
+    } else if (!walkPageTree(pdfDoc.context, pdfDoc.catalog.get(name('Pages')))) {
+      problems.push('The page tree has missing or invalid entries');
+    } else {
+      pdfDoc.getPages().forEach(page => page.getSize());
+      return { pdfDoc };
+    }
+  } catch (error) {
+    problems.push(`The file cannot be opened as it is (${error instanceof Error ? error.message : 'unknown error'})`);
+  }
+  return rebuildPDFDocument(pdfBytes, text, problems);
+};
+
+/**
+ * Summarise the structure of a PDF: version, objects, fonts, images,
+ * encryption, forms, JavaScript and revisions, with any damage found.
+ * Damaged files are inspected through a rebuilt copy.
+ */
+export const inspectPDFStructure = async (pdfBytes: Uint8Array): Promise<PDFStructureReport> => {
+  const text = toLatin1(pdfBytes);
+  const problems = diagnoseFileLayout(text);
+  const { pdfDoc, scan } = await openPDFDocument(pdfBytes, text, problems);
+
+  const headerVersion = /%PDF-(\d+\.\d+)/.exec(text.slice(0, 1024))?.[1] ?? 'unknown';
+  const catalogVersion = nameOf(pdfDoc.catalog.lookup(name('Version')));
+  const version = catalogVersion && (headerVersion === 'unknown' || Number(catalogVersion) > Number(headerVersion))
+    ? catalogVersion
+    : headerVersion;
+
+  // A linearized file starts with a first-page cross-reference section of its own
+  const firstObject = new RegExp(OBJECT_HEADER).exec(text.slice(0, 4096));
+  const linearized = !!firstObject && text.slice(firstObject.index, firstObject.index + 1024).includes('/Linearized');
+  const sections = (text.match(/startxref/g) ?? []).length;
+
+  const markInfo = dictAt(pdfDoc.catalog, 'MarkInfo');
+
+  return {
+    version,
+    fileSize: pdfBytes.length,
+    objectCount: pdfDoc.context.enumerateIndirectObjects().length,
+    pageCount: pdfDoc.getPageCount(),
+    incrementalUpdates: Math.max(0, sections - 1 - (linearized ? 1 : 0)),
+    linearized,
+    tagged: markInfo?.lookup(name('Marked'))?.toString() === 'true',
+    loadable: !scan,
+    encryption: summarizeEncryption(pdfDoc),
+    fonts: summarizeFonts(pdfDoc),
+    images: summarizeImages(pdfDoc),
+    forms: summarizeForms(pdfDoc),
+    javaScript: summarizeJavaScript(pdfDoc),
+    problems
+  };
+};
+
+/**
+ * Repair a PDF: files that open are re-saved with a fresh cross-reference
+ * table, damaged ones are rebuilt from the objects that can still be read.
+ * Encrypted files have to be unlocked first.
+ */
+export const repairPDFDocument = async (
+  pdfBytes: Uint8Array
+): Promise<{ pdfDoc: PDFDocument; report: PDFRepairReport }> => {
+  const text = toLatin1(pdfBytes);
+  const problems = diagnoseFileLayout(text);
+  const { pdfDoc, scan } = await openPDFDocument(pdfBytes, text, problems);
+
+  if (pdfDoc.isEncrypted) {
+    throw new Error('Encrypted PDFs cannot be repaired. Remove the password first.');
+  }
+
+  const reachable = collectReachableRefs(pdfDoc);
+  let unusedObjectsRemoved = 0;
+  pdfDoc.context.enumerateIndirectObjects().forEach(([ref]) => {
+    if (!reachable.has(ref)) {
+      pdfDoc.context.delete(ref);
+      unusedObjectsRemoved++;
+    }
+  });
+
+  return {
+    pdfDoc,
+    report: {
+      method: scan ? 'rebuilt' : 'resaved',
+      objectsRecovered: pdfDoc.context.enumerateIndirectObjects().length,
+      objectsLost: scan?.lost ?? 0,
+      truncatedStreams: scan?.truncatedStreams ?? 0,
+      unusedObjectsRemoved,
+      pageCount: pdfDoc.getPageCount(),
+      problems
+    }
+  };
+};
@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { PDFArray, PDFDocument, PDFRawStream, StandardFonts, decodePDFRawStream } from 'pdf-lib';
+import { decryptPDFBytes, encryptPDFDocument, PDFEncryptionAlgorithm } from './pdfSecurityUtils';
+
+const SECRET = 'Quarterly figures';
+
+const createEncryptedPDF = async (algorithm: PDFEncryptionAlgorithm): Promise<Uint8Array> => {
+  const pdfDoc = await PDFDocument.create();
+  const font = await pdfDoc.embedFont(StandardFonts.Helvetica);
+  pdfDoc.addPage([300, 300]).drawText(SECRET, { x: 20, y: 150, size: 12, font });
+  pdfDoc.setTitle(SECRET);
+
+  await encryptPDFDocument(pdfDoc, { userPassword: 'user', ownerPassword: 'owner', algorithm });
+  return pdfDoc.save({ useObjectStreams: false });
+};
+
+const pageText = (pdfDoc: PDFDocument): string => {
+  const contents = pdfDoc.getPage(0).node.Contents();
+  const streams = contents instanceof PDFArray ? contents.asArray().map(ref => pdfDoc.context.lookup(ref)) : [contents];
+  return streams
+    .map(stream => (stream instanceof PDFRawStream ? Buffer.from(decodePDFRawStream(stream).decode()).toString('latin1') : ''))
+    .join('\n');
+};
+
+const hexOf = (text: string) => Buffer.from(text, 'latin1').toString('hex').toUpperCase();
+
+describe.each<PDFEncryptionAlgorithm>(['aes-128', 'aes-256'])('%s encryption', algorithm => {
+  it('hides the content and marks the file as encrypted', async () => {
+    const encrypted = await createEncryptedPDF(algorithm);
+    const pdfDoc = await PDFDocument.load(encrypted, { ignoreEncryption: true });
+
+    expect(pdfDoc.isEncrypted).toBe(true);
+    expect(Buffer.from(encrypted).toString('latin1')).not.toContain(hexOf(SECRET));
+  });
+
+  it.each(['user', 'owner'])('round-trips with the %s password', async password => {
+    const decrypted = await decryptPDFBytes(await createEncryptedPDF(algorithm), password);
+    expect(decrypted).not.toBeNull();
+
+    const pdfDoc = await PDFDocument.load(decrypted as Uint8Array);
+    expect(pdfDoc.isEncrypted).toBe(false);
+    expect(pdfDoc.getTitle()).toBe(SECRET);
+    expect(pageText(pdfDoc)).toContain(hexOf(SECRET));
+  });
+
+  it('returns null for a wrong password', async () => {
+    expect(await decryptPDFBytes(await createEncryptedPDF(algorithm), 'wrong')).toBeNull();
+  });
+});
+
+describe('decryptPDFBytes', () => {
+  it('rejects files that are not encrypted', async () => {
+    const pdfDoc = await PDFDocument.create();
+    pdfDoc.addPage();
+
+    await expect(decryptPDFBytes(await pdfDoc.save(), '')).rejects.toThrow('PDF is not encrypted');
+  });
+});
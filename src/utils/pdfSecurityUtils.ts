@@ -0,0 +1,529 @@
+// src/utils/pdfSecurityUtils.ts
+// PDF standard security handler. Uses Node's crypto module, so it is only
+// imported from API routes.
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'crypto';
+import {
+  PDFArray,
+  PDFBool,
+  PDFContext,
+  PDFDict,
+  PDFDocument,
+  PDFHexString,
+  PDFInvalidObject,
+  PDFName,
+  PDFNumber,
+  PDFObject,
+  PDFObjectParser,
+  PDFObjectStreamParser,
+  PDFParser,
+  PDFRawStream,
+  PDFRef,
+  PDFStream,
+  PDFString,
+  PDFWriter
+} from 'pdf-lib';
+
+export type PDFEncryptionAlgorithm = 'aes-128' | 'aes-256';
+
+export interface PDFPermissions {
+  printing?: 'lowResolution' | 'highResolution' | false;
+  modifying?: boolean;
+  copying?: boolean;
+  annotating?: boolean;
+  fillingForms?: boolean;
+  contentAccessibility?: boolean;
+  documentAssembly?: boolean;
+}
+
+export interface PDFEncryptionOptions {
+  userPassword: string;
+  ownerPassword?: string;
+  permissions?: PDFPermissions;
+  algorithm?: PDFEncryptionAlgorithm;
+}
+
+/** Padding string from the PDF specification used by the RC4/MD5 key algorithms */
+const PASSWORD_PADDING = Buffer.from(
+  '28BF4E5E4E758A4164004E56FFFA01082E2E00B6D0683E802F0CA9FE6453697A',
+  'hex'
+);
+
+const md5 = (...parts: Uint8Array[]): Buffer => {
+  const hash = createHash('md5');
+  parts.forEach(part => hash.update(part));
+  return hash.digest();
+};
+
+/**
+ * RC4 is only used to derive the AES-128 O and U entries. It is implemented
+ * here because OpenSSL 3 no longer exposes it by default.
+ */
+const rc4 = (key: Uint8Array, data: Uint8Array): Buffer => {
+  const state = Array.from({ length: 256 }, (_, i) => i);
+  let j = 0;
+  for (let i = 0; i < 256; i++) {
+    j = (j + state[i] + key[i % key.length]) & 0xff;
+    [state[i], state[j]] = [state[j], state[i]];
+  }
+
+  const output = Buffer.alloc(data.length);
+  let a = 0;
+  let b = 0;
+  for (let k = 0; k < data.length; k++) {
+    a = (a + 1) & 0xff;
+    b = (b + state[a]) & 0xff;
+    [state[a], state[b]] = [state[b], state[a]];
+    output[k] = data[k] ^ state[(state[a] + state[b]) & 0xff];
+  }
+  return output;
+};
+
+/** Apply RC4 with the key XOR-ed by 0..19 in turn (algorithms 3 and 5, revision 3+) */
+const rc4Iterated = (key: Buffer, data: Uint8Array): Buffer => {
+  let output: Buffer = Buffer.from(data);
+  for (let i = 0; i < 20; i++) {
+    output = rc4(key.map(byte => byte ^ i), output);
+  }
+  return output;
+};
+
+const aesEncrypt = (key: Buffer, data: Uint8Array): Buffer => {
+  const iv = randomBytes(16);
+  const cipher = createCipheriv(key.length === 32 ? 'aes-256-cbc' : 'aes-128-cbc', key, iv);
+  return Buffer.concat([iv, cipher.update(data), cipher.final()]);
+};
+
+const aesDecrypt = (key: Buffer, data: Uint8Array): Buffer => {
+  // Anything shorter than the IV plus one block carries no data
+  if (data.length < 32 || data.length % 16 !== 0) return Buffer.alloc(0);
+
+  const decipher = createDecipheriv(key.length === 32 ? 'aes-256-cbc' : 'aes-128-cbc', key, data.subarray(0, 16));
+  decipher.setAutoPadding(false);
+  const plain = Buffer.concat([decipher.update(data.subarray(16)), decipher.final()]);
+
+  // Tolerate broken padding from sloppy writers instead of failing the document
+  const padding = plain[plain.length - 1];
+  return padding >= 1 && padding <= 16 ? plain.subarray(0, plain.length - padding) : plain;
+};
+
+/** AES without padding for the fixed-size UE, OE and Perms entries */
+const aesEncryptBlocks = (mode: 'aes-256-cbc' | 'aes-256-ecb', key: Buffer, data: Buffer): Buffer => {
+  const cipher = createCipheriv(mode, key, mode === 'aes-256-cbc' ? Buffer.alloc(16) : null);
+  cipher.setAutoPadding(false);
+  return Buffer.concat([cipher.update(data), cipher.final()]);
+};
+
+const aesDecryptBlocks = (key: Buffer, data: Buffer): Buffer => {
+  const decipher = createDecipheriv('aes-256-cbc', key, Buffer.alloc(16));
+  decipher.setAutoPadding(false);
+  return Buffer.concat([decipher.update(data.subarray(0, 32)), decipher.final()]);
+};
+
+/** Revision 2-4 passwords are PDFDocEncoded and padded to 32 bytes */
+const padPassword = (password: string | Buffer): Buffer =>
+  Buffer.concat([Buffer.from(password as string, 'latin1').subarray(0, 32), PASSWORD_PADDING]).subarray(0, 32);
+
+/** RC4 key derived from the owner password (algorithm 3, steps a-d) */
+const computeOwnerKeyR4 = (paddedOwnerPassword: Buffer, revision: number, keyLength: number): Buffer => {
+  let ownerKey = md5(paddedOwnerPassword);
+  if (revision >= 3) {
+    for (let i = 0; i < 50; i++) ownerKey = md5(ownerKey.subarray(0, keyLength));
+  }
+  return ownerKey.subarray(0, keyLength);
+};
+
+/** File encryption key derived from the padded user password (algorithm 2) */
+const computeFileKeyR4 = (
+  paddedUserPassword: Buffer,
+  ownerEntry: Buffer,
+  flags: number,
+  firstId: Buffer,
+  revision: number,
+  keyLength: number,
+  encryptMetadata: boolean = true
+): Buffer => {
+  let fileKey = md5(
+    paddedUserPassword,
+    ownerEntry.subarray(0, 32),
+    int32LE(flags),
+    firstId,
+    revision >= 4 && !encryptMetadata ? Buffer.from([0xff, 0xff, 0xff, 0xff]) : Buffer.alloc(0)
+  );
+  if (revision >= 3) {
+    for (let i = 0; i < 50; i++) fileKey = md5(fileKey.subarray(0, keyLength));
+  }
+  return fileKey.subarray(0, keyLength);
+};
+
+/** The part of the U entry that proves the file key (algorithms 4 and 5) */
+const computeUserCheckR4 = (fileKey: Buffer, firstId: Buffer, revision: number): Buffer =>
+  revision >= 3 ? rc4Iterated(fileKey, md5(PASSWORD_PADDING, firstId)) : rc4(fileKey, PASSWORD_PADDING);
+
+/** Per-object key for RC4 and AESV2 (algorithm 1) */
+const computeObjectKeyR4 = (fileKey: Buffer, ref: PDFRef, aes: boolean): Buffer => {
+  const objectBytes = Buffer.from([
+    ref.objectNumber & 0xff,
+    (ref.objectNumber >> 8) & 0xff,
+    (ref.objectNumber >> 16) & 0xff,
+    ref.generationNumber & 0xff,
+    (ref.generationNumber >> 8) & 0xff
+  ]);
+  return md5(fileKey, objectBytes, aes ? Buffer.from('sAlT') : Buffer.alloc(0))
+    .subarray(0, Math.min(fileKey.length + 5, 16));
+};
+
+/** Revision 6 passwords are UTF-8 (SASLprep approximated by NFKC) and capped at 127 bytes */
+const encodePasswordR6 = (password: string): Buffer =>
+  Buffer.from(password.normalize('NFKC'), 'utf8').subarray(0, 127);
+
+/**
+ * Hash used by revision 6 for password validation and key wrapping
+ * (ISO 32000-2, algorithm 2.B)
+ */
+const computeHashR6 = (password: Buffer, salt: Buffer, userKey: Buffer = Buffer.alloc(0)): Buffer => {
+  let key = createHash('sha256').update(password).update(salt).update(userKey).digest();
+  let encrypted = Buffer.alloc(0);
+
+  for (let round = 0; round < 64 || encrypted[encrypted.length - 1] > round - 32; round++) {
+    const block = Buffer.concat([password, key, userKey]);
+    const cipher = createCipheriv('aes-128-cbc', key.subarray(0, 16), key.subarray(16, 32));
+    cipher.setAutoPadding(false);
+    encrypted = Buffer.concat([cipher.update(Buffer.concat(Array(64).fill(block))), cipher.final()]);
+
+    // The sum of the first 16 bytes picks the next hash function
+    const selector = encrypted.subarray(0, 16).reduce((sum, byte) => sum + byte, 0) % 3;
+    key = createHash(['sha256', 'sha384', 'sha512'][selector]).update(encrypted).digest();
+  }
+
+  return key.subarray(0, 32);
+};
+
+/**
+ * Build the P entry. Bits 1-2 must be clear, bits 7-8 and 13-32 set, and the
+ * remaining bits grant the individual permissions.
+ */
+const computePermissionFlags = (permissions: PDFPermissions): number => {
+  let flags = ~0xf3f;
+  if (permissions.printing) flags |= 1 << 2;
+  if (permissions.modifying) flags |= 1 << 3;
+  if (permissions.copying) flags |= 1 << 4;
+  if (permissions.annotating) flags |= 1 << 5;
+  if (permissions.fillingForms) flags |= 1 << 8;
+  if (permissions.contentAccessibility) flags |= 1 << 9;
+  if (permissions.documentAssembly) flags |= 1 << 10;
+  if (permissions.printing === 'highResolution') flags |= 1 << 11;
+  return flags | 0;
+};
+
+const int32LE = (value: number): Buffer => {
+  const bytes = Buffer.alloc(4);
+  bytes.writeInt32LE(value);
+  return bytes;
+};
+
+const toHexString = (bytes: Uint8Array): PDFHexString => PDFHexString.of(Buffer.from(bytes).toString('hex'));
+
+const getStringBytes = (dict: PDFDict, key: string): Buffer => {
+  const value = dict.lookup(PDFName.of(key));
+  return value instanceof PDFString || value instanceof PDFHexString ? Buffer.from(value.asBytes()) : Buffer.alloc(0);
+};
+
+const getNumber = (dict: PDFDict, key: string, fallback: number): number => {
+  const value = dict.lookup(PDFName.of(key));
+  return value instanceof PDFNumber ? value.asNumber() : fallback;
+};
+
+/** First element of the trailer ID, which feeds the revision 2-4 key derivation */
+const getFirstId = (context: PDFContext): Buffer | undefined => {
+  const id = context.lookup(context.trailerInfo.ID);
+  const first = id instanceof PDFArray ? id.lookup(0) : undefined;
+  return first instanceof PDFString || first instanceof PDFHexString ? Buffer.from(first.asBytes()) : undefined;
+};
+
+/**
+ * Replace every string inside an array or dictionary, recursively. Streams
+ * are handled by the caller because they are always indirect. Signature
+ * /Contents are never encrypted, as the specification requires.
+ */
+const transformStrings = (object: PDFObject, transform: (bytes: Uint8Array) => Uint8Array): PDFObject => {
+  if (object instanceof PDFString || object instanceof PDFHexString) {
+    return toHexString(transform(object.asBytes()));
+  }
+
+  if (object instanceof PDFArray) {
+    for (let i = 0; i < object.size(); i++) {
+      object.set(i, transformStrings(object.get(i), transform));
+    }
+  } else if (object instanceof PDFDict) {
+    const isSignature = object.has(PDFName.of('ByteRange'));
+    for (const [key, value] of object.entries()) {
+      if (isSignature && key === PDFName.of('Contents')) continue;
+      object.set(key, transformStrings(value, transform));
+    }
+  }
+
+  return object;
+};
+
+/**
+ * Encrypt every indirect object in place and attach the /Encrypt dictionary.
+ * Pending fonts and images are flushed first so their streams are included;
+ * save the result with object streams disabled.
+ */
+export const encryptPDFDocument = async (pdfDoc: PDFDocument, options: PDFEncryptionOptions): Promise<void> => {
+  const {
+    userPassword,
+    // Without an owner password nobody can lift the permission restrictions
+    ownerPassword = randomBytes(16).toString('hex'),
+    permissions = {},
+    algorithm = 'aes-256'
+  } = options;
+
+  await pdfDoc.flush();
+
+  const context = pdfDoc.context;
+  const flags = computePermissionFlags(permissions);
+
+  // Keep the permanent half of an existing file identifier
+  const firstId = getFirstId(context) ?? randomBytes(16);
+
+  let getObjectKey: (ref: PDFRef) => Buffer;
+  let encryptDict: PDFDict;
+
+  if (algorithm === 'aes-128') {
+    // Standard security handler revision 4 with AESV2 crypt filters
+    const ownerKey = computeOwnerKeyR4(padPassword(ownerPassword), 4, 16);
+    const ownerEntry = rc4Iterated(ownerKey, padPassword(userPassword));
+
+    const aesKey = computeFileKeyR4(padPassword(userPassword), ownerEntry, flags, firstId, 4, 16);
+    const userEntry = Buffer.concat([computeUserCheckR4(aesKey, firstId, 4), randomBytes(16)]);
+
+    getObjectKey = (ref) => computeObjectKeyR4(aesKey, ref, true);
+
+    encryptDict = context.obj({
+      Filter: 'Standard',
+      V: 4,
+      R: 4,
+      Length: 128,
+      CF: { StdCF: { CFM: 'AESV2', AuthEvent: 'DocOpen', Length: 16 } },
+      StmF: 'StdCF',
+      StrF: 'StdCF',
+      O: toHexString(ownerEntry),
+      U: toHexString(userEntry),
+      P: flags
+    });
+  } else {
+    // Revision 6 with AESV3 crypt filters and a random file key
+    const fileKey = randomBytes(32);
+
+    const userPasswordBytes = encodePasswordR6(userPassword);
+    const userValidationSalt = randomBytes(8);
+    const userKeySalt = randomBytes(8);
+    const userEntry = Buffer.concat([
+      computeHashR6(userPasswordBytes, userValidationSalt),
+      userValidationSalt,
+      userKeySalt
+    ]);
+    const userEncryptedKey = aesEncryptBlocks('aes-256-cbc', computeHashR6(userPasswordBytes, userKeySalt), fileKey);
+
+    const ownerPasswordBytes = encodePasswordR6(ownerPassword);
+    const ownerValidationSalt = randomBytes(8);
+    const ownerKeySalt = randomBytes(8);
+    const ownerEntry = Buffer.concat([
+      computeHashR6(ownerPasswordBytes, ownerValidationSalt, userEntry),
+      ownerValidationSalt,
+      ownerKeySalt
+    ]);
+    const ownerEncryptedKey = aesEncryptBlocks(
+      'aes-256-cbc',
+      computeHashR6(ownerPasswordBytes, ownerKeySalt, userEntry),
+      fileKey
+    );
+
+    // Perms lets readers detect tampering with P
+    const perms = aesEncryptBlocks('aes-256-ecb', fileKey, Buffer.concat([
+      int32LE(flags),
+      Buffer.from([0xff, 0xff, 0xff, 0xff]),
+      Buffer.from('Tadb'),
+      randomBytes(4)
+    ]));
+
+    getObjectKey = () => fileKey;
+
+    encryptDict = context.obj({
+      Filter: 'Standard',
+      V: 5,
+      R: 6,
+      Length: 256,
+      CF: { StdCF: { CFM: 'AESV3', AuthEvent: 'DocOpen', Length: 32 } },
+      StmF: 'StdCF',
+      StrF: 'StdCF',
+      O: toHexString(ownerEntry),
+      U: toHexString(userEntry),
+      OE: toHexString(ownerEncryptedKey),
+      UE: toHexString(userEncryptedKey),
+      P: flags,
+      Perms: toHexString(perms)
+    });
+  }
+
+  for (const [ref, object] of context.enumerateIndirectObjects()) {
+    const objectKey = getObjectKey(ref);
+    const encrypt = (bytes: Uint8Array) => aesEncrypt(objectKey, bytes);
+
+    if (object instanceof PDFStream) {
+      // Encrypt the encoded bytes, so filters still apply after decryption
+      const contents = object.getContents();
+      transformStrings(object.dict, encrypt);
+      context.assign(ref, PDFRawStream.of(object.dict, encrypt(contents)));
+    } else {
+      context.assign(ref, transformStrings(object, encrypt));
+    }
+  }
+
+  context.trailerInfo.Encrypt = context.register(encryptDict);
+  context.trailerInfo.ID = context.obj([toHexString(firstId), toHexString(randomBytes(16))]);
+};
+
+/**
+ * Recover the file key from either the user or the owner password.
+ * Returns undefined when the password matches neither.
+ */
+const authenticatePassword = (encrypt: PDFDict, password: string, firstId: Buffer): Buffer | undefined => {
+  const revision = getNumber(encrypt, 'R', 2);
+  const ownerEntry = getStringBytes(encrypt, 'O');
+  const userEntry = getStringBytes(encrypt, 'U');
+
+  if (revision >= 5) {
+    // Revision 5 is Adobe's deprecated extension that hashes with plain SHA-256
+    const passwordBytes = encodePasswordR6(password);
+    const hash = (salt: Buffer, userKey: Buffer = Buffer.alloc(0)) => revision === 5
+      ? createHash('sha256').update(passwordBytes).update(salt).update(userKey).digest()
+      : computeHashR6(passwordBytes, salt, userKey);
+    const userKey = userEntry.subarray(0, 48);
+
+    if (hash(ownerEntry.subarray(32, 40), userKey).equals(ownerEntry.subarray(0, 32))) {
+      return aesDecryptBlocks(hash(ownerEntry.subarray(40, 48), userKey), getStringBytes(encrypt, 'OE'));
+    }
+    if (hash(userEntry.subarray(32, 40)).equals(userEntry.subarray(0, 32))) {
+      return aesDecryptBlocks(hash(userEntry.subarray(40, 48)), getStringBytes(encrypt, 'UE'));
+    }
+    return undefined;
+  }
+
+  const flags = getNumber(encrypt, 'P', 0);
+  const keyLength = revision === 2 ? 5 : getNumber(encrypt, 'Length', revision === 4 ? 128 : 40) / 8;
+  const encryptMetadata = encrypt.lookup(PDFName.of('EncryptMetadata')) !== PDFBool.False;
+
+  // Revision 3+ only guarantees the first 16 bytes of U
+  const checkLength = revision >= 3 ? 16 : 32;
+  const tryUserPassword = (paddedPassword: Buffer) => {
+    const fileKey = computeFileKeyR4(paddedPassword, ownerEntry, flags, firstId, revision, keyLength, encryptMetadata);
+    const check = computeUserCheckR4(fileKey, firstId, revision);
+    return check.subarray(0, checkLength).equals(userEntry.subarray(0, checkLength)) ? fileKey : undefined;
+  };
+
+  // The owner password decrypts O back into the padded user password
+  const ownerKey = computeOwnerKeyR4(padPassword(password), revision, keyLength);
+  let recoveredUserPassword = ownerEntry.subarray(0, 32);
+  if (revision >= 3) {
+    for (let i = 19; i >= 0; i--) {
+      recoveredUserPassword = rc4(ownerKey.map(byte => byte ^ i), recoveredUserPassword);
+    }
+  } else {
+    recoveredUserPassword = rc4(ownerKey, recoveredUserPassword);
+  }
+
+  return tryUserPassword(padPassword(password)) ?? tryUserPassword(recoveredUserPassword);
+};
+
+/** Crypt filter method used for strings or streams */
+const getCryptMethod = (encrypt: PDFDict, filterKey: 'StmF' | 'StrF'): string => {
+  if (getNumber(encrypt, 'V', 0) < 4) return 'V2';
+
+  const filterName = encrypt.lookup(PDFName.of(filterKey));
+  if (!(filterName instanceof PDFName) || filterName === PDFName.of('Identity')) return 'None';
+
+  const filters = encrypt.lookup(PDFName.of('CF'));
+  const filter = filters instanceof PDFDict ? filters.lookup(filterName) : undefined;
+  const method = filter instanceof PDFDict ? filter.lookup(PDFName.of('CFM')) : undefined;
+  return method instanceof PDFName ? method.decodeText() : 'None';
+};
+
+/**
+ * Decrypt a PDF protected by the standard security handler (RC4 40/128,
+ * AES-128 or AES-256) with its user or owner password. Returns null when the
+ * password is wrong.
+ */
+export const decryptPDFBytes = async (pdfBytes: Uint8Array, password: string): Promise<Uint8Array | null> => {
+  // Parse without PDFDocument, whose catalog may sit in an encrypted object stream
+  const context = await PDFParser.forBytesWithOptions(pdfBytes).parseDocument();
+  const encrypt = context.lookup(context.trailerInfo.Encrypt);
+
+  if (!(encrypt instanceof PDFDict)) {
+    throw new Error('PDF is not encrypted');
+  }
+  if (encrypt.lookup(PDFName.of('Filter')) !== PDFName.of('Standard')) {
+    throw new Error('Unsupported security handler');
+  }
+
+  const fileKey = authenticatePassword(encrypt, password, getFirstId(context) ?? Buffer.alloc(0));
+  if (!fileKey) return null;
+
+  const encryptMetadata = encrypt.lookup(PDFName.of('EncryptMetadata')) !== PDFBool.False;
+  const getDecryptor = (method: string, ref: PDFRef) => (bytes: Uint8Array): Uint8Array => {
+    if (method === 'AESV3') return aesDecrypt(fileKey, bytes);
+    if (method === 'AESV2') return aesDecrypt(computeObjectKeyR4(fileKey, ref, true), bytes);
+    if (method === 'V2') return rc4(computeObjectKeyR4(fileKey, ref, false), bytes);
+    return bytes;
+  };
+  const stringMethod = getCryptMethod(encrypt, 'StrF');
+  const streamMethod = getCryptMethod(encrypt, 'StmF');
+
+  const encryptedObjectStreams: [PDFRef, PDFInvalidObject][] = [];
+  for (const [ref, object] of context.enumerateIndirectObjects()) {
+    if (object === encrypt) {
+      context.delete(ref);
+    } else if (object instanceof PDFInvalidObject) {
+      // pdf-lib cannot expand encrypted object streams and keeps them unparsed
+      encryptedObjectStreams.push([ref, object]);
+    } else if (object instanceof PDFStream) {
+      const isPlainMetadata = !encryptMetadata && object.dict.lookup(PDFName.of('Type')) === PDFName.of('Metadata');
+      const contents = object.getContents();
+      transformStrings(object.dict, getDecryptor(stringMethod, ref));
+      context.assign(ref, PDFRawStream.of(
+        object.dict,
+        isPlainMetadata ? contents : getDecryptor(streamMethod, ref)(contents)
+      ));
+    } else {
+      context.assign(ref, transformStrings(object, getDecryptor(stringMethod, ref)));
+    }
+  }
+
+  // Objects inside a decrypted object stream are already plain text
+  for (const [ref, object] of encryptedObjectStreams) {
+    const bytes = new Uint8Array(object.sizeInBytes());
+    object.copyBytesInto(bytes, 0);
+
+    let stream: PDFObject;
+    try {
+      stream = PDFObjectParser.forBytes(bytes, context).parseObject();
+    } catch {
+      continue;
+    }
+    if (!(stream instanceof PDFRawStream)) continue;
+
+    transformStrings(stream.dict, getDecryptor(stringMethod, ref));
+    const decrypted = PDFRawStream.of(stream.dict, getDecryptor(streamMethod, ref)(stream.contents));
+
+    if (decrypted.dict.lookup(PDFName.of('Type')) === PDFName.of('ObjStm')) {
+      context.delete(ref);
+      await PDFObjectStreamParser.forStream(decrypted).parseIntoContext();
+    } else {
+      context.assign(ref, decrypted);
+    }
+  }
+
+  context.trailerInfo.Encrypt = undefined;
+  return PDFWriter.forContext(context, 50).serializeToBuffer();
+};
@@ -0,0 +1,136 @@
+import { describe, expect, it } from 'vitest';
+import forge from 'node-forge';
+import { PDFArray, PDFDict, PDFDocument, PDFHexString, PDFName, PDFNumber } from 'pdf-lib';
+import { signPDFBytes, verifyPDFSignatureBytes } from './pdfSignatureUtils';
+
+/** Self-signed certificate and key bundled as a PKCS#12 file */
+const createPKCS12 = (commonName: string, password: string): Uint8Array => {
+  const keys = forge.pki.rsa.generateKeyPair({ bits: 1024, e: 0x10001 });
+  const certificate = forge.pki.createCertificate();
+  certificate.publicKey = keys.publicKey;
+  certificate.serialNumber = '01';
+  certificate.validity.notBefore = new Date(Date.now() - 24 * 60 * 60 * 1000);
+  certificate.validity.notAfter = new Date(Date.now() + 365 * 24 * 60 * 60 * 1000);
+  const subject = [{ name: 'commonName', value: commonName }];
+  certificate.setSubject(subject);
+  certificate.setIssuer(subject);
+  certificate.sign(keys.privateKey, forge.md.sha256.create());
+
+  const p12 = forge.pkcs12.toPkcs12Asn1(keys.privateKey, [certificate], password, { algorithm: '3des' });
+  return Uint8Array.from(forge.asn1.toDer(p12).getBytes(), c => c.charCodeAt(0));
+};
+
+const PKCS12 = createPKCS12('Ana Lima', 'secret');
+
+const createPDF = async (): Promise<Uint8Array> => {
+  const pdfDoc = await PDFDocument.create();
+  pdfDoc.addPage([300, 300]);
+  return pdfDoc.save({ useObjectStreams: false });
+};
+
+const readSignature = async (pdfBytes: Uint8Array): Promise<PDFDict> => {
+  const pdfDoc = await PDFDocument.load(pdfBytes);
+  const [field] = pdfDoc.getForm().getFields();
+  return field.acroField.dict.lookup(PDFName.of('V'), PDFDict);
+};
+
+describe('signPDFBytes', () => {
+  it('appends the signature as an incremental update', async () => {
+    const original = await createPDF();
+    const signed = await signPDFBytes(original, { pkcs12: PKCS12, password: 'secret', reason: 'Approved' });
+
+    expect(Buffer.from(signed.subarray(0, original.length)).equals(Buffer.from(original))).toBe(true);
+    const pdfDoc = await PDFDocument.load(signed);
+    const [field] = pdfDoc.getForm().getFields();
+    expect(field.getName()).toBe('Signature1');
+
+    const signature = await readSignature(signed);
+    expect(signature.lookup(PDFName.of('SubFilter'))).toBe(PDFName.of('ETSI.CAdES.detached'));
+    expect(signature.lookup(PDFName.of('Name'), PDFHexString).decodeText()).toBe('Ana Lima');
+    expect(signature.lookup(PDFName.of('Reason'), PDFHexString).decodeText()).toBe('Approved');
+  });
+
+  it('signs every byte except the signature contents', async () => {
+    const signed = await signPDFBytes(await createPDF(), { pkcs12: PKCS12, password: 'secret' });
+
+    const byteRange = (await readSignature(signed))
+      .lookup(PDFName.of('ByteRange'), PDFArray)
+      .asArray()
+      .map(item => (item as PDFNumber).asNumber());
+    const [start, firstLength, secondStart, secondLength] = byteRange;
+    const text = Buffer.from(signed).toString('latin1');
+    expect(start).toBe(0);
+    expect(secondStart + secondLength).toBe(signed.length);
+    expect(text[firstLength]).toBe('<');
+    expect(text[secondStart - 1]).toBe('>');
+    expect(text.slice(firstLength + 1, secondStart - 1)).toMatch(/^[0-9A-F]+$/);
+  });
+
+  it('draws a visible appearance on the chosen page', async () => {
+    const pdfDoc = await PDFDocument.create();
+    pdfDoc.addPage([300, 300]);
+    pdfDoc.addPage([300, 300]);
+    const signed = await signPDFBytes(await pdfDoc.save({ useObjectStreams: false }), {
+      pkcs12: PKCS12,
+      password: 'secret',
+      appearance: { page: 1, x: 20, y: 30, width: 150, height: 50 }
+    });
+
+    const [widget] = (await PDFDocument.load(signed)).getForm().getFields()[0].acroField.getWidgets();
+    expect(widget.getRectangle()).toEqual({ x: 20, y: 30, width: 150, height: 50 });
+    expect(widget.getAppearances()?.normal).toBeDefined();
+  });
+
+  it('rejects a wrong password or a page that does not exist', async () => {
+    const pdf = await createPDF();
+
+    await expect(signPDFBytes(pdf, { pkcs12: PKCS12, password: 'wrong' })).rejects.toThrow();
+    await expect(
+      signPDFBytes(pdf, { pkcs12: PKCS12, password: 'secret', appearance: { page: 3, x: 0, y: 0, width: 10, height: 10 } })
+    ).rejects.toThrow('Page index out of range');
+  });
+});
+
+describe('verifyPDFSignatureBytes', () => {
+  it('reports an untouched signature as valid', async () => {
+    const signed = await signPDFBytes(await createPDF(), { pkcs12: PKCS12, password: 'secret', location: 'Lisbon' });
+
+    const [result] = await verifyPDFSignatureBytes(signed);
+    expect(result).toMatchObject({
+      fieldName: 'Signature1',
+      subFilter: 'ETSI.CAdES.detached',
+      signerName: 'Ana Lima',
+      location: 'Lisbon',
+      coversWholeDocument: true,
+      digestMatches: true,
+      signatureValid: true,
+      modifications: [],
+      status: 'valid'
+    });
+    expect(result.signer).toMatchObject({ selfSigned: true });
+    expect(result.signer?.subject).toContain('Ana Lima');
+  });
+
+  it('flags bytes changed inside the signed range', async () => {
+    const signed = await signPDFBytes(await createPDF(), { pkcs12: PKCS12, password: 'secret' });
+    const tampered = Buffer.from(Buffer.from(signed).toString('latin1').replace('300 300', '300 301'), 'latin1');
+
+    const [result] = await verifyPDFSignatureBytes(tampered);
+    expect(result.digestMatches).toBe(false);
+    expect(result.status).toBe('invalid');
+  });
+
+  it('keeps earlier signatures valid and lists what later revisions added', async () => {
+    const once = await signPDFBytes(await createPDF(), { pkcs12: PKCS12, password: 'secret' });
+    const twice = await signPDFBytes(once, { pkcs12: PKCS12, password: 'secret', subFilter: 'adbe.pkcs7.detached' });
+
+    const [first, second] = await verifyPDFSignatureBytes(twice);
+    expect(first).toMatchObject({ fieldName: 'Signature1', coversWholeDocument: false, status: 'valid' });
+    expect(first.modifications.map(item => item.kind)).toContain('signature');
+    expect(second).toMatchObject({ fieldName: 'Signature2', subFilter: 'adbe.pkcs7.detached', status: 'valid' });
+  });
+
+  it('returns nothing for unsigned documents', async () => {
+    expect(await verifyPDFSignatureBytes(await createPDF())).toEqual([]);
+  });
+});
@@ -0,0 +1,944 @@
+// src/utils/pdfSignatureUtils.ts
+// PDF digital signatures. Keys are read from PKCS#12 files and the CMS
+// signature is built with node-forge, so signing stays in the browser.
+// Signatures are written as incremental updates to keep earlier revisions
+// (and any signatures they carry) byte-for-byte intact, which is also what
+// lets the verifier tell what changed after each signature.
+import forge from 'node-forge';
+import {
+  PDFAcroTerminal,
+  PDFArray,
+  PDFContext,
+  PDFCrossRefStream,
+  PDFDict,
+  PDFDocument,
+  PDFHexString,
+  PDFName,
+  PDFNumber,
+  PDFObject,
+  PDFOperator,
+  PDFRef,
+  PDFString,
+  StandardFonts,
+  beginText,
+  concatTransformationMatrix,
+  drawObject,
+  endText,
+  moveText,
+  popGraphicsState,
+  pushGraphicsState,
+  setFontAndSize,
+  showText
+} from 'pdf-lib';
+
+export type PDFSignatureSubFilter = 'ETSI.CAdES.detached' | 'adbe.pkcs7.detached';
+
+export interface PDFSignatureAppearance {
+  page: number;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  image?: { bytes: Uint8Array; type: 'png' | 'jpg' };
+  lines?: string[];
+}
+
+export interface PDFSignatureOptions {
+  pkcs12: Uint8Array;
+  password: string;
+  name?: string;
+  reason?: string;
+  location?: string;
+  contactInfo?: string;
+  subFilter?: PDFSignatureSubFilter;
+  appearance?: PDFSignatureAppearance;
+}
+
+interface SigningKey {
+  privateKey: forge.pki.rsa.PrivateKey;
+  certificate: forge.pki.Certificate;
+  chain: forge.pki.Certificate[];
+}
+
+/** Placeholder wide enough for any real ByteRange offset */
+const BYTE_RANGE_PLACEHOLDER = '0 9999999999 9999999999 9999999999';
+/** Space reserved for the CMS signature, on top of the certificates it embeds */
+const SIGNATURE_BASE_SIZE = 8192;
+const OID_SIGNING_CERTIFICATE_V2 = '1.2.840.113549.1.9.16.2.47';
+
+const toBinaryString = (bytes: Uint8Array): string => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return binary;
+};
+
+const fromBinaryString = (text: string): Uint8Array => Uint8Array.from(text, c => c.charCodeAt(0));
+
+/**
+ * Read the private key and certificates from a PKCS#12 (.p12/.pfx) file.
+ * The signer certificate is the one matching the key; the rest form the chain.
+ */
+const readPKCS12 = (pkcs12: Uint8Array, password: string): SigningKey => {
+  const { pki } = forge;
+  const p12 = forge.pkcs12.pkcs12FromAsn1(forge.asn1.fromDer(toBinaryString(pkcs12)), password);
+
+  const keyBags = [
+    ...(p12.getBags({ bagType: pki.oids.pkcs8ShroudedKeyBag })[pki.oids.pkcs8ShroudedKeyBag] ?? []),
+    ...(p12.getBags({ bagType: pki.oids.keyBag })[pki.oids.keyBag] ?? [])
+  ];
+  const privateKey = keyBags.find(bag => bag.key)?.key as forge.pki.rsa.PrivateKey | undefined;
+  if (!privateKey || !privateKey.n) {
+    throw new Error('The PKCS#12 file does not contain an RSA private key');
+  }
+
+  const certificates = (p12.getBags({ bagType: pki.oids.certBag })[pki.oids.certBag] ?? [])
+    .map(bag => bag.cert)
+    .filter((cert): cert is forge.pki.Certificate => !!cert);
+  const certificate = certificates.find(cert => {
+    const publicKey = cert.publicKey as forge.pki.rsa.PublicKey;
+    return !!publicKey.n && publicKey.n.equals(privateKey.n);
+  });
+  if (!certificate) {
+    throw new Error('The PKCS#12 file does not contain the certificate for its private key');
+  }
+
+  return {
+    privateKey,
+    certificate,
+    chain: certificates.filter(cert => cert !== certificate)
+  };
+};
+
+const sha256 = (data: string): string => {
+  const digest = forge.md.sha256.create();
+  digest.update(data);
+  return digest.digest().getBytes();
+};
+
+const compareBinary = (a: string, b: string): number => {
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    if (a.charCodeAt(i) !== b.charCodeAt(i)) return a.charCodeAt(i) - b.charCodeAt(i);
+  }
+  return a.length - b.length;
+};
+
+/**
+ * Build a detached CMS SignedData over the given digest. For PAdES the
+ * signer certificate is bound with signing-certificate-v2 and the signing
+ * time comes from the signature dictionary instead of the CMS.
+ */
+const buildCMSSignature = (
+  key: SigningKey,
+  messageDigest: string,
+  subFilter: PDFSignatureSubFilter
+): string => {
+  const { asn1, pki } = forge;
+  const { Class, Type } = asn1;
+  const sequence = (value: forge.asn1.Asn1[]) => asn1.create(Class.UNIVERSAL, Type.SEQUENCE, true, value);
+  const set = (value: forge.asn1.Asn1[]) => asn1.create(Class.UNIVERSAL, Type.SET, true, value);
+  const oid = (value: string) => asn1.create(Class.UNIVERSAL, Type.OID, false, asn1.oidToDer(value).getBytes());
+  const octetString = (value: string) => asn1.create(Class.UNIVERSAL, Type.OCTETSTRING, false, value);
+  const integer = (value: string) => asn1.create(Class.UNIVERSAL, Type.INTEGER, false, value);
+  const algorithm = (value: string) => sequence([oid(value), asn1.create(Class.UNIVERSAL, Type.NULL, false, '')]);
+  const attribute = (type: string, value: forge.asn1.Asn1) => sequence([oid(type), set([value])]);
+
+  const certificateDer = asn1.toDer(pki.certificateToAsn1(key.certificate)).getBytes();
+  const attributes = [
+    attribute(pki.oids.contentType, oid(pki.oids.data)),
+    attribute(pki.oids.messageDigest, octetString(messageDigest))
+  ];
+  if (subFilter === 'ETSI.CAdES.detached') {
+    attributes.push(
+      attribute(OID_SIGNING_CERTIFICATE_V2, sequence([sequence([sequence([octetString(sha256(certificateDer))])])]))
+    );
+  } else {
+    attributes.push(
+      attribute(
+        pki.oids.signingTime,
+        asn1.create(Class.UNIVERSAL, Type.UTCTIME, false, asn1.dateToUtcTime(new Date()))
+      )
+    );
+  }
+  // DER requires SET OF members in ascending order of their encodings
+  attributes.sort((a, b) => compareBinary(asn1.toDer(a).getBytes(), asn1.toDer(b).getBytes()));
+
+  // The signature covers the attributes encoded as a SET; they are stored with an implicit [0] tag
+  const attributesDigest = forge.md.sha256.create();
+  attributesDigest.update(asn1.toDer(set(attributes)).getBytes());
+  const signature = key.privateKey.sign(attributesDigest);
+
+  const signerInfo = sequence([
+    integer(asn1.integerToDer(1).getBytes()),
+    sequence([
+      pki.distinguishedNameToAsn1(key.certificate.issuer),
+      integer(forge.util.hexToBytes(key.certificate.serialNumber))
+    ]),
+    algorithm(pki.oids.sha256),
+    asn1.create(Class.CONTEXT_SPECIFIC, 0, true, attributes),
+    algorithm(pki.oids.rsaEncryption),
+    octetString(signature)
+  ]);
+
+  const signedData = sequence([
+    integer(asn1.integerToDer(1).getBytes()),
+    set([algorithm(pki.oids.sha256)]),
+    sequence([oid(pki.oids.data)]),
+    asn1.create(
+      Class.CONTEXT_SPECIFIC,
+      0,
+      true,
+      [key.certificate, ...key.chain].map(cert => pki.certificateToAsn1(cert))
+    ),
+    set([signerInfo])
+  ]);
+
+  return asn1
+    .toDer(sequence([oid(pki.oids.signedData), asn1.create(Class.CONTEXT_SPECIFIC, 0, true, [signedData])]))
+    .getBytes();
+};
+
+const serializeObject = (object: PDFObject): string => {
+  const bytes = new Uint8Array(object.sizeInBytes());
+  object.copyBytesInto(bytes, 0);
+  return toBinaryString(bytes);
+};
+
+const snapshotObjects = (context: PDFContext): Map<string, string> =>
+  new Map(context.enumerateIndirectObjects().map(([ref, object]) => [ref.tag, serializeObject(object)]));
+
+/** Read the trailer of the last revision: where its xref starts, its Size and whether it is a stream */
+const readLastTrailer = (text: string) => {
+  const startXrefMatch = text.slice(-1024).match(/startxref\s+(\d+)\s*%%EOF\s*$/);
+  if (!startXrefMatch) {
+    throw new Error('Could not find the cross-reference table of the PDF');
+  }
+  const startXref = Number(startXrefMatch[1]);
+  const xrefSection = text.slice(startXref);
+  const sizeMatch = xrefSection.match(/\/Size\s+(\d+)/);
+  return {
+    startXref,
+    size: sizeMatch ? Number(sizeMatch[1]) : 0,
+    isStream: !xrefSection.startsWith('xref')
+  };
+};
+
+/**
+ * Append the changed objects as an incremental update. The new cross
+ * reference section matches the previous one: a table or an XRef stream.
+ */
+const writeIncrementalUpdate = (
+  pdfDoc: PDFDocument,
+  originalText: string,
+  snapshot: Map<string, string>,
+  trailer: { startXref: number; size: number; isStream: boolean }
+): { text: string; offsets: Map<string, number> } => {
+  const { context } = pdfDoc;
+  const changed = context
+    .enumerateIndirectObjects()
+    .map(([ref, object]) => ({ ref, data: serializeObject(object) }))
+    .filter(({ ref, data }) => snapshot.get(ref.tag) !== data)
+    .sort((a, b) => a.ref.objectNumber - b.ref.objectNumber);
+
+  let text = originalText.endsWith('\n') ? originalText : `${originalText}\n`;
+  const offsets = new Map<string, number>();
+  changed.forEach(({ ref, data }) => {
+    offsets.set(ref.tag, text.length);
+    text += `${ref.objectNumber} ${ref.generationNumber} obj\n${data}\nendobj\n`;
+  });
+
+  const { Root, Info, ID } = context.trailerInfo;
+  if (!Root) {
+    throw new Error('The PDF trailer has no document catalog');
+  }
+  const trailerEntries: Record<string, PDFObject | number> = {
+    Root,
+    ...(Info ? { Info } : {}),
+    ...(ID ? { ID } : {}),
+    Prev: trailer.startXref
+  };
+
+  if (trailer.isStream) {
+    const xrefRef = context.nextRef();
+    const size = Math.max(trailer.size, context.largestObjectNumber + 1);
+    const xrefStream = PDFCrossRefStream.create(context.obj({ ...trailerEntries, Size: size }), true);
+    changed.forEach(({ ref }) => xrefStream.addUncompressedEntry(ref, offsets.get(ref.tag) as number));
+    const xrefOffset = text.length;
+    xrefStream.addUncompressedEntry(xrefRef, xrefOffset);
+    text += `${xrefRef.objectNumber} 0 obj\n${serializeObject(xrefStream)}\nendobj\n`;
+    text += `startxref\n${xrefOffset}\n%%EOF\n`;
+  } else {
+    const xrefOffset = text.length;
+    const size = Math.max(trailer.size, context.largestObjectNumber + 1);
+    text += 'xref\n0 1\n0000000000 65535 f \n';
+    changed.forEach(({ ref }) => {
+      const offset = String(offsets.get(ref.tag)).padStart(10, '0');
+      const generation = String(ref.generationNumber).padStart(5, '0');
+      text += `${ref.objectNumber} 1\n${offset} ${generation} n \n`;
+    });
+    text += `trailer\n${serializeObject(context.obj({ ...trailerEntries, Size: size }))}\n`;
+    text += `startxref\n${xrefOffset}\n%%EOF\n`;
+  }
+
+  return { text, offsets };
+};
+
+/** Build the appearance stream of a visible signature: the image on the left, details on the right */
+const buildSignatureAppearance = async (
+  pdfDoc: PDFDocument,
+  appearance: PDFSignatureAppearance,
+  lines: string[]
+): Promise<PDFRef> => {
+  const { width, height } = appearance;
+  const font = await pdfDoc.embedFont(StandardFonts.Helvetica);
+  const image = appearance.image
+    ? appearance.image.type === 'png'
+      ? await pdfDoc.embedPng(appearance.image.bytes)
+      : await pdfDoc.embedJpg(appearance.image.bytes)
+    : undefined;
+
+  const operators: PDFOperator[] = [];
+  let textX = 4;
+  if (image) {
+    const areaWidth = lines.length > 0 ? width / 2 : width;
+    const scale = Math.min(areaWidth / image.width, height / image.height);
+    const imageWidth = image.width * scale;
+    const imageHeight = image.height * scale;
+    operators.push(
+      pushGraphicsState(),
+      concatTransformationMatrix(imageWidth, 0, 0, imageHeight, (areaWidth - imageWidth) / 2, (height - imageHeight) / 2),
+      drawObject('Img'),
+      popGraphicsState()
+    );
+    textX = areaWidth + 4;
+  }
+
+  if (lines.length > 0) {
+    const textWidth = width - textX - 4;
+    const widest = Math.max(...lines.map(line => font.widthOfTextAtSize(line, 1)));
+    const fontSize = Math.max(4, Math.min(10, (height - 4) / (lines.length * 1.2), textWidth / widest));
+    const lineHeight = fontSize * 1.2;
+    const top = (height + lines.length * lineHeight) / 2 - fontSize;
+    operators.push(beginText(), setFontAndSize('F1', fontSize), moveText(textX, top));
+    lines.forEach((line, index) => {
+      if (index > 0) operators.push(moveText(0, -lineHeight));
+      operators.push(showText(font.encodeText(line)));
+    });
+    operators.push(endText());
+  }
+
+  const stream = pdfDoc.context.formXObject(operators, {
+    BBox: [0, 0, width, height],
+    Resources: {
+      Font: { F1: font.ref },
+      ...(image ? { XObject: { Img: image.ref } } : {})
+    }
+  });
+  return pdfDoc.context.register(stream);
+};
+
+/**
+ * Sign a PDF with a detached CMS signature (PAdES baseline by default).
+ * The signature field is added in an incremental update whose ByteRange
+ * covers the whole file except the signature itself.
+ */
+export const signPDFBytes = async (pdfBytes: Uint8Array, options: PDFSignatureOptions): Promise<Uint8Array> => {
+  const { subFilter = 'ETSI.CAdES.detached', appearance } = options;
+  const key = readPKCS12(options.pkcs12, options.password);
+
+  const pdfDoc = await PDFDocument.load(pdfBytes, { updateMetadata: false });
+  const { context } = pdfDoc;
+  const originalText = toBinaryString(pdfBytes);
+  const trailer = readLastTrailer(originalText);
+  const snapshot = snapshotObjects(context);
+  // Never reuse numbers of objects the parser skipped, such as XRef streams
+  context.largestObjectNumber = Math.max(context.largestObjectNumber, trailer.size - 1);
+
+  const signerName =
+    options.name || (key.certificate.subject.getField('CN')?.value as string | undefined) || 'Unknown signer';
+  const signingTime = new Date();
+
+  // Reserve room for the CMS: certificates plus signature, attributes and DER overhead
+  const certificatesSize = [key.certificate, ...key.chain].reduce(
+    (total, cert) => total + forge.asn1.toDer(forge.pki.certificateToAsn1(cert)).length(),
+    0
+  );
+  const contentsSize = SIGNATURE_BASE_SIZE + certificatesSize;
+
+  const signatureDict = context.obj({
+    Type: 'Sig',
+    Filter: 'Adobe.PPKLite',
+    SubFilter: subFilter,
+    M: PDFString.fromDate(signingTime),
+    Name: PDFHexString.fromText(signerName),
+    ...(options.reason ? { Reason: PDFHexString.fromText(options.reason) } : {}),
+    ...(options.location ? { Location: PDFHexString.fromText(options.location) } : {}),
+    ...(options.contactInfo ? { ContactInfo: PDFHexString.fromText(options.contactInfo) } : {})
+  });
+  signatureDict.set(PDFName.of('ByteRange'), context.obj([0, 9999999999, 9999999999, 9999999999]));
+  signatureDict.set(PDFName.of('Contents'), PDFHexString.of('0'.repeat(contentsSize * 2)));
+  const signatureRef = context.register(signatureDict);
+
+  const pages = pdfDoc.getPages();
+  const pageIndex = appearance?.page ?? 0;
+  if (pageIndex < 0 || pageIndex >= pages.length) {
+    throw new Error('Page index out of range');
+  }
+  const page = pages[pageIndex];
+
+  const form = pdfDoc.getForm();
+  let fieldIndex = 1;
+  while (form.getFieldMaybe(`Signature${fieldIndex}`)) fieldIndex++;
+
+  const widgetDict = context.obj({
+    Type: 'Annot',
+    Subtype: 'Widget',
+    FT: 'Sig',
+    T: PDFHexString.fromText(`Signature${fieldIndex}`),
+    V: signatureRef,
+    F: 132,
+    P: page.ref,
+    Rect: appearance
+      ? [appearance.x, appearance.y, appearance.x + appearance.width, appearance.y + appearance.height]
+      : [0, 0, 0, 0]
+  });
+  if (appearance) {
+    const lines = appearance.lines ?? [
+      `Digitally signed by ${signerName}`,
+      `Date: ${signingTime.toISOString().replace('T', ' ').slice(0, 19)} UTC`,
+      ...(options.reason ? [`Reason: ${options.reason}`] : []),
+      ...(options.location ? [`Location: ${options.location}`] : [])
+    ];
+    widgetDict.set(PDFName.of('AP'), context.obj({ N: await buildSignatureAppearance(pdfDoc, appearance, lines) }));
+  }
+  const widgetRef = context.register(widgetDict);
+  // PDFPage.node.addAnnot() normalizes the page and wraps its content streams,
+  // which would show up as a content change in the signed revision
+  const annots = page.node.lookupMaybe(PDFName.of('Annots'), PDFArray);
+  if (annots) {
+    annots.push(widgetRef);
+  } else {
+    page.node.set(PDFName.of('Annots'), context.obj([widgetRef]));
+  }
+
+  const acroForm = pdfDoc.catalog.getOrCreateAcroForm();
+  acroForm.addField(widgetRef);
+  acroForm.dict.set(PDFName.of('SigFlags'), context.obj(3));
+
+  await pdfDoc.flush();
+
+  const { text, offsets } = writeIncrementalUpdate(pdfDoc, originalText, snapshot, trailer);
+
+  // Locate the placeholders inside the signature dictionary
+  const signatureOffset = offsets.get(signatureRef.tag) as number;
+  const byteRangeStart = text.indexOf(BYTE_RANGE_PLACEHOLDER, signatureOffset);
+  const contentsStart = text.indexOf('/Contents <', signatureOffset) + '/Contents '.length;
+  const contentsEnd = contentsStart + contentsSize * 2 + 2;
+  if (byteRangeStart < 0 || contentsStart < signatureOffset) {
+    throw new Error('Could not locate the signature placeholders');
+  }
+
+  const byteRange = [0, contentsStart, contentsEnd, text.length - contentsEnd];
+  const withByteRange =
+    text.slice(0, byteRangeStart) +
+    byteRange.join(' ').padEnd(BYTE_RANGE_PLACEHOLDER.length, ' ') +
+    text.slice(byteRangeStart + BYTE_RANGE_PLACEHOLDER.length);
+
+  const digest = forge.md.sha256.create();
+  digest.update(withByteRange.slice(0, contentsStart));
+  digest.update(withByteRange.slice(contentsEnd));
+  const signature = forge.util.bytesToHex(buildCMSSignature(key, digest.digest().getBytes(), subFilter));
+  if (signature.length > contentsSize * 2) {
+    throw new Error('The signature does not fit in the reserved space');
+  }
+
+  return fromBinaryString(
+    withByteRange.slice(0, contentsStart + 1) +
+      signature.toUpperCase().padEnd(contentsSize * 2, '0') +
+      withByteRange.slice(contentsEnd - 1)
+  );
+};
+
+export interface PDFSignatureCertificateInfo {
+  subject: string;
+  issuer: string;
+  serialNumber: string;
+  validFrom: string;
+  validTo: string;
+  selfSigned: boolean;
+}
+
+export interface PDFSignatureModification {
+  kind: 'signature' | 'form' | 'annotation' | 'metadata' | 'content' | 'other';
+  description: string;
+}
+
+export interface PDFSignatureVerification {
+  fieldName: string;
+  subFilter: string;
+  signerName?: string;
+  signingTime?: string;
+  reason?: string;
+  location?: string;
+  signer?: PDFSignatureCertificateInfo;
+  chain: PDFSignatureCertificateInfo[];
+  chainValid: boolean;
+  chainComplete: boolean;
+  coversWholeDocument: boolean;
+  digestMatches: boolean;
+  signatureValid: boolean | null;
+  modifications: PDFSignatureModification[];
+  errors: string[];
+  status: 'valid' | 'modified' | 'invalid' | 'unknown';
+}
+
+/** Strip the zero padding that follows the CMS inside /Contents */
+const trimDer = (der: string): string => {
+  const lengthByte = der.charCodeAt(1);
+  if (lengthByte < 0x80) return der.slice(0, 2 + lengthByte);
+  const lengthSize = lengthByte & 0x7f;
+  let length = 0;
+  for (let i = 0; i < lengthSize; i++) {
+    length = length * 256 + der.charCodeAt(2 + i);
+  }
+  return der.slice(0, 2 + lengthSize + length);
+};
+
+const hashWith = (algorithmOid: string, data: string[]): string | undefined => {
+  const name = forge.pki.oids[algorithmOid];
+  const algorithms: Record<string, () => forge.md.MessageDigest> = {
+    sha1: () => forge.md.sha1.create(),
+    sha256: () => forge.md.sha256.create(),
+    sha384: () => forge.md.sha384.create(),
+    sha512: () => forge.md.sha512.create()
+  };
+  if (!name || !algorithms[name]) return undefined;
+  const digest = algorithms[name]();
+  data.forEach(chunk => digest.update(chunk));
+  return digest.digest().getBytes();
+};
+
+const formatName = (name: forge.pki.Certificate['subject']): string =>
+  name.attributes.map(attribute => `${attribute.shortName || attribute.name || attribute.type}=${attribute.value}`).join(', ');
+
+const describeCertificate = (cert: forge.pki.Certificate): PDFSignatureCertificateInfo => ({
+  subject: formatName(cert.subject),
+  issuer: formatName(cert.issuer),
+  serialNumber: cert.serialNumber,
+  validFrom: cert.validity.notBefore.toISOString(),
+  validTo: cert.validity.notAfter.toISOString(),
+  selfSigned: cert.isIssuer(cert)
+});
+
+/** Find the child of a constructed ASN.1 value with the given context-specific tag */
+const contextChild = (node: forge.asn1.Asn1, tag: number): forge.asn1.Asn1 | undefined =>
+  (node.value as forge.asn1.Asn1[]).find(
+    child => child.tagClass === forge.asn1.Class.CONTEXT_SPECIFIC && child.type === tag
+  );
+
+const universalChildren = (node: forge.asn1.Asn1): forge.asn1.Asn1[] =>
+  (node.value as forge.asn1.Asn1[]).filter(child => child.tagClass === forge.asn1.Class.UNIVERSAL);
+
+/**
+ * Check a CMS SignedData against the signed byte ranges: the message digest,
+ * the signer's signature and the certificate chain embedded in the CMS.
+ */
+const verifyCMSSignature = (
+  cms: string,
+  signedData: string[],
+  subFilter: string
+): Pick<PDFSignatureVerification, 'signer' | 'chain' | 'chainValid' | 'chainComplete' | 'digestMatches' | 'signatureValid' | 'errors'> & { signingTime?: string } => {
+  const { asn1, pki } = forge;
+  const errors: string[] = [];
+  const contentInfo = asn1.fromDer(trimDer(cms));
+  const signedDataNode = (contextChild(contentInfo, 0)?.value as forge.asn1.Asn1[] | undefined)?.[0];
+  if (!signedDataNode) {
+    throw new Error('The signature is not a CMS SignedData');
+  }
+  const [, , encapContentInfo, signerInfos] = universalChildren(signedDataNode);
+  const signerInfo = (signerInfos.value as forge.asn1.Asn1[])[0];
+  if (!signerInfo) {
+    throw new Error('The signature has no signer');
+  }
+
+  const certificates: forge.pki.Certificate[] = [];
+  ((contextChild(signedDataNode, 0)?.value as forge.asn1.Asn1[] | undefined) ?? []).forEach(node => {
+    try {
+      certificates.push(pki.certificateFromAsn1(node));
+    } catch {
+      errors.push('The signature contains a certificate with an unsupported key type');
+    }
+  });
+
+  // Identify the signer by issuer and serial number (or subject key identifier)
+  const [, sid, digestAlgorithm] = universalChildren(signerInfo);
+  let signerCertificate: forge.pki.Certificate | undefined;
+  if (sid.tagClass === asn1.Class.UNIVERSAL) {
+    const [issuer, serial] = sid.value as forge.asn1.Asn1[];
+    const serialNumber = forge.util.bytesToHex(serial.value as string);
+    const issuerDer = asn1.toDer(issuer).getBytes();
+    signerCertificate = certificates.find(
+      cert =>
+        cert.serialNumber.replace(/^0+/, '') === serialNumber.replace(/^0+/, '') &&
+        asn1.toDer(pki.distinguishedNameToAsn1(cert.issuer)).getBytes() === issuerDer
+    );
+  } else {
+    const keyIdentifier = forge.util.bytesToHex(sid.value as string);
+    signerCertificate = certificates.find(
+      cert => cert.generateSubjectKeyIdentifier().toHex() === keyIdentifier
+    );
+  }
+
+  const digestOid = asn1.derToOid(((digestAlgorithm.value as forge.asn1.Asn1[])[0].value) as string);
+  const dataDigest = hashWith(digestOid, signedData);
+  if (!dataDigest) {
+    errors.push(`Unsupported digest algorithm ${digestOid}`);
+  }
+
+  // The signer signs either the data itself or an encapsulated content derived from it
+  const eContent = (contextChild(encapContentInfo, 0)?.value as forge.asn1.Asn1[] | undefined)?.[0];
+  const content = eContent ? (eContent.value as string) : undefined;
+  let digestMatches = false;
+  if (subFilter === 'ETSI.RFC3161' && content) {
+    const tstInfo = asn1.fromDer(content);
+    const [algorithm, hashedMessage] = (tstInfo.value as forge.asn1.Asn1[])[2].value as forge.asn1.Asn1[];
+    const imprintOid = asn1.derToOid(((algorithm.value as forge.asn1.Asn1[])[0].value) as string);
+    digestMatches = hashWith(imprintOid, signedData) === hashedMessage.value;
+  } else if (subFilter === 'adbe.pkcs7.sha1' && content) {
+    digestMatches = hashWith(pki.oids.sha1, signedData) === content;
+  } else {
+    digestMatches = !content && !!dataDigest;
+  }
+  const contentDigest = content !== undefined ? hashWith(digestOid, [content]) : dataDigest;
+
+  const signedAttributes = contextChild(signerInfo, 0);
+  const [signatureAlgorithm, signatureValue] = universalChildren(signerInfo).slice(-2);
+  let signingTime: string | undefined;
+  let signedDigest = contentDigest;
+  if (signedAttributes) {
+    const attributes = signedAttributes.value as forge.asn1.Asn1[];
+    const attributeValue = (oid: string) => {
+      const attribute = attributes.find(node => asn1.derToOid((node.value as forge.asn1.Asn1[])[0].value as string) === oid);
+      return attribute ? ((attribute.value as forge.asn1.Asn1[])[1].value as forge.asn1.Asn1[])[0] : undefined;
+    };
+    const messageDigest = attributeValue(pki.oids.messageDigest)?.value;
+    if (messageDigest !== contentDigest) {
+      if (!content) digestMatches = false;
+      errors.push('The message digest does not match the signed content');
+    }
+    const time = attributeValue(pki.oids.signingTime);
+    if (time) {
+      signingTime = (time.type === asn1.Type.UTCTIME
+        ? asn1.utcTimeToDate(time.value as string)
+        : asn1.generalizedTimeToDate(time.value as string)
+      ).toISOString();
+    }
+    // Signed attributes are signed as a SET, not with their implicit [0] tag
+    const attributesDer = asn1
+      .toDer(asn1.create(asn1.Class.UNIVERSAL, asn1.Type.SET, true, attributes))
+      .getBytes();
+    signedDigest = messageDigest === contentDigest ? hashWith(digestOid, [attributesDer]) : undefined;
+  }
+
+  let signatureValid: boolean | null = null;
+  const signatureOid = asn1.derToOid(((signatureAlgorithm.value as forge.asn1.Asn1[])[0].value) as string);
+  if (!signerCertificate) {
+    errors.push('The signer certificate is not included in the signature');
+  } else if (!['rsaEncryption', 'sha1WithRSAEncryption', 'sha256WithRSAEncryption', 'sha384WithRSAEncryption', 'sha512WithRSAEncryption'].includes(pki.oids[signatureOid])) {
+    errors.push(`Unsupported signature algorithm ${signatureOid}`);
+  } else if (!signedDigest) {
+    signatureValid = false;
+  } else {
+    try {
+      signatureValid = (signerCertificate.publicKey as forge.pki.rsa.PublicKey).verify(
+        signedDigest,
+        signatureValue.value as string
+      );
+    } catch {
+      signatureValid = false;
+    }
+  }
+
+  // Walk up the chain using the certificates embedded in the CMS
+  const chain: forge.pki.Certificate[] = [];
+  let chainValid = true;
+  for (let current = signerCertificate; current && !chain.includes(current); ) {
+    chain.push(current);
+    if (current.isIssuer(current)) break;
+    const child: forge.pki.Certificate = current;
+    const issuer = certificates.find(cert => cert !== child && cert.issued(child));
+    if (issuer) {
+      try {
+        chainValid = chainValid && issuer.verify(child);
+      } catch {
+        chainValid = false;
+      }
+    }
+    current = issuer;
+  }
+  const root = chain[chain.length - 1];
+
+  return {
+    signer: signerCertificate && describeCertificate(signerCertificate),
+    chain: chain.map(describeCertificate),
+    chainValid: chain.length > 0 && chainValid,
+    chainComplete: !!root && root.isIssuer(root),
+    digestMatches,
+    signatureValid,
+    signingTime,
+    errors
+  };
+};
+
+/**
+ * Compare the revision covered by a signature with the current document and
+ * describe every change made after signing.
+ */
+const describeModifications = async (
+  signedRevision: Uint8Array,
+  pdfDoc: PDFDocument,
+  current: Map<string, string>
+): Promise<PDFSignatureModification[]> => {
+  const signedDoc = await PDFDocument.load(signedRevision, { updateMetadata: false, ignoreEncryption: true });
+  const before = snapshotObjects(signedDoc.context);
+  const modifications: PDFSignatureModification[] = [];
+  const add = (kind: PDFSignatureModification['kind'], description: string) => {
+    if (!modifications.some(item => item.description === description)) modifications.push({ kind, description });
+  };
+
+  // Classify the objects of the signed revision
+  const roles = new Map<string, { role: 'page' | 'content' | 'annots' | 'annotation' | 'widget' | 'field' | 'ignored'; page?: number; name?: string }>();
+  const refTag = (object: PDFObject | undefined) => (object instanceof PDFRef ? object.tag : undefined);
+  signedDoc.getPages().forEach((page, index) => {
+    roles.set(page.ref.tag, { role: 'page', page: index + 1 });
+    const contents = page.node.get(PDFName.of('Contents'));
+    const contentsTag = refTag(contents);
+    if (contentsTag) roles.set(contentsTag, { role: 'content', page: index + 1 });
+    const contentsArray = signedDoc.context.lookup(contents);
+    if (contentsArray instanceof PDFArray) {
+      contentsArray.asArray().forEach(item => {
+        const tag = refTag(item);
+        if (tag) roles.set(tag, { role: 'content', page: index + 1 });
+      });
+    }
+    const annotsTag = refTag(page.node.get(PDFName.of('Annots')));
+    if (annotsTag) roles.set(annotsTag, { role: 'annots', page: index + 1 });
+    page.node.Annots()?.asArray().forEach(annot => {
+      const tag = refTag(annot);
+      const dict = signedDoc.context.lookup(annot);
+      if (tag && dict instanceof PDFDict) {
+        const isWidget = dict.get(PDFName.of('Subtype')) === PDFName.of('Widget');
+        roles.set(tag, { role: isWidget ? 'widget' : 'annotation', page: index + 1 });
+      }
+    });
+  });
+  const signedForm = signedDoc.catalog.getAcroForm();
+  if (signedForm) {
+    const acroFormTag = refTag(signedDoc.catalog.get(PDFName.of('AcroForm')));
+    const fieldsTag = refTag(signedForm.dict.get(PDFName.of('Fields')));
+    if (acroFormTag) roles.set(acroFormTag, { role: 'ignored' });
+    if (fieldsTag) roles.set(fieldsTag, { role: 'ignored' });
+    signedForm.getAllFields().forEach(([field, ref]) => {
+      roles.set(ref.tag, { role: 'field', name: field.getFullyQualifiedName() ?? ref.tag });
+    });
+  }
+  const signedInfo = refTag(signedDoc.context.trailerInfo.Info);
+  const signedMetadata = refTag(signedDoc.catalog.get(PDFName.of('Metadata')));
+
+  if (signedDoc.getPageCount() !== pdfDoc.getPageCount()) {
+    add('content', `Page count changed from ${signedDoc.getPageCount()} to ${pdfDoc.getPageCount()}`);
+  }
+
+  // Fields added after signing; new signature fields are expected
+  const currentForm = pdfDoc.catalog.getAcroForm();
+  const addedFieldWidgets = new Set<string>();
+  currentForm?.getAllFields().forEach(([field, ref]) => {
+    if (before.has(ref.tag)) return;
+    const name = field.getFullyQualifiedName() ?? ref.tag;
+    const isSignature = field.dict.get(PDFName.of('FT')) === PDFName.of('Sig');
+    add(isSignature ? 'signature' : 'form', `${isSignature ? 'Signature' : 'Form'} field ${name} added`);
+    if (field instanceof PDFAcroTerminal) {
+      field.getWidgets().forEach(widget => {
+        const widgetRef = pdfDoc.context.getObjectRef(widget.dict);
+        if (widgetRef) addedFieldWidgets.add(widgetRef.tag);
+      });
+    }
+    addedFieldWidgets.add(ref.tag);
+  });
+
+  const describeAnnotsChange = (page: number, oldAnnots: PDFObject | undefined, newAnnots: PDFObject | undefined) => {
+    const tags = (doc: PDFDocument, annots: PDFObject | undefined) => {
+      const array = annots && doc.context.lookup(annots);
+      return new Set(array instanceof PDFArray ? array.asArray().map(refTag).filter((tag): tag is string => !!tag) : []);
+    };
+    const oldTags = tags(signedDoc, oldAnnots);
+    const newTags = tags(pdfDoc, newAnnots);
+    newTags.forEach(tag => {
+      if (oldTags.has(tag) || addedFieldWidgets.has(tag)) return;
+      const dict = pdfDoc.context.lookup(PDFRef.of(...(tag.split(' ').slice(0, 2).map(Number) as [number, number])));
+      const isWidget = dict instanceof PDFDict && dict.get(PDFName.of('Subtype')) === PDFName.of('Widget');
+      add(isWidget ? 'form' : 'annotation', `${isWidget ? 'Form widget' : 'Annotation'} added on page ${page}`);
+    });
+    oldTags.forEach(tag => {
+      if (!newTags.has(tag)) add('annotation', `Annotation removed from page ${page}`);
+    });
+  };
+
+  current.forEach((data, tag) => {
+    const previous = before.get(tag);
+    if (previous === undefined || previous === data) return;
+    const role = roles.get(tag);
+    const [objectNumber, generationNumber] = tag.split(' ').map(Number);
+    const ref = PDFRef.of(objectNumber, generationNumber);
+
+    if (role?.role === 'page') {
+      const oldPage = signedDoc.context.lookup(ref, PDFDict);
+      const newPage = pdfDoc.context.lookup(ref, PDFDict);
+      const keys = new Set([...oldPage.keys(), ...newPage.keys()].map(key => key.asString()));
+      const changedKeys = [...keys].filter(key => {
+        const oldValue = oldPage.get(PDFName.of(key.slice(1)));
+        const newValue = newPage.get(PDFName.of(key.slice(1)));
+        return (oldValue && serializeObject(oldValue)) !== (newValue && serializeObject(newValue));
+      });
+      changedKeys.forEach(key => {
+        if (key === '/Annots') {
+          describeAnnotsChange(role.page as number, oldPage.get(PDFName.of('Annots')), newPage.get(PDFName.of('Annots')));
+        } else {
+          add('content', `Page ${role.page} changed (${key})`);
+        }
+      });
+    } else if (role?.role === 'annots') {
+      describeAnnotsChange(role.page as number, ref, ref);
+    } else if (role?.role === 'content') {
+      add('content', `Content of page ${role.page} changed`);
+    } else if (role?.role === 'field') {
+      const field = pdfDoc.context.lookup(ref);
+      const isSignature = field instanceof PDFDict && field.get(PDFName.of('FT')) === PDFName.of('Sig');
+      add(isSignature ? 'signature' : 'form', `${isSignature ? 'Signature' : 'Form'} field ${role.name} ${isSignature ? 'signed' : 'changed'}`);
+    } else if (role?.role === 'widget') {
+      add('form', `Form widget on page ${role.page} changed`);
+    } else if (role?.role === 'annotation') {
+      add('annotation', `Annotation on page ${role.page} changed`);
+    } else if (tag === signedInfo || tag === signedMetadata) {
+      add('metadata', 'Document metadata changed');
+    } else if (tag === signedDoc.context.trailerInfo.Root?.toString()) {
+      const oldCatalog = signedDoc.catalog;
+      const newCatalog = pdfDoc.catalog;
+      const keys = new Set([...oldCatalog.keys(), ...newCatalog.keys()].map(key => key.asString()));
+      keys.forEach(key => {
+        if (['/AcroForm', '/DSS', '/Metadata'].includes(key)) return;
+        const oldValue = oldCatalog.get(PDFName.of(key.slice(1)));
+        const newValue = newCatalog.get(PDFName.of(key.slice(1)));
+        if ((oldValue && serializeObject(oldValue)) !== (newValue && serializeObject(newValue))) {
+          add('other', `Document catalog entry ${key} changed`);
+        }
+      });
+    } else if (role?.role !== 'ignored') {
+      add('other', `Object ${objectNumber} ${generationNumber} R changed`);
+    }
+  });
+
+  return modifications;
+};
+
+/**
+ * Verify every signature in a PDF: the ByteRange digest, the CMS signature,
+ * the embedded certificate chain and changes made after each signature.
+ */
+export const verifyPDFSignatureBytes = async (pdfBytes: Uint8Array): Promise<PDFSignatureVerification[]> => {
+  const pdfDoc = await PDFDocument.load(pdfBytes, { updateMetadata: false, ignoreEncryption: true });
+  const acroForm = pdfDoc.catalog.getAcroForm();
+  if (!acroForm) return [];
+
+  const text = toBinaryString(pdfBytes);
+  const current = snapshotObjects(pdfDoc.context);
+  const results: PDFSignatureVerification[] = [];
+
+  for (const [field, ref] of acroForm.getAllFields()) {
+    if (field.dict.get(PDFName.of('FT')) !== PDFName.of('Sig')) continue;
+    const signature = field.dict.lookupMaybe(PDFName.of('V'), PDFDict);
+    if (!signature) continue;
+
+    const readText = (key: string) => {
+      const value = signature.lookup(PDFName.of(key));
+      return value instanceof PDFString || value instanceof PDFHexString ? value : undefined;
+    };
+    const subFilter = signature.lookupMaybe(PDFName.of('SubFilter'), PDFName)?.decodeText() ?? '';
+    const result: PDFSignatureVerification = {
+      fieldName: field.getFullyQualifiedName() ?? ref.tag,
+      subFilter,
+      signerName: readText('Name')?.decodeText(),
+      reason: readText('Reason')?.decodeText(),
+      location: readText('Location')?.decodeText(),
+      chain: [],
+      chainValid: false,
+      chainComplete: false,
+      coversWholeDocument: false,
+      digestMatches: false,
+      signatureValid: null,
+      modifications: [],
+      errors: [],
+      status: 'invalid'
+    };
+    try {
+      result.signingTime = readText('M')?.decodeDate().toISOString();
+    } catch {
+      // Ignore malformed dates; the CMS signing time is used instead
+    }
+
+    let failed = false;
+    try {
+      const byteRange = signature
+        .lookup(PDFName.of('ByteRange'), PDFArray)
+        .asArray()
+        .map(item => (pdfDoc.context.lookup(item, PDFNumber) as PDFNumber).asNumber());
+      const [start, firstLength, secondStart, secondLength] = byteRange;
+      const signedLength = secondStart + secondLength;
+      if (
+        byteRange.length !== 4 ||
+        start !== 0 ||
+        signedLength > pdfBytes.length ||
+        text[firstLength] !== '<' ||
+        text[secondStart - 1] !== '>'
+      ) {
+        throw new Error('The ByteRange does not surround the signature');
+      }
+      result.coversWholeDocument = signedLength === pdfBytes.length;
+
+      const contents = signature.lookup(PDFName.of('Contents'));
+      if (!(contents instanceof PDFHexString || contents instanceof PDFString)) {
+        throw new Error('The signature has no contents');
+      }
+      const cms = verifyCMSSignature(
+        toBinaryString(contents.asBytes()),
+        [text.slice(0, firstLength), text.slice(secondStart, signedLength)],
+        subFilter
+      );
+      const { signingTime, errors, ...checks } = cms;
+      Object.assign(result, checks);
+      result.signingTime = result.signingTime ?? signingTime;
+      result.errors.push(...errors);
+
+      if (!result.coversWholeDocument) {
+        result.modifications = await describeModifications(pdfBytes.slice(0, signedLength), pdfDoc, current);
+      }
+    } catch (error) {
+      failed = true;
+      result.errors.push(error instanceof Error ? error.message : String(error));
+    }
+
+    if (failed || !result.digestMatches || result.signatureValid === false) {
+      result.status = 'invalid';
+    } else if (result.signatureValid === null) {
+      result.status = 'unknown';
+    } else if (result.modifications.some(item => item.kind === 'content' || item.kind === 'other')) {
+      result.status = 'modified';
+    } else {
+      result.status = 'valid';
+    }
+    results.push(result);
+  }
+
+  return results;
+};